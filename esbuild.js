@@ -15,13 +15,26 @@ const buildOptions = {
   minify: !watch,
 };
 
+/**
+ * The `bespoke-pool` CLI and headless pool daemon. Runs under plain Node,
+ * so it must not pull in `vscode`.
+ * @type {import('esbuild').BuildOptions}
+ */
+const poolCliOptions = {
+  ...buildOptions,
+  entryPoints: ['src/pool-server/cli.ts'],
+  outfile: 'dist/pool-cli.js',
+  external: ['@anthropic-ai/claude-agent-sdk'],
+  banner: { js: '#!/usr/bin/env node' },
+};
+
 async function main() {
   if (watch) {
-    const ctx = await esbuild.context(buildOptions);
-    await ctx.watch();
+    const contexts = await Promise.all([buildOptions, poolCliOptions].map(esbuild.context));
+    await Promise.all(contexts.map((ctx) => ctx.watch()));
     console.log('Watching for changes...');
   } else {
-    await esbuild.build(buildOptions);
+    await Promise.all([esbuild.build(buildOptions), esbuild.build(poolCliOptions)]);
     console.log('Build complete.');
   }
 }
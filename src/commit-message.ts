@@ -8,6 +8,8 @@ import { getWorkspaceRoot } from './utils/workspace';
 import type { GitExtension, Repository } from './types/git';
 
 const TIMEOUT_MS = 60_000;
+/** Characters of the streaming subject line shown in the progress notification. */
+const PROGRESS_PREVIEW_CHARS = 72;
 
 let inFlight = false;
 
@@ -137,13 +139,18 @@ async function doGenerateCommitMessage(
       title: 'Bespoke AI: Generating commit message...',
       cancellable: true,
     },
-    async (_progress, token) => {
+    async (progress, token) => {
       const controller = new AbortController();
       token.onCancellationRequested(() => controller.abort());
 
       return router.sendCommand(fullMessage, {
         timeoutMs: TIMEOUT_MS,
         onCancel: controller.signal,
+        // Live preview of the subject line while the response streams
+        onPartial: (partial) => {
+          const subject = partial.trim().split('\n')[0];
+          if (subject) progress.report({ message: subject.slice(0, PROGRESS_PREVIEW_CHARS) });
+        },
       });
     },
   );
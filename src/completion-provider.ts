@@ -1,15 +1,23 @@
 import * as vscode from 'vscode';
 import {
   CompletionContext,
+  CompletionMode,
   CompletionProvider as ICompletionProvider,
+  CompletionSource,
   ExtensionConfig,
 } from './types';
 import { detectMode } from './mode-detector';
 import { buildDocumentContext } from './utils/context-builder';
+import { findRoutingRule } from './utils/routing-rules';
 import { LRUCache } from './utils/cache';
 import { Debouncer } from './utils/debouncer';
 import { Logger, generateRequestId } from './utils/logger';
 import { UsageTracker } from './utils/usage-tracker';
+import { RelatedFilesTracker } from './utils/related-files';
+import { WorkspaceIndex } from './utils/workspace-index';
+import { collectSymbolContext } from './utils/symbol-context';
+import { AcceptanceTracker } from './utils/acceptance-tracker';
+import { getPreset } from './providers/api/presets';
 
 /** Characters that suppress auto-completion when they are the last typed character.
  * In prose mode, these typically end a thought or open a new context where triggering
@@ -18,6 +26,9 @@ import { UsageTracker } from './utils/usage-tracker';
 const PROSE_SUPPRESS_AFTER = new Set(['.', '?', '!', ';', '(', '[', '{', '"', "'", '`', ':', ',']);
 const CODE_SUPPRESS_AFTER = new Set([';']);
 
+/** Language-server lookups slower than this are dropped rather than delaying the completion. */
+const SYMBOL_TIMEOUT_MS = 300;
+
 export class CompletionProvider implements vscode.InlineCompletionItemProvider {
   private provider: ICompletionProvider;
   private cache: LRUCache;
@@ -25,6 +36,9 @@ export class CompletionProvider implements vscode.InlineCompletionItemProvider {
   private config: ExtensionConfig;
   private logger: Logger;
   private tracker?: UsageTracker;
+  private relatedFiles?: RelatedFilesTracker;
+  private workspaceIndex?: WorkspaceIndex;
+  private acceptance?: AcceptanceTracker;
   private onRequestStart?: () => void;
   private onRequestEnd?: () => void;
   private lastErrorToastTime = 0;
@@ -34,6 +48,8 @@ export class CompletionProvider implements vscode.InlineCompletionItemProvider {
     provider: ICompletionProvider,
     logger: Logger,
     tracker?: UsageTracker,
+    relatedFiles?: RelatedFilesTracker,
+    acceptance?: AcceptanceTracker,
   ) {
     this.config = config;
     this.provider = provider;
@@ -41,6 +57,8 @@ export class CompletionProvider implements vscode.InlineCompletionItemProvider {
     this.debouncer = new Debouncer(config.debounceMs);
     this.logger = logger;
     this.tracker = tracker;
+    this.relatedFiles = relatedFiles;
+    this.acceptance = acceptance;
   }
 
   setRequestCallbacks(onStart: () => void, onEnd: () => void): void {
@@ -48,6 +66,11 @@ export class CompletionProvider implements vscode.InlineCompletionItemProvider {
     this.onRequestEnd = onEnd;
   }
 
+  /** Attach (or detach, with undefined) the workspace retrieval index. */
+  setWorkspaceIndex(index: WorkspaceIndex | undefined): void {
+    this.workspaceIndex = index;
+  }
+
   updateConfig(config: ExtensionConfig): void {
     this.config = config;
     this.debouncer.setDelay(config.debounceMs);
@@ -88,11 +111,20 @@ export class CompletionProvider implements vscode.InlineCompletionItemProvider {
     // Detect mode
     const mode = detectMode(document.languageId, this.config);
 
-    // Build document context
+    // Build document context — a routing rule may size it for its backend
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath;
+    const rule = findRoutingRule(this.config.routing.rules, {
+      mode,
+      languageId: document.languageId,
+      filePath: document.fileName,
+      workspaceFolder,
+    });
     const contextChars =
-      mode === 'code' ? this.config.code.contextChars : this.config.prose.contextChars;
+      rule?.contextChars ??
+      (mode === 'code' ? this.config.code.contextChars : this.config.prose.contextChars);
     const suffixChars =
-      mode === 'code' ? this.config.code.suffixChars : this.config.prose.suffixChars;
+      rule?.suffixChars ??
+      (mode === 'code' ? this.config.code.suffixChars : this.config.prose.suffixChars);
     const docContext = buildDocumentContext(document, position, contextChars, suffixChars);
 
     // Skip if no prefix content
@@ -113,6 +145,8 @@ export class CompletionProvider implements vscode.InlineCompletionItemProvider {
     const completionContext: CompletionContext = {
       ...docContext,
       mode,
+      ...(workspaceFolder && { workspaceFolder }),
+      ...(isExplicitTrigger && { explicit: true }),
     };
 
     // Generate request ID for log correlation
@@ -120,16 +154,20 @@ export class CompletionProvider implements vscode.InlineCompletionItemProvider {
 
     // Check cache
     const cacheKey = LRUCache.makeKey(mode, docContext.prefix, docContext.suffix);
-    const cached = this.cache.get(cacheKey);
+    const exact = this.cache.getAll(cacheKey);
+    const typeahead = exact
+      ? null
+      : this.cache.findTypeahead(mode, docContext.prefix, docContext.suffix);
+    const cached = exact ?? (typeahead ? [typeahead.text] : null);
     if (cached) {
-      this.logger.cacheHit(reqId, cached.length);
-      this.logger.traceBlock('← cached value', cached);
-      this.tracker?.recordCacheHit();
-      const item = new vscode.InlineCompletionItem(cached, new vscode.Range(position, position));
+      this.logger.cacheHit(reqId, cached[0].length);
+      this.logger.traceBlock(exact ? '← cached value' : '← cached value (typeahead)', cached[0]);
+      this.tracker?.recordCacheHit(!exact);
       this.logger.trace(
-        `returning cache hit: insertText=${JSON.stringify(cached.slice(0, 50))}... range=${position.line}:${position.character}`,
+        `returning cache hit: insertText=${JSON.stringify(cached[0].slice(0, 50))}... range=${position.line}:${position.character}`,
       );
-      return [item];
+      const source = exact ? this.cache.getSource(cacheKey) : typeahead?.source;
+      return this.makeItems(document, position, cached, mode, source ?? this.sourceOf());
     }
 
     // Debounce — explicit triggers fire immediately (zero delay)
@@ -144,8 +182,50 @@ export class CompletionProvider implements vscode.InlineCompletionItemProvider {
       return null;
     }
 
-    // Get completion from provider
-    const startTime = Date.now();
+    // Cross-file context for code — gathered after the debounce so keystrokes
+    // that never reach the backend don't pay for it
+    if (mode === 'code' && this.relatedFiles) {
+      const related = this.relatedFiles.collect(
+        document,
+        docContext.prefix,
+        docContext.suffix,
+        this.config.code.relatedFilesChars,
+      );
+      if (related.length > 0) {
+        completionContext.relatedFiles = related;
+        this.logger.trace(`#${reqId} related files: ${related.map((r) => r.filePath).join(', ')}`);
+      }
+    }
+
+    if (mode === 'code' && this.config.code.symbolContext) {
+      const symbols = await collectSymbolContext(
+        document,
+        position,
+        docContext.prefix,
+        SYMBOL_TIMEOUT_MS,
+      );
+      if (token.isCancellationRequested) {
+        this.logger.trace(`#${reqId} cancelled during symbol lookup`);
+        return null;
+      }
+      if (symbols.length > 0) {
+        completionContext.symbols = symbols;
+        this.logger.trace(`#${reqId} symbols: ${symbols.map((s) => s.name).join(', ')}`);
+      }
+    }
+
+    if (this.config.workspaceIndex.enabled && this.workspaceIndex) {
+      const retrieved = this.workspaceIndex.search(
+        docContext.prefix,
+        docContext.suffix,
+        docContext.filePath,
+        this.config.workspaceIndex.maxChars,
+      );
+      if (retrieved.length > 0) {
+        completionContext.retrievedChunks = retrieved;
+        this.logger.trace(`#${reqId} retrieved: ${retrieved.map((r) => r.filePath).join(', ')}`);
+      }
+    }
 
     // Log request start with structured format
     this.logger.requestStart(reqId, {
@@ -164,9 +244,124 @@ export class CompletionProvider implements vscode.InlineCompletionItemProvider {
 
     this.tracker?.recordCacheMiss();
     this.onRequestStart?.();
+
+    // Streaming: resolve early with the first line once it is stable. The
+    // request keeps running; the full text is cached when it arrives.
+    let resolveFirstLine: ((line: string) => void) | undefined;
+    const firstLinePromise = new Promise<string>((resolve) => {
+      resolveFirstLine = resolve;
+    });
+    const onPartial = this.config.streaming
+      ? (partial: string) => {
+          const line = stableFirstLine(partial);
+          if (line) resolveFirstLine?.(line);
+        }
+      : undefined;
+
+    const fullPromise = this.requestCompletion(
+      reqId,
+      completionContext,
+      cacheKey,
+      signal,
+      token,
+      onPartial,
+    );
+
+    const winner = await Promise.race([
+      fullPromise.then((texts) => ({ streamed: false, texts })),
+      firstLinePromise.then((text) => ({ streamed: true, texts: [text] })),
+    ]);
+
+    if (!winner.texts?.length) {
+      return null;
+    }
+
+    if (winner.streamed) {
+      const firstLine = winner.texts[0];
+      const version = document.version;
+      this.logger.trace(`#${reqId} streaming: showing first line (${firstLine.length} chars)`);
+      // Once the full completion is cached, re-trigger so the ghost text grows
+      // to the full suggestion (and any other candidates become available) —
+      // unless the user has moved on in the meantime.
+      fullPromise.then((full) => {
+        if (
+          full &&
+          (full[0] !== firstLine || full.length > 1) &&
+          !token.isCancellationRequested &&
+          document.version === version
+        ) {
+          vscode.commands.executeCommand('editor.action.inlineSuggest.trigger');
+        }
+      });
+    }
+
+    this.logger.trace(
+      `returning completion: insertText=${JSON.stringify(winner.texts[0].slice(0, 50))}... range=${position.line}:${position.character}${winner.texts.length > 1 ? ` (+${winner.texts.length - 1} candidates)` : ''}`,
+    );
+    return this.makeItems(document, position, winner.texts, mode, this.sourceOf(completionContext));
+  }
+
+  /**
+   * One item per candidate, wired up for accept/ignore tracking. VS Code shows
+   * the first and cycles through the rest with its next/previous inline
+   * suggestion commands.
+   */
+  private makeItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    texts: string[],
+    mode: CompletionMode,
+    source: CompletionSource,
+  ): vscode.InlineCompletionItem[] {
+    const commands = this.acceptance?.track(document, position, texts, {
+      model: source.model,
+      backend: source.backend,
+      mode,
+      languageId: document.languageId,
+    });
+    return texts.map((text, i) => {
+      const item = new vscode.InlineCompletionItem(text, new vscode.Range(position, position));
+      if (commands) item.command = commands[i];
+      return item;
+    });
+  }
+
+  /**
+   * The backend and model behind the completions for `context`, as the
+   * provider reports them — else (or before it knows) the configured backend.
+   */
+  private sourceOf(context?: CompletionContext): CompletionSource {
+    const reported = context && this.provider.getSource?.(context);
+    if (reported) return reported;
+    if (this.config.backend === 'api') {
+      const preset = this.config.api.preset;
+      return { backend: 'api', model: getPreset(preset)?.modelId ?? preset };
+    }
+    return { backend: 'claude-code', model: this.config.claudeCode.model };
+  }
+
+  /**
+   * Run one backend request: logging, usage tracking, caching and error toasts.
+   * Resolves with the full post-processed completions, primary first (or null).
+   * May outlive the provideInlineCompletionItems call that started it when streaming.
+   */
+  private async requestCompletion(
+    reqId: string,
+    completionContext: CompletionContext,
+    cacheKey: string,
+    signal: AbortSignal,
+    token: vscode.CancellationToken,
+    onPartial?: (partial: string) => void,
+  ): Promise<string[] | null> {
+    const startTime = Date.now();
     try {
-      const result = await this.provider.getCompletion(completionContext, signal);
+      const count = this.config.candidates;
+      const results =
+        count > 1 && this.provider.getCandidates
+          ? await this.provider.getCandidates(completionContext, signal, count, onPartial)
+          : [await this.provider.getCompletion(completionContext, signal, onPartial)];
       const durationMs = Date.now() - startTime;
+      const result = results[0];
 
       if (!result) {
         this.logger.requestEnd(reqId, {
@@ -179,25 +374,32 @@ export class CompletionProvider implements vscode.InlineCompletionItemProvider {
         );
         return null;
       }
+      const candidates = results.filter((r): r is string => !!r);
 
       this.logger.requestEnd(reqId, {
         durationMs,
         resultLen: result.length,
       });
+      if (candidates.length > 1) {
+        this.logger.trace(`#${reqId} ${candidates.length} candidates`);
+      }
 
       // Record successful completion in usage tracker
-      const inputChars = docContext.prefix.length + docContext.suffix.length;
-      const modelLabel =
-        this.config.backend === 'api' ? this.config.api.preset : this.config.claudeCode.model;
-      this.tracker?.record(modelLabel, inputChars, result.length);
-
-      // Cache and return
-      this.cache.set(cacheKey, result);
-      const item = new vscode.InlineCompletionItem(result, new vscode.Range(position, position));
-      this.logger.trace(
-        `returning completion: insertText=${JSON.stringify(result.slice(0, 50))}... range=${position.line}:${position.character}`,
+      const inputChars = completionContext.prefix.length + completionContext.suffix.length;
+      const source = this.sourceOf(completionContext);
+      this.tracker?.record(source.model, inputChars, result.length);
+
+      this.cache.set(
+        cacheKey,
+        candidates,
+        {
+          mode: completionContext.mode,
+          prefix: completionContext.prefix,
+          suffix: completionContext.suffix,
+        },
+        source,
       );
-      return [item];
+      return candidates;
     } catch (err: unknown) {
       this.logger.error(`✗ #${reqId} | error`, err);
       this.tracker?.recordError();
@@ -217,3 +419,14 @@ export class CompletionProvider implements vscode.InlineCompletionItemProvider {
     this.debouncer.dispose();
   }
 }
+
+/**
+ * The first line of a streaming completion, once it is complete (a newline
+ * follows it). Leading blank lines are kept so the ghost text starts on the
+ * same line the full completion would. Returns null until a non-blank line
+ * has been terminated.
+ */
+export function stableFirstLine(partial: string): string | null {
+  const match = partial.match(/^\s*?[^\n]*\S[^\n]*(?=\n)/);
+  return match ? match[0] : null;
+}
@@ -4,12 +4,15 @@ import {
   DEFAULT_MODEL,
   ExtensionConfig,
   CustomPreset,
+  FallbackTrigger,
+  RoutingRule,
   TriggerPreset,
   resolvePreset,
 } from './types';
 import { CompletionProvider } from './completion-provider';
 import { PoolClient } from './pool-server/client';
-import { BackendRouter } from './providers/backend-router';
+import { PoolSleepState, SlotStats } from './pool-server/protocol';
+import { BackendRouter, isClaudeCodeTarget } from './providers/backend-router';
 import { ApiCompletionProvider } from './providers/api/api-provider';
 import { ApiCommandProvider } from './providers/api/api-command-provider';
 import {
@@ -28,7 +31,12 @@ import { generateCommitMessage } from './commit-message';
 import { suggestEdit, originalContentProvider, correctedContentProvider } from './suggest-edit';
 import { explainSelection, fixSelection, doSelection } from './commands/context-menu';
 import { UsageTracker } from './utils/usage-tracker';
-import { UsageLedger } from './utils/usage-ledger';
+import { UsageLedger, PeriodStats } from './utils/usage-ledger';
+import { BudgetGuard } from './utils/budget';
+import { RelatedFilesTracker } from './utils/related-files';
+import { AcceptanceTracker } from './utils/acceptance-tracker';
+import { WorkspaceIndex } from './utils/workspace-index';
+import { getWorkspaceRoot } from './utils/workspace';
 import {
   initSecretStorage,
   loadSecretKey,
@@ -37,7 +45,7 @@ import {
   resolveApiKeySource,
   type ApiKeySource,
 } from './utils/api-key-store';
-import { STATE_DIR } from './pool-server';
+import { STATE_DIR, readOrCreateToken } from './pool-server';
 import { detectMode } from './mode-detector';
 
 const MODE_LABELS = ['auto', 'prose', 'code'] as const;
@@ -88,6 +96,12 @@ const API_WELCOME_SHOWN_KEY = 'bespokeAI.apiWelcomeShown';
 const ONBOARDING_SHOWN_KEY = 'bespokeAI.onboardingShown';
 const CUSTOM_PRESETS_SEEDED_KEY = 'bespokeAI.customPresetsSeeded';
 
+/**
+ * Longest `deactivate()` waits for another window to warm up and take over the
+ * pool server — well inside the ~5s VS Code allows before killing the host.
+ */
+const DEACTIVATE_HANDOFF_MS = 2_000;
+
 let statusBarItem: vscode.StatusBarItem;
 let statusBarState: StatusBarState = 'initializing';
 let setupReason: SetupReason = null;
@@ -99,12 +113,18 @@ let activeRequests = 0;
 let lastConfig: ExtensionConfig;
 let usageTracker: UsageTracker;
 let usageLedger: UsageLedger;
+let budgetGuard: BudgetGuard;
 let extensionContext: vscode.ExtensionContext;
 let autoSelectedPresetId: string | null = null;
+/** Sleep state of this window's completion pool (CLI backend). */
+let poolSleepState: PoolSleepState = 'awake';
+/** Label of the fallback backend serving completions, while the configured one fails. */
+let activeFallback: string | null = null;
+let workspaceIndex: WorkspaceIndex | undefined;
 
 export function activate(context: vscode.ExtensionContext) {
   extensionContext = context;
-  logger = new Logger('Bespoke AI');
+  logger = new Logger(vscode.window.createOutputChannel('Bespoke AI'));
   context.subscriptions.push(logger);
 
   const config = loadConfig();
@@ -134,6 +154,17 @@ export function activate(context: vscode.ExtensionContext) {
 
   usageLedger = new UsageLedger(path.join(STATE_DIR, 'usage-ledger.jsonl'), logger);
   context.subscriptions.push({ dispose: () => usageLedger.dispose() });
+  budgetGuard = new BudgetGuard(usageLedger, config, logger, (message, level) => {
+    const show =
+      level === 'exceeded'
+        ? vscode.window.showWarningMessage
+        : vscode.window.showInformationMessage;
+    show(`Bespoke AI: ${message}.`, 'Budget Settings').then((choice) => {
+      if (choice) {
+        vscode.commands.executeCommand('workbench.action.openSettings', 'bespokeAI.budget');
+      }
+    });
+  });
 
   // Generate unique client ID for this VS Code window
   const clientId = `vscode-${process.pid}-${Date.now().toString(36)}`;
@@ -145,7 +176,10 @@ export function activate(context: vscode.ExtensionContext) {
     ledger: usageLedger,
     clientId,
     onPoolDegraded: async (pool, reason) => {
-      if (pool === 'completion') {
+      if (lastConfig.backend !== 'claude-code') {
+        // Only a server shared with API windows — another window owns these pools
+        logger.error(`${pool === 'completion' ? 'Completion' : 'Command'}Pool degraded: ${reason}`);
+      } else if (pool === 'completion') {
         setupReason = { backend: 'cli', issue: 'pool-degraded', reason };
         updateStatusBar(lastConfig, 'setup-needed');
 
@@ -169,6 +203,25 @@ export function activate(context: vscode.ExtensionContext) {
         logger.error(`CommandPool degraded: ${reason}`);
       }
     },
+    onPoolStateChange: (pool, state) => {
+      if (pool !== 'completion') return;
+      poolSleepState = state;
+      if (lastConfig.enabled && statusBarState === 'ready') updateStatusBar(lastConfig);
+    },
+    onApiBreakerChange: (preset, open) => {
+      const config = lastConfig;
+      if (config.backend !== 'api' || !config.api.sharedServer || preset !== config.api.preset) {
+        return;
+      }
+      if (open) {
+        const presetName = getPreset(preset)?.displayName ?? preset;
+        setupReason = { backend: 'api', issue: 'circuit-open', presetName };
+        updateStatusBar(config, 'setup-needed');
+      } else {
+        setupReason = null;
+        updateStatusBar(config, 'ready');
+      }
+    },
     onRoleChange: (role) => {
       logger.info(`Pool client role changed to: ${role}`);
     },
@@ -214,6 +267,13 @@ export function activate(context: vscode.ExtensionContext) {
 
   // BackendRouter wraps both backends
   backendRouter = new BackendRouter(poolClient, apiCompletion, apiCommand, config);
+  backendRouter.setLedger(usageLedger);
+  backendRouter.setBudget(budgetGuard);
+  backendRouter.onFallbackChange = (label) => {
+    logger.info(label ? `Fallback: completing with ${label}` : 'Fallback: back to the primary');
+    activeFallback = label;
+    if (lastConfig.enabled && statusBarState === 'ready') updateStatusBar(lastConfig);
+  };
   context.subscriptions.push({ dispose: () => backendRouter.dispose() });
 
   // Set context for context menu visibility (CLI-only commands)
@@ -235,6 +295,7 @@ export function activate(context: vscode.ExtensionContext) {
       logger.error(`Pool activation failed: ${err}`);
     });
   } else if (config.enabled && config.backend === 'api') {
+    activatePoolClientForApi(config);
     // Wait for SecretStorage keys to load before checking availability —
     // resolveApiKey() is synchronous, so the cache must be populated first.
     keyLoadPromise.then(() => {
@@ -263,9 +324,24 @@ export function activate(context: vscode.ExtensionContext) {
     logger.info('Extension disabled at startup — pools not started');
   }
 
-  completionProvider = new CompletionProvider(config, backendRouter, logger, usageTracker);
+  const relatedFiles = new RelatedFilesTracker();
+  context.subscriptions.push(relatedFiles);
+  const acceptance = new AcceptanceTracker(usageLedger, logger);
+  context.subscriptions.push(acceptance);
+
+  completionProvider = new CompletionProvider(
+    config,
+    backendRouter,
+    logger,
+    usageTracker,
+    relatedFiles,
+    acceptance,
+  );
   context.subscriptions.push({ dispose: () => completionProvider.dispose() });
 
+  syncWorkspaceIndex(config);
+  context.subscriptions.push({ dispose: () => workspaceIndex?.dispose() });
+
   completionProvider.setRequestCallbacks(
     () => {
       activeRequests++;
@@ -323,6 +399,7 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand('bespoke-ai.showMenu', async () => {
       const ws = vscode.workspace.getConfiguration('bespokeAI');
       const config = lastConfig;
+      wakePoolIfCli(config);
       const handlers = new Map<vscode.QuickPickItem, MenuHandler>();
 
       const items: vscode.QuickPickItem[] = [];
@@ -487,6 +564,27 @@ export function activate(context: vscode.ExtensionContext) {
         });
       }
 
+      // --- Budget section (only while a limit is near or reached) ---
+      const budgetStates = (['api', 'claude-code'] as const)
+        .map((backend) => budgetGuard.getState(backend))
+        .filter((state) => state.level !== 'ok');
+      if (budgetStates.length > 0) {
+        items.push({ label: 'Budget', kind: vscode.QuickPickItemKind.Separator });
+        for (const state of budgetStates) {
+          const paused = config.budget.allowExplicit
+            ? 'automatic completions paused — Alt+Enter still works'
+            : 'requests paused';
+          const budgetItem: vscode.QuickPickItem = {
+            label: `${state.level === 'exceeded' ? '$(circle-slash)' : '$(warning)'} ${state.reason}`,
+            description: state.level === 'exceeded' ? paused : '',
+          };
+          items.push(budgetItem);
+          handlers.set(budgetItem, () =>
+            vscode.commands.executeCommand('workbench.action.openSettings', 'bespokeAI.budget'),
+          );
+        }
+      }
+
       // --- Usage section ---
       const snap = usageTracker.getSnapshot();
       const ledgerSummary = usageLedger.getSummary();
@@ -510,7 +608,12 @@ export function activate(context: vscode.ExtensionContext) {
           items.push({ label: 'Pool Status', kind: vscode.QuickPickItemKind.Separator });
 
           // Role and uptime
-          const roleLabel = poolStatus.role === 'server' ? '$(broadcast) Server' : '$(plug) Client';
+          const roleLabel =
+            poolStatus.role === 'server'
+              ? '$(broadcast) Server'
+              : poolStatus.role === 'local'
+                ? '$(lock) Private (server version mismatch)'
+                : '$(plug) Client';
           const uptimeStr = poolStatus.completionPool?.uptimeMs
             ? formatDuration(poolStatus.completionPool.uptimeMs)
             : 'starting...';
@@ -534,10 +637,16 @@ export function activate(context: vscode.ExtensionContext) {
           if (poolStatus.completionPool) {
             const cp = poolStatus.completionPool;
             const slot = cp.slots[0];
-            const item: vscode.QuickPickItem = {
-              label: `${slotIcon(slot?.state ?? 'dead')} Completion`,
-              description: `request slot ${slot?.requestCount ?? 0}/${slot?.maxRequests ?? 8} • ${cp.totalRequests} total requests • ${cp.totalRecycles} restarts`,
-            };
+            const item: vscode.QuickPickItem =
+              cp.sleepState === 'sleeping' || cp.sleepState === 'warming'
+                ? {
+                    label: `${cp.sleepState === 'sleeping' ? '$(debug-pause)' : '$(loading~spin)'} Completion`,
+                    description: `${cp.sleepState} • ${cp.totalRequests} total requests • ${cp.totalRecycles} restarts`,
+                  }
+                : {
+                    label: `${slotIcon(slot?.state ?? 'dead')} Completion`,
+                    description: `${formatSlotUsage(slot)} • ${cp.totalRequests} total requests • ${cp.totalRecycles} restarts`,
+                  };
             items.push(item);
           }
 
@@ -547,7 +656,7 @@ export function activate(context: vscode.ExtensionContext) {
             const slot = cmdPool.slots[0];
             const item: vscode.QuickPickItem = {
               label: `${slotIcon(slot?.state ?? 'dead')} Command`,
-              description: `request slot ${slot?.requestCount ?? 0}/${slot?.maxRequests ?? 8} • ${cmdPool.totalRequests} total requests • ${cmdPool.totalRecycles} restarts`,
+              description: `${formatSlotUsage(slot)} • ${cmdPool.totalRequests} total requests • ${cmdPool.totalRecycles} restarts`,
             };
             items.push(item);
           }
@@ -653,6 +762,58 @@ export function activate(context: vscode.ExtensionContext) {
     }),
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('bespoke-ai.showProcesses', async () => {
+      const pools = await poolClient.getProcesses();
+      if (!pools) {
+        vscode.window.showWarningMessage('Bespoke AI: Could not reach the pool server.');
+        return;
+      }
+
+      const now = Date.now();
+      const items: vscode.QuickPickItem[] = [];
+      for (const pool of pools) {
+        pool.slots.forEach((slot, i) => {
+          if (!slot.pid) return;
+          const age = slot.startedAt ? formatDuration(now - slot.startedAt) : '?';
+          items.push({
+            label: `$(server-process) PID ${slot.pid}`,
+            description: `${pool.label} · ${pool.model ?? '?'} · slot ${i}`,
+            detail: `${slot.state}, up ${age}, ${formatSlotUsage(slot)}`,
+          });
+        });
+      }
+      if (items.length === 0) {
+        vscode.window.showInformationMessage('Bespoke AI: No Claude Code subprocesses running.');
+        return;
+      }
+      await vscode.window.showQuickPick(items, {
+        title: `Bespoke AI: ${items.length} Claude Code subprocess(es)`,
+      });
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('bespoke-ai.copyHttpEndpointToken', async () => {
+      let token: string;
+      try {
+        token = readOrCreateToken();
+      } catch (err) {
+        vscode.window.showErrorMessage(
+          `Bespoke AI: Could not read the HTTP endpoint token — ${err}`,
+        );
+        return;
+      }
+      await vscode.env.clipboard.writeText(token);
+      const { enabled, port } = lastConfig.httpEndpoint;
+      vscode.window.showInformationMessage(
+        enabled
+          ? `Bespoke AI: Token copied. Endpoint: http://127.0.0.1:${port}/v1`
+          : 'Bespoke AI: Token copied. Enable bespokeAI.httpEndpoint.enabled to start the endpoint.',
+      );
+    }),
+  );
+
   // API key management commands — dynamically built from registered presets
   function getApiKeyProviderItems(): vscode.QuickPickItem[] {
     const seen = new Set<string>();
@@ -930,6 +1091,19 @@ export function activate(context: vscode.ExtensionContext) {
     }),
   );
 
+  // Warm a pool that went to sleep while idle as soon as the user is back
+  context.subscriptions.push(
+    vscode.window.onDidChangeWindowState((state) => {
+      if (state.focused) wakePoolIfCli(lastConfig);
+    }),
+    vscode.workspace.onDidChangeTextDocument((e) => {
+      const scheme = e.document.uri.scheme;
+      if (scheme !== 'file' && scheme !== 'untitled') return;
+      if (e.contentChanges.length === 0) return;
+      wakePoolIfCli(lastConfig);
+    }),
+  );
+
   // Update status bar when the active editor changes (mode detection)
   context.subscriptions.push(
     vscode.window.onDidChangeActiveTextEditor(() => {
@@ -954,7 +1128,9 @@ export function activate(context: vscode.ExtensionContext) {
           if (cp.apiKeyEnvVar) loadSecretKey(cp.apiKeyEnvVar).catch(() => {});
         }
         backendRouter.updateConfig(newConfig);
+        budgetGuard.updateConfig(newConfig);
         completionProvider.updateConfig(newConfig);
+        syncWorkspaceIndex(newConfig);
 
         // Update context menu visibility when backend changes
         if (newConfig.backend !== prevConfig.backend) {
@@ -985,6 +1161,7 @@ export function activate(context: vscode.ExtensionContext) {
               });
             } else {
               // API mode — ready immediately
+              activatePoolClientForApi(newConfig);
               tryAutoSelectPreset(newConfig);
               const apiAvailable = backendRouter.getApiProvider()?.isAvailable() ?? false;
               if (!apiAvailable) setupReason = deriveApiSetupReason(newConfig);
@@ -1010,6 +1187,7 @@ export function activate(context: vscode.ExtensionContext) {
           } else {
             logger.info(`Backend: claude-code → api (CLI pools idled)`);
             // Switching to API — ready immediately
+            activatePoolClientForApi(newConfig);
             tryAutoSelectPreset(newConfig);
             const apiAvailable = backendRouter.getApiProvider()?.isAvailable() ?? false;
             if (apiAvailable) {
@@ -1060,6 +1238,40 @@ export function activate(context: vscode.ExtensionContext) {
           }
         }
 
+        // Join (or start) the pool server when API requests start going through it
+        if (newConfig.api.sharedServer !== prevConfig.api.sharedServer) {
+          logger.info(`API shared server → ${newConfig.api.sharedServer ? 'on' : 'off'}`);
+          completionProvider.clearCache();
+          activatePoolClientForApi(newConfig);
+        }
+
+        if (JSON.stringify(newConfig.routing.rules) !== JSON.stringify(prevConfig.routing.rules)) {
+          logger.info(`Routing rules → ${newConfig.routing.rules.length || 'none'}`);
+          completionProvider.clearCache();
+          activatePoolClientForApi(newConfig);
+        }
+
+        if (newConfig.fallback.chain.join('\n') !== prevConfig.fallback.chain.join('\n')) {
+          logger.info(`Fallback chain → ${newConfig.fallback.chain.join(', ') || 'none'}`);
+          activatePoolClientForApi(newConfig);
+        }
+
+        if (
+          newConfig.race.enabled !== prevConfig.race.enabled ||
+          newConfig.race.backends.join('\n') !== prevConfig.race.backends.join('\n')
+        ) {
+          const { enabled, backends } = newConfig.race;
+          logger.info(`Race → ${enabled ? backends.join(' vs ') || 'no backends' : 'off'}`);
+          completionProvider.clearCache();
+          activatePoolClientForApi(newConfig);
+        }
+
+        // The pool server runs the HTTP endpoint (config-update tells it to start or stop)
+        if (newConfig.httpEndpoint.enabled !== prevConfig.httpEndpoint.enabled) {
+          logger.info(`HTTP endpoint → ${newConfig.httpEndpoint.enabled ? 'on' : 'off'}`);
+          activatePoolClientForApi(newConfig);
+        }
+
         // Handle code override change
         const overrideChanged =
           newConfig.codeOverride.backend !== prevConfig.codeOverride.backend ||
@@ -1098,6 +1310,21 @@ export function activate(context: vscode.ExtensionContext) {
   logger.info(`Activated | logLevel=${config.logLevel}`);
 }
 
+/** Start or stop the workspace retrieval index to match the config. */
+function syncWorkspaceIndex(config: ExtensionConfig): void {
+  const root = getWorkspaceRoot();
+  if (config.workspaceIndex.enabled && root && !workspaceIndex) {
+    workspaceIndex = new WorkspaceIndex(root, STATE_DIR, logger);
+    workspaceIndex.build().catch((err) => {
+      logger.error(`WorkspaceIndex: build failed: ${err}`);
+    });
+  } else if (!config.workspaceIndex.enabled && workspaceIndex) {
+    workspaceIndex.dispose();
+    workspaceIndex = undefined;
+  }
+  completionProvider.setWorkspaceIndex(workspaceIndex);
+}
+
 function loadConfig(): ExtensionConfig {
   const ws = vscode.workspace.getConfiguration('bespokeAI');
 
@@ -1126,6 +1353,8 @@ function loadConfig(): ExtensionConfig {
     triggerPreset,
     triggerMode,
     debounceMs,
+    streaming: ws.get<boolean>('streaming', true)!,
+    candidates: Math.min(5, Math.max(1, Math.round(ws.get<number>('candidates', 1)!))),
     prose: {
       contextChars: ws.get<number>('prose.contextChars', 2500)!,
       suffixChars: ws.get<number>('prose.suffixChars', 2000)!,
@@ -1134,19 +1363,74 @@ function loadConfig(): ExtensionConfig {
     code: {
       contextChars: ws.get<number>('code.contextChars', 2500)!,
       suffixChars: ws.get<number>('code.suffixChars', 2000)!,
+      relatedFilesChars: ws.get<number>('code.relatedFilesChars', 2000)!,
+      symbolContext: ws.get<boolean>('code.symbolContext', true)!,
+    },
+    workspaceIndex: {
+      enabled: ws.get<boolean>('workspaceIndex.enabled', true)!,
+      maxChars: ws.get<number>('workspaceIndex.maxChars', 1500)!,
     },
     claudeCode: {
       model: ws.get<string>('claudeCode.model', DEFAULT_MODEL)!,
       models: ws.get<string[]>('claudeCode.models', ['haiku', 'sonnet', 'opus'])!,
+      completionSlots: Math.min(
+        4,
+        Math.max(1, Math.round(ws.get<number>('claudeCode.completionSlots', 1)!)),
+      ),
+      commandSlots: Math.min(
+        4,
+        Math.max(1, Math.round(ws.get<number>('claudeCode.commandSlots', 1)!)),
+      ),
+      idleShutdownMinutes: Math.min(
+        1440,
+        Math.max(0, Math.round(ws.get<number>('claudeCode.idleShutdownMinutes', 30)!)),
+      ),
+    },
+    httpEndpoint: {
+      enabled: ws.get<boolean>('httpEndpoint.enabled', false)!,
+      port: Math.min(65535, Math.max(1024, Math.round(ws.get<number>('httpEndpoint.port', 8741)!))),
     },
     api: {
       preset: ws.get<string>('api.preset', DEFAULT_PRESET_ID)!,
       customPresets: ws.get<CustomPreset[]>('api.customPresets', [])!,
+      sharedServer: ws.get<boolean>('api.sharedServer', false)!,
+      maxRequestsPerMinute: Math.max(
+        0,
+        Math.min(600, Math.round(ws.get<number>('api.maxRequestsPerMinute', 0)!)),
+      ),
     },
     codeOverride: {
       backend: ws.get<'' | 'claude-code' | 'api'>('codeOverride.backend', '')!,
       model: ws.get<string>('codeOverride.model', '')!,
     },
+    routing: {
+      // Rules without a valid backend can't route anything
+      rules: ws
+        .get<RoutingRule[]>('routing.rules', [])!
+        .filter((rule) => rule.backend === 'claude-code' || rule.backend === 'api'),
+    },
+    fallback: {
+      chain: ws.get<string[]>('fallback.chain', [])!,
+      on: ws.get<FallbackTrigger[]>('fallback.on', ['unavailable', 'error'])!,
+    },
+    race: {
+      enabled: ws.get<boolean>('race.enabled', false)!,
+      backends: ws.get<string[]>('race.backends', [])!,
+      staggerMs: Math.max(0, Math.min(2000, Math.round(ws.get<number>('race.staggerMs', 150)!))),
+    },
+    budget: {
+      dailyUsd: Math.max(0, ws.get<number>('budget.dailyUsd', 0)!),
+      monthlyUsd: Math.max(0, ws.get<number>('budget.monthlyUsd', 0)!),
+      dailyTokens: Math.max(0, Math.round(ws.get<number>('budget.dailyTokens', 0)!)),
+      monthlyTokens: Math.max(0, Math.round(ws.get<number>('budget.monthlyTokens', 0)!)),
+      dailyRequests: Math.max(0, Math.round(ws.get<number>('budget.dailyRequests', 0)!)),
+      monthlyRequests: Math.max(0, Math.round(ws.get<number>('budget.monthlyRequests', 0)!)),
+      warnAtPercent: Math.max(
+        1,
+        Math.min(100, Math.round(ws.get<number>('budget.warnAtPercent', 80)!)),
+      ),
+      allowExplicit: ws.get<boolean>('budget.allowExplicit', true)!,
+    },
     contextMenu: {
       permissionMode: ws.get<'default' | 'acceptEdits' | 'bypassPermissions'>(
         'contextMenu.permissionMode',
@@ -1328,14 +1612,16 @@ function updateStatusBar(config: ExtensionConfig, state?: StatusBarState) {
       }
     }
 
-    // Check if code override is active for the current file
-    const isCodeOverrideActive = displayMode === 'code' && config.codeOverride.backend !== '';
+    // Check if a routing rule or the code override applies to the current file
+    const route = activeRoute(displayMode);
 
-    if (isCodeOverrideActive && backendRouter) {
-      const modelInfo = backendRouter.getCurrentModelForMode('code');
-      const suffix = modelInfo.backend === 'api' ? ' (API)' : ' (CC)';
-      statusBarItem.text = `${presetIcon} ${displayMode} | ${modelInfo.label}${suffix}`;
-      statusBarItem.tooltip = `Bespoke AI: ${displayMode} mode (code override), ${config.triggerPreset} trigger, ${modelInfo.label} (click for menu)`;
+    if (activeFallback) {
+      statusBarItem.text = `$(debug-step-over) ${displayMode} | ${activeFallback}`;
+      statusBarItem.tooltip = `Bespoke AI: ${displayMode} mode, completing with fallback ${activeFallback} until the configured backend recovers (click for menu)`;
+    } else if (route) {
+      const suffix = route.backend === 'api' ? ' (API)' : ' (CC)';
+      statusBarItem.text = `${presetIcon} ${displayMode} | ${route.label}${suffix}`;
+      statusBarItem.tooltip = `Bespoke AI: ${displayMode} mode (${route.source}), ${config.triggerPreset} trigger, ${route.label} (click for menu)`;
     } else if (config.backend === 'api') {
       const apiPreset = getPreset(config.api.preset);
       const modelLabel = apiPreset?.displayName ?? config.api.preset;
@@ -1343,13 +1629,63 @@ function updateStatusBar(config: ExtensionConfig, state?: StatusBarState) {
       statusBarItem.tooltip = `Bespoke AI: ${displayMode} mode, ${config.triggerPreset} trigger, ${modelLabel} via API (click for menu)`;
     } else {
       const modelLabel = shortenModelName(config.claudeCode.model);
-      statusBarItem.text = `${presetIcon} ${displayMode} | ${modelLabel} (CC)`;
-      statusBarItem.tooltip = `Bespoke AI: ${displayMode} mode, ${config.triggerPreset} trigger, ${config.claudeCode.model} via Claude Code (click for menu)`;
+      const tooltip = `Bespoke AI: ${displayMode} mode, ${config.triggerPreset} trigger, ${config.claudeCode.model} via Claude Code`;
+      if (poolSleepState === 'sleeping') {
+        statusBarItem.text = `$(debug-pause) ${displayMode} | ${modelLabel} (CC)`;
+        statusBarItem.tooltip = `${tooltip} — idle, pool asleep until you type (click for menu)`;
+      } else if (poolSleepState === 'warming') {
+        statusBarItem.text = `$(loading~spin) ${displayMode} | ${modelLabel} (CC)`;
+        statusBarItem.tooltip = `${tooltip} — pool warming up (click for menu)`;
+      } else {
+        statusBarItem.text = `${presetIcon} ${displayMode} | ${modelLabel} (CC)`;
+        statusBarItem.tooltip = `${tooltip} (click for menu)`;
+      }
     }
   }
   statusBarItem.show();
 }
 
+/**
+ * The backend a routing rule or the code override picks for the active
+ * editor's completions, or null when the global backend serves them.
+ */
+function activeRoute(displayMode: string) {
+  if (!backendRouter || (displayMode !== 'prose' && displayMode !== 'code')) return null;
+  const document = vscode.window.activeTextEditor?.document;
+  return backendRouter.getRoute({
+    mode: displayMode,
+    languageId: document?.languageId,
+    filePath: document?.fileName,
+    workspaceFolder: document && vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath,
+  });
+}
+
+/**
+ * Connect to the pool server from an API window that needs it — for
+ * `api.sharedServer`, to host the HTTP endpoint, or to route, fall back to
+ * or race Claude Code. CLI windows connect through activateWithPreflight instead.
+ */
+function activatePoolClientForApi(config: ExtensionConfig) {
+  if (!config.enabled || config.backend !== 'api') return;
+  const raced = config.race.enabled ? config.race.backends : [];
+  const cliFallback =
+    [...config.fallback.chain, ...raced].some(isClaudeCodeTarget) ||
+    config.routing.rules.some(
+      (rule) => rule.backend === 'claude-code' || (rule.fallback ?? []).some(isClaudeCodeTarget),
+    );
+  if (!config.api.sharedServer && !config.httpEndpoint.enabled && !cliFallback) return;
+  if (poolClient.isActive()) return;
+  poolClient.activate().catch((err) => {
+    logger.error(`Pool activation failed: ${err}`);
+  });
+}
+
+/** Ask the pool to warm back up if it went to sleep (throttled by the client). */
+function wakePoolIfCli(config: ExtensionConfig) {
+  if (!config.enabled || config.backend !== 'claude-code' || !poolClient) return;
+  poolClient.wake();
+}
+
 function showApiSetupGuidance(config: ExtensionConfig) {
   const preset = getPreset(config.api.preset);
   const keyName = preset?.apiKeyEnvVar;
@@ -1394,12 +1730,13 @@ function updateStatusBarSpinner(spinning: boolean) {
       }
     }
 
-    const isCodeOverrideActive = displayMode === 'code' && config.codeOverride.backend !== '';
+    const route = activeRoute(displayMode);
 
-    if (isCodeOverrideActive && backendRouter) {
-      const modelInfo = backendRouter.getCurrentModelForMode('code');
-      const suffix = modelInfo.backend === 'api' ? ' (API)' : ' (CC)';
-      statusBarItem.text = `$(loading~spin) ${displayMode} | ${modelInfo.label}${suffix}`;
+    if (activeFallback) {
+      statusBarItem.text = `$(loading~spin) ${displayMode} | ${activeFallback}`;
+    } else if (route) {
+      const suffix = route.backend === 'api' ? ' (API)' : ' (CC)';
+      statusBarItem.text = `$(loading~spin) ${displayMode} | ${route.label}${suffix}`;
     } else if (config.backend === 'api') {
       const apiPreset = getPreset(config.api.preset);
       const modelLabel = apiPreset?.displayName ?? config.api.preset;
@@ -1441,6 +1778,7 @@ async function showBackendPicker(
   // --- Direct API presets ---
   const allPresets = getAllPresets();
   const builtInIds = new Set(getBuiltInPresetIds());
+  const monthSpend = usageLedger.getSummary().spendByModel.thisMonth;
   const builtIn = allPresets.filter((p) => builtInIds.has(p.id));
   const custom = allPresets.filter((p) => !builtInIds.has(p.id));
 
@@ -1453,6 +1791,8 @@ async function showBackendPicker(
       } else {
         descParts.push('no key needed');
       }
+      const spent = spendOnModel(preset.modelId, monthSpend);
+      if (spent > 0) descParts.push(`${formatUsd(spent)} this month`);
       if (isCurrent) descParts.push('(current)');
       const item: vscode.QuickPickItem = {
         label: `$(globe) ${preset.displayName}`,
@@ -1668,6 +2008,25 @@ function formatDuration(ms: number): string {
   return `${minutes}m`;
 }
 
+/** How full a slot's session is — its context against the budget, on servers that report it. */
+function formatSlotUsage(slot: SlotStats | undefined): string {
+  if (slot?.contextBudget) {
+    return `${slot.requestCount} requests • context ${formatCharCount(slot.contextTokens ?? 0)}/${formatCharCount(slot.contextBudget)} tokens`;
+  }
+  return `request slot ${slot?.requestCount ?? 0}/${slot?.maxRequests ?? 8}`;
+}
+
+function formatUsd(amount: number): string {
+  return amount > 0 && amount < 0.01 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+}
+
+/** Spend on a preset's model — APIs may report a dated variant of the model ID. */
+function spendOnModel(modelId: string, spend: Record<string, number>): number {
+  return Object.entries(spend)
+    .filter(([model]) => model === modelId || model.startsWith(`${modelId}-`))
+    .reduce((sum, [, cost]) => sum + cost, 0);
+}
+
 function formatCharCount(count: number): string {
   if (count >= 1_000_000) {
     return `${(count / 1_000_000).toFixed(1)}M`;
@@ -1694,7 +2053,7 @@ async function showUsageDetail(): Promise<void> {
   });
   items.push({
     label: `$(check) Cache hit rate: ${snap.cacheHitRate}%`,
-    description: `${snap.cacheHits} hits / ${snap.cacheMisses} misses`,
+    description: `${snap.cacheHits} hits (${snap.typeaheadHits} typeahead) / ${snap.cacheMisses} misses`,
   });
   if (snap.errors > 0) {
     items.push({ label: `$(error) ${snap.errors} errors` });
@@ -1745,6 +2104,28 @@ async function showUsageDetail(): Promise<void> {
     });
   }
 
+  // Estimated spend — API requests priced by their preset, Claude Code as the CLI reports it
+  const { spendByModel } = ledgerSummary;
+  if (thisWeek.costUsd > 0 || thisMonth.costUsd > 0) {
+    items.push({ label: 'Estimated Spend', kind: vscode.QuickPickItemKind.Separator });
+    const periods: Array<[string, PeriodStats, Record<string, number>]> = [
+      ['Today', today, spendByModel.today],
+      ['This week', thisWeek, spendByModel.thisWeek],
+      ['This month', thisMonth, spendByModel.thisMonth],
+    ];
+    for (const [period, stats, byModel] of periods) {
+      const topModels = Object.entries(byModel)
+        .filter(([, cost]) => cost > 0)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([model, cost]) => `${model} ${formatUsd(cost)}`);
+      items.push({
+        label: `$(credit-card) ${period}: ${formatUsd(stats.costUsd)}`,
+        description: topModels.join(' · '),
+      });
+    }
+  }
+
   // Per-model breakdown from ledger
   const ledgerModels = Object.entries(ledgerSummary.byModel);
   if (ledgerModels.length > 0) {
@@ -1766,6 +2147,55 @@ async function showUsageDetail(): Promise<void> {
     }
   }
 
+  // Requests other tools sent through the HTTP endpoint
+  const ledgerCallers = Object.entries(ledgerSummary.byCaller);
+  if (ledgerCallers.length > 0) {
+    items.push({ label: 'All-Time by HTTP Caller', kind: vscode.QuickPickItemKind.Separator });
+    for (const [caller, stats] of ledgerCallers.sort((a, b) => b[1].requests - a[1].requests)) {
+      items.push({
+        label: `$(plug) ${caller}: ${stats.requests} requests`,
+        description: stats.outputTokens > 0 ? `${formatCharCount(stats.outputTokens)} out` : '',
+      });
+    }
+  }
+
+  // Which backend answered first in race mode
+  const raceWins = Object.entries(ledgerSummary.raceWins);
+  if (raceWins.length > 0) {
+    const races = raceWins.reduce((sum, [, wins]) => sum + wins, 0);
+    items.push({ label: 'All-Time Race Winners', kind: vscode.QuickPickItemKind.Separator });
+    for (const [backend, wins] of raceWins.sort((a, b) => b[1] - a[1])) {
+      items.push({
+        label: `$(dashboard) ${backend}: ${wins} wins`,
+        description: `${Math.round((wins / races) * 100)}% of ${races} races`,
+      });
+    }
+  }
+
+  // Completion acceptance from ledger outcome entries
+  const completionStats = ledgerSummary.bySource['completion'];
+  if (completionStats && completionStats.shown > 0) {
+    items.push({ label: 'Completion Acceptance', kind: vscode.QuickPickItemKind.Separator });
+    items.push({
+      label: `$(check-all) ${completionStats.acceptanceRate}% accepted`,
+      description: `${completionStats.accepted} of ${completionStats.shown} shown | ${formatCharCount(completionStats.acceptedChars)} chars kept`,
+    });
+    const breakdowns: Array<[string, Record<string, PeriodStats>]> = [
+      ['$(server)', ledgerSummary.byModel],
+      ['$(symbol-namespace)', ledgerSummary.byMode],
+      ['$(code)', ledgerSummary.byLanguage],
+    ];
+    for (const [icon, groups] of breakdowns) {
+      const shownGroups = Object.entries(groups).filter(([, stats]) => stats.shown > 0);
+      for (const [name, stats] of shownGroups.sort((a, b) => b[1].shown - a[1].shown)) {
+        items.push({
+          label: `  ${icon} ${name}: ${stats.acceptanceRate}%`,
+          description: `${stats.accepted} of ${stats.shown} shown`,
+        });
+      }
+    }
+  }
+
   await vscode.window.showQuickPick(items, {
     title: 'Bespoke AI — Usage Details',
     placeHolder: 'Session and persistent usage statistics',
@@ -1872,7 +2302,10 @@ async function activateWithPreflight(
   }
 }
 
-export function deactivate() {
+export async function deactivate(): Promise<void> {
+  // If this window runs the shared pool server, let another window take it
+  // over (warming its pools first) before ours shut down
+  await poolClient?.handOff(DEACTIVATE_HANDOFF_MS);
   // Explicit cleanup — these may be no-ops if already disposed via subscriptions,
   // but ensures cleanup if subscription disposal fails
   completionProvider?.dispose();
@@ -0,0 +1,117 @@
+/**
+ * API Hosts
+ *
+ * API providers hosted by the pool server for windows with `api.sharedServer`
+ * on. One host per preset, created on first use, so every window's requests
+ * for a preset go through the same circuit breaker, rate limiter and
+ * completion cache instead of each window tracking its own.
+ */
+
+import { CompletionContext, ExtensionConfig, PartialCompletionCallback } from '../types';
+import { Logger } from '../utils/logger';
+import { UsageLedger } from '../utils/usage-ledger';
+import { LRUCache } from '../utils/cache';
+import { RateLimiter } from '../utils/rate-limiter';
+import { ApiCompletionProvider } from '../providers/api/api-provider';
+import { ApiCommandProvider } from '../providers/api/api-command-provider';
+
+interface ApiHost {
+  completion: ApiCompletionProvider;
+  command: ApiCommandProvider;
+  cache: LRUCache;
+}
+
+export class ApiHosts {
+  private hosts = new Map<string, ApiHost>();
+
+  constructor(
+    private config: ExtensionConfig,
+    private logger: Logger,
+    private ledger: UsageLedger,
+    /** A preset's circuit breaker opened (`true`) or recovered (`false`). */
+    private onBreakerChange?: (preset: string, open: boolean) => void,
+  ) {}
+
+  /**
+   * Completions for `preset`, from the shared cache when another window
+   * already asked for the same cursor position.
+   */
+  async getCandidates(
+    preset: string,
+    context: CompletionContext,
+    signal: AbortSignal,
+    count: number,
+    onPartial?: PartialCompletionCallback,
+  ): Promise<string[]> {
+    const host = this.get(preset);
+    const key = LRUCache.makeKey(context.mode, context.prefix, context.suffix);
+    const cached = host.cache.getAll(key);
+    if (cached && cached.length >= count) {
+      this.logger.trace(`API hosts: ${preset} cache hit`);
+      return cached;
+    }
+
+    const candidates = await host.completion.getCandidates(context, signal, count, onPartial);
+    if (candidates.length > 0) {
+      host.cache.set(key, candidates);
+    }
+    return candidates;
+  }
+
+  async sendCommand(
+    preset: string,
+    systemPrompt: string,
+    message: string,
+    signal?: AbortSignal,
+  ): Promise<string | null> {
+    return this.get(preset).command.sendPrompt(systemPrompt, message, signal);
+  }
+
+  isAvailable(preset: string): boolean {
+    return this.get(preset).completion.isAvailable();
+  }
+
+  /** Apply shared settings (rate limit, streaming) to every host. */
+  updateConfig(config: ExtensionConfig): void {
+    this.config = config;
+    for (const [preset, host] of this.hosts) {
+      const hostConfig = this.configFor(preset);
+      host.completion.updateConfig(hostConfig);
+      host.command.updateConfig(hostConfig);
+    }
+  }
+
+  dispose(): void {
+    for (const host of this.hosts.values()) {
+      host.completion.dispose();
+      host.command.dispose();
+    }
+    this.hosts.clear();
+  }
+
+  private get(preset: string): ApiHost {
+    let host = this.hosts.get(preset);
+    if (!host) {
+      this.logger.info(`API hosts: loading ${preset}`);
+      const config = this.configFor(preset);
+      const limiter = new RateLimiter(config.api.maxRequestsPerMinute);
+      const completion = new ApiCompletionProvider(
+        config,
+        this.logger,
+        this.ledger,
+        () => this.onBreakerChange?.(preset, true),
+        () => this.onBreakerChange?.(preset, false),
+      );
+      const command = new ApiCommandProvider(config, this.logger, this.ledger);
+      completion.setRateLimiter(limiter);
+      command.setRateLimiter(limiter);
+      host = { completion, command, cache: new LRUCache() };
+      this.hosts.set(preset, host);
+    }
+    return host;
+  }
+
+  private configFor(preset: string): ExtensionConfig {
+    return { ...this.config, api: { ...this.config.api, preset } };
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * bespoke-pool — command-line control of the pool server
+ *
+ *   bespoke-pool start [--config <file>]   start the headless daemon in the background
+ *   bespoke-pool serve [--config <file>]   run the daemon in the foreground
+ *   bespoke-pool status [--json]           server, clients and pools
+ *   bespoke-pool warmup [completion|command] [--model <model>]
+ *   bespoke-pool recycle [completion|command|all]
+ *   bespoke-pool stop                      shut the server down
+ *
+ * Everything but start/serve works against whichever server holds the lock —
+ * the daemon or a VS Code window. Exit status is 0 on success, 1 on failure
+ * and 3 when no server is running.
+ */
+
+import * as fs from 'fs';
+import * as net from 'net';
+import { spawn } from 'child_process';
+import {
+  CAPABILITIES,
+  PROTOCOL_VERSION,
+  PoolRequest,
+  PoolResponse,
+  PoolStatsInfo,
+  generateRequestId,
+  parseMessage,
+  serializeMessage,
+} from './protocol';
+import { getIpcPath, ipcEndpointMayExist, ensureStateDir } from './ipc-path';
+import { isProcessAlive, readLockfile } from './server';
+import { DAEMON_CONFIG_PATH, DAEMON_LOG_PATH, runDaemon } from './daemon';
+
+const CONNECT_TIMEOUT_MS = 2_000;
+const REQUEST_TIMEOUT_MS = 30_000;
+const START_TIMEOUT_MS = 15_000;
+
+class NotRunningError extends Error {}
+
+/** A one-off client connection: hello, a few requests, close. */
+class CliConnection {
+  private buffer = '';
+  private pending = new Map<string, (response: PoolResponse) => void>();
+
+  private constructor(private socket: net.Socket) {
+    socket.on('data', (data) => this.handleData(data));
+  }
+
+  static async open(model?: string): Promise<{ connection: CliConnection; serverId: string }> {
+    if (!ipcEndpointMayExist()) throw new NotRunningError('no pool server is running');
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const s = net.createConnection(getIpcPath());
+      const timer = setTimeout(() => {
+        s.destroy();
+        reject(new NotRunningError('no pool server is running (connect timed out)'));
+      }, CONNECT_TIMEOUT_MS);
+      s.once('connect', () => {
+        clearTimeout(timer);
+        resolve(s);
+      });
+      s.once('error', () => {
+        clearTimeout(timer);
+        reject(new NotRunningError('no pool server is running'));
+      });
+    });
+
+    const connection = new CliConnection(socket);
+    const hello = await connection.request({
+      type: 'client-hello',
+      id: generateRequestId(),
+      clientId: `cli-${process.pid}`,
+      protocolVersion: PROTOCOL_VERSION,
+      // A one-off connection can't take over as server
+      capabilities: CAPABILITIES.filter((c) => c !== 'handoff'),
+      model,
+    });
+    if (hello.type !== 'client-hello' || !hello.success) {
+      connection.close();
+      throw new Error(`server refused the connection: ${errorText(hello)}`);
+    }
+    return { connection, serverId: hello.serverId };
+  }
+
+  request(request: PoolRequest): Promise<PoolResponse> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(request.id);
+        reject(new Error(`${request.type} request timed out`));
+      }, REQUEST_TIMEOUT_MS);
+      this.pending.set(request.id, (response) => {
+        clearTimeout(timer);
+        resolve(response);
+      });
+      this.socket.once('close', () => reject(new Error('server closed the connection')));
+      this.socket.write(serializeMessage(request));
+    });
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private handleData(data: Buffer): void {
+    this.buffer += data.toString();
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() || '';
+    for (const line of lines) {
+      const message = parseMessage(line);
+      // Server events and streaming chunks carry no `success`
+      if (!message || !('id' in message) || !('success' in message)) continue;
+      this.pending.get(message.id)?.(message as PoolResponse);
+      this.pending.delete(message.id);
+    }
+  }
+}
+
+function errorText(response: PoolResponse): string {
+  return 'error' in response && response.error ? response.error : response.type;
+}
+
+/** `--name value` from the arguments, removing both. */
+function takeOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  const [, value] = args.splice(index, 2);
+  if (value === undefined) throw new Error(`${name} needs a value`);
+  return value;
+}
+
+function formatUptime(ms: number | null): string {
+  if (ms === null) return '-';
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function describePool(pool: PoolStatsInfo): string {
+  const ready = pool.slots.filter((s) => s.state === 'available' || s.state === 'busy').length;
+  const state = pool.sleepState && pool.sleepState !== 'awake' ? pool.sleepState : 'awake';
+  return (
+    `  ${pool.label} · ${pool.model ?? '?'}: ${state}, ${ready}/${pool.slots.length} slots up, ` +
+    `${pool.totalRequests} requests, up ${formatUptime(pool.uptimeMs)}`
+  );
+}
+
+async function status(args: string[]): Promise<void> {
+  const json = args.includes('--json');
+  const { connection, serverId } = await CliConnection.open();
+  try {
+    const statusResponse = await connection.request({ type: 'status', id: generateRequestId() });
+    const processes = await connection.request({ type: 'processes', id: generateRequestId() });
+    const pools = processes.type === 'processes' && processes.success ? processes.pools : [];
+    const lock = readLockfile();
+
+    if (json) {
+      console.log(JSON.stringify({ serverId, pid: lock?.pid, status: statusResponse, pools }));
+      return;
+    }
+    const clients = statusResponse.type === 'status' ? statusResponse.connectedClients - 1 : 0;
+    console.log(`Pool server ${serverId} (pid ${lock?.pid ?? '?'}), ${clients} other client(s)`);
+    if (pools.length === 0) console.log('  no pools running');
+    for (const pool of pools) console.log(describePool(pool));
+  } finally {
+    connection.close();
+  }
+}
+
+async function warmup(args: string[]): Promise<void> {
+  const model = takeOption(args, '--model');
+  const pools = args[0] ? [args[0]] : ['completion', 'command'];
+  for (const pool of pools) {
+    if (pool !== 'completion' && pool !== 'command') throw new Error(`unknown pool: ${pool}`);
+  }
+  const { connection } = await CliConnection.open(model);
+  try {
+    for (const pool of pools as Array<'completion' | 'command'>) {
+      const response = await connection.request({ type: 'warmup', id: generateRequestId(), pool });
+      if (!response.success) throw new Error(`warmup failed: ${errorText(response)}`);
+    }
+    console.log(`Warming ${pools.join(' and ')} pool${pools.length > 1 ? 's' : ''}`);
+  } finally {
+    connection.close();
+  }
+}
+
+async function recycle(args: string[]): Promise<void> {
+  const pool = args[0] ?? 'all';
+  if (pool !== 'completion' && pool !== 'command' && pool !== 'all') {
+    throw new Error(`unknown pool: ${pool}`);
+  }
+  const { connection } = await CliConnection.open();
+  try {
+    const response = await connection.request({ type: 'recycle', id: generateRequestId(), pool });
+    if (!response.success) throw new Error(`recycle failed: ${errorText(response)}`);
+    console.log(`Recycled ${pool === 'all' ? 'all pools' : `${pool} pool`}`);
+  } finally {
+    connection.close();
+  }
+}
+
+async function stop(): Promise<void> {
+  const { connection, serverId } = await CliConnection.open();
+  try {
+    const response = await connection.request({ type: 'dispose', id: generateRequestId() });
+    if (!response.success) throw new Error(`stop failed: ${errorText(response)}`);
+    console.log(`Stopped pool server ${serverId}`);
+  } finally {
+    connection.close();
+  }
+}
+
+async function start(args: string[]): Promise<void> {
+  const configPath = takeOption(args, '--config') ?? DAEMON_CONFIG_PATH;
+  const lock = readLockfile();
+  if (lock && isProcessAlive(lock.pid)) {
+    throw new Error(`a pool server is already running (pid ${lock.pid})`);
+  }
+
+  ensureStateDir();
+  const log = fs.openSync(DAEMON_LOG_PATH, 'a');
+  const child = spawn(
+    process.execPath,
+    [...process.execArgv, process.argv[1], 'serve', '--config', configPath],
+    { detached: true, stdio: ['ignore', log, log] },
+  );
+  child.unref();
+  fs.closeSync(log);
+
+  let exited = false;
+  child.once('exit', () => (exited = true));
+  const deadline = Date.now() + START_TIMEOUT_MS;
+  while (Date.now() < deadline && !exited) {
+    await new Promise((r) => setTimeout(r, 250));
+    if (readLockfile()?.pid !== child.pid) continue;
+    try {
+      const { connection } = await CliConnection.open();
+      connection.close();
+      console.log(`Started pool daemon (pid ${child.pid}), logging to ${DAEMON_LOG_PATH}`);
+      return;
+    } catch {
+      // Still starting
+    }
+  }
+  throw new Error(`the daemon did not start — see ${DAEMON_LOG_PATH}`);
+}
+
+async function serve(args: string[]): Promise<void> {
+  const configPath = takeOption(args, '--config') ?? DAEMON_CONFIG_PATH;
+  await runDaemon(configPath);
+  // Keeps running until stopped; the server exits the process on shutdown
+}
+
+const USAGE = `Usage: bespoke-pool <command>
+
+  start [--config <file>]        Start the headless pool daemon in the background
+  serve [--config <file>]        Run the pool daemon in the foreground
+  status [--json]                Show the running server and its pools
+  warmup [completion|command] [--model <model>]
+                                 Start (or wake) a model's pools
+  recycle [completion|command|all]
+                                 Replace the pools' sessions with fresh ones
+  stop                           Shut the pool server down
+
+The daemon reads ${DAEMON_CONFIG_PATH} by default.`;
+
+export async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  const commands: Record<string, (args: string[]) => Promise<void>> = {
+    start,
+    serve,
+    status,
+    warmup,
+    recycle,
+    stop,
+  };
+  const run = command ? commands[command] : undefined;
+  if (!run) {
+    console.log(USAGE);
+    return command && command !== '--help' && command !== 'help' ? 1 : 0;
+  }
+
+  try {
+    await run(args);
+    return 0;
+  } catch (err) {
+    console.error(`bespoke-pool: ${err instanceof Error ? err.message : err}`);
+    return err instanceof NotRunningError ? 3 : 1;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((code) => {
+    // `serve` keeps the process alive until the server shuts down
+    if (code !== 0 || process.argv[2] !== 'serve') process.exit(code);
+  });
+}
@@ -13,14 +13,22 @@ import {
   CompletionProvider as ICompletionProvider,
   CompletionContext,
   ExtensionConfig,
+  PartialCompletionCallback,
 } from '../types';
 import { SendPromptOptions, SendPromptResult } from '../providers/command-pool';
 import {
   PoolRequest,
   PoolResponse,
+  PoolChunk,
   ServerEvent,
   PoolStatsInfo,
+  PoolSleepState,
+  Capability,
+  CAPABILITIES,
+  PROTOCOL_VERSION,
+  checkCompatibility,
   generateRequestId,
+  requestContext,
   serializeMessage,
   parseMessage,
 } from './protocol';
@@ -30,8 +38,14 @@ import { getIpcPath, ipcEndpointMayExist } from './ipc-path';
 const CONNECT_TIMEOUT_MS = 2000;
 const RECONNECT_DELAY_MS = 500;
 const MAX_RECONNECT_ATTEMPTS = 3;
+/** Wake requests closer together than this are dropped — focus and typing fire constantly. */
+const WAKE_THROTTLE_MS = 30_000;
 
-export type PoolRole = 'server' | 'client';
+/** `local`: a private pool for this window, when the shared server's protocol is incompatible. */
+export type PoolRole = 'server' | 'client' | 'local';
+
+/** Outcome of connecting to the shared server. */
+type ConnectResult = 'connected' | 'failed' | 'server-outdated' | 'client-outdated';
 
 export interface PoolClientOptions {
   config: ExtensionConfig;
@@ -39,15 +53,66 @@ export interface PoolClientOptions {
   ledger: UsageLedger;
   clientId: string;
   onPoolDegraded?: (pool: 'completion' | 'command', reason: string) => void;
+  /** A pool for this window's model went to sleep, started warming, or woke up. */
+  onPoolStateChange?: (pool: 'completion' | 'command', state: PoolSleepState) => void;
+  /** A hosted API preset's shared circuit breaker opened (`true`) or recovered (`false`). */
+  onApiBreakerChange?: (preset: string, open: boolean) => void;
   onRoleChange?: (role: PoolRole) => void;
 }
 
 type PendingRequest = {
+  /** Kept so the request can be resent to the next server after a handoff. */
+  request: PoolRequest;
+  signal?: AbortSignal;
   resolve: (response: PoolResponse) => void;
   reject: (error: Error) => void;
+  /** Receives the text of each chunk streamed ahead of the response. */
+  onChunk?: (text: string) => void;
   timer?: ReturnType<typeof setTimeout>;
 };
 
+/**
+ * Adapt a request that reports partial text through a callback into an async
+ * iterator: yields each partial as it arrives, then returns the final result.
+ * A consumer that stops early leaves the request to finish unobserved.
+ */
+async function* iteratePartials<T>(
+  run: (onPartial: (text: string) => void) => Promise<T>,
+): AsyncGenerator<string, T> {
+  const partials: string[] = [];
+  let wake: (() => void) | null = null;
+  let done = false;
+  let stopped = false;
+  const result = run((text) => {
+    if (stopped) return;
+    partials.push(text);
+    wake?.();
+  }).finally(() => {
+    done = true;
+    wake?.();
+  });
+  // Only awaited once iteration completes — a consumer that breaks out early
+  // must not turn a later failure into an unhandled rejection
+  result.catch(() => {});
+
+  try {
+    while (partials.length > 0 || !done) {
+      if (partials.length > 0) {
+        yield partials.shift()!;
+        continue;
+      }
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+      wake = null;
+    }
+  } finally {
+    stopped = true;
+    partials.length = 0;
+  }
+  return result;
+}
+
 export class PoolClient implements ICompletionProvider {
   private socket: net.Socket | null = null;
   private server: PoolServer | null = null;
@@ -60,15 +125,30 @@ export class PoolClient implements ICompletionProvider {
   private buffer = '';
   private pendingRequests = new Map<string, PendingRequest>();
   private onPoolDegraded?: (pool: 'completion' | 'command', reason: string) => void;
+  private onPoolStateChange?: (pool: 'completion' | 'command', state: PoolSleepState) => void;
+  private onApiBreakerChange?: (preset: string, open: boolean) => void;
   private onRoleChange?: (role: PoolRole) => void;
   private reconnectAttempts = 0;
+  private lastWakeAt = 0;
   private connecting = false;
   private activating = false;
 
   /** Model reported by server in client-hello response */
   private serverModel: string | null = null;
+  /** Model IDs the server reported for completions, by request context. */
+  private servedModels = new WeakMap<CompletionContext, string>();
+  /** Optional features the connected server announced in its hello */
+  private serverCapabilities = new Set<Capability>();
   /** Guards against concurrent attemptTakeOver calls */
   private takingOver = false;
+  /** Set while shutting down an outdated server, so its disconnect doesn't trigger a takeover */
+  private replacingServer = false;
+  /** Hosted API presets whose shared circuit breaker is open */
+  private openApiBreakers = new Set<string>();
+  /** Set while the server hands off to a successor: requests wait for it instead of failing */
+  private handoffSuccessorId: string | null = null;
+  /** Our pools, warmed while the server hands off to this window */
+  private preparedServer: PoolServer | null = null;
 
   constructor(options: PoolClientOptions) {
     this.config = options.config;
@@ -76,9 +156,18 @@ export class PoolClient implements ICompletionProvider {
     this.ledger = options.ledger;
     this.clientId = options.clientId;
     this.onPoolDegraded = options.onPoolDegraded;
+    this.onPoolStateChange = options.onPoolStateChange;
+    this.onApiBreakerChange = options.onApiBreakerChange;
     this.onRoleChange = options.onRoleChange;
   }
 
+  /** Whether the client is connected to a server or running one itself. */
+  isActive(): boolean {
+    if (this.disposed) return false;
+    if (this.handoffSuccessorId !== null) return true;
+    return this.server !== null || (this.socket !== null && !this.socket.destroyed);
+  }
+
   getRole(): PoolRole {
     return this.role;
   }
@@ -94,12 +183,13 @@ export class PoolClient implements ICompletionProvider {
     try {
       // Try to connect to existing server
       const connected = await this.tryConnect();
-      if (connected) {
+      if (connected === 'connected') {
         this.role = 'client';
         this.onRoleChange?.('client');
         this.logger.info(`Pool client: connected to existing server`);
         return;
       }
+      if (await this.resolveVersionMismatch(connected)) return;
 
       // No server — try to become one
       if (acquireLock(process.pid)) {
@@ -111,12 +201,13 @@ export class PoolClient implements ICompletionProvider {
       for (let i = 0; i < MAX_RECONNECT_ATTEMPTS; i++) {
         await this.delay(RECONNECT_DELAY_MS);
         const retryConnected = await this.tryConnect();
-        if (retryConnected) {
+        if (retryConnected === 'connected') {
           this.role = 'client';
           this.onRoleChange?.('client');
           this.logger.info(`Pool client: connected to server on retry ${i + 1}`);
           return;
         }
+        if (await this.resolveVersionMismatch(retryConnected)) return;
 
         // Check if lock holder is dead
         const lock = readLockfile();
@@ -137,14 +228,18 @@ export class PoolClient implements ICompletionProvider {
     }
   }
 
-  private async tryConnect(): Promise<boolean> {
+  /**
+   * Connect to the shared server and exchange hellos. On a version mismatch
+   * the socket is left open, so an outdated server can be told to shut down.
+   */
+  private async tryConnect(): Promise<ConnectResult> {
     if (!ipcEndpointMayExist()) {
-      return false;
+      return 'failed';
     }
 
-    return new Promise<boolean>((resolve) => {
+    return new Promise<ConnectResult>((resolve) => {
       if (this.connecting) {
-        resolve(false);
+        resolve('failed');
         return;
       }
       this.connecting = true;
@@ -156,7 +251,7 @@ export class PoolClient implements ICompletionProvider {
         this.connecting = false;
         if (!resolved) {
           resolved = true;
-          resolve(false);
+          resolve('failed');
         }
       };
 
@@ -175,13 +270,28 @@ export class PoolClient implements ICompletionProvider {
           type: 'client-hello',
           id: generateRequestId(),
           clientId: this.clientId,
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: CAPABILITIES,
+          model: this.config.claudeCode.model,
+          backend: this.config.backend,
         })
           .then((response) => {
-            if (response.type === 'client-hello' && response.success) {
-              this.serverModel = response.model;
+            const refused = response.type === 'error' && response.code === 'incompatible-version';
+            if ((response.type === 'client-hello' && response.success) || refused) {
+              const compatibility =
+                response.type === 'client-hello' ? checkCompatibility(response) : 'client-outdated';
+              if (response.type === 'client-hello') {
+                this.serverModel = response.model;
+                this.serverCapabilities = new Set(response.capabilities ?? []);
+              }
+              if (compatibility !== 'compatible') {
+                this.logger.info(
+                  `Pool client: server protocol is incompatible (${compatibility}, this window speaks v${PROTOCOL_VERSION})`,
+                );
+              }
               resolved = true;
               this.connecting = false;
-              resolve(true);
+              resolve(compatibility === 'compatible' ? 'connected' : compatibility);
             } else {
               socket.destroy();
               cleanup();
@@ -231,6 +341,13 @@ export class PoolClient implements ICompletionProvider {
         continue;
       }
 
+      // Streamed ahead of the response — the request stays pending
+      if (message.type === 'completion-chunk' || message.type === 'command-chunk') {
+        const chunk = message as PoolChunk;
+        this.pendingRequests.get(chunk.id)?.onChunk?.(chunk.text);
+        continue;
+      }
+
       // Check if it's a response to a pending request
       const response = message as PoolResponse;
       const pending = this.pendingRequests.get(response.id);
@@ -247,6 +364,11 @@ export class PoolClient implements ICompletionProvider {
   private handleServerEvent(event: ServerEvent): void {
     switch (event.type) {
       case 'server-shutting-down':
+        if (event.successorId && this.role === 'client') {
+          // The server closes the connection once its successor is ready
+          this.prepareForHandoff(event.successorId, event.models ?? []);
+          break;
+        }
         this.logger.info('Pool client: server shutting down, will attempt reconnect');
         this.socket?.destroy();
         this.socket = null;
@@ -259,21 +381,128 @@ export class PoolClient implements ICompletionProvider {
         );
         this.onPoolDegraded?.(event.pool, event.reason ?? 'unknown');
         break;
+
+      case 'pool-state':
+        this.handlePoolState(event.pool, event.model, event.state);
+        break;
+
+      case 'api-breaker':
+        this.handleApiBreaker(event.preset, event.open);
+        break;
+    }
+  }
+
+  private handleApiBreaker(preset: string, open: boolean): void {
+    if (open) {
+      this.openApiBreakers.add(preset);
+    } else {
+      this.openApiBreakers.delete(preset);
     }
+    this.onApiBreakerChange?.(preset, open);
+  }
+
+  /** Pass on sleep/wake changes for this window's model; other windows' pools don't concern us. */
+  private handlePoolState(
+    pool: 'completion' | 'command',
+    model: string,
+    state: PoolSleepState,
+  ): void {
+    if (model !== this.config.claudeCode.model) return;
+    this.logger.debug(`Pool client: ${pool} pool (${model}) ${state}`);
+    this.onPoolStateChange?.(pool, state);
   }
 
   private handleDisconnect(): void {
     this.socket = null;
+    // The next server's breakers start closed
+    for (const preset of this.openApiBreakers) {
+      this.handleApiBreaker(preset, false);
+    }
+
+    if (this.handoffSuccessorId !== null && !this.disposed) {
+      // Pending requests are resent to the successor
+      if (!this.takingOver) this.completeHandoff();
+      return;
+    }
     this.rejectAllPending(new Error('Server disconnected'));
 
-    if (this.disposed) return;
+    if (this.disposed || this.replacingServer) return;
 
     this.logger.info('Pool client: disconnected from server');
     this.attemptTakeOver();
   }
 
+  /**
+   * The server is handing off to `successorId`. If that is us, warm our own
+   * pools and tell the server when they are ready; either way, hold requests
+   * from here on for the next server.
+   */
+  private prepareForHandoff(successorId: string, models: string[]): void {
+    this.handoffSuccessorId = successorId;
+    if (successorId !== this.clientId) {
+      this.logger.info(`Pool client: server handing off to ${successorId}`);
+      return;
+    }
+
+    this.logger.info('Pool client: chosen to take over the server, warming pools');
+    const server = this.createServer();
+    this.preparedServer = server;
+    server
+      .prepare(models)
+      .then(() => this.sendRequest({ type: 'handoff-ready', id: generateRequestId() }))
+      .catch((err) => {
+        // The server closes after a timeout anyway
+        this.logger.debug(`Pool client: handoff-ready not delivered: ${err}`);
+      });
+  }
+
+  /**
+   * After the handing-off server closed: the successor takes the lock and
+   * serves with its prepared pools, everyone else connects to it. Requests
+   * the old server never answered are resent. Falls back to the usual
+   * takeover if the successor doesn't show up.
+   */
+  private async completeHandoff(): Promise<void> {
+    this.takingOver = true;
+    let prepared = this.preparedServer;
+    this.preparedServer = null;
+
+    try {
+      for (let attempt = 1; attempt <= MAX_RECONNECT_ATTEMPTS && !this.disposed; attempt++) {
+        if (prepared && acquireLock(process.pid)) {
+          await this.becomeServer(prepared);
+          prepared = null;
+          break;
+        }
+        await this.delay(RECONNECT_DELAY_MS * attempt);
+        if (this.disposed) break;
+
+        const connected = await this.tryConnect();
+        if (connected === 'connected' || (await this.resolveVersionMismatch(connected))) {
+          this.logger.info('Pool client: connected to the new server');
+          break;
+        }
+      }
+    } catch (err) {
+      this.logger.error(`Pool client: handoff failed: ${err}`);
+    } finally {
+      prepared?.dispose();
+      this.handoffSuccessorId = null;
+      this.takingOver = false;
+    }
+
+    if (this.disposed) return;
+    if (this.isActive()) {
+      this.reconnectAttempts = 0;
+      this.retryPending();
+      return;
+    }
+    this.rejectAllPending(new Error('Server disconnected'));
+    this.attemptTakeOver();
+  }
+
   private async attemptTakeOver(): Promise<void> {
-    if (this.disposed || this.role === 'server' || this.takingOver) return;
+    if (this.disposed || this.role !== 'client' || this.takingOver) return;
     this.takingOver = true;
 
     try {
@@ -282,7 +511,11 @@ export class PoolClient implements ICompletionProvider {
 
       // Try to connect first (another client may have become server)
       const connected = await this.tryConnect();
-      if (connected) {
+      if (connected === 'connected') {
+        this.reconnectAttempts = 0;
+        return;
+      }
+      if (await this.resolveVersionMismatch(connected)) {
         this.reconnectAttempts = 0;
         return;
       }
@@ -305,17 +538,61 @@ export class PoolClient implements ICompletionProvider {
     }
   }
 
-  private async becomeServer(): Promise<void> {
-    this.logger.info('Pool client: becoming server');
+  /**
+   * Handle a server on another protocol version: take over an older server,
+   * or run a private pool if that fails or the server is newer than we can
+   * talk to. Returns false if `result` is not a mismatch.
+   */
+  private async resolveVersionMismatch(result: ConnectResult): Promise<boolean> {
+    if (result !== 'server-outdated' && result !== 'client-outdated') return false;
+    if (result === 'server-outdated' && (await this.replaceOutdatedServer())) return true;
+    await this.startLocalPool();
+    return true;
+  }
 
-    this.server = new PoolServer({
-      config: this.config,
-      logger: this.logger,
-      ledger: this.ledger,
-      serverId: this.clientId,
-      onPoolDegraded: this.onPoolDegraded,
-    });
+  /** Shut down the (older) server we are connected to and become the server in its place. */
+  private async replaceOutdatedServer(): Promise<boolean> {
+    const socket = this.socket;
+    if (!socket) return false;
+
+    this.logger.info('Pool client: server runs an older protocol, taking it over');
+    this.replacingServer = true;
+    try {
+      const closed = new Promise<void>((resolve) => socket.once('close', () => resolve()));
+      // Older servers may close the connection before answering
+      await this.sendRequest({ type: 'dispose', id: generateRequestId() }).catch(() => {});
+      await Promise.race([closed, this.delay(CONNECT_TIMEOUT_MS)]);
+      socket.destroy();
+      this.socket = null;
+
+      // Another window may win the lock — fall back rather than join an unknown server
+      if (!acquireLock(process.pid)) return false;
+      await this.becomeServer();
+      return true;
+    } finally {
+      this.replacingServer = false;
+    }
+  }
+
+  /** Run pools for this window only, without sharing them over IPC. */
+  private async startLocalPool(): Promise<void> {
+    // Set before closing the socket so its disconnect doesn't trigger a takeover
+    this.role = 'local';
+    this.socket?.destroy();
+    this.socket = null;
+    this.logger.info('Pool client: running a private pool for this window');
 
+    this.server = this.createServer();
+    await this.server.startLocal();
+
+    this.onRoleChange?.('local');
+  }
+
+  /** Become the shared server, with pools already warmed for a handoff if given. */
+  private async becomeServer(prepared?: PoolServer): Promise<void> {
+    this.logger.info('Pool client: becoming server');
+
+    this.server = prepared ?? this.createServer();
     await this.server.start();
 
     this.role = 'server';
@@ -324,40 +601,93 @@ export class PoolClient implements ICompletionProvider {
     this.logger.info('Pool client: now acting as server');
   }
 
-  private sendRequest(request: PoolRequest): Promise<PoolResponse> {
+  private createServer(): PoolServer {
+    return new PoolServer({
+      config: this.config,
+      logger: this.logger,
+      ledger: this.ledger,
+      serverId: this.clientId,
+      onPoolDegraded: this.onPoolDegraded,
+      onPoolStateChange: (pool, model, state) => this.handlePoolState(pool, model, state),
+      onApiBreakerChange: (preset, open) => this.handleApiBreaker(preset, open),
+    });
+  }
+
+  /**
+   * Send a request and wait for its response. Aborting `signal` stops waiting
+   * (rejects) and tells the server to cancel the request. `onChunk` receives
+   * the chunks of a streaming request.
+   */
+  private sendRequest(
+    request: PoolRequest,
+    signal?: AbortSignal,
+    onChunk?: (text: string) => void,
+  ): Promise<PoolResponse> {
     return new Promise((resolve, reject) => {
       // If we're the server, handle locally
-      if (this.role === 'server' && this.server) {
+      if (this.role !== 'client' && this.server) {
         // For server role, we need to call the pools directly
-        this.handleLocalRequest(request).then(resolve).catch(reject);
+        this.handleLocalRequest(request, signal, onChunk).then(resolve).catch(reject);
         return;
       }
 
-      if (!this.socket || this.socket.destroyed) {
+      const connected = this.socket !== null && !this.socket.destroyed;
+      if (!connected && this.handoffSuccessorId === null) {
         reject(new Error('Not connected to server'));
         return;
       }
 
-      const pending: PendingRequest = { resolve, reject };
+      const onAbort = () => {
+        if (!this.pendingRequests.delete(request.id)) return;
+        clearTimeout(pending.timer);
+        // Fire-and-forget: the server's acknowledgement has no pending entry and is dropped
+        if (this.socket && !this.socket.destroyed && this.supports('cancel')) {
+          this.socket.write(
+            serializeMessage({ type: 'cancel', id: generateRequestId(), targetId: request.id }),
+          );
+        }
+        reject(new Error('Request cancelled'));
+      };
+
+      const pending: PendingRequest = {
+        request,
+        signal,
+        onChunk,
+        resolve: (response) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(response);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
 
       // Set timeout for requests
       pending.timer = setTimeout(() => {
         this.pendingRequests.delete(request.id);
-        reject(new Error('Request timed out'));
+        pending.reject(new Error('Request timed out'));
       }, 60_000);
 
       this.pendingRequests.set(request.id, pending);
-      this.socket.write(serializeMessage(request));
+      // Mid-handoff the request waits for the next server (see retryPending)
+      if (connected) this.socket!.write(serializeMessage(request));
+      signal?.addEventListener('abort', onAbort, { once: true });
     });
   }
 
-  private async handleLocalRequest(request: PoolRequest): Promise<PoolResponse> {
+  private async handleLocalRequest(
+    request: PoolRequest,
+    signal?: AbortSignal,
+    onChunk?: (text: string) => void,
+  ): Promise<PoolResponse> {
     if (!this.server) {
       return {
         type: 'error',
         id: request.id,
         success: false,
         error: 'Server not initialized',
+        code: 'not-initialized',
       };
     }
 
@@ -370,21 +700,35 @@ export class PoolClient implements ICompletionProvider {
           languageId: request.languageId,
           fileName: request.fileName,
           filePath: request.filePath,
+          relatedFiles: request.relatedFiles,
+          retrievedChunks: request.retrievedChunks,
+          symbols: request.symbols,
+          explicit: request.explicit,
         };
-        const abortController = new AbortController();
-        const text = await this.server.getCompletion(context, abortController.signal);
+        const text = await this.server.getCompletion(
+          context,
+          signal ?? new AbortController().signal,
+          request.stream ? onChunk : undefined,
+          request.model,
+        );
         return {
           type: 'completion',
           id: request.id,
           success: true,
           text,
+          meta: { model: this.server.servedModel(request.model) },
         };
       }
 
       case 'command': {
-        const result = await this.server.sendCommand(request.message, {
-          timeoutMs: request.timeoutMs,
-        });
+        const result = await this.server.sendCommand(
+          request.message,
+          {
+            timeoutMs: request.timeoutMs,
+            onPartial: request.stream ? onChunk : undefined,
+          },
+          request.model,
+        );
         return {
           type: 'command',
           id: request.id,
@@ -394,6 +738,27 @@ export class PoolClient implements ICompletionProvider {
         };
       }
 
+      case 'api-completion': {
+        const candidates = await this.server.getApiCandidates(
+          request.preset,
+          requestContext(request),
+          signal ?? new AbortController().signal,
+          request.count,
+          request.stream ? onChunk : undefined,
+        );
+        return { type: 'api-completion', id: request.id, success: true, candidates };
+      }
+
+      case 'api-command': {
+        const text = await this.server.sendApiCommand(
+          request.preset,
+          request.systemPrompt,
+          request.message,
+          signal,
+        );
+        return { type: 'api-command', id: request.id, success: true, text };
+      }
+
       case 'status':
         return {
           type: 'status',
@@ -407,6 +772,14 @@ export class PoolClient implements ICompletionProvider {
           commandPool: this.server.getCommandPoolStats(),
         };
 
+      case 'processes':
+        return {
+          type: 'processes',
+          id: request.id,
+          success: true,
+          pools: this.server.getAllPoolStats(),
+        };
+
       case 'config-update': {
         await this.server.handleConfigUpdateDirect(request);
         return { type: 'config-update', id: request.id, success: true };
@@ -418,12 +791,25 @@ export class PoolClient implements ICompletionProvider {
       }
 
       case 'warmup':
+        this.server.warmPool(request.pool);
         return { type: 'warmup', id: request.id, success: true };
 
+      case 'wake':
+        this.server.wakePools(request.model ?? this.config.claudeCode.model);
+        return { type: 'wake', id: request.id, success: true };
+
+      case 'cancel':
+        // Local completions are cancelled through their AbortSignal directly
+        return { type: 'cancel', id: request.id, success: false };
+
       case 'dispose':
         setImmediate(() => this.server?.dispose());
         return { type: 'dispose', id: request.id, success: true };
 
+      case 'handoff-ready':
+        // Only sent to a server that is handing off, never to our own
+        return { type: 'handoff-ready', id: request.id, success: false };
+
       case 'client-hello':
         return {
           type: 'client-hello',
@@ -431,6 +817,8 @@ export class PoolClient implements ICompletionProvider {
           success: true,
           serverId: this.clientId,
           model: this.server.getModel(),
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: CAPABILITIES,
         };
 
       default: {
@@ -440,11 +828,39 @@ export class PoolClient implements ICompletionProvider {
           id: unhandled.id,
           success: false as const,
           error: `Unhandled local request type: ${unhandled.type}`,
+          code: 'unknown-request',
         };
       }
     }
   }
 
+  /** Whether the server handling our requests supports an optional feature. */
+  private supports(capability: Capability): boolean {
+    return this.role !== 'client' || this.serverCapabilities.has(capability);
+  }
+
+  /**
+   * Resend requests the previous server never answered, to whichever server
+   * we now use. Streaming requests start their partial text over.
+   */
+  private retryPending(): void {
+    if (this.pendingRequests.size === 0) return;
+    this.logger.info(`Pool client: resending ${this.pendingRequests.size} unanswered request(s)`);
+    for (const [id, pending] of this.pendingRequests) {
+      if (this.role !== 'client' && this.server) {
+        this.pendingRequests.delete(id);
+        if (pending.timer) {
+          clearTimeout(pending.timer);
+        }
+        this.handleLocalRequest(pending.request, pending.signal, pending.onChunk)
+          .then(pending.resolve)
+          .catch(pending.reject);
+      } else if (this.socket && !this.socket.destroyed) {
+        this.socket.write(serializeMessage(pending.request));
+      }
+    }
+  }
+
   private rejectAllPending(error: Error): void {
     for (const [id, pending] of this.pendingRequests) {
       if (pending.timer) {
@@ -461,40 +877,109 @@ export class PoolClient implements ICompletionProvider {
 
   // --- CompletionProvider interface ---
 
-  async getCompletion(context: CompletionContext, _signal: AbortSignal): Promise<string | null> {
-    if (this.disposed) return null;
+  async getCompletion(
+    context: CompletionContext,
+    signal: AbortSignal,
+    onPartial?: PartialCompletionCallback,
+  ): Promise<string | null> {
+    return this.requestCompletion(context, signal, onPartial);
+  }
 
-    try {
-      const response = await this.sendRequest({
-        type: 'completion',
-        id: generateRequestId(),
-        prefix: context.prefix,
-        suffix: context.suffix,
-        mode: context.mode,
-        languageId: context.languageId,
-        fileName: context.fileName,
-        filePath: context.filePath,
-      });
+  /**
+   * Complete with a model other than this window's (e.g. a per-mode override).
+   * The server runs it in that model's own pool, so this window's pool and
+   * other windows are unaffected.
+   */
+  async getCompletionWithModel(
+    model: string,
+    context: CompletionContext,
+    signal: AbortSignal,
+    onPartial?: PartialCompletionCallback,
+  ): Promise<string | null> {
+    return this.requestCompletion(context, signal, onPartial, model);
+  }
 
-      if (response.type === 'completion' && response.success) {
-        return response.text;
-      }
-      // Log error responses instead of silently swallowing
-      if (response.type === 'error' || (response.type === 'completion' && !response.success)) {
-        const errorMsg = 'error' in response ? response.error : 'unknown error';
-        this.logger.error(`Pool client: completion failed: ${errorMsg}`);
-      }
-      return null;
+  /**
+   * Like getCompletionWithModel (the window's model if `model` is omitted),
+   * but a request that fails or never reaches the server throws instead of
+   * resolving to null — for callers with another backend to fall back to.
+   */
+  async getCompletionOrThrow(
+    context: CompletionContext,
+    signal: AbortSignal,
+    onPartial?: PartialCompletionCallback,
+    model?: string,
+  ): Promise<string | null> {
+    return this.requestCompletion(context, signal, onPartial, model, true);
+  }
+
+  private async requestCompletion(
+    context: CompletionContext,
+    signal: AbortSignal,
+    onPartial?: PartialCompletionCallback,
+    model?: string,
+    strict = false,
+  ): Promise<string | null> {
+    if (this.disposed || signal.aborted) return null;
+
+    let response: PoolResponse;
+    try {
+      response = await this.sendRequest(
+        {
+          type: 'completion',
+          id: generateRequestId(),
+          prefix: context.prefix,
+          suffix: context.suffix,
+          mode: context.mode,
+          languageId: context.languageId,
+          fileName: context.fileName,
+          filePath: context.filePath,
+          relatedFiles: context.relatedFiles,
+          retrievedChunks: context.retrievedChunks,
+          symbols: context.symbols,
+          explicit: context.explicit,
+          stream: onPartial !== undefined && this.supports('stream'),
+          model,
+        },
+        signal,
+        onPartial,
+      );
     } catch (err) {
+      // Superseded by a newer request — not an error
+      if (signal.aborted) return null;
       this.logger.error(`Pool client: completion error: ${err}`);
+      if (strict) throw err;
       return null;
     }
+
+    if (response.type === 'completion' && response.success) {
+      if (response.meta?.model) this.servedModels.set(context, response.meta.model);
+      return response.text;
+    }
+    // Log error responses instead of silently swallowing
+    if (response.type === 'error' || (response.type === 'completion' && !response.success)) {
+      const errorMsg = 'error' in response ? response.error : 'unknown error';
+      this.logger.error(`Pool client: completion failed: ${errorMsg}`);
+      if (strict) throw new Error(errorMsg ?? 'completion failed');
+    }
+    return null;
+  }
+
+  /**
+   * Request a completion as an async iterator: yields the stable completion
+   * text so far each time it grows, then returns the final completion.
+   */
+  streamCompletion(
+    context: CompletionContext,
+    signal: AbortSignal,
+  ): AsyncGenerator<string, string | null> {
+    return iteratePartials((onPartial) => this.getCompletion(context, signal, onPartial));
   }
 
   isAvailable(): boolean {
     if (this.disposed) return false;
 
-    if (this.role === 'server' && this.server) {
+    if (this.role !== 'client' && this.server) {
       return this.server.isCompletionPoolAvailable();
     }
 
@@ -502,15 +987,35 @@ export class PoolClient implements ICompletionProvider {
   }
 
   updateConfig(config: ExtensionConfig): void {
-    const modelChanged = config.claudeCode.model !== this.config.claudeCode.model;
+    const prev = this.config.claudeCode;
+    const next = config.claudeCode;
+    const poolChanged =
+      next.model !== prev.model ||
+      next.completionSlots !== prev.completionSlots ||
+      next.commandSlots !== prev.commandSlots ||
+      next.idleShutdownMinutes !== prev.idleShutdownMinutes ||
+      config.backend !== this.config.backend ||
+      config.api.maxRequestsPerMinute !== this.config.api.maxRequestsPerMinute ||
+      config.httpEndpoint.enabled !== this.config.httpEndpoint.enabled ||
+      config.httpEndpoint.port !== this.config.httpEndpoint.port ||
+      JSON.stringify(config.budget) !== JSON.stringify(this.config.budget);
     this.config = config;
 
-    if (modelChanged && !this.disposed) {
+    if (poolChanged && this.isActive()) {
+      // The server keeps each client's model separately — ours applies to our requests only
+      this.serverModel = next.model;
       // Notify server of config change
       this.sendRequest({
         type: 'config-update',
         id: generateRequestId(),
-        model: config.claudeCode.model,
+        model: next.model,
+        completionSlots: next.completionSlots,
+        commandSlots: next.commandSlots,
+        idleShutdownMinutes: next.idleShutdownMinutes,
+        backend: config.backend,
+        apiMaxRequestsPerMinute: config.api.maxRequestsPerMinute,
+        httpEndpoint: this.supports('http-endpoint') ? config.httpEndpoint : undefined,
+        budget: config.budget,
       }).catch((err) => {
         this.logger.error(`Pool client: config update failed: ${err}`);
       });
@@ -539,12 +1044,17 @@ export class PoolClient implements ICompletionProvider {
     }
 
     try {
-      const response = await this.sendRequest({
-        type: 'command',
-        id: generateRequestId(),
-        message,
-        timeoutMs: options?.timeoutMs,
-      });
+      const response = await this.sendRequest(
+        {
+          type: 'command',
+          id: generateRequestId(),
+          message,
+          timeoutMs: options?.timeoutMs,
+          stream: options?.onPartial !== undefined && this.supports('stream'),
+        },
+        undefined,
+        options?.onPartial,
+      );
 
       if (response.type === 'command' && response.success) {
         // Map protocol metadata to slot-pool format (fill defaults for optional fields)
@@ -576,10 +1086,115 @@ export class PoolClient implements ICompletionProvider {
     }
   }
 
+  /**
+   * Send a command as an async iterator: yields the response text so far
+   * each time it grows, then returns the final result.
+   */
+  streamCommand(
+    message: string,
+    options?: Omit<SendPromptOptions, 'onPartial'>,
+  ): AsyncGenerator<string, SendPromptResult> {
+    return iteratePartials((onPartial) => this.sendCommand(message, { ...options, onPartial }));
+  }
+
+  // --- Hosted API presets (api.sharedServer) ---
+
+  /** Whether the server can run API requests for this window. */
+  canHostApi(): boolean {
+    if (this.disposed || !this.supports('api')) return false;
+
+    if (this.role !== 'client') {
+      return this.server !== null;
+    }
+    return this.socket !== null && !this.socket.destroyed;
+  }
+
+  /** Whether a hosted preset can take requests (its shared breaker is closed). */
+  isApiPresetAvailable(preset: string): boolean {
+    return this.canHostApi() && !this.openApiBreakers.has(preset);
+  }
+
+  /** Completions from a preset hosted by the server, shared with other windows. */
+  async getApiCandidates(
+    preset: string,
+    context: CompletionContext,
+    signal: AbortSignal,
+    count: number,
+    onPartial?: PartialCompletionCallback,
+  ): Promise<string[]> {
+    if (this.disposed || signal.aborted) return [];
+
+    try {
+      const response = await this.sendRequest(
+        {
+          type: 'api-completion',
+          id: generateRequestId(),
+          preset,
+          count,
+          prefix: context.prefix,
+          suffix: context.suffix,
+          mode: context.mode,
+          languageId: context.languageId,
+          fileName: context.fileName,
+          filePath: context.filePath,
+          relatedFiles: context.relatedFiles,
+          retrievedChunks: context.retrievedChunks,
+          symbols: context.symbols,
+          explicit: context.explicit,
+          stream: onPartial !== undefined && this.supports('stream'),
+        },
+        signal,
+        onPartial,
+      );
+
+      if (response.type === 'api-completion' && response.success) {
+        return response.candidates;
+      }
+      if (response.type === 'error' || (response.type === 'api-completion' && !response.success)) {
+        const errorMsg = 'error' in response ? response.error : 'unknown error';
+        this.logger.error(`Pool client: API completion failed: ${errorMsg}`);
+      }
+      return [];
+    } catch (err) {
+      if (signal.aborted) return [];
+      this.logger.error(`Pool client: API completion error: ${err}`);
+      return [];
+    }
+  }
+
+  async sendApiCommand(
+    preset: string,
+    systemPrompt: string,
+    message: string,
+    signal?: AbortSignal,
+  ): Promise<string | null> {
+    if (this.disposed) return null;
+
+    try {
+      const response = await this.sendRequest(
+        { type: 'api-command', id: generateRequestId(), preset, systemPrompt, message },
+        signal,
+      );
+
+      if (response.type === 'api-command' && response.success) {
+        return response.text;
+      }
+      if (response.type === 'error' || (response.type === 'api-command' && !response.success)) {
+        const errorMsg = 'error' in response ? response.error : 'unknown error';
+        this.logger.error(`Pool client: API command failed: ${errorMsg}`);
+      }
+      return null;
+    } catch (err) {
+      if (signal?.aborted) return null;
+      this.logger.error(`Pool client: API command error: ${err}`);
+      return null;
+    }
+  }
+
   isCommandPoolAvailable(): boolean {
     if (this.disposed) return false;
 
-    if (this.role === 'server' && this.server) {
+    if (this.role !== 'client' && this.server) {
       return this.server.isCommandPoolAvailable();
     }
 
@@ -592,6 +1207,11 @@ export class PoolClient implements ICompletionProvider {
     return this.serverModel || this.config.claudeCode.model;
   }
 
+  /** The model ID that served the last completion for `context`, if the server said. */
+  getServedModel(context: CompletionContext): string | undefined {
+    return this.servedModels.get(context);
+  }
+
   /** Get pool status including slot statistics. */
   async getPoolStatus(): Promise<{
     role: PoolRole;
@@ -621,12 +1241,43 @@ export class PoolClient implements ICompletionProvider {
     }
   }
 
+  /** Every pool on the server (all models) with its slot subprocesses. */
+  async getProcesses(): Promise<PoolStatsInfo[] | null> {
+    if (this.disposed || !this.supports('processes')) return null;
+
+    try {
+      const response = await this.sendRequest({ type: 'processes', id: generateRequestId() });
+      return response.type === 'processes' && response.success ? response.pools : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Warm this window's pool back up if it went to sleep while idle. Called on
+   * editor focus and typing, so it is throttled and never waits.
+   */
+  wake(): void {
+    if (this.disposed || !this.supports('idle-wake')) return;
+    const now = Date.now();
+    if (now - this.lastWakeAt < WAKE_THROTTLE_MS) return;
+    this.lastWakeAt = now;
+
+    this.sendRequest({
+      type: 'wake',
+      id: generateRequestId(),
+      model: this.config.claudeCode.model,
+    }).catch((err) => {
+      this.logger.debug(`Pool client: wake failed: ${err}`);
+    });
+  }
+
   // --- Lifecycle ---
 
   async restart(): Promise<void> {
     if (this.disposed) return;
 
-    if (this.role === 'server' && this.server) {
+    if (this.role !== 'client' && this.server) {
       await this.server.restartPools();
     } else {
       // Request recycle from server
@@ -634,11 +1285,28 @@ export class PoolClient implements ICompletionProvider {
     }
   }
 
+  /**
+   * If this window runs the shared server, hand it over to another window
+   * (see `PoolServer.handOff`), waiting at most `timeoutMs` for it to warm
+   * up. Resolves once the server has closed; call before `dispose()` on a
+   * graceful shutdown.
+   */
+  async handOff(timeoutMs?: number): Promise<void> {
+    if (this.disposed || this.role !== 'server' || !this.server) return;
+    await this.server.handOff(timeoutMs);
+  }
+
   dispose(): void {
     if (this.disposed) return;
     this.disposed = true;
 
     this.rejectAllPending(new Error('Client disposed'));
+    this.handoffSuccessorId = null;
+
+    if (this.preparedServer) {
+      this.preparedServer.dispose();
+      this.preparedServer = null;
+    }
 
     if (this.socket) {
       this.socket.destroy();
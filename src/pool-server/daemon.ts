@@ -0,0 +1,136 @@
+/**
+ * Headless Pool Daemon
+ *
+ * Runs the pool server as a standalone Node process instead of inside the
+ * extension host that wins the lock. Windows connect to it as plain clients,
+ * so the warm pools survive window reloads and VS Code restarts. Started and
+ * queried through the `bespoke-pool` CLI (cli.ts).
+ *
+ * Settings come from a JSON file (~/.bespokeai/daemon.json by default) using
+ * the same keys as the VS Code settings, minus the `bespokeAI.` prefix:
+ *
+ *   { "claudeCode.model": "haiku", "claudeCode.completionSlots": 2 }
+ *
+ * Windows still send their shared settings (slot counts, idle timeout, rate
+ * limit, HTTP endpoint, budgets) when they change, the same as with any other
+ * server.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CustomPreset, DEFAULT_MODEL, ExtensionConfig } from '../types';
+import { LogLevel, Logger } from '../utils/logger';
+import { UsageLedger } from '../utils/usage-ledger';
+import { DEFAULT_PRESET_ID, registerCustomPresets } from '../providers/api/presets';
+import { STATE_DIR } from './ipc-path';
+import { PoolServer, acquireLock, readLockfile } from './server';
+
+export const DAEMON_CONFIG_PATH = path.join(STATE_DIR, 'daemon.json');
+export const DAEMON_LOG_PATH = path.join(STATE_DIR, 'daemon.log');
+
+/**
+ * Build the server's config from a daemon config file's settings. Settings
+ * the pool server never reads keep their defaults.
+ */
+export function daemonConfig(settings: Record<string, unknown>): ExtensionConfig {
+  const get = <T>(key: string, fallback: T): T => {
+    const value = settings[key];
+    return value !== undefined && typeof value === typeof fallback ? (value as T) : fallback;
+  };
+  const clamp = (value: number, min: number, max: number) =>
+    Math.min(max, Math.max(min, Math.round(value)));
+
+  return {
+    enabled: true,
+    mode: 'auto',
+    backend: 'claude-code',
+    triggerPreset: 'relaxed',
+    triggerMode: 'auto',
+    debounceMs: 2000,
+    streaming: true,
+    candidates: 1,
+    prose: { contextChars: 2500, suffixChars: 2000, fileTypes: [] },
+    code: { contextChars: 2500, suffixChars: 2000, relatedFilesChars: 2000, symbolContext: true },
+    workspaceIndex: { enabled: false, maxChars: 1500 },
+    claudeCode: {
+      model: get('claudeCode.model', DEFAULT_MODEL),
+      models: get<string[]>('claudeCode.models', ['haiku', 'sonnet', 'opus']),
+      completionSlots: clamp(get('claudeCode.completionSlots', 1), 1, 4),
+      commandSlots: clamp(get('claudeCode.commandSlots', 1), 1, 4),
+      idleShutdownMinutes: clamp(get('claudeCode.idleShutdownMinutes', 30), 0, 1440),
+    },
+    httpEndpoint: {
+      enabled: get('httpEndpoint.enabled', false),
+      port: clamp(get('httpEndpoint.port', 8741), 1024, 65535),
+    },
+    api: {
+      preset: get('api.preset', DEFAULT_PRESET_ID),
+      customPresets: get<CustomPreset[]>('api.customPresets', []),
+      sharedServer: true,
+      maxRequestsPerMinute: clamp(get('api.maxRequestsPerMinute', 0), 0, 600),
+    },
+    codeOverride: { backend: '', model: '' },
+    routing: { rules: [] },
+    fallback: { chain: [], on: ['unavailable', 'error'] },
+    race: { enabled: false, backends: [], staggerMs: 150 },
+    budget: {
+      dailyUsd: Math.max(0, get('budget.dailyUsd', 0)),
+      monthlyUsd: Math.max(0, get('budget.monthlyUsd', 0)),
+      dailyTokens: Math.max(0, Math.round(get('budget.dailyTokens', 0))),
+      monthlyTokens: Math.max(0, Math.round(get('budget.monthlyTokens', 0))),
+      dailyRequests: Math.max(0, Math.round(get('budget.dailyRequests', 0))),
+      monthlyRequests: Math.max(0, Math.round(get('budget.monthlyRequests', 0))),
+      warnAtPercent: clamp(get('budget.warnAtPercent', 80), 1, 100),
+      allowExplicit: get('budget.allowExplicit', true),
+    },
+    contextMenu: { permissionMode: 'default' },
+    logLevel: get<LogLevel>('logLevel', 'info'),
+  };
+}
+
+/** Read a daemon config file. A missing file means all defaults. */
+export function readDaemonConfig(configPath: string): ExtensionConfig {
+  if (!fs.existsSync(configPath)) return daemonConfig({});
+  const settings = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+    throw new Error(`${configPath}: expected a JSON object of settings`);
+  }
+  return daemonConfig(settings);
+}
+
+/**
+ * Take the lock and serve pools until a client asks the server to shut down
+ * or the process is signalled. Resolves once the server is listening.
+ */
+export async function runDaemon(configPath: string): Promise<PoolServer> {
+  const config = readDaemonConfig(configPath);
+  const logger = new Logger({
+    appendLine: (line) => process.stderr.write(line + '\n'),
+    show: () => {},
+    dispose: () => {},
+  });
+  logger.setLevel(config.logLevel);
+  for (const warning of registerCustomPresets(config.api.customPresets)) logger.info(warning);
+
+  if (!acquireLock(process.pid)) {
+    throw new Error(`a pool server is already running (pid ${readLockfile()?.pid ?? '?'})`);
+  }
+
+  const ledger = new UsageLedger(path.join(STATE_DIR, 'usage-ledger.jsonl'), logger);
+  const server = new PoolServer({
+    config,
+    logger,
+    ledger,
+    serverId: `daemon-${process.pid}`,
+    onDisposed: () => process.exit(0),
+  });
+
+  // Hand the pools to a connected window, if there is one, rather than leave them all cold
+  const shutdown = () => void server.handOff();
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  await server.start();
+  logger.info(`Pool daemon: serving ${config.claudeCode.model} (pid ${process.pid})`);
+  return server;
+}
@@ -0,0 +1,522 @@
+/**
+ * Local HTTP Endpoint
+ *
+ * Serves the pool server's Claude Code pools to other local tools (terminal
+ * assistants, scripts, other editors) in the OpenAI format:
+ *
+ * - `POST /v1/chat/completions` — runs in the command pool
+ * - `POST /v1/completions` — fill-in-the-middle (`prompt` + `suffix`), runs in
+ *   the completion pool
+ * - `GET /v1/models` — the configured Claude Code models
+ *
+ * Listens on 127.0.0.1 only. Every request needs `Authorization: Bearer
+ * <token>`, where the token is generated once and kept in ~/.bespokeai/http-token.
+ * Requests are recorded in the usage ledger under the caller's name — the
+ * request's `user` field, else the User-Agent product — and count against
+ * the Claude Code budgets: once one is reached, requests get a 429 (chat
+ * requests are explicit, so they go on while `budget.allowExplicit` is set).
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { BudgetGuard } from '../utils/budget';
+import { Logger } from '../utils/logger';
+import { UsageLedger } from '../utils/usage-ledger';
+import { CompletionContext, PartialCompletionCallback } from '../types';
+import { SendPromptOptions, SendPromptResult } from '../providers/command-pool';
+import { CHARS_PER_TOKEN } from '../providers/slot-pool';
+import { STATE_DIR, ensureStateDir } from './ipc-path';
+
+export const HTTP_TOKEN_PATH = path.join(STATE_DIR, 'http-token');
+
+/** Largest request body accepted. */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Chat requests give up after this long (matches the IPC request timeout). */
+const CHAT_TIMEOUT_MS = 60_000;
+
+/** The pool server methods the endpoint runs requests through. */
+export interface HttpEndpointPools {
+  getCompletion(
+    context: CompletionContext,
+    signal: AbortSignal,
+    onPartial?: PartialCompletionCallback,
+    model?: string,
+  ): Promise<string | null>;
+  sendCommand(
+    message: string,
+    options?: SendPromptOptions,
+    model?: string,
+  ): Promise<SendPromptResult>;
+  getModel(): string;
+  getModels(): string[];
+}
+
+interface ChatMessage {
+  role: string;
+  content: string | Array<{ type: string; text?: string }> | null;
+}
+
+/** A parsed JSON request body — untrusted, so each field is checked before use. */
+type RequestBody = Record<string, unknown>;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly errorType = 'invalid_request_error',
+  ) {
+    super(message);
+  }
+}
+
+/** Missing or null — OpenAI clients send either for fields they leave out. */
+function isUnset(value: unknown): value is undefined | null {
+  return value === undefined || value === null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Reject wrongly typed fields the endpoints read. Unset (or null) is fine. */
+function checkCommonFields(body: RequestBody): void {
+  for (const field of ['model', 'suffix', 'language']) {
+    if (!isUnset(body[field]) && typeof body[field] !== 'string') {
+      throw new HttpError(400, `\`${field}\` must be a string`);
+    }
+  }
+  if (!isUnset(body.stream) && typeof body.stream !== 'boolean') {
+    throw new HttpError(400, '`stream` must be a boolean');
+  }
+  if (!isUnset(body.mode) && body.mode !== 'code' && body.mode !== 'prose') {
+    throw new HttpError(400, '`mode` must be "code" or "prose"');
+  }
+  const maxTokens = body.max_tokens;
+  const validMaxTokens =
+    typeof maxTokens === 'number' && Number.isInteger(maxTokens) && maxTokens > 0;
+  if (!isUnset(maxTokens) && !validMaxTokens) {
+    throw new HttpError(400, '`max_tokens` must be a positive integer');
+  }
+}
+
+/**
+ * Cut output to the request's `max_tokens`, estimated from its length — the
+ * pools' sessions take no token limit, so it is applied to what they return.
+ */
+function clipToMaxTokens(text: string, body: RequestBody): string {
+  return typeof body.max_tokens === 'number'
+    ? text.slice(0, body.max_tokens * CHARS_PER_TOKEN)
+    : text;
+}
+
+/** The body's `messages`, checked to be OpenAI chat messages. */
+function parseChatMessages(value: unknown): ChatMessage[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new HttpError(400, '`messages` must be a non-empty array');
+  }
+  return value.map((message: unknown, i) => {
+    if (!isRecord(message) || typeof message.role !== 'string') {
+      throw new HttpError(400, `\`messages[${i}].role\` must be a string`);
+    }
+    const { role, content } = message;
+    if (isUnset(content) || typeof content === 'string') return { role, content: content ?? null };
+    const isPart = (part: unknown) =>
+      isRecord(part) &&
+      typeof part.type === 'string' &&
+      (part.text === undefined || typeof part.text === 'string');
+    if (!Array.isArray(content) || !content.every(isPart)) {
+      throw new HttpError(
+        400,
+        `\`messages[${i}].content\` must be a string or an array of content parts`,
+      );
+    }
+    return { role, content: content as Array<{ type: string; text?: string }> };
+  });
+}
+
+/** The endpoint's bearer token, generated on first use. */
+export function readOrCreateToken(): string {
+  try {
+    const token = fs.readFileSync(HTTP_TOKEN_PATH, 'utf-8').trim();
+    if (token) return token;
+  } catch {
+    // Not created yet
+  }
+  ensureStateDir();
+  const token = crypto.randomBytes(24).toString('hex');
+  fs.writeFileSync(HTTP_TOKEN_PATH, token + '\n', { mode: 0o600 });
+  return token;
+}
+
+/**
+ * Flatten an OpenAI message list into one command-pool message. A lone user
+ * message is sent as-is; longer conversations become a labeled transcript.
+ */
+export function flattenChatMessages(messages: ChatMessage[]): string {
+  const text = (m: ChatMessage) =>
+    typeof m.content === 'string'
+      ? m.content
+      : (m.content ?? [])
+          .filter((part) => part.type === 'text')
+          .map((part) => part.text ?? '')
+          .join('');
+
+  const system = messages.filter((m) => m.role === 'system' || m.role === 'developer').map(text);
+  const turns = messages.filter((m) => m.role !== 'system' && m.role !== 'developer');
+  const conversation =
+    turns.length === 1 && turns[0].role === 'user'
+      ? text(turns[0])
+      : turns
+          .map((m) => `${m.role === 'assistant' ? 'Assistant' : 'User'}: ${text(m)}`)
+          .join('\n\n');
+
+  return [...system, conversation].filter(Boolean).join('\n\n');
+}
+
+/** Who to attribute a request to in the usage ledger. */
+export function callerName(body: { user?: unknown }, userAgent: string | undefined): string {
+  if (typeof body.user === 'string' && body.user.trim()) return body.user.trim().slice(0, 64);
+  const product = userAgent?.split(/[\s/]/)[0];
+  return product || 'http';
+}
+
+export class HttpEndpoint {
+  private server: http.Server | null = null;
+  private token = '';
+  private port = 0;
+
+  constructor(
+    private pools: HttpEndpointPools,
+    private logger: Logger,
+    private ledger: UsageLedger,
+    private budget?: BudgetGuard,
+  ) {}
+
+  /** Listen on `port`, or move there if already listening elsewhere. */
+  async start(port: number): Promise<void> {
+    if (this.server && this.port === port) return;
+    await this.stop();
+
+    this.token = readOrCreateToken();
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((err) => {
+        this.logger.error(`HTTP endpoint: request failed: ${err}`);
+        if (!res.headersSent) {
+          this.sendError(res, new HttpError(500, String(err), 'server_error'));
+        } else {
+          res.end();
+        }
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    server.on('error', (err) => this.logger.error(`HTTP endpoint: ${err.message}`));
+    this.server = server;
+    this.port = port;
+    this.logger.info(`HTTP endpoint listening on http://127.0.0.1:${port}/v1`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    this.port = 0;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    this.logger.info('HTTP endpoint stopped');
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (!this.isAuthorized(req.headers.authorization)) {
+      this.sendError(res, new HttpError(401, 'Invalid or missing bearer token'));
+      return;
+    }
+
+    const url = (req.url ?? '').split('?')[0].replace(/\/+$/, '');
+    try {
+      if (req.method === 'GET' && url === '/v1/models') {
+        this.sendJson(res, 200, {
+          object: 'list',
+          data: this.pools
+            .getModels()
+            .map((id) => ({ id, object: 'model', owned_by: 'anthropic' })),
+        });
+        return;
+      }
+      if (req.method === 'POST' && url === '/v1/chat/completions') {
+        await this.handleChat(req, res, await this.readBody(req));
+        return;
+      }
+      if (req.method === 'POST' && url === '/v1/completions') {
+        await this.handleCompletion(req, res, await this.readBody(req));
+        return;
+      }
+      throw new HttpError(404, `Unknown endpoint: ${req.method} ${url}`);
+    } catch (err) {
+      if (!(err instanceof HttpError)) throw err;
+      this.sendError(res, err);
+    }
+  }
+
+  private async handleChat(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    body: RequestBody,
+  ): Promise<void> {
+    checkCommonFields(body);
+    const message = flattenChatMessages(parseChatMessages(body.messages));
+    this.checkBudget(true);
+    const model = this.resolveModel(body.model);
+    const caller = callerName(body, req.headers['user-agent']);
+    const id = `chatcmpl-${crypto.randomBytes(12).toString('hex')}`;
+    const created = Math.floor(Date.now() / 1000);
+    const signal = this.abortOnClose(res);
+    const stream = body.stream === true;
+
+    const chunk = (delta: object, finishReason: string | null) => ({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    });
+
+    let sent = '';
+    if (stream) this.startEventStream(res);
+    const startTime = Date.now();
+    const { text, meta } = await this.pools.sendCommand(
+      message,
+      {
+        timeoutMs: CHAT_TIMEOUT_MS,
+        onCancel: signal,
+        onPartial: stream
+          ? (partial) => {
+              const visible = clipToMaxTokens(partial, body);
+              if (!visible.startsWith(sent) || visible.length === sent.length) return;
+              const content = visible.slice(sent.length);
+              // The first chunk carries the role, as OpenAI's do
+              const delta = sent === '' ? { role: 'assistant', content } : { content };
+              sent = visible;
+              this.sendEvent(res, chunk(delta, null));
+            }
+          : undefined,
+      },
+      model,
+    );
+    if (signal.aborted) return;
+
+    this.ledger.record({
+      source: 'chat',
+      model: meta?.model || model,
+      backend: 'claude-code',
+      caller,
+      durationMs: meta?.durationMs ?? Date.now() - startTime,
+      durationApiMs: meta?.durationApiMs,
+      inputTokens: meta?.inputTokens,
+      outputTokens: meta?.outputTokens,
+      cacheReadTokens: meta?.cacheReadTokens,
+      cacheCreationTokens: meta?.cacheCreationTokens,
+      costUsd: meta?.costUsd,
+      inputChars: message.length,
+      outputChars: text?.length ?? 0,
+      sessionId: meta?.sessionId,
+    });
+
+    if (text === null) {
+      const error = new HttpError(502, 'The command pool returned no response', 'server_error');
+      if (stream) {
+        this.sendEvent(res, { error: { message: error.message, type: error.errorType } });
+        this.endEventStream(res);
+      } else {
+        this.sendError(res, error);
+      }
+      return;
+    }
+
+    const output = clipToMaxTokens(text, body);
+    const finishReason = output.length < text.length ? 'length' : 'stop';
+    if (stream) {
+      if (output.startsWith(sent) && output.length > sent.length) {
+        this.sendEvent(res, chunk({ content: output.slice(sent.length) }, null));
+      }
+      this.sendEvent(res, chunk({}, finishReason));
+      this.endEventStream(res);
+      return;
+    }
+
+    const promptTokens = (meta?.inputTokens ?? 0) + (meta?.cacheReadTokens ?? 0);
+    const completionTokens = meta?.outputTokens ?? 0;
+    this.sendJson(res, 200, {
+      id,
+      object: 'chat.completion',
+      created,
+      model,
+      choices: [
+        { index: 0, message: { role: 'assistant', content: output }, finish_reason: finishReason },
+      ],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    });
+  }
+
+  private async handleCompletion(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    body: RequestBody,
+  ): Promise<void> {
+    checkCommonFields(body);
+    const prompt = body.prompt;
+    if (typeof prompt !== 'string') {
+      throw new HttpError(400, '`prompt` must be a string');
+    }
+    this.checkBudget(false);
+    const model = this.resolveModel(body.model);
+    const context: CompletionContext = {
+      prefix: prompt,
+      // Checked above: each is unset or of the right type
+      suffix: typeof body.suffix === 'string' ? body.suffix : '',
+      mode: body.mode === 'prose' ? 'prose' : 'code',
+      languageId: typeof body.language === 'string' ? body.language : 'plaintext',
+      fileName: '',
+      filePath: '',
+      caller: callerName(body, req.headers['user-agent']),
+    };
+    const id = `cmpl-${crypto.randomBytes(12).toString('hex')}`;
+    const created = Math.floor(Date.now() / 1000);
+    const signal = this.abortOnClose(res);
+    const stream = body.stream === true;
+
+    const chunk = (text: string, finishReason: string | null) => ({
+      id,
+      object: 'text_completion',
+      created,
+      model,
+      choices: [{ index: 0, text, logprobs: null, finish_reason: finishReason }],
+    });
+
+    let sent = '';
+    if (stream) this.startEventStream(res);
+    // The completion pool records the request in the ledger (with context.caller)
+    const text = await this.pools.getCompletion(
+      context,
+      signal,
+      stream
+        ? (partial) => {
+            const visible = clipToMaxTokens(partial, body);
+            if (!visible.startsWith(sent) || visible.length === sent.length) return;
+            this.sendEvent(res, chunk(visible.slice(sent.length), null));
+            sent = visible;
+          }
+        : undefined,
+      model,
+    );
+    if (signal.aborted) return;
+
+    const completion = clipToMaxTokens(text ?? '', body);
+    const finishReason = completion.length < (text ?? '').length ? 'length' : 'stop';
+    if (stream) {
+      // Post-processing can trim the end of what streamed; the final text wins
+      if (completion.startsWith(sent) && completion.length > sent.length) {
+        this.sendEvent(res, chunk(completion.slice(sent.length), null));
+      }
+      this.sendEvent(res, chunk('', finishReason));
+      this.endEventStream(res);
+      return;
+    }
+    this.sendJson(res, 200, chunk(completion, finishReason));
+  }
+
+  /** Refuse a request once the Claude Code budget pauses it, naming the limit reached. */
+  private checkBudget(explicit: boolean): void {
+    if (!this.budget || this.budget.allows('claude-code', explicit)) return;
+    const reason = this.budget.getState('claude-code').reason ?? 'Budget reached';
+    throw new HttpError(429, reason, 'insufficient_quota');
+  }
+
+  /** A model from `claudeCode.models`, else the primary model — OpenAI clients often send their own defaults. */
+  private resolveModel(requested: unknown): string {
+    if (typeof requested === 'string' && this.pools.getModels().includes(requested)) {
+      return requested;
+    }
+    return this.pools.getModel();
+  }
+
+  private isAuthorized(header: string | undefined): boolean {
+    const match = header?.match(/^Bearer\s+(.+)$/i);
+    if (!match) return false;
+    const given = Buffer.from(match[1].trim());
+    const expected = Buffer.from(this.token);
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  }
+
+  /** Aborted when the caller disconnects before the response is complete. */
+  private abortOnClose(res: http.ServerResponse): AbortSignal {
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    return controller.signal;
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<RequestBody> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on('data', (data: Buffer) => {
+        size += data.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new HttpError(413, 'Request body too large'));
+          req.destroy();
+          return;
+        }
+        chunks.push(data);
+      });
+      req.on('end', () => {
+        try {
+          const body: unknown = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+          if (!isRecord(body)) throw new Error('not an object');
+          resolve(body);
+        } catch {
+          reject(new HttpError(400, 'Request body must be a JSON object'));
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, payload: object): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+
+  private sendError(res: http.ServerResponse, err: HttpError): void {
+    this.sendJson(res, err.status, { error: { message: err.message, type: err.errorType } });
+  }
+
+  private startEventStream(res: http.ServerResponse): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+  }
+
+  private sendEvent(res: http.ServerResponse, payload: object): void {
+    res.write(`data: ${JSON.stringify(payload)}\n\n`);
+  }
+
+  private endEventStream(res: http.ServerResponse): void {
+    res.end('data: [DONE]\n\n');
+  }
+}
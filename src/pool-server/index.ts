@@ -2,5 +2,7 @@ export { PoolClient } from './client';
 export type { PoolClientOptions, PoolRole } from './client';
 export { PoolServer, acquireLock } from './server';
 export { STATE_DIR, getIpcPath, ipcEndpointMayExist } from './ipc-path';
+export { HttpEndpoint, HTTP_TOKEN_PATH, readOrCreateToken } from './http-endpoint';
+export type { HttpEndpointPools } from './http-endpoint';
 export type { PoolServerOptions, LockInfo } from './server';
 export * from './protocol';
@@ -0,0 +1,139 @@
+/**
+ * Model Pools
+ *
+ * One slot pool per model, so windows (and per-request overrides) using
+ * different models run side by side instead of recycling a shared pool back
+ * and forth. Pools are created on first use and disposed once idle — except
+ * the primary model's pool, which stays warm.
+ */
+
+import { Logger } from '../utils/logger';
+
+/** A model's pool is disposed after going this long without a request. */
+export const POOL_IDLE_MS = 5 * 60_000;
+
+/** How often idle pools are looked for. */
+const IDLE_SWEEP_MS = 60_000;
+
+/** The parts of a slot pool the group manages. */
+export interface ManagedPool {
+  activate(): Promise<void>;
+  dispose(): void;
+}
+
+interface PoolEntry<T> {
+  pool: T;
+  /** Resolves once the pool's slots are warm. */
+  ready: Promise<void>;
+  /** Requests currently using the pool — never torn down while non-zero. */
+  inFlight: number;
+  lastUsedAt: number;
+}
+
+export class ModelPools<T extends ManagedPool> {
+  private entries = new Map<string, PoolEntry<T>>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private label: string,
+    private primaryModel: string,
+    private create: (model: string) => T,
+    private logger: Logger,
+  ) {}
+
+  get primary(): string {
+    return this.primaryModel;
+  }
+
+  /**
+   * Start tearing down idle pools, and create and warm the primary pool —
+   * unless `warmPrimary` is false, leaving every pool to start on first use.
+   */
+  async activate(warmPrimary = true): Promise<void> {
+    this.sweepTimer ??= setInterval(() => this.sweep(), IDLE_SWEEP_MS);
+    if (warmPrimary) {
+      await this.ensure(this.primaryModel).ready;
+    }
+  }
+
+  /** Make `model` the one kept warm. The previous primary becomes subject to idle teardown. */
+  setPrimary(model: string): void {
+    if (model === this.primaryModel) return;
+    this.logger.info(`${this.label}: primary model ${this.primaryModel} → ${model}`);
+    this.primaryModel = model;
+    this.ensure(model);
+  }
+
+  /** Start warming `model`'s pool ahead of its first request. */
+  prewarm(model: string): void {
+    this.ensure(model);
+  }
+
+  /** The pool for `model` if one exists, without creating it. */
+  peek(model: string): T | undefined {
+    return this.entries.get(model)?.pool;
+  }
+
+  /** Models that have a live pool. */
+  models(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /** Every live pool. */
+  all(): T[] {
+    return [...this.entries.values()].map((e) => e.pool);
+  }
+
+  /** Run `fn` against `model`'s pool, creating and warming it first if needed. */
+  async use<R>(model: string, fn: (pool: T) => Promise<R>): Promise<R> {
+    const entry = this.ensure(model);
+    entry.inFlight++;
+    try {
+      await entry.ready;
+      return await fn(entry.pool);
+    } finally {
+      entry.inFlight--;
+      entry.lastUsedAt = Date.now();
+    }
+  }
+
+  /** Dispose pools that have sat unused for `POOL_IDLE_MS` (never the primary). */
+  sweep(now = Date.now()): void {
+    for (const [model, entry] of this.entries) {
+      if (model === this.primaryModel || entry.inFlight > 0) continue;
+      if (now - entry.lastUsedAt < POOL_IDLE_MS) continue;
+      this.logger.info(`${this.label}: ${model} idle, shutting its pool down`);
+      this.entries.delete(model);
+      entry.pool.dispose();
+    }
+  }
+
+  dispose(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    for (const entry of this.entries.values()) {
+      entry.pool.dispose();
+    }
+    this.entries.clear();
+  }
+
+  private ensure(model: string): PoolEntry<T> {
+    let entry = this.entries.get(model);
+    if (!entry) {
+      this.logger.info(`${this.label}: starting pool for ${model}`);
+      const pool = this.create(model);
+      entry = {
+        pool,
+        ready: pool.activate().catch((err) => {
+          this.logger.error(`${this.label}: ${model} pool failed to activate: ${err}`);
+        }),
+        inFlight: 0,
+        lastUsedAt: Date.now(),
+      };
+      this.entries.set(model, entry);
+    }
+    return entry;
+  }
+}
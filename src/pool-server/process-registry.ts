@@ -0,0 +1,160 @@
+/**
+ * Slot Process Registry
+ *
+ * Records the PID of every Claude Code subprocess a slot spawns in
+ * ~/.bespokeai/processes/<owner pid>.json, along with the PID of the process
+ * that owns it. If the owner dies without closing its slots (VS Code crash,
+ * force quit), the subprocesses keep running — the next pool server to start
+ * finds them here and terminates them.
+ *
+ * Each process writes only its own file, so windows never overwrite each
+ * other's records; writes go through a temp file and a rename, so a reader
+ * never sees half a file.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { STATE_DIR, ensureStateDir } from './ipc-path';
+
+export const PROCESSES_DIR = path.join(STATE_DIR, 'processes');
+
+/** Marker in a slot subprocess's command line (the SDK's bundled cli.js). */
+const SLOT_COMMAND_MARKER = 'claude-agent-sdk';
+
+export interface SlotProcessRecord {
+  pid: number;
+  /** PID of the extension host (or daemon) that spawned it. */
+  ownerPid: number;
+  pool: string;
+  model: string;
+  slot: number;
+  generation: number;
+  /** When the process was spawned (ms since epoch). */
+  startedAt: number;
+}
+
+export function isProcessAlive(pid: number): boolean {
+  try {
+    // Signal 0 checks if process exists without actually sending a signal
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function ownerFile(ownerPid: number): string {
+  return path.join(PROCESSES_DIR, `${ownerPid}.json`);
+}
+
+/** PIDs of every process with a records file. */
+function recordOwners(): number[] {
+  try {
+    return fs
+      .readdirSync(PROCESSES_DIR)
+      .map((name) => /^(\d+)\.json$/.exec(name)?.[1])
+      .filter((pid): pid is string => pid !== undefined)
+      .map(Number);
+  } catch {
+    return [];
+  }
+}
+
+function readOwnerRecords(ownerPid: number): SlotProcessRecord[] {
+  try {
+    const records = JSON.parse(fs.readFileSync(ownerFile(ownerPid), 'utf-8'));
+    return Array.isArray(records) ? records : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeOwnerRecords(ownerPid: number, records: SlotProcessRecord[]): void {
+  const file = ownerFile(ownerPid);
+  try {
+    if (records.length === 0) {
+      fs.rmSync(file, { force: true });
+      return;
+    }
+    ensureStateDir();
+    fs.mkdirSync(PROCESSES_DIR, { recursive: true });
+    const temp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(records, null, 2));
+    fs.renameSync(temp, file);
+  } catch {
+    // Best-effort — a missing record only means an orphan isn't reaped
+  }
+}
+
+/** Every recorded slot process, across all owners. */
+export function readProcessRecords(): SlotProcessRecord[] {
+  return recordOwners().flatMap(readOwnerRecords);
+}
+
+export function recordSlotProcess(record: SlotProcessRecord): void {
+  const records = readOwnerRecords(record.ownerPid).filter((r) => r.pid !== record.pid);
+  writeOwnerRecords(record.ownerPid, [...records, record]);
+}
+
+/** Forget a slot process this process recorded. */
+export function forgetSlotProcess(pid: number): void {
+  const records = readOwnerRecords(process.pid);
+  const remaining = records.filter((r) => r.pid !== pid);
+  if (remaining.length !== records.length) {
+    writeOwnerRecords(process.pid, remaining);
+  }
+}
+
+/** Command line of a running process, or null where it can't be read. */
+function processCommandLine(pid: number): string | null {
+  try {
+    if (process.platform === 'win32') {
+      const query = `(Get-CimInstance Win32_Process -Filter 'ProcessId=${pid}').CommandLine`;
+      return (
+        execFileSync('powershell.exe', ['-NoProfile', '-NonInteractive', '-Command', query], {
+          encoding: 'utf-8',
+          timeout: 5_000,
+          windowsHide: true,
+        }).trim() || null
+      );
+    }
+    if (process.platform === 'linux') {
+      return fs.readFileSync(`/proc/${pid}/cmdline`, 'utf-8').replace(/\0/g, ' ');
+    }
+    return execFileSync('ps', ['-o', 'command=', '-p', String(pid)], {
+      encoding: 'utf-8',
+      timeout: 2_000,
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Terminate slot subprocesses whose owner has died, and drop their records.
+ * Only a process whose command line shows it is a slot is terminated — a
+ * recorded PID the OS has since reused, or one that can't be checked, is left
+ * alone. Returns the PIDs terminated.
+ */
+export function reapOrphanedProcesses(): number[] {
+  const reaped: number[] = [];
+
+  for (const ownerPid of recordOwners()) {
+    if (isProcessAlive(ownerPid)) continue;
+
+    for (const record of readOwnerRecords(ownerPid)) {
+      if (!isProcessAlive(record.pid)) continue;
+      const command = processCommandLine(record.pid);
+      if (command === null || !command.includes(SLOT_COMMAND_MARKER)) continue;
+      try {
+        process.kill(record.pid, 'SIGTERM');
+        reaped.push(record.pid);
+      } catch {
+        // Exited in the meantime
+      }
+    }
+    writeOwnerRecords(ownerPid, []);
+  }
+  return reaped;
+}
@@ -5,19 +5,103 @@
  * Each message is a newline-delimited JSON object.
  */
 
-import { CompletionMode } from '../types';
+import {
+  CompletionContext,
+  CompletionMode,
+  ExtensionConfig,
+  RelatedSnippet,
+  SymbolSignature,
+} from '../types';
+
+// --- Versioning ---
+
+/**
+ * Protocol version spoken by this build. Bump when a message type or field is
+ * added that an older peer would mishandle. Peers that send no version predate
+ * versioning and count as version 1.
+ */
+export const PROTOCOL_VERSION = 8;
+
+/** Oldest client protocol version this build's server still serves. */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/** Optional features a peer supports, exchanged in the hello handshake. */
+export type Capability =
+  | 'cancel'
+  | 'stream'
+  | 'priority'
+  | 'slot-config'
+  | 'per-client-model'
+  | 'processes'
+  | 'idle-wake'
+  | 'api'
+  | 'http-endpoint'
+  | 'handoff';
+
+export const CAPABILITIES: Capability[] = [
+  'cancel',
+  'stream',
+  'priority',
+  'slot-config',
+  'per-client-model',
+  'processes',
+  'idle-wake',
+  'api',
+  'http-endpoint',
+  'handoff',
+];
+
+/**
+ * How a client should treat the server it connected to, from the server's
+ * hello response:
+ * - `compatible`: use it;
+ * - `server-outdated`: the server is older than the client — take it over;
+ * - `client-outdated`: the server no longer serves this client's version —
+ *   run a private pool instead.
+ */
+export type Compatibility = 'compatible' | 'server-outdated' | 'client-outdated';
+
+export function checkCompatibility(hello: {
+  protocolVersion?: number;
+  minProtocolVersion?: number;
+}): Compatibility {
+  if ((hello.protocolVersion ?? 1) < PROTOCOL_VERSION) return 'server-outdated';
+  if (PROTOCOL_VERSION < (hello.minProtocolVersion ?? 1)) return 'client-outdated';
+  return 'compatible';
+}
 
 // --- Request Types ---
 
-export interface CompletionRequest {
-  type: 'completion';
-  id: string;
+/** The document context sent with a completion request. */
+export interface CompletionContextFields {
   prefix: string;
   suffix: string;
   mode: CompletionMode;
   languageId: string;
   fileName: string;
   filePath: string;
+  relatedFiles?: RelatedSnippet[];
+  retrievedChunks?: RelatedSnippet[];
+  symbols?: SymbolSignature[];
+  /** Explicitly triggered — queued ahead of automatic requests. */
+  explicit?: boolean;
+}
+
+export interface CompletionRequest extends CompletionContextFields {
+  type: 'completion';
+  id: string;
+  /** Send `completion-chunk` messages while the completion streams. */
+  stream?: boolean;
+  /** Model for this request only; defaults to the client's model. */
+  model?: string;
+}
+
+/** Abandon an in-flight completion request; the server stops generating it. */
+export interface CancelRequest {
+  type: 'cancel';
+  id: string;
+  /** Id of the completion request to cancel. */
+  targetId: string;
 }
 
 export interface CommandRequest {
@@ -25,6 +109,30 @@ export interface CommandRequest {
   id: string;
   message: string;
   timeoutMs?: number;
+  /** Send `command-chunk` messages while the response streams. */
+  stream?: boolean;
+  /** Model for this request only; defaults to the client's model. */
+  model?: string;
+}
+
+/** Completions from an API preset the server hosts (`api.sharedServer`). */
+export interface ApiCompletionRequest extends CompletionContextFields {
+  type: 'api-completion';
+  id: string;
+  preset: string;
+  /** Candidates wanted. */
+  count: number;
+  /** Send `completion-chunk` messages while the primary candidate streams. */
+  stream?: boolean;
+}
+
+/** A command (commit message, suggest-edit) sent to an API preset the server hosts. */
+export interface ApiCommandRequest {
+  type: 'api-command';
+  id: string;
+  preset: string;
+  systemPrompt: string;
+  message: string;
 }
 
 export interface WarmupRequest {
@@ -44,10 +152,42 @@ export interface StatusRequest {
   id: string;
 }
 
+/** Warm the client's completion pool back up if it went to sleep while idle. */
+export interface WakeRequest {
+  type: 'wake';
+  id: string;
+  /** Defaults to the sending client's model. */
+  model?: string;
+}
+
+/** From the designated successor of a shutting-down server: its pools are warm. */
+export interface HandoffReadyRequest {
+  type: 'handoff-ready';
+  id: string;
+}
+
+/** List every pool (all models) with its slot subprocesses. */
+export interface ProcessesRequest {
+  type: 'processes';
+  id: string;
+}
+
 export interface ConfigUpdateRequest {
   type: 'config-update';
   id: string;
+  /** The sending client's model — other clients keep theirs. */
   model?: string;
+  /** The sending client's backend; CLI pools are only warmed for `claude-code`. */
+  backend?: 'claude-code' | 'api';
+  completionSlots?: number;
+  commandSlots?: number;
+  idleShutdownMinutes?: number;
+  /** Rate limit for hosted API presets (shared by every window). */
+  apiMaxRequestsPerMinute?: number;
+  /** Local HTTP endpoint settings (shared by every window). */
+  httpEndpoint?: { enabled: boolean; port: number };
+  /** Spending and token budgets, enforced on HTTP endpoint requests. */
+  budget?: ExtensionConfig['budget'];
 }
 
 export interface DisposeRequest {
@@ -59,14 +199,26 @@ export interface ClientHelloRequest {
   type: 'client-hello';
   id: string;
   clientId: string;
+  protocolVersion?: number;
+  capabilities?: Capability[];
+  /** The client's model, used for its requests that name none. */
+  model?: string;
+  /** The client's backend; CLI pools are only warmed for `claude-code` (the default). */
+  backend?: 'claude-code' | 'api';
 }
 
 export type PoolRequest =
   | CompletionRequest
+  | CancelRequest
   | CommandRequest
+  | ApiCompletionRequest
+  | ApiCommandRequest
   | WarmupRequest
   | RecycleRequest
   | StatusRequest
+  | WakeRequest
+  | HandoffReadyRequest
+  | ProcessesRequest
   | ConfigUpdateRequest
   | DisposeRequest
   | ClientHelloRequest;
@@ -94,6 +246,13 @@ export interface CompletionResponse {
   error?: string;
 }
 
+export interface CancelResponse {
+  type: 'cancel';
+  id: string;
+  /** False if the target was not in flight (already finished or unknown). */
+  success: boolean;
+}
+
 export interface CommandResponse {
   type: 'command';
   id: string;
@@ -103,6 +262,22 @@ export interface CommandResponse {
   error?: string;
 }
 
+export interface ApiCompletionResponse {
+  type: 'api-completion';
+  id: string;
+  success: boolean;
+  candidates: string[];
+  error?: string;
+}
+
+export interface ApiCommandResponse {
+  type: 'api-command';
+  id: string;
+  success: boolean;
+  text: string | null;
+  error?: string;
+}
+
 export interface WarmupResponse {
   type: 'warmup';
   id: string;
@@ -121,11 +296,24 @@ export interface SlotStats {
   state: 'initializing' | 'available' | 'busy' | 'dead';
   requestCount: number;
   maxRequests: number;
+  /** Tokens of conversation the session carries. Absent from older servers. */
+  contextTokens?: number;
+  /** The slot recycles once its context would grow past this. */
+  contextBudget?: number;
+  /** PID of the slot's subprocess, while it runs. Absent from older servers. */
+  pid?: number | null;
+  /** When the subprocess was spawned (ms since epoch). */
+  startedAt?: number | null;
 }
 
+export type PoolSleepState = 'awake' | 'sleeping' | 'warming';
+
 export interface PoolStatsInfo {
   label: string;
+  model?: string;
   available: boolean;
+  /** Absent from servers without idle shutdown. */
+  sleepState?: PoolSleepState;
   slots: SlotStats[];
   /** Timestamp when pool was activated (ms since epoch). */
   activatedAt: number | null;
@@ -158,6 +346,25 @@ export interface StatusResponse {
   commandPool?: PoolStatsInfo;
 }
 
+export interface WakeResponse {
+  type: 'wake';
+  id: string;
+  success: boolean;
+}
+
+export interface HandoffReadyResponse {
+  type: 'handoff-ready';
+  id: string;
+  success: boolean;
+}
+
+export interface ProcessesResponse {
+  type: 'processes';
+  id: string;
+  success: boolean;
+  pools: PoolStatsInfo[];
+}
+
 export interface ConfigUpdateResponse {
   type: 'config-update';
   id: string;
@@ -177,30 +384,79 @@ export interface ClientHelloResponse {
   success: boolean;
   serverId: string;
   model: string;
+  protocolVersion?: number;
+  /** Oldest client protocol version the server serves. */
+  minProtocolVersion?: number;
+  capabilities?: Capability[];
 }
 
+export type PoolErrorCode =
+  /** The request type is not one the receiver knows. */
+  | 'unknown-request'
+  /** The client's protocol version is older than the server serves. */
+  | 'incompatible-version'
+  /** The receiving pool server has not started. */
+  | 'not-initialized';
+
 export interface ErrorResponse {
   type: 'error';
   id: string;
   success: false;
   error: string;
+  /** Absent from servers that predate protocol versioning. */
+  code?: PoolErrorCode;
 }
 
 export type PoolResponse =
   | CompletionResponse
+  | CancelResponse
   | CommandResponse
+  | ApiCompletionResponse
+  | ApiCommandResponse
   | WarmupResponse
   | RecycleResponse
   | StatusResponse
+  | WakeResponse
+  | HandoffReadyResponse
+  | ProcessesResponse
   | ConfigUpdateResponse
   | DisposeResponse
   | ClientHelloResponse
   | ErrorResponse;
 
+// --- Streaming Chunks (sent ahead of the final response to a streaming request) ---
+
+export interface CompletionChunk {
+  type: 'completion-chunk';
+  /** Id of the completion request. */
+  id: string;
+  /** Stable, post-processed completion text so far (not a delta). */
+  text: string;
+}
+
+export interface CommandChunk {
+  type: 'command-chunk';
+  /** Id of the command request. */
+  id: string;
+  /** Response text so far (not a delta). */
+  text: string;
+}
+
+export type PoolChunk = CompletionChunk | CommandChunk;
+
 // --- Server Events (pushed to clients) ---
 
+/**
+ * The server is shutting down. With a `successorId` (handoff) it keeps serving
+ * until that client has warmed its own pools; the other clients then resend
+ * their unanswered requests to it rather than failing them.
+ */
 export interface ServerShuttingDownEvent {
   type: 'server-shutting-down';
+  /** Client chosen to become the next server. Absent: no handoff, every client races for the lock. */
+  successorId?: string;
+  /** Models with running pools, for the successor to warm. */
+  models?: string[];
 }
 
 export interface PoolDegradedEvent {
@@ -210,19 +466,58 @@ export interface PoolDegradedEvent {
   reason?: string;
 }
 
-export type ServerEvent = ServerShuttingDownEvent | PoolDegradedEvent;
+/** A pool closed its sessions for inactivity, started warming back up, or is ready again. */
+export interface PoolStateEvent {
+  type: 'pool-state';
+  pool: 'completion' | 'command';
+  model: string;
+  state: PoolSleepState;
+}
+
+/** A hosted API preset's circuit breaker opened after repeated failures, or recovered. */
+export interface ApiBreakerEvent {
+  type: 'api-breaker';
+  preset: string;
+  open: boolean;
+}
+
+export type ServerEvent =
+  | ServerShuttingDownEvent
+  | PoolDegradedEvent
+  | PoolStateEvent
+  | ApiBreakerEvent;
 
 // --- Utilities ---
 
+/** Rebuild the completion context a request carries. */
+export function requestContext(request: CompletionContextFields): CompletionContext {
+  return {
+    prefix: request.prefix,
+    suffix: request.suffix,
+    mode: request.mode,
+    languageId: request.languageId || 'plaintext',
+    fileName: request.fileName || '',
+    filePath: request.filePath || '',
+    relatedFiles: request.relatedFiles,
+    retrievedChunks: request.retrievedChunks,
+    symbols: request.symbols,
+    explicit: request.explicit,
+  };
+}
+
 export function generateRequestId(): string {
   return Math.random().toString(36).slice(2, 10);
 }
 
-export function serializeMessage(msg: PoolRequest | PoolResponse | ServerEvent): string {
+export function serializeMessage(
+  msg: PoolRequest | PoolResponse | PoolChunk | ServerEvent,
+): string {
   return JSON.stringify(msg) + '\n';
 }
 
-export function parseMessage(line: string): PoolRequest | PoolResponse | ServerEvent | null {
+export function parseMessage(
+  line: string,
+): PoolRequest | PoolResponse | PoolChunk | ServerEvent | null {
   try {
     return JSON.parse(line.trim());
   } catch {
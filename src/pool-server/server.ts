@@ -8,22 +8,40 @@
 import * as net from 'net';
 import * as fs from 'fs';
 import { Logger } from '../utils/logger';
+import { BudgetGuard } from '../utils/budget';
 import { UsageLedger } from '../utils/usage-ledger';
 import { ClaudeCodeProvider } from '../providers/claude-code';
-import { CommandPool } from '../providers/command-pool';
-import { ResultMetadata, PoolStats } from '../providers/slot-pool';
-import { ExtensionConfig, CompletionContext } from '../types';
+import { CommandPool, SendPromptOptions } from '../providers/command-pool';
+import { ResultMetadata, PoolStats, SleepState, SlotPool } from '../providers/slot-pool';
+import { ExtensionConfig, CompletionContext, PartialCompletionCallback } from '../types';
 import {
   PoolRequest,
   PoolResponse,
+  PoolChunk,
   ServerEvent,
   CompletionRequest,
   CommandRequest,
+  ApiCompletionRequest,
+  ApiCommandRequest,
   ConfigUpdateRequest,
+  Capability,
+  CAPABILITIES,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
   serializeMessage,
   parseMessage,
+  requestContext,
 } from './protocol';
 import { LOCK_PATH, getIpcPath, cleanupStaleEndpoint, ensureStateDir } from './ipc-path';
+import { ModelPools } from './model-pools';
+import { ApiHosts } from './api-hosts';
+import { HttpEndpoint } from './http-endpoint';
+import { isProcessAlive, reapOrphanedProcesses } from './process-registry';
+
+export { isProcessAlive };
+
+/** How long a shutting-down server waits for its successor to warm up before closing anyway. */
+const HANDOFF_TIMEOUT_MS = 5_000;
 
 export interface PoolServerOptions {
   config: ExtensionConfig;
@@ -31,25 +49,54 @@ export interface PoolServerOptions {
   ledger: UsageLedger;
   serverId: string;
   onPoolDegraded?: (pool: 'completion' | 'command', reason: string) => void;
+  onPoolStateChange?: (pool: 'completion' | 'command', model: string, state: SleepState) => void;
+  onApiBreakerChange?: (preset: string, open: boolean) => void;
+  /** The server shut down — on its owner's dispose or a client's `dispose` request. */
+  onDisposed?: () => void;
 }
 
 interface ConnectedClient {
   id: string;
   socket: net.Socket;
   buffer: string;
+  /** Protocol version from the client's hello (1 if it sent none). */
+  protocolVersion: number;
+  /** Optional features from the client's hello. */
+  capabilities: Set<Capability>;
+  /** Model this client's window is set to; requests naming no model use it. */
+  model?: string;
+  /** Backend this client's window is set to (`claude-code` if it never said). */
+  backend?: 'claude-code' | 'api';
+  /** Completion requests being generated for this client, by request id. */
+  inFlight: Map<string, AbortController>;
 }
 
 export class PoolServer {
   private server: net.Server | null = null;
   private clients = new Map<net.Socket, ConnectedClient>();
-  private completionProvider: ClaudeCodeProvider;
-  private commandPool: CommandPool;
+  /** Pools per model; the primary model is the one this window's config selects. */
+  private completionPools: ModelPools<ClaudeCodeProvider>;
+  private commandPools: ModelPools<CommandPool>;
+  /** API presets hosted for windows with `api.sharedServer` on. */
+  private apiHosts: ApiHosts;
+  /** OpenAI-compatible HTTP access to the pools for other local tools (off unless enabled). */
+  private httpEndpoint: HttpEndpoint;
+  /** Budgets for requests from other tools, through the HTTP endpoint. */
+  private budget: BudgetGuard;
   private logger: Logger;
   private ledger: UsageLedger;
   private config: ExtensionConfig;
   private serverId: string;
   private disposed = false;
+  /** Set during a handoff: the successor's id, and how to stop waiting for it. */
+  private handoff: { successorId: string; ready: () => void } | null = null;
   private onPoolDegraded?: (pool: 'completion' | 'command', reason: string) => void;
+  private onPoolStateChange?: (
+    pool: 'completion' | 'command',
+    model: string,
+    state: SleepState,
+  ) => void;
+  private onDisposed?: () => void;
 
   constructor(options: PoolServerOptions) {
     this.config = options.config;
@@ -57,21 +104,64 @@ export class PoolServer {
     this.ledger = options.ledger;
     this.serverId = options.serverId;
     this.onPoolDegraded = options.onPoolDegraded;
+    this.onPoolStateChange = options.onPoolStateChange;
+    this.onDisposed = options.onDisposed;
+
+    // Providers are created per model on first use
+    this.completionPools = new ModelPools(
+      'Completion pools',
+      this.config.claudeCode.model,
+      (model) => this.createCompletionProvider(model),
+      this.logger,
+    );
+    this.commandPools = new ModelPools(
+      'Command pools',
+      this.config.claudeCode.model,
+      (model) => this.createCommandPool(model),
+      this.logger,
+    );
+    this.apiHosts = new ApiHosts(this.config, this.logger, this.ledger, (preset, open) => {
+      this.broadcastEvent({ type: 'api-breaker', preset, open });
+      options.onApiBreakerChange?.(preset, open);
+    });
+    this.budget = new BudgetGuard(this.ledger, this.config, this.logger);
+    this.httpEndpoint = new HttpEndpoint(this, this.logger, this.ledger, this.budget);
+  }
 
-    // Create providers
-    this.completionProvider = new ClaudeCodeProvider(this.config, this.logger);
-    this.completionProvider.setLedger(this.ledger);
-    this.completionProvider.onPoolDegraded = (reason) => {
+  private createCompletionProvider(model: string): ClaudeCodeProvider {
+    // Own copy of the config — the server's follows the primary model
+    const provider = new ClaudeCodeProvider(
+      { ...this.config, claudeCode: { ...this.config.claudeCode, model } },
+      this.logger,
+      this.config.claudeCode.completionSlots,
+    );
+    provider.setLedger(this.ledger);
+    provider.onPoolDegraded = (reason) => {
       this.broadcastEvent({ type: 'pool-degraded', pool: 'completion', reason });
       this.onPoolDegraded?.('completion', reason);
     };
+    this.watchSleepState(provider, 'completion', model);
+    return provider;
+  }
 
-    this.commandPool = new CommandPool(this.config.claudeCode.model, this.logger);
-    this.commandPool.setLedger(this.ledger);
-    this.commandPool.onPoolDegraded = (reason) => {
+  private createCommandPool(model: string): CommandPool {
+    const pool = new CommandPool(model, this.logger, this.config.claudeCode.commandSlots);
+    pool.setLedger(this.ledger);
+    pool.onPoolDegraded = (reason) => {
       this.broadcastEvent({ type: 'pool-degraded', pool: 'command', reason });
       this.onPoolDegraded?.('command', reason);
     };
+    this.watchSleepState(pool, 'command', model);
+    return pool;
+  }
+
+  /** Apply the idle timeout and tell every window when the pool sleeps or wakes. */
+  private watchSleepState(pool: SlotPool, kind: 'completion' | 'command', model: string): void {
+    pool.setIdleTimeout(this.config.claudeCode.idleShutdownMinutes * 60_000);
+    pool.onSleepStateChange = (state) => {
+      this.broadcastEvent({ type: 'pool-state', pool: kind, model, state });
+      this.onPoolStateChange?.(kind, model, state);
+    };
   }
 
   async start(): Promise<void> {
@@ -88,6 +178,14 @@ export class PoolServer {
 
     // Lockfile is already written by acquireLock() — no need to overwrite here.
 
+    // Terminate subprocesses left behind by servers that died without closing them
+    const reaped = reapOrphanedProcesses();
+    if (reaped.length > 0) {
+      this.logger.info(
+        `Pool server: terminated ${reaped.length} orphaned subprocess(es) (${reaped.join(', ')})`,
+      );
+    }
+
     // Create and start server
     this.server = net.createServer((socket) => this.handleConnection(socket));
 
@@ -101,9 +199,7 @@ export class PoolServer {
         });
       });
 
-      // Activate providers
-      await Promise.all([this.completionProvider.activate(), this.commandPool.activate()]);
-
+      await this.activatePools();
       this.logger.info('Pool server: providers activated');
     } catch (err) {
       // Clean up lockfile on failure so other clients can acquire it
@@ -114,79 +210,245 @@ export class PoolServer {
       }
       throw err;
     }
+
+    await this.syncHttpEndpoint();
+  }
+
+  /**
+   * Activate the pools without listening for other windows — a private pool
+   * for a window whose protocol version the shared server does not serve.
+   */
+  async startLocal(): Promise<void> {
+    await this.activatePools();
+    this.logger.info('Pool server: providers activated (private pool)');
+  }
+
+  /**
+   * Warm the pools ahead of taking over from a server that is handing off:
+   * the primary model's, plus `models` that the previous server had running.
+   * `start()` then listens without waiting for them again.
+   */
+  async prepare(models: string[]): Promise<void> {
+    for (const model of models) {
+      this.completionPools.prewarm(model);
+    }
+    await this.activatePools();
+  }
+
+  /**
+   * Warm the primary model's pools — unless this window is on the API backend
+   * (hosting API presets only), in which case CLI pools start on first use.
+   */
+  private async activatePools(): Promise<void> {
+    const warm = this.config.backend === 'claude-code';
+    await Promise.all([this.completionPools.activate(warm), this.commandPools.activate(warm)]);
+  }
+
+  /**
+   * Start, move or stop the HTTP endpoint to match the config. Only the shared
+   * server runs it — a private pool leaves the port to the server. A port
+   * already in use is logged, not fatal.
+   */
+  private async syncHttpEndpoint(): Promise<void> {
+    if (this.disposed || !this.server) return;
+    const { enabled, port } = this.config.httpEndpoint;
+    try {
+      if (enabled) {
+        await this.httpEndpoint.start(port);
+      } else {
+        await this.httpEndpoint.stop();
+      }
+    } catch (err) {
+      this.logger.error(`Pool server: HTTP endpoint on port ${port} failed: ${err}`);
+    }
   }
 
   // --- Public methods for local access when client is also server ---
 
-  isCompletionPoolAvailable(): boolean {
-    return this.completionProvider.isAvailable();
+  isCompletionPoolAvailable(model = this.config.claudeCode.model): boolean {
+    return this.completionPools.peek(model)?.isAvailable() ?? false;
   }
 
-  isCommandPoolAvailable(): boolean {
-    return this.commandPool.isAvailable();
+  isCommandPoolAvailable(model = this.config.claudeCode.model): boolean {
+    return this.commandPools.peek(model)?.isAvailable() ?? false;
   }
 
-  async getCompletion(context: CompletionContext, signal: AbortSignal): Promise<string | null> {
-    return this.completionProvider.getCompletion(context, signal);
+  /** Complete with `model`'s pool (the primary model's if omitted), starting it if needed. */
+  async getCompletion(
+    context: CompletionContext,
+    signal: AbortSignal,
+    onPartial?: PartialCompletionCallback,
+    model = this.config.claudeCode.model,
+  ): Promise<string | null> {
+    return this.completionPools.use(model, (provider) =>
+      provider.getCompletion(context, signal, onPartial),
+    );
+  }
+
+  /** The model ID behind `model`'s last completion, as the SDK reported it. */
+  servedModel(model = this.config.claudeCode.model): string {
+    return this.completionPools.peek(model)?.lastUsedModel || model;
   }
 
   async sendCommand(
     message: string,
-    options?: { timeoutMs?: number },
+    options?: SendPromptOptions,
+    model = this.config.claudeCode.model,
   ): Promise<{ text: string | null; meta: ResultMetadata | null }> {
-    return this.commandPool.sendPrompt(message, options);
+    return this.commandPools.use(model, (pool) => pool.sendPrompt(message, options));
+  }
+
+  /** Completions from a hosted API preset, shared with every window using it. */
+  async getApiCandidates(
+    preset: string,
+    context: CompletionContext,
+    signal: AbortSignal,
+    count: number,
+    onPartial?: PartialCompletionCallback,
+  ): Promise<string[]> {
+    return this.apiHosts.getCandidates(preset, context, signal, count, onPartial);
+  }
+
+  async sendApiCommand(
+    preset: string,
+    systemPrompt: string,
+    message: string,
+    signal?: AbortSignal,
+  ): Promise<string | null> {
+    return this.apiHosts.sendCommand(preset, systemPrompt, message, signal);
   }
 
   getModel(): string {
     return this.config.claudeCode.model;
   }
 
-  getCompletionPoolStats(): PoolStats {
-    return this.completionProvider.getStats();
+  /** The primary model and the others configured to switch between. */
+  getModels(): string[] {
+    return [...new Set([this.config.claudeCode.model, ...this.config.claudeCode.models])];
+  }
+
+  getCompletionPoolStats(model = this.config.claudeCode.model): PoolStats | undefined {
+    return this.completionPools.peek(model)?.getStats();
+  }
+
+  getCommandPoolStats(model = this.config.claudeCode.model): PoolStats | undefined {
+    return this.commandPools.peek(model)?.getStats();
+  }
+
+  /** Start `model`'s pool if it isn't running, or warm it back up if it is sleeping. */
+  warmPool(pool: 'completion' | 'command', model = this.config.claudeCode.model): void {
+    const pools = pool === 'completion' ? this.completionPools : this.commandPools;
+    const existing = pools.peek(model);
+    if (!existing) {
+      pools.prewarm(model);
+      return;
+    }
+    existing.wake().catch((err) => {
+      this.logger.error(`Pool server: warmup failed: ${err}`);
+    });
+  }
+
+  /** Warm `model`'s completion pool back up if it is sleeping. */
+  wakePools(model = this.config.claudeCode.model): void {
+    this.completionPools
+      .peek(model)
+      ?.wake()
+      .catch((err) => {
+        this.logger.error(`Pool server: wake failed: ${err}`);
+      });
   }
 
-  getCommandPoolStats(): PoolStats {
-    return this.commandPool.getStats();
+  /** Stats for every running pool, across all models. */
+  getAllPoolStats(): PoolStats[] {
+    return [...this.completionPools.all(), ...this.commandPools.all()].map((p) => p.getStats());
   }
 
   async restartPools(): Promise<void> {
-    await Promise.all([this.completionProvider.restart(), this.commandPool.restart()]);
+    await Promise.all(
+      [...this.completionPools.all(), ...this.commandPools.all()].map((p) => p.restart()),
+    );
   }
 
-  /** Direct config update for local fast path (bypasses IPC serialization). */
+  /**
+   * Direct config update for local fast path (bypasses IPC serialization).
+   * This window's model becomes the primary one; other models' pools are left
+   * running for the windows using them.
+   */
   async handleConfigUpdateDirect(request: ConfigUpdateRequest): Promise<void> {
+    if (request.backend) {
+      this.config.backend = request.backend;
+    }
     if (request.model && request.model !== this.config.claudeCode.model) {
-      const oldModel = this.config.claudeCode.model;
       this.config.claudeCode.model = request.model;
-      this.logger.info(`Pool server: model changed ${oldModel} → ${request.model}, recycling`);
-      this.completionProvider.updateConfig(this.config);
-      this.commandPool.updateModel(request.model);
-      // Only recycle completionProvider — commandPool.updateModel() already handles its own recycle.
-      // Use restart() if degraded, since recycleAll() early-returns on unavailable pools.
-      if (this.completionProvider.isAvailable()) {
-        await this.completionProvider.recycleAll();
-      } else {
-        await this.completionProvider.restart();
-      }
+      this.completionPools.setPrimary(request.model);
+      this.commandPools.setPrimary(request.model);
     }
+    // Switched (back) to the CLI — pools may never have started
+    if (this.config.backend === 'claude-code') {
+      this.completionPools.prewarm(this.config.claudeCode.model);
+      this.commandPools.prewarm(this.config.claudeCode.model);
+    }
+    await this.applyPoolSettings(request);
   }
 
   /** Direct recycle for local fast path (bypasses IPC serialization). */
   async handleRecycleDirect(pool: 'completion' | 'command' | 'all'): Promise<void> {
+    // Use restart() if degraded, since recycleAll() early-returns on unavailable pools
+    const recycle = (p: ClaudeCodeProvider | CommandPool) =>
+      p.isAvailable() ? p.recycleAll() : p.restart();
     if (pool === 'completion' || pool === 'all') {
-      if (this.completionProvider.isAvailable()) {
-        await this.completionProvider.recycleAll();
-      } else {
-        await this.completionProvider.restart();
-      }
+      await Promise.all(this.completionPools.all().map(recycle));
     }
     if (pool === 'command' || pool === 'all') {
-      if (this.commandPool.isAvailable()) {
-        await this.commandPool.recycleAll();
-      } else {
-        await this.commandPool.restart();
+      await Promise.all(this.commandPools.all().map(recycle));
+    }
+  }
+
+  /**
+   * Slot counts, the idle timeout, the API rate limit, the HTTP endpoint and
+   * its budgets are shared by every window.
+   */
+  private async applyPoolSettings(request: ConfigUpdateRequest): Promise<void> {
+    if (request.budget && JSON.stringify(request.budget) !== JSON.stringify(this.config.budget)) {
+      this.config.budget = { ...request.budget };
+      this.budget.updateConfig(this.config);
+    }
+    if (
+      request.httpEndpoint &&
+      (request.httpEndpoint.enabled !== this.config.httpEndpoint.enabled ||
+        request.httpEndpoint.port !== this.config.httpEndpoint.port)
+    ) {
+      this.config.httpEndpoint = { ...request.httpEndpoint };
+      await this.syncHttpEndpoint();
+    }
+    if (
+      request.apiMaxRequestsPerMinute !== undefined &&
+      request.apiMaxRequestsPerMinute !== this.config.api.maxRequestsPerMinute
+    ) {
+      this.config.api.maxRequestsPerMinute = request.apiMaxRequestsPerMinute;
+      this.apiHosts.updateConfig(this.config);
+    }
+    if (
+      request.idleShutdownMinutes !== undefined &&
+      request.idleShutdownMinutes !== this.config.claudeCode.idleShutdownMinutes
+    ) {
+      this.config.claudeCode.idleShutdownMinutes = request.idleShutdownMinutes;
+      const idleMs = request.idleShutdownMinutes * 60_000;
+      for (const pool of [...this.completionPools.all(), ...this.commandPools.all()]) {
+        pool.setIdleTimeout(idleMs);
       }
     }
+    if (
+      request.completionSlots &&
+      request.completionSlots !== this.config.claudeCode.completionSlots
+    ) {
+      this.config.claudeCode.completionSlots = request.completionSlots;
+      await Promise.all(this.completionPools.all().map((p) => p.resize(request.completionSlots!)));
+    }
+    if (request.commandSlots && request.commandSlots !== this.config.claudeCode.commandSlots) {
+      this.config.claudeCode.commandSlots = request.commandSlots;
+      await Promise.all(this.commandPools.all().map((p) => p.resize(request.commandSlots!)));
+    }
   }
 
   private handleConnection(socket: net.Socket): void {
@@ -194,6 +456,9 @@ export class PoolServer {
       id: '',
       socket,
       buffer: '',
+      protocolVersion: 1,
+      capabilities: new Set(),
+      inFlight: new Map(),
     };
     this.clients.set(socket, client);
     this.logger.debug(`Pool server: client connected (${this.clients.size} total)`);
@@ -234,39 +499,97 @@ export class PoolServer {
     switch (request.type) {
       case 'client-hello':
         client.id = request.clientId;
+        client.protocolVersion = request.protocolVersion ?? 1;
+        if (client.protocolVersion < MIN_PROTOCOL_VERSION) {
+          this.logger.info(
+            `Pool server: refusing client ${client.id} (protocol v${client.protocolVersion})`,
+          );
+          response = {
+            type: 'error',
+            id: request.id,
+            success: false,
+            error: `Protocol version ${client.protocolVersion} is no longer supported (minimum ${MIN_PROTOCOL_VERSION})`,
+            code: 'incompatible-version',
+          };
+          break;
+        }
+        this.logger.debug(
+          `Pool server: client ${client.id} speaks protocol v${client.protocolVersion}`,
+        );
+        client.capabilities = new Set(request.capabilities ?? []);
+        client.backend = request.backend;
+        if (request.model) {
+          client.model = request.model;
+          if (client.backend !== 'api') this.completionPools.prewarm(request.model);
+        }
         response = {
           type: 'client-hello',
           id: request.id,
           success: true,
           serverId: this.serverId,
-          model: this.config.claudeCode.model,
+          model: this.clientModel(client),
+          protocolVersion: PROTOCOL_VERSION,
+          minProtocolVersion: MIN_PROTOCOL_VERSION,
+          capabilities: CAPABILITIES,
         };
         break;
 
       case 'completion':
-        response = await this.handleCompletion(request);
+        response = await this.handleCompletion(client, request);
+        break;
+
+      case 'api-completion':
+        response = await this.handleApiCompletion(client, request);
         break;
 
+      case 'api-command':
+        response = await this.handleApiCommand(request);
+        break;
+
+      case 'cancel': {
+        const controller = client.inFlight.get(request.targetId);
+        controller?.abort();
+        response = { type: 'cancel', id: request.id, success: controller !== undefined };
+        break;
+      }
+
       case 'command':
-        response = await this.handleCommand(request);
+        response = await this.handleCommand(client, request);
         break;
 
-      case 'status':
+      case 'status': {
+        // Report on the pools serving this client's model
+        const model = this.clientModel(client);
         response = {
           type: 'status',
           id: request.id,
           success: true,
-          completionPoolAvailable: this.completionProvider.isAvailable(),
-          commandPoolAvailable: this.commandPool.isAvailable(),
+          completionPoolAvailable: this.isCompletionPoolAvailable(model),
+          commandPoolAvailable: this.isCommandPoolAvailable(model),
           connectedClients: this.clients.size,
-          model: this.config.claudeCode.model,
-          completionPool: this.completionProvider.getStats(),
-          commandPool: this.commandPool.getStats(),
+          model,
+          completionPool: this.getCompletionPoolStats(model),
+          commandPool: this.getCommandPoolStats(model),
+        };
+        break;
+      }
+
+      case 'wake':
+        this.wakePools(request.model ?? this.clientModel(client));
+        response = { type: 'wake', id: request.id, success: true };
+        break;
+
+      case 'processes':
+        response = {
+          type: 'processes',
+          id: request.id,
+          success: true,
+          pools: this.getAllPoolStats(),
         };
         break;
 
       case 'config-update':
-        response = await this.handleConfigUpdate(request);
+        response = await this.handleConfigUpdate(client, request);
         break;
 
       case 'recycle':
@@ -284,10 +607,20 @@ export class PoolServer {
         break;
 
       case 'warmup':
-        // Warmup happens automatically on pool start; this is a no-op for explicit requests
+        this.warmPool(request.pool, this.clientModel(client));
         response = { type: 'warmup', id: request.id, success: true };
         break;
 
+      case 'handoff-ready': {
+        const successor = this.handoff?.successorId === client.id;
+        if (successor) {
+          this.logger.info(`Pool server: successor ${client.id} is ready`);
+          this.handoff!.ready();
+        }
+        response = { type: 'handoff-ready', id: request.id, success: successor };
+        break;
+      }
+
       case 'dispose':
         response = { type: 'dispose', id: request.id, success: true };
         // Schedule shutdown after sending response
@@ -300,92 +633,171 @@ export class PoolServer {
           id: (request as { id?: string }).id || 'unknown',
           success: false,
           error: `Unknown request type: ${(request as { type: string }).type}`,
+          code: 'unknown-request',
         };
     }
 
     this.sendResponse(client.socket, response);
   }
 
-  private async handleCompletion(request: CompletionRequest): Promise<PoolResponse> {
-    if (!this.completionProvider.isAvailable()) {
+  private async handleCompletion(
+    client: ConnectedClient,
+    request: CompletionRequest,
+  ): Promise<PoolResponse> {
+    const context = requestContext(request);
+
+    // Aborted by a 'cancel' request or the client disconnecting
+    const abortController = new AbortController();
+    client.inFlight.set(request.id, abortController);
+
+    const model = request.model ?? this.clientModel(client);
+    try {
+      return await this.completionPools.use(model, async (provider): Promise<PoolResponse> => {
+        if (!provider.isAvailable()) {
+          return {
+            type: 'completion',
+            id: request.id,
+            success: false,
+            text: null,
+            error: 'Completion pool not available',
+          };
+        }
+
+        const text = await provider.getCompletion(
+          context,
+          abortController.signal,
+          request.stream
+            ? (partial) =>
+                this.sendChunk(client.socket, {
+                  type: 'completion-chunk',
+                  id: request.id,
+                  text: partial,
+                })
+            : undefined,
+        );
+        // Include model in response for tracking (full metadata would require interface changes)
+        return {
+          type: 'completion',
+          id: request.id,
+          success: true,
+          text,
+          meta: { model: provider.lastUsedModel || model },
+        };
+      });
+    } catch (err) {
       return {
         type: 'completion',
         id: request.id,
         success: false,
         text: null,
-        error: 'Completion pool not available',
+        error: err instanceof Error ? err.message : String(err),
       };
+    } finally {
+      client.inFlight.delete(request.id);
     }
+  }
 
-    const context: CompletionContext = {
-      prefix: request.prefix,
-      suffix: request.suffix,
-      mode: request.mode,
-      languageId: request.languageId || 'plaintext',
-      fileName: request.fileName || '',
-      filePath: request.filePath || '',
-    };
-
-    // AbortSignal not used by pool (ignored once slot acquired)
+  private async handleApiCompletion(
+    client: ConnectedClient,
+    request: ApiCompletionRequest,
+  ): Promise<PoolResponse> {
+    // Aborted by a 'cancel' request or the client disconnecting
     const abortController = new AbortController();
+    client.inFlight.set(request.id, abortController);
 
     try {
-      const text = await this.completionProvider.getCompletion(context, abortController.signal);
-      // Include model in response for tracking (full metadata would require interface changes)
-      const model = this.completionProvider.lastUsedModel || this.config.claudeCode.model;
-      return {
-        type: 'completion',
-        id: request.id,
-        success: true,
-        text,
-        meta: { model },
-      };
+      const candidates = await this.apiHosts.getCandidates(
+        request.preset,
+        requestContext(request),
+        abortController.signal,
+        request.count,
+        request.stream
+          ? (partial) =>
+              this.sendChunk(client.socket, {
+                type: 'completion-chunk',
+                id: request.id,
+                text: partial,
+              })
+          : undefined,
+      );
+      return { type: 'api-completion', id: request.id, success: true, candidates };
     } catch (err) {
       return {
-        type: 'completion',
+        type: 'api-completion',
         id: request.id,
         success: false,
-        text: null,
+        candidates: [],
         error: err instanceof Error ? err.message : String(err),
       };
+    } finally {
+      client.inFlight.delete(request.id);
     }
   }
 
-  private async handleCommand(request: CommandRequest): Promise<PoolResponse> {
-    if (!this.commandPool.isAvailable()) {
+  private async handleApiCommand(request: ApiCommandRequest): Promise<PoolResponse> {
+    try {
+      const text = await this.apiHosts.sendCommand(
+        request.preset,
+        request.systemPrompt,
+        request.message,
+      );
+      return { type: 'api-command', id: request.id, success: true, text };
+    } catch (err) {
       return {
-        type: 'command',
+        type: 'api-command',
         id: request.id,
         success: false,
         text: null,
-        error: 'Command pool not available',
+        error: err instanceof Error ? err.message : String(err),
       };
     }
+  }
 
+  private async handleCommand(
+    client: ConnectedClient,
+    request: CommandRequest,
+  ): Promise<PoolResponse> {
+    const model = request.model ?? this.clientModel(client);
     try {
-      const result = await this.commandPool.sendPrompt(request.message, {
-        timeoutMs: request.timeoutMs,
-      });
+      return await this.commandPools.use(model, async (pool): Promise<PoolResponse> => {
+        if (!pool.isAvailable()) {
+          return {
+            type: 'command',
+            id: request.id,
+            success: false,
+            text: null,
+            error: 'Command pool not available',
+          };
+        }
 
-      return {
-        type: 'command',
-        id: request.id,
-        success: true,
-        text: result.text,
-        meta: result.meta
-          ? {
-              durationMs: result.meta.durationMs,
-              durationApiMs: result.meta.durationApiMs,
-              costUsd: result.meta.costUsd,
-              inputTokens: result.meta.inputTokens,
-              outputTokens: result.meta.outputTokens,
-              cacheReadTokens: result.meta.cacheReadTokens,
-              cacheCreationTokens: result.meta.cacheCreationTokens,
-              sessionId: result.meta.sessionId,
-              model: result.meta.model,
-            }
-          : undefined,
-      };
+        const result = await pool.sendPrompt(request.message, {
+          timeoutMs: request.timeoutMs,
+          onPartial: request.stream
+            ? (text) =>
+                this.sendChunk(client.socket, { type: 'command-chunk', id: request.id, text })
+            : undefined,
+        });
+
+        return {
+          type: 'command',
+          id: request.id,
+          success: true,
+          text: result.text,
+          meta: result.meta
+            ? {
+                durationMs: result.meta.durationMs,
+                durationApiMs: result.meta.durationApiMs,
+                costUsd: result.meta.costUsd,
+                inputTokens: result.meta.inputTokens,
+                outputTokens: result.meta.outputTokens,
+                cacheReadTokens: result.meta.cacheReadTokens,
+                cacheCreationTokens: result.meta.cacheCreationTokens,
+                sessionId: result.meta.sessionId,
+                model: result.meta.model,
+              }
+            : undefined,
+        };
+      });
     } catch (err) {
       return {
         type: 'command',
@@ -397,9 +809,23 @@ export class PoolServer {
     }
   }
 
-  private async handleConfigUpdate(request: ConfigUpdateRequest): Promise<PoolResponse> {
+  /** A connected window's config only changes its own model; slot counts are shared. */
+  private async handleConfigUpdate(
+    client: ConnectedClient,
+    request: ConfigUpdateRequest,
+  ): Promise<PoolResponse> {
     try {
-      await this.handleConfigUpdateDirect(request);
+      if (request.backend) {
+        client.backend = request.backend;
+      }
+      if (request.model && request.model !== client.model) {
+        this.logger.info(`Pool server: client ${client.id} switched to ${request.model}`);
+        client.model = request.model;
+      }
+      if (client.backend !== 'api') {
+        this.completionPools.prewarm(this.clientModel(client));
+      }
+      await this.applyPoolSettings(request);
       return { type: 'config-update', id: request.id, success: true };
     } catch (err) {
       return {
@@ -411,11 +837,20 @@ export class PoolServer {
     }
   }
 
+  private clientModel(client: ConnectedClient): string {
+    return client.model ?? this.config.claudeCode.model;
+  }
+
   private sendResponse(socket: net.Socket, response: PoolResponse): void {
     if (socket.destroyed) return;
     socket.write(serializeMessage(response));
   }
 
+  private sendChunk(socket: net.Socket, chunk: PoolChunk): void {
+    if (socket.destroyed) return;
+    socket.write(serializeMessage(chunk));
+  }
+
   private broadcastEvent(event: ServerEvent): void {
     const message = serializeMessage(event);
     for (const client of this.clients.values()) {
@@ -426,18 +861,67 @@ export class PoolServer {
   }
 
   private handleDisconnect(socket: net.Socket): void {
+    const client = this.clients.get(socket);
+    if (client) {
+      // Nobody is left to read these results — free their slots
+      for (const controller of client.inFlight.values()) {
+        controller.abort();
+      }
+      client.inFlight.clear();
+      // A successor that goes away won't become ready — stop waiting for it
+      if (this.handoff?.successorId === client.id) this.handoff.ready();
+    }
     this.clients.delete(socket);
     this.logger.debug(`Pool server: client disconnected (${this.clients.size} remaining)`);
   }
 
+  /**
+   * Shut down without leaving the other windows without pools: the
+   * longest-connected client that supports handoff is named successor and
+   * warms its own pools while this server keeps serving. Once it reports
+   * ready (or after `timeoutMs`) the server closes; the successor takes the
+   * lock and the others resend their unanswered requests to it. Without a
+   * willing successor this is a plain `dispose()`.
+   */
+  async handOff(timeoutMs = HANDOFF_TIMEOUT_MS): Promise<void> {
+    if (this.disposed || this.handoff) return;
+    // Map iteration follows insertion order, so the first match connected earliest
+    const successor = [...this.clients.values()].find((c) => c.id && c.capabilities.has('handoff'));
+    if (!this.server || !successor) {
+      this.dispose();
+      return;
+    }
+
+    this.logger.info(`Pool server: handing off to ${successor.id}`);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const ready = new Promise<void>((resolve) => {
+      this.handoff = { successorId: successor.id, ready: resolve };
+      timer = setTimeout(() => {
+        this.logger.info(`Pool server: successor not ready after ${timeoutMs}ms`);
+        resolve();
+      }, timeoutMs);
+    });
+    this.broadcastEvent({
+      type: 'server-shutting-down',
+      successorId: successor.id,
+      models: this.completionPools.models(),
+    });
+
+    await ready;
+    clearTimeout(timer);
+    this.dispose();
+  }
+
   dispose(): void {
     if (this.disposed) return;
     this.disposed = true;
 
     this.logger.info('Pool server: shutting down');
 
-    // Broadcast shutdown to all clients
-    this.broadcastEvent({ type: 'server-shutting-down' });
+    // Clients told about a handoff already know; the rest race for the lock
+    if (!this.handoff) {
+      this.broadcastEvent({ type: 'server-shutting-down' });
+    }
 
     // Close all client connections
     for (const client of this.clients.values()) {
@@ -445,27 +929,36 @@ export class PoolServer {
     }
     this.clients.clear();
 
-    // Close server
+    // Close server (a private pool never listened, so owns no endpoint or lock)
+    const listening = this.server !== null;
     if (this.server) {
       this.server.close();
       this.server = null;
     }
 
+    this.httpEndpoint.stop().catch((err) => {
+      this.logger.error(`Pool server: failed to stop HTTP endpoint: ${err}`);
+    });
+
     // Dispose providers
-    this.completionProvider.dispose();
-    this.commandPool.dispose();
+    this.completionPools.dispose();
+    this.commandPools.dispose();
+    this.apiHosts.dispose();
 
     // Clean up IPC endpoint and lock files
-    try {
-      cleanupStaleEndpoint();
-      if (fs.existsSync(LOCK_PATH)) {
-        fs.unlinkSync(LOCK_PATH);
+    if (listening) {
+      try {
+        cleanupStaleEndpoint();
+        if (fs.existsSync(LOCK_PATH)) {
+          fs.unlinkSync(LOCK_PATH);
+        }
+      } catch (err) {
+        this.logger.error(`Pool server: cleanup error: ${err}`);
       }
-    } catch (err) {
-      this.logger.error(`Pool server: cleanup error: ${err}`);
     }
 
     this.logger.info('Pool server: disposed');
+    this.onDisposed?.();
   }
 }
 
@@ -488,16 +981,6 @@ export function readLockfile(): LockInfo | null {
   }
 }
 
-export function isProcessAlive(pid: number): boolean {
-  try {
-    // Signal 0 checks if process exists without actually sending a signal
-    process.kill(pid, 0);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
 export function acquireLock(pid: number): boolean {
   try {
     // Ensure directory exists
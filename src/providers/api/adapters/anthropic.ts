@@ -1,4 +1,4 @@
-import { ApiAdapter, ApiAdapterResult, Preset } from '../types';
+import { ApiAdapter, ApiAdapterOptions, ApiAdapterResult, Preset } from '../types';
 import { resolveApiKey } from '../../../utils/api-key-store';
 
 export class AnthropicAdapter implements ApiAdapter {
@@ -102,6 +102,93 @@ export class AnthropicAdapter implements ApiAdapter {
     }
   }
 
+  async *stream(
+    systemPrompt: string,
+    messages: Array<{ role: 'user' | 'assistant'; content: string }>,
+    options: ApiAdapterOptions,
+  ): AsyncGenerator<string, ApiAdapterResult> {
+    const client = await this.getClient();
+    const startTime = Date.now();
+
+    const system: unknown = this.preset.features?.promptCaching
+      ? [{ type: 'text', text: systemPrompt, cache_control: { type: 'ephemeral' } }]
+      : systemPrompt;
+
+    let text = '';
+    let model = this.preset.modelId;
+    const usage: CacheUsage = {};
+
+    try {
+      const events = await (client as AnthropicClient).messages.create(
+        {
+          model: this.preset.modelId,
+          max_tokens: options.maxTokens,
+          temperature: options.temperature,
+          system,
+          messages: messages.map((m) => ({ role: m.role, content: m.content })),
+          stop_sequences: options.stopSequences,
+          ...this.preset.extraBody,
+          stream: true,
+        },
+        { signal: options.signal },
+      );
+
+      for await (const event of events as unknown as AsyncIterable<StreamEvent>) {
+        if (event.type === 'message_start') {
+          model = event.message?.model ?? model;
+          Object.assign(usage, event.message?.usage);
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          const delta = event.delta.text ?? '';
+          if (delta) {
+            text += delta;
+            yield delta;
+          }
+        } else if (event.type === 'message_delta' && event.usage?.output_tokens !== undefined) {
+          usage.output_tokens = event.usage.output_tokens;
+        }
+      }
+
+      return {
+        text: text || null,
+        usage: {
+          inputTokens: usage.input_tokens ?? 0,
+          outputTokens: usage.output_tokens ?? 0,
+          cacheReadTokens: usage.cache_read_input_tokens,
+        },
+        model,
+        durationMs: Date.now() - startTime,
+      };
+    } catch (err: unknown) {
+      if (isAbortError(err)) {
+        return {
+          text: null,
+          usage: { inputTokens: 0, outputTokens: 0 },
+          model,
+          durationMs: Date.now() - startTime,
+          aborted: true,
+        };
+      }
+
+      const status = (err as HttpError)?.status;
+      if (status === 429 || status === 529) {
+        return {
+          text: null,
+          usage: { inputTokens: 0, outputTokens: 0 },
+          model,
+          durationMs: Date.now() - startTime,
+        };
+      }
+
+      if (status === 401) {
+        throw new Error(
+          `Anthropic API key invalid or missing. Check ${this.preset.apiKeyEnvVar ?? 'ANTHROPIC_API_KEY'} in your environment or ~/.creds/api-keys.env`,
+        );
+      }
+
+      throw err;
+    }
+  }
+
   dispose(): void {
     this.client = null;
   }
@@ -152,6 +239,14 @@ interface HttpError {
   status?: number;
 }
 
+/** Subset of the Anthropic SSE events consumed by stream(). */
+interface StreamEvent {
+  type: string;
+  message?: { model?: string; usage?: CacheUsage };
+  delta?: { type?: string; text?: string };
+  usage?: { output_tokens?: number };
+}
+
 interface AnthropicClient {
   messages: {
     create(
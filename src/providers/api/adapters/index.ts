@@ -1,9 +1,11 @@
 import { ApiAdapter, Preset } from '../types';
 import { AnthropicAdapter } from './anthropic';
+import { LlamaCppAdapter } from './llamacpp';
 import { OllamaAdapter } from './ollama';
 import { OpenAICompatAdapter } from './openai-compat';
 
 export { AnthropicAdapter } from './anthropic';
+export { LlamaCppAdapter } from './llamacpp';
 export { OllamaAdapter } from './ollama';
 export { OpenAICompatAdapter } from './openai-compat';
 
@@ -14,6 +16,8 @@ export function createAdapter(preset: Preset): ApiAdapter {
       return new AnthropicAdapter(preset);
     case 'ollama':
       return new OllamaAdapter(preset);
+    case 'llamacpp':
+      return new LlamaCppAdapter(preset);
     case 'openai':
     case 'xai':
     case 'google':
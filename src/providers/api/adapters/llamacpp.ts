@@ -0,0 +1,184 @@
+import { ApiAdapter, ApiAdapterOptions, ApiAdapterResult, Preset } from '../types';
+import { resolveApiKey } from '../../../utils/api-key-store';
+
+/**
+ * llama.cpp server (`llama-server`) adapter. Chat requests go to its
+ * OpenAI-compatible /v1/chat/completions endpoint; fill-in-the-middle goes
+ * to the native /infill endpoint, which applies the model's FIM tokens
+ * server-side.
+ */
+export class LlamaCppAdapter implements ApiAdapter {
+  readonly providerId = 'llamacpp';
+  private preset: Preset;
+
+  constructor(preset: Preset) {
+    this.preset = preset;
+  }
+
+  isConfigured(): boolean {
+    return true; // llama-server only needs a key when started with --api-key
+  }
+
+  async complete(
+    systemPrompt: string,
+    messages: Array<{ role: 'user' | 'assistant'; content: string }>,
+    options: ApiAdapterOptions,
+  ): Promise<ApiAdapterResult> {
+    const startTime = Date.now();
+    const body: Record<string, unknown> = {
+      model: this.preset.modelId,
+      messages: [
+        { role: 'system' as const, content: systemPrompt },
+        ...messages.map((m) => ({ role: m.role, content: m.content })),
+      ],
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      ...(options.stopSequences?.length ? { stop: options.stopSequences } : {}),
+      ...this.preset.extraBody,
+    };
+
+    try {
+      const response = await this.post('/v1/chat/completions', body, options.signal);
+      if (response.status === 429) {
+        return this.emptyResult(startTime);
+      }
+      if (!response.ok) {
+        throw new Error(`llama.cpp API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as ChatResponse;
+      return {
+        text: data.choices?.[0]?.message?.content || null,
+        usage: {
+          inputTokens: data.usage?.prompt_tokens ?? 0,
+          outputTokens: data.usage?.completion_tokens ?? 0,
+        },
+        model: data.model ?? this.preset.modelId,
+        durationMs: Date.now() - startTime,
+      };
+    } catch (err: unknown) {
+      return this.handleError(err, startTime);
+    }
+  }
+
+  async completeFim(
+    prefix: string,
+    suffix: string,
+    options: ApiAdapterOptions,
+  ): Promise<ApiAdapterResult> {
+    const startTime = Date.now();
+    const body: Record<string, unknown> = {
+      input_prefix: prefix,
+      input_suffix: suffix,
+      n_predict: options.maxTokens,
+      temperature: options.temperature,
+      // Reuse the KV cache across keystrokes — consecutive requests share most of the prefix
+      cache_prompt: true,
+      ...(options.stopSequences?.length ? { stop: options.stopSequences } : {}),
+      ...this.preset.extraBody,
+    };
+
+    try {
+      const response = await this.post('/infill', body, options.signal);
+      if (response.status === 429) {
+        return this.emptyResult(startTime);
+      }
+      if (!response.ok) {
+        throw new Error(`llama.cpp API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as InfillResponse;
+      return {
+        text: data.content || null,
+        usage: {
+          inputTokens: data.tokens_evaluated ?? 0,
+          outputTokens: data.tokens_predicted ?? 0,
+        },
+        model: data.model ?? this.preset.modelId,
+        durationMs: Date.now() - startTime,
+      };
+    } catch (err: unknown) {
+      return this.handleError(err, startTime);
+    }
+  }
+
+  dispose(): void {
+    // No persistent client to clean up
+  }
+
+  private async post(path: string, body: Record<string, unknown>, signal: AbortSignal) {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.preset.extraHeaders,
+    };
+    const apiKey = this.preset.apiKeyEnvVar ? resolveApiKey(this.preset.apiKeyEnvVar) : undefined;
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+    return fetch(this.buildUrl(path), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+  }
+
+  /** Resolve an endpoint URL, stripping a /v1 suffix so both base URL styles work. */
+  private buildUrl(path: string): string {
+    let base = this.preset.baseUrl ?? 'http://localhost:8080';
+    base = base.replace(/\/+$/, '');
+    if (base.endsWith('/v1')) {
+      base = base.slice(0, -3);
+    }
+    return `${base}${path}`;
+  }
+
+  private emptyResult(startTime: number, aborted?: boolean): ApiAdapterResult {
+    return {
+      text: null,
+      usage: { inputTokens: 0, outputTokens: 0 },
+      model: this.preset.modelId,
+      durationMs: Date.now() - startTime,
+      ...(aborted && { aborted }),
+    };
+  }
+
+  private handleError(err: unknown, startTime: number): ApiAdapterResult {
+    if (isAbortError(err)) {
+      return this.emptyResult(startTime, true);
+    }
+
+    // Connection refused — llama-server likely not running, return null silently
+    if (isConnectionError(err)) {
+      return this.emptyResult(startTime);
+    }
+
+    throw err;
+  }
+}
+
+function isAbortError(err: unknown): boolean {
+  if (err instanceof Error && err.name === 'AbortError') return true;
+  if (err instanceof DOMException && err.name === 'AbortError') return true;
+  return false;
+}
+
+function isConnectionError(err: unknown): boolean {
+  if (!(err instanceof Error)) return false;
+  const msg = err.message.toLowerCase();
+  return msg.includes('econnrefused') || msg.includes('fetch failed') || msg.includes('network');
+}
+
+// Minimal type definitions for llama-server responses
+interface ChatResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface InfillResponse {
+  model?: string;
+  content?: string;
+  tokens_evaluated?: number;
+  tokens_predicted?: number;
+}
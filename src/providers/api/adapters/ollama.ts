@@ -1,8 +1,8 @@
-import { ApiAdapter, ApiAdapterResult, Preset } from '../types';
+import { ApiAdapter, ApiAdapterOptions, ApiAdapterResult, Preset } from '../types';
 
 /**
- * Native Ollama API adapter. Calls /api/chat directly instead of the
- * OpenAI-compatible /v1 endpoint. This is required for thinking/reasoning
+ * Native Ollama API adapter. Calls /api/chat (and /api/generate for
+ * fill-in-the-middle) directly instead of the OpenAI-compatible /v1 endpoint. This is required for thinking/reasoning
  * models (e.g. Qwen 3.5) which need `think: false` to produce content
  * instead of burning tokens on reasoning traces.
  */
@@ -21,54 +21,119 @@ export class OllamaAdapter implements ApiAdapter {
   async complete(
     systemPrompt: string,
     messages: Array<{ role: 'user' | 'assistant'; content: string }>,
-    options: {
-      signal: AbortSignal;
-      maxTokens: number;
-      temperature: number;
-      stopSequences?: string[];
-    },
+    options: ApiAdapterOptions,
   ): Promise<ApiAdapterResult> {
-    const startTime = Date.now();
-    const url = this.buildUrl();
+    return this.send(
+      '/api/chat',
+      this.buildChatBody(systemPrompt, messages, options, false),
+      options,
+    );
+  }
+
+  stream(
+    systemPrompt: string,
+    messages: Array<{ role: 'user' | 'assistant'; content: string }>,
+    options: ApiAdapterOptions,
+  ): AsyncGenerator<string, ApiAdapterResult> {
+    return this.sendStream(
+      '/api/chat',
+      this.buildChatBody(systemPrompt, messages, options, true),
+      options,
+    );
+  }
 
-    const ollamaMessages = [
-      { role: 'system' as const, content: systemPrompt },
-      ...messages.map((m) => ({ role: m.role, content: m.content })),
-    ];
+  /**
+   * Fill-in-the-middle via /api/generate. Ollama formats prefix + suffix with
+   * the model's own FIM template, so this only works for models whose
+   * template supports a suffix (Qwen-Coder, Codestral, StarCoder, ...).
+   */
+  async completeFim(
+    prefix: string,
+    suffix: string,
+    options: ApiAdapterOptions,
+  ): Promise<ApiAdapterResult> {
+    return this.send('/api/generate', this.buildFimBody(prefix, suffix, options, false), options);
+  }
 
-    const body: Record<string, unknown> = {
+  streamFim(
+    prefix: string,
+    suffix: string,
+    options: ApiAdapterOptions,
+  ): AsyncGenerator<string, ApiAdapterResult> {
+    return this.sendStream(
+      '/api/generate',
+      this.buildFimBody(prefix, suffix, options, true),
+      options,
+    );
+  }
+
+  private buildChatBody(
+    systemPrompt: string,
+    messages: Array<{ role: 'user' | 'assistant'; content: string }>,
+    options: ApiAdapterOptions,
+    stream: boolean,
+  ): Record<string, unknown> {
+    return {
       model: this.preset.modelId,
-      messages: ollamaMessages,
-      stream: false,
+      messages: [
+        { role: 'system' as const, content: systemPrompt },
+        ...messages.map((m) => ({ role: m.role, content: m.content })),
+      ],
+      stream,
       think: false,
-      options: {
-        num_predict: options.maxTokens,
-        temperature: options.temperature,
-        ...(options.stopSequences?.length ? { stop: options.stopSequences } : {}),
-      },
+      options: this.buildModelOptions(options),
+      ...this.preset.extraBody,
+    };
+  }
+
+  private buildFimBody(
+    prefix: string,
+    suffix: string,
+    options: ApiAdapterOptions,
+    stream: boolean,
+  ): Record<string, unknown> {
+    return {
+      model: this.preset.modelId,
+      prompt: prefix,
+      suffix,
+      stream,
+      options: this.buildModelOptions(options),
       ...this.preset.extraBody,
     };
+  }
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      ...this.preset.extraHeaders,
+  private buildModelOptions(options: ApiAdapterOptions): Record<string, unknown> {
+    return {
+      num_predict: options.maxTokens,
+      temperature: options.temperature,
+      ...(options.stopSequences?.length ? { stop: options.stopSequences } : {}),
     };
+  }
+
+  private async post(path: string, body: Record<string, unknown>, signal: AbortSignal) {
+    return fetch(this.buildUrl(path), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.preset.extraHeaders,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  }
+
+  private async send(
+    path: string,
+    body: Record<string, unknown>,
+    options: ApiAdapterOptions,
+  ): Promise<ApiAdapterResult> {
+    const startTime = Date.now();
 
     try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(body),
-        signal: options.signal,
-      });
+      const response = await this.post(path, body, options.signal);
 
       if (response.status === 429) {
-        return {
-          text: null,
-          usage: { inputTokens: 0, outputTokens: 0 },
-          model: this.preset.modelId,
-          durationMs: Date.now() - startTime,
-        };
+        return this.emptyResult(startTime);
       }
 
       if (!response.ok) {
@@ -76,7 +141,7 @@ export class OllamaAdapter implements ApiAdapter {
       }
 
       const data = (await response.json()) as OllamaResponse;
-      const text = data.message?.content || null;
+      const text = responseText(data) || null;
 
       return {
         text,
@@ -88,42 +153,91 @@ export class OllamaAdapter implements ApiAdapter {
         durationMs: Date.now() - startTime,
       };
     } catch (err: unknown) {
-      if (isAbortError(err)) {
-        return {
-          text: null,
-          usage: { inputTokens: 0, outputTokens: 0 },
-          model: this.preset.modelId,
-          durationMs: Date.now() - startTime,
-          aborted: true,
-        };
+      return this.handleError(err, startTime);
+    }
+  }
+
+  private async *sendStream(
+    path: string,
+    body: Record<string, unknown>,
+    options: ApiAdapterOptions,
+  ): AsyncGenerator<string, ApiAdapterResult> {
+    const startTime = Date.now();
+    let text = '';
+    let final: OllamaResponse | null = null;
+
+    try {
+      const response = await this.post(path, body, options.signal);
+
+      if (response.status === 429) {
+        return this.emptyResult(startTime);
       }
 
-      // Connection refused — Ollama likely not running, return null silently
-      if (isConnectionError(err)) {
-        return {
-          text: null,
-          usage: { inputTokens: 0, outputTokens: 0 },
-          model: this.preset.modelId,
-          durationMs: Date.now() - startTime,
-        };
+      if (!response.ok || !response.body) {
+        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+      }
+
+      // Ollama streams newline-delimited JSON; the last object has done: true plus counts
+      for await (const data of readNdjson<OllamaResponse>(response.body)) {
+        const delta = responseText(data);
+        if (delta) {
+          text += delta;
+          yield delta;
+        }
+        if (data.done) {
+          final = data;
+        }
       }
 
-      throw err;
+      return {
+        text: text || null,
+        usage: {
+          inputTokens: final?.prompt_eval_count ?? 0,
+          outputTokens: final?.eval_count ?? 0,
+        },
+        model: final?.model ?? this.preset.modelId,
+        durationMs: Date.now() - startTime,
+      };
+    } catch (err: unknown) {
+      return this.handleError(err, startTime);
+    }
+  }
+
+  private emptyResult(startTime: number, aborted?: boolean): ApiAdapterResult {
+    return {
+      text: null,
+      usage: { inputTokens: 0, outputTokens: 0 },
+      model: this.preset.modelId,
+      durationMs: Date.now() - startTime,
+      ...(aborted && { aborted }),
+    };
+  }
+
+  private handleError(err: unknown, startTime: number): ApiAdapterResult {
+    if (isAbortError(err)) {
+      return this.emptyResult(startTime, true);
+    }
+
+    // Connection refused — Ollama likely not running, return null silently
+    if (isConnectionError(err)) {
+      return this.emptyResult(startTime);
     }
+
+    throw err;
   }
 
   dispose(): void {
     // No persistent client to clean up
   }
 
-  /** Resolve the /api/chat URL, stripping /v1 suffix for backward compat. */
-  private buildUrl(): string {
+  /** Resolve an Ollama API URL, stripping /v1 suffix for backward compat. */
+  private buildUrl(path: string): string {
     let base = this.preset.baseUrl ?? 'http://localhost:11434';
     if (base.endsWith('/v1')) {
       base = base.slice(0, -3);
     }
     base = base.replace(/\/+$/, '');
-    return `${base}/api/chat`;
+    return `${base}${path}`;
   }
 }
 
@@ -139,10 +253,39 @@ function isConnectionError(err: unknown): boolean {
   return msg.includes('econnrefused') || msg.includes('fetch failed') || msg.includes('network');
 }
 
-// Minimal type definition for Ollama /api/chat response
+/** Parse a newline-delimited JSON response body, yielding one object per line. */
+async function* readNdjson<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as T;
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) yield JSON.parse(buffer) as T;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** Generated text from a /api/chat (message) or /api/generate (response) record. */
+function responseText(data: OllamaResponse): string | undefined {
+  return data.message?.content ?? data.response;
+}
+
+// Minimal type definition for Ollama /api/chat and /api/generate responses
 interface OllamaResponse {
   model?: string;
   message?: { role: string; content: string };
+  response?: string;
   done?: boolean;
   done_reason?: string;
   prompt_eval_count?: number;
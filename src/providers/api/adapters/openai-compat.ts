@@ -1,5 +1,5 @@
 import { randomUUID } from 'crypto';
-import { ApiAdapter, ApiAdapterResult, Preset } from '../types';
+import { ApiAdapter, ApiAdapterOptions, ApiAdapterResult, Preset } from '../types';
 import { resolveApiKey } from '../../../utils/api-key-store';
 
 /**
@@ -11,6 +11,8 @@ import { resolveApiKey } from '../../../utils/api-key-store';
  */
 export class OpenAICompatAdapter implements ApiAdapter {
   readonly providerId: string;
+  /** Only OpenAI's own API is known to honor `n`; other compatible hosts may ignore it. */
+  readonly supportsChoices: boolean;
   private client: unknown = null;
   private preset: Preset;
   private sessionId: string;
@@ -18,6 +20,7 @@ export class OpenAICompatAdapter implements ApiAdapter {
   constructor(preset: Preset) {
     this.preset = preset;
     this.providerId = preset.provider;
+    this.supportsChoices = preset.provider === 'openai';
     this.sessionId = randomUUID();
   }
 
@@ -29,12 +32,7 @@ export class OpenAICompatAdapter implements ApiAdapter {
   async complete(
     systemPrompt: string,
     messages: Array<{ role: 'user' | 'assistant'; content: string }>,
-    options: {
-      signal: AbortSignal;
-      maxTokens: number;
-      temperature: number;
-      stopSequences?: string[];
-    },
+    options: ApiAdapterOptions,
   ): Promise<ApiAdapterResult> {
     const client = await this.getClient();
     const startTime = Date.now();
@@ -53,67 +51,208 @@ export class OpenAICompatAdapter implements ApiAdapter {
           max_tokens: options.maxTokens,
           temperature: options.temperature,
           stop: options.stopSequences,
+          ...(this.supportsChoices && (options.n ?? 1) > 1 ? { n: options.n } : {}),
           ...this.preset.extraBody,
         },
         { signal: options.signal },
       );
 
-      const text = response.choices?.[0]?.message?.content ?? null;
-      const usage = response.usage;
-
-      // OpenAI-compat APIs include cached tokens in prompt_tokens (unlike
-      // Anthropic where input_tokens excludes them). Subtract cached tokens
-      // so inputTokens consistently means "non-cached input tokens" across
-      // all adapters.
-      const cachedTokens = usage?.prompt_tokens_details?.cached_tokens ?? 0;
-      const totalPromptTokens = usage?.prompt_tokens ?? 0;
+      const texts = collectChoices(response.choices?.map((c) => c.message?.content));
 
       return {
-        text,
-        usage: {
-          inputTokens: totalPromptTokens - cachedTokens,
-          outputTokens: usage?.completion_tokens ?? 0,
-          cacheReadTokens: cachedTokens || undefined,
-        },
+        text: texts[0] ?? null,
+        usage: normalizeUsage(response.usage),
         model: response.model ?? this.preset.modelId,
         durationMs: Date.now() - startTime,
+        ...(texts.length > 1 && { texts }),
       };
     } catch (err: unknown) {
-      if (isAbortError(err)) {
-        return {
-          text: null,
-          usage: { inputTokens: 0, outputTokens: 0 },
-          model: this.preset.modelId,
-          durationMs: Date.now() - startTime,
-          aborted: true,
-        };
-      }
+      return this.handleError(err, startTime, this.preset.modelId);
+    }
+  }
 
-      const status = (err as HttpError)?.status;
+  async *stream(
+    systemPrompt: string,
+    messages: Array<{ role: 'user' | 'assistant'; content: string }>,
+    options: ApiAdapterOptions,
+  ): AsyncGenerator<string, ApiAdapterResult> {
+    const client = await this.getClient();
+    const startTime = Date.now();
 
-      // Rate limit — return null silently
-      if (status === 429) {
-        return {
-          text: null,
-          usage: { inputTokens: 0, outputTokens: 0 },
+    const openaiMessages: OpenAIMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...messages.map((m) => ({ role: m.role as 'user' | 'assistant', content: m.content })),
+    ];
+
+    let text = '';
+    let model = this.preset.modelId;
+    let usage: StreamChunk['usage'];
+
+    try {
+      const chunks = await (client as OpenAIClient).chat.completions.create(
+        {
           model: this.preset.modelId,
-          durationMs: Date.now() - startTime,
-        };
+          messages: openaiMessages,
+          max_tokens: options.maxTokens,
+          temperature: options.temperature,
+          stop: options.stopSequences,
+          ...this.preset.extraBody,
+          stream: true,
+          // Ask for a final usage chunk so streamed requests still land in the ledger
+          stream_options: { include_usage: true },
+        },
+        { signal: options.signal },
+      );
+
+      for await (const chunk of chunks as unknown as AsyncIterable<StreamChunk>) {
+        model = chunk.model ?? model;
+        if (chunk.usage) usage = chunk.usage;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          yield delta;
+        }
       }
 
-      // Auth error
-      if (status === 401) {
-        const provider = this.preset.provider;
-        const envVar = this.preset.apiKeyEnvVar ?? 'API_KEY';
-        throw new Error(
-          `${provider} API key invalid or missing. Check ${envVar} in your environment or ~/.creds/api-keys.env`,
-        );
+      return {
+        text: text || null,
+        usage: normalizeUsage(usage),
+        model,
+        durationMs: Date.now() - startTime,
+      };
+    } catch (err: unknown) {
+      return this.handleError(err, startTime, model);
+    }
+  }
+
+  /**
+   * Fill-in-the-middle via the legacy /v1/completions endpoint with `suffix`.
+   * Supported by OpenAI-compatible servers that host code models (vLLM,
+   * llama.cpp, LM Studio, DeepSeek), not by the chat-only hosted APIs.
+   */
+  async completeFim(
+    prefix: string,
+    suffix: string,
+    options: ApiAdapterOptions,
+  ): Promise<ApiAdapterResult> {
+    const client = await this.getClient();
+    const startTime = Date.now();
+
+    try {
+      const response = await client.completions.create(
+        this.buildFimParams(prefix, suffix, options),
+        { signal: options.signal },
+      );
+
+      const texts = collectChoices(response.choices?.map((c) => c.text));
+
+      return {
+        text: texts[0] ?? null,
+        usage: normalizeUsage(response.usage),
+        model: response.model ?? this.preset.modelId,
+        durationMs: Date.now() - startTime,
+        ...(texts.length > 1 && { texts }),
+      };
+    } catch (err: unknown) {
+      return this.handleError(err, startTime, this.preset.modelId);
+    }
+  }
+
+  async *streamFim(
+    prefix: string,
+    suffix: string,
+    options: ApiAdapterOptions,
+  ): AsyncGenerator<string, ApiAdapterResult> {
+    const client = await this.getClient();
+    const startTime = Date.now();
+
+    let text = '';
+    let model = this.preset.modelId;
+    let usage: StreamChunk['usage'];
+
+    try {
+      const chunks = await client.completions.create(
+        {
+          ...this.buildFimParams(prefix, suffix, options),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: options.signal },
+      );
+
+      for await (const chunk of chunks as unknown as AsyncIterable<FimStreamChunk>) {
+        model = chunk.model ?? model;
+        if (chunk.usage) usage = chunk.usage;
+        const delta = chunk.choices?.[0]?.text;
+        if (delta) {
+          text += delta;
+          yield delta;
+        }
       }
 
-      throw err;
+      return {
+        text: text || null,
+        usage: normalizeUsage(usage),
+        model,
+        durationMs: Date.now() - startTime,
+      };
+    } catch (err: unknown) {
+      return this.handleError(err, startTime, model);
     }
   }
 
+  private buildFimParams(prefix: string, suffix: string, options: ApiAdapterOptions) {
+    return {
+      model: this.preset.modelId,
+      prompt: prefix,
+      suffix,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      stop: options.stopSequences,
+      ...(this.supportsChoices && (options.n ?? 1) > 1 ? { n: options.n } : {}),
+      ...this.preset.extraBody,
+    };
+  }
+
+  /**
+   * Shared failure handling: aborts and rate limits become null results,
+   * auth errors get an actionable message, everything else is rethrown.
+   */
+  private handleError(err: unknown, startTime: number, model: string): ApiAdapterResult {
+    if (isAbortError(err)) {
+      return {
+        text: null,
+        usage: { inputTokens: 0, outputTokens: 0 },
+        model,
+        durationMs: Date.now() - startTime,
+        aborted: true,
+      };
+    }
+
+    const status = (err as HttpError)?.status;
+
+    // Rate limit — return null silently
+    if (status === 429) {
+      return {
+        text: null,
+        usage: { inputTokens: 0, outputTokens: 0 },
+        model,
+        durationMs: Date.now() - startTime,
+      };
+    }
+
+    // Auth error
+    if (status === 401) {
+      const provider = this.preset.provider;
+      const envVar = this.preset.apiKeyEnvVar ?? 'API_KEY';
+      throw new Error(
+        `${provider} API key invalid or missing. Check ${envVar} in your environment or ~/.creds/api-keys.env`,
+      );
+    }
+
+    throw err;
+  }
+
   dispose(): void {
     this.client = null;
   }
@@ -158,6 +297,27 @@ function isAbortError(err: unknown): boolean {
   return false;
 }
 
+/** Non-empty choice texts, in choice order. */
+function collectChoices(texts: Array<string | null | undefined> | undefined): string[] {
+  return (texts ?? []).filter((t): t is string => !!t);
+}
+
+/**
+ * OpenAI-compat APIs include cached tokens in prompt_tokens (unlike
+ * Anthropic where input_tokens excludes them). Subtract cached tokens
+ * so inputTokens consistently means "non-cached input tokens" across
+ * all adapters.
+ */
+function normalizeUsage(usage: OpenAIUsage | null | undefined): ApiAdapterResult['usage'] {
+  const cachedTokens = usage?.prompt_tokens_details?.cached_tokens ?? 0;
+  const totalPromptTokens = usage?.prompt_tokens ?? 0;
+  return {
+    inputTokens: totalPromptTokens - cachedTokens,
+    outputTokens: usage?.completion_tokens ?? 0,
+    cacheReadTokens: cachedTokens || undefined,
+  };
+}
+
 // Minimal type definitions to avoid import-time dependency
 interface OpenAIMessage {
   role: 'system' | 'user' | 'assistant';
@@ -168,6 +328,26 @@ interface HttpError {
   status?: number;
 }
 
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+/** Subset of a streamed chat.completion.chunk consumed by stream(). */
+interface StreamChunk {
+  model?: string;
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: OpenAIUsage | null;
+}
+
+/** Subset of a streamed text completion chunk consumed by streamFim(). */
+interface FimStreamChunk {
+  model?: string;
+  choices?: Array<{ text?: string }>;
+  usage?: OpenAIUsage | null;
+}
+
 interface OpenAIClient {
   chat: {
     completions: {
@@ -182,14 +362,28 @@ interface OpenAIClient {
         },
         options?: { signal?: AbortSignal },
       ): Promise<{
-        choices?: Array<{ message?: { content?: string } }>;
-        usage?: {
-          prompt_tokens?: number;
-          completion_tokens?: number;
-          prompt_tokens_details?: { cached_tokens?: number };
-        };
+        choices?: Array<{ message?: { content?: string | null } }>;
+        usage?: OpenAIUsage;
         model?: string;
       }>;
     };
   };
+  completions: {
+    create(
+      params: {
+        model: string;
+        prompt: string;
+        suffix?: string;
+        max_tokens: number;
+        temperature: number;
+        stop?: string[];
+        [key: string]: unknown;
+      },
+      options?: { signal?: AbortSignal },
+    ): Promise<{
+      choices?: Array<{ text?: string }>;
+      usage?: OpenAIUsage;
+      model?: string;
+    }>;
+  };
 }
@@ -2,8 +2,9 @@ import { ExtensionConfig } from '../../types';
 import { Logger } from '../../utils/logger';
 import { UsageLedger } from '../../utils/usage-ledger';
 import { CircuitBreaker } from '../../utils/circuit-breaker';
+import { RateLimiter } from '../../utils/rate-limiter';
 import { ApiAdapter, Preset } from './types';
-import { getPreset } from './presets';
+import { estimateCostUsd, getPreset } from './presets';
 import { createAdapter } from './adapters';
 
 /** Max output tokens for commands (commit messages, suggest-edits need much
@@ -24,15 +25,22 @@ export class ApiCommandProvider {
   private adapter: ApiAdapter | null = null;
   private activePreset: Preset | null = null;
   private breaker: CircuitBreaker;
+  private limiter: RateLimiter;
 
   constructor(config: ExtensionConfig, logger: Logger, ledger?: UsageLedger) {
     this.config = config;
     this.logger = logger;
     this.ledger = ledger;
     this.breaker = new CircuitBreaker(5, 30_000, logger, 'API command');
+    this.limiter = new RateLimiter(config.api.maxRequestsPerMinute);
     this.loadAdapter();
   }
 
+  /** Count requests against a limiter shared with other providers (e.g. completions). */
+  setRateLimiter(limiter: RateLimiter): void {
+    this.limiter = limiter;
+  }
+
   isAvailable(): boolean {
     if (this.breaker.isOpen()) return false;
     return this.adapter?.isConfigured() ?? false;
@@ -41,6 +49,7 @@ export class ApiCommandProvider {
   updateConfig(config: ExtensionConfig): void {
     const presetChanged = config.api.preset !== this.config.api.preset;
     this.config = config;
+    this.limiter.setLimit(config.api.maxRequestsPerMinute);
     if (presetChanged) {
       this.loadAdapter();
     }
@@ -55,6 +64,10 @@ export class ApiCommandProvider {
     if (this.breaker.isOpen()) return null;
 
     const preset = this.activePreset;
+    if (!this.limiter.tryAcquire()) {
+      this.logger.debug(`API command: rate limit reached for ${preset.displayName}, skipping`);
+      return null;
+    }
     const messages: Array<{ role: 'user' | 'assistant'; content: string }> = [
       { role: 'user', content: userMessage },
     ];
@@ -84,6 +97,7 @@ export class ApiCommandProvider {
       inputTokens: result.usage.inputTokens,
       outputTokens: result.usage.outputTokens,
       cacheReadTokens: result.usage.cacheReadTokens,
+      costUsd: estimateCostUsd(preset, result.usage),
       inputChars: systemPrompt.length + userMessage.length,
       outputChars: result.text?.length ?? 0,
     });
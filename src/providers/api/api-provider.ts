@@ -1,26 +1,57 @@
-import { CompletionContext, CompletionProvider, ExtensionConfig } from '../../types';
+import {
+  CompletionContext,
+  CompletionProvider,
+  ExtensionConfig,
+  PartialCompletionCallback,
+} from '../../types';
 import { Logger } from '../../utils/logger';
 import { UsageLedger } from '../../utils/usage-ledger';
 import { CircuitBreaker } from '../../utils/circuit-breaker';
-import { postProcessCompletion } from '../../utils/post-process';
+import { RateLimiter } from '../../utils/rate-limiter';
+import {
+  dedupeCompletions,
+  postProcessCompletion,
+  postProcessPartialCompletion,
+} from '../../utils/post-process';
 import {
   getPromptStrategy,
   PromptStrategy,
   SYSTEM_PROMPT,
   buildFillMessage,
 } from '../prompt-strategy';
-import { ApiAdapter, Preset } from './types';
-import { getPreset } from './presets';
+import { ApiAdapter, ApiAdapterOptions, ApiAdapterResult, Preset } from './types';
+import { estimateCostUsd, getPreset } from './presets';
 import { createAdapter } from './adapters';
 
+/** Temperature added per extra parallel candidate, so temperature-0 presets still diverge. */
+const CANDIDATE_TEMPERATURE_STEP = 0.3;
+
+function candidateTemperature(base: number, index: number): number {
+  return index === 0 ? base : Math.min(1, base + index * CANDIDATE_TEMPERATURE_STEP);
+}
+
+/** A preset ready for requests: its adapter, prompt strategy and circuit breaker. */
+interface LoadedPreset {
+  preset: Preset;
+  adapter: ApiAdapter;
+  strategy: PromptStrategy;
+  breaker: CircuitBreaker;
+}
+
 export class ApiCompletionProvider implements CompletionProvider {
   private config: ExtensionConfig;
   private logger: Logger;
   private ledger?: UsageLedger;
-  private adapter: ApiAdapter | null = null;
-  private activePreset: Preset | null = null;
-  private strategy: PromptStrategy | null = null;
+  /** The configured preset (`api.preset`). */
+  private active: LoadedPreset | null = null;
+  /**
+   * Other presets requested by id (code override, routing rules, fallback,
+   * race), loaded on first use and kept so each has its own breaker.
+   * Null marks a preset that failed to load.
+   */
+  private others = new Map<string, LoadedPreset | null>();
   private breaker: CircuitBreaker;
+  private limiter: RateLimiter;
 
   constructor(
     config: ExtensionConfig,
@@ -33,93 +64,167 @@ export class ApiCompletionProvider implements CompletionProvider {
     this.logger = logger;
     this.ledger = ledger;
     this.breaker = new CircuitBreaker(5, 30_000, logger, 'API', onBreakerOpen, onBreakerClose);
+    this.limiter = new RateLimiter(config.api.maxRequestsPerMinute);
     this.loadAdapter();
   }
 
-  isAvailable(): boolean {
-    if (this.breaker.isOpen()) return false;
-    return this.adapter?.isConfigured() ?? false;
+  /** Count requests against a limiter shared with other providers (e.g. the command provider). */
+  setRateLimiter(limiter: RateLimiter): void {
+    this.limiter = limiter;
+  }
+
+  /**
+   * Whether the configured preset — or `presetId`, with its own breaker — can
+   * take requests: loaded, keyed, and its breaker closed.
+   */
+  isAvailable(presetId?: string): boolean {
+    const loaded =
+      presetId === undefined || presetId === this.config.api.preset
+        ? this.active
+        : this.loadOther(presetId);
+    if (!loaded || loaded.breaker.isOpen()) return false;
+    return loaded.adapter.isConfigured();
   }
 
   updateConfig(config: ExtensionConfig): void {
     const presetChanged = config.api.preset !== this.config.api.preset;
+    const customPresetsChanged =
+      JSON.stringify(config.api.customPresets) !== JSON.stringify(this.config.api.customPresets);
     this.config = config;
+    this.limiter.setLimit(config.api.maxRequestsPerMinute);
     if (presetChanged) {
       this.loadAdapter();
     }
+    if (presetChanged || customPresetsChanged) {
+      this.clearOthers();
+    }
   }
 
-  async getCompletion(context: CompletionContext, signal: AbortSignal): Promise<string | null> {
-    if (!this.adapter || !this.activePreset || !this.strategy) return null;
-    if (this.breaker.isOpen()) return null;
+  async getCompletion(
+    context: CompletionContext,
+    signal: AbortSignal,
+    onPartial?: PartialCompletionCallback,
+  ): Promise<string | null> {
+    const [first] = await this.getCandidates(context, signal, 1, onPartial);
+    return first ?? null;
+  }
 
-    const preset = this.activePreset;
-    const messages = this.strategy.buildMessages(
-      context.prefix,
-      context.suffix,
-      context.languageId,
-    );
+  /**
+   * Generate up to `count` distinct completions. Adapters that support
+   * several choices per request get one request with `n`; otherwise requests
+   * run in parallel, each at a slightly higher temperature so they diverge.
+   * Only the first (primary) candidate streams to onPartial.
+   */
+  async getCandidates(
+    context: CompletionContext,
+    signal: AbortSignal,
+    count: number,
+    onPartial?: PartialCompletionCallback,
+  ): Promise<string[]> {
+    return this.requestCandidates(this.active, context, signal, count, onPartial);
+  }
 
-    // Build adapter messages array
-    const adapterMessages: Array<{ role: 'user' | 'assistant'; content: string }> = [
-      { role: 'user', content: messages.user },
-    ];
-    if (messages.assistantPrefill) {
-      adapterMessages.push({ role: 'assistant', content: messages.assistantPrefill });
-    }
+  private async requestCandidates(
+    loaded: LoadedPreset | null,
+    context: CompletionContext,
+    signal: AbortSignal,
+    count: number,
+    onPartial?: PartialCompletionCallback,
+  ): Promise<string[]> {
+    if (!loaded) return [];
+    const { preset, adapter, strategy, breaker } = loaded;
+    if (breaker.isOpen()) return [];
 
-    this.logger.traceBlock('api → system', messages.system);
-    this.logger.traceBlock('api → user', messages.user);
-    if (messages.assistantPrefill) {
-      this.logger.traceBlock('api → prefill', messages.assistantPrefill);
+    const hasPrefill = preset.features?.prefill === true;
+    const options: ApiAdapterOptions = {
+      signal,
+      maxTokens: preset.maxTokens,
+      temperature: preset.temperature,
+      stopSequences: preset.stopSequences,
+    };
+    const useChoices = count > 1 && adapter.supportsChoices === true;
+    if (!this.limiter.tryAcquire(useChoices ? 1 : Math.max(1, count))) {
+      this.logger.debug(`API: rate limit reached for ${preset.displayName}, skipping request`);
+      return [];
     }
 
-    let result;
+    // Only stream when someone is listening for partial results
+    const streamTo = this.config.streaming ? onPartial : undefined;
+    const request = (opts: ApiAdapterOptions, partial?: PartialCompletionCallback) =>
+      strategy.id === 'native-fim'
+        ? this.requestFim(adapter, strategy, context, opts, partial)
+        : this.requestChat(adapter, strategy, context, opts, hasPrefill, partial);
+
+    let results: ApiAdapterResult[];
     try {
-      result = await this.adapter.complete(messages.system, adapterMessages, {
-        signal,
-        maxTokens: preset.maxTokens,
-        temperature: preset.temperature,
-        stopSequences: preset.stopSequences,
-      });
+      if (useChoices) {
+        results = [await request({ ...options, n: count })];
+      } else {
+        results = await Promise.all(
+          Array.from({ length: Math.max(1, count) }, (_, i) =>
+            request(
+              { ...options, temperature: candidateTemperature(options.temperature, i) },
+              i === 0 ? streamTo : undefined,
+            ),
+          ),
+        );
+      }
     } catch (err) {
-      this.breaker.recordFailure();
+      breaker.recordFailure();
       throw err;
     }
 
-    // Record to ledger
-    this.ledger?.record({
-      source: 'completion',
-      model: result.model,
-      backend: 'api',
-      durationMs: result.durationMs,
-      inputTokens: result.usage.inputTokens,
-      outputTokens: result.usage.outputTokens,
-      cacheReadTokens: result.usage.cacheReadTokens,
-      inputChars: context.prefix.length + context.suffix.length,
-      outputChars: result.text?.length ?? 0,
-    });
-
-    if (!result.text) {
-      if (!result.aborted) this.breaker.recordFailure();
-      return null;
+    const candidates: Array<string | null> = [];
+    for (const result of results) {
+      // Record to ledger
+      this.ledger?.record({
+        source: 'completion',
+        model: result.model,
+        backend: 'api',
+        durationMs: result.durationMs,
+        inputTokens: result.usage.inputTokens,
+        outputTokens: result.usage.outputTokens,
+        cacheReadTokens: result.usage.cacheReadTokens,
+        costUsd: estimateCostUsd(preset, result.usage),
+        inputChars: context.prefix.length + context.suffix.length,
+        outputChars: result.text?.length ?? 0,
+        mode: context.mode,
+        languageId: context.languageId,
+      });
+
+      if (!result.text) {
+        if (!result.aborted) breaker.recordFailure();
+        continue;
+      }
+
+      breaker.recordSuccess();
+      for (const raw of result.texts ?? [result.text]) {
+        candidates.push(this.finishCompletion(raw, strategy, context, hasPrefill));
+      }
     }
 
-    this.breaker.recordSuccess();
+    return dedupeCompletions(candidates);
+  }
 
-    this.logger.traceBlock('api ← raw', result.text);
+  /** Extract and post-process one raw model response. */
+  private finishCompletion(
+    raw: string,
+    strategy: PromptStrategy,
+    context: CompletionContext,
+    hasPrefill: boolean,
+  ): string | null {
+    this.logger.traceBlock('api ← raw', raw);
 
     // Extract completion using the strategy
-    const extracted = this.strategy.extractCompletion(result.text);
+    const extracted = strategy.extractCompletion(raw);
     if (!extracted) return null;
 
-    if (extracted !== result.text) {
+    if (extracted !== raw) {
       this.logger.traceBlock('api ← extracted', extracted);
     }
 
     // Shared post-processing (prefix/suffix overlap trimming).
     // For prefill models, skip prefix overlap since the prefill anchor handles it.
-    const hasPrefill = preset.features?.prefill === true;
     const final = postProcessCompletion(
       extracted,
       hasPrefill ? undefined : context.prefix,
@@ -134,20 +239,114 @@ export class ApiCompletionProvider implements CompletionProvider {
     return final;
   }
 
+  /** Send the context as a chat prompt built by the strategy. */
+  private async requestChat(
+    adapter: ApiAdapter,
+    strategy: PromptStrategy,
+    context: CompletionContext,
+    options: ApiAdapterOptions,
+    hasPrefill: boolean,
+    onPartial?: PartialCompletionCallback,
+  ): Promise<ApiAdapterResult> {
+    const messages = strategy.buildMessages(
+      context.prefix,
+      context.suffix,
+      context.languageId,
+      context,
+    );
+
+    // Build adapter messages array
+    const adapterMessages: Array<{ role: 'user' | 'assistant'; content: string }> = [
+      { role: 'user', content: messages.user },
+    ];
+    if (messages.assistantPrefill) {
+      adapterMessages.push({ role: 'assistant', content: messages.assistantPrefill });
+    }
+
+    this.logger.traceBlock('api → system', messages.system);
+    this.logger.traceBlock('api → user', messages.user);
+    if (messages.assistantPrefill) {
+      this.logger.traceBlock('api → prefill', messages.assistantPrefill);
+    }
+
+    if (onPartial && adapter.stream) {
+      return this.streamCompletion(
+        adapter.stream(messages.system, adapterMessages, options),
+        strategy,
+        // For prefill models, skip prefix overlap since the prefill anchor handles it.
+        hasPrefill ? undefined : context.prefix,
+        onPartial,
+      );
+    }
+    return adapter.complete(messages.system, adapterMessages, options);
+  }
+
+  /** Send the raw prefix and suffix to the adapter's fill-in-the-middle endpoint. */
+  private async requestFim(
+    adapter: ApiAdapter,
+    strategy: PromptStrategy,
+    context: CompletionContext,
+    options: ApiAdapterOptions,
+    onPartial?: PartialCompletionCallback,
+  ): Promise<ApiAdapterResult> {
+    this.logger.traceBlock('api → fim prefix', context.prefix);
+    if (context.suffix) {
+      this.logger.traceBlock('api → fim suffix', context.suffix);
+    }
+
+    if (onPartial && adapter.streamFim) {
+      return this.streamCompletion(
+        adapter.streamFim(context.prefix, context.suffix, options),
+        strategy,
+        context.prefix,
+        onPartial,
+      );
+    }
+    // loadPreset() only keeps the native-fim strategy for adapters with completeFim
+    return adapter.completeFim!(context.prefix, context.suffix, options);
+  }
+
+  /**
+   * Drive an adapter stream, reporting the stable extracted text to
+   * onPartial as deltas arrive. Returns the adapter's final result so the
+   * caller can run the normal (non-incremental) extraction on the full text.
+   */
+  private async streamCompletion(
+    iterator: AsyncGenerator<string, ApiAdapterResult>,
+    strategy: PromptStrategy,
+    prefix: string | undefined,
+    onPartial: PartialCompletionCallback,
+  ): Promise<ApiAdapterResult> {
+    let raw = '';
+    let lastPartial = '';
+    let next = await iterator.next();
+    while (!next.done) {
+      raw += next.value;
+      const extracted = strategy.extractPartial(raw);
+      const partial = extracted ? postProcessPartialCompletion(extracted, prefix) : null;
+      if (partial && partial !== lastPartial) {
+        lastPartial = partial;
+        onPartial(partial);
+      }
+      next = await iterator.next();
+    }
+    return next.value;
+  }
+
   async recycleAll(): Promise<void> {
     this.loadAdapter();
+    this.clearOthers();
   }
 
   dispose(): void {
-    this.adapter?.dispose();
-    this.adapter = null;
-    this.activePreset = null;
-    this.strategy = null;
+    this.active?.adapter.dispose();
+    this.active = null;
+    this.clearOthers();
   }
 
   /** Get the currently active preset (for status display). */
   getActivePreset(): Preset | null {
-    return this.activePreset;
+    return this.active?.preset ?? null;
   }
 
   /** Send a minimal test request to verify API connectivity and key validity. */
@@ -157,18 +356,18 @@ export class ApiCompletionProvider implements CompletionProvider {
     durationMs: number;
     error?: string;
   }> {
-    if (!this.adapter || !this.activePreset || !this.strategy) {
+    if (!this.active) {
       return { ok: false, model: '', durationMs: 0, error: 'No adapter loaded' };
     }
 
-    const preset = this.activePreset;
+    const { preset, adapter } = this.active;
     const userMessage = buildFillMessage('Two plus two equals ', '.');
     const messages: Array<{ role: 'user' | 'assistant'; content: string }> = [
       { role: 'user', content: userMessage },
     ];
 
     try {
-      const result = await this.adapter.complete(SYSTEM_PROMPT, messages, {
+      const result = await adapter.complete(SYSTEM_PROMPT, messages, {
         signal: AbortSignal.timeout(15_000),
         maxTokens: 20,
         temperature: 0,
@@ -194,46 +393,74 @@ export class ApiCompletionProvider implements CompletionProvider {
     presetId: string,
     context: CompletionContext,
     signal: AbortSignal,
+    onPartial?: PartialCompletionCallback,
   ): Promise<string | null> {
-    const prevPreset = this.activePreset;
-    const prevAdapter = this.adapter;
-    const prevStrategy = this.strategy;
+    const [first] = await this.getCandidatesWithPreset(presetId, context, signal, 1, onPartial);
+    return first ?? null;
+  }
 
-    // Null out so loadAdapter doesn't dispose the saved adapter
-    this.adapter = null;
-    this.loadAdapter(presetId);
-    try {
-      return await this.getCompletion(context, signal);
-    } finally {
-      this.adapter = prevAdapter;
-      this.activePreset = prevPreset;
-      this.strategy = prevStrategy;
+  /** getCandidates() using a specific preset (for code override routing). */
+  async getCandidatesWithPreset(
+    presetId: string,
+    context: CompletionContext,
+    signal: AbortSignal,
+    count: number,
+    onPartial?: PartialCompletionCallback,
+  ): Promise<string[]> {
+    const loaded = presetId === this.config.api.preset ? this.active : this.loadOther(presetId);
+    return this.requestCandidates(loaded, context, signal, count, onPartial);
+  }
+
+  /** Load the configured preset, replacing the previous one. */
+  private loadAdapter(): void {
+    this.active?.adapter.dispose();
+    this.active = this.loadPreset(this.config.api.preset, this.breaker);
+    this.breaker.reset();
+    if (this.active) {
+      const { preset } = this.active;
+      this.logger.info(`API: loaded ${preset.displayName} (${preset.modelId})`);
+    }
+  }
+
+  /** Another preset, from the cache or loaded now with a breaker of its own. */
+  private loadOther(presetId: string): LoadedPreset | null {
+    if (this.others.has(presetId)) return this.others.get(presetId) ?? null;
+    const displayName = getPreset(presetId)?.displayName ?? presetId;
+    const breaker = new CircuitBreaker(5, 30_000, this.logger, `API (${displayName})`);
+    const loaded = this.loadPreset(presetId, breaker);
+    this.others.set(presetId, loaded);
+    if (loaded) {
+      this.logger.debug(`API: loaded ${loaded.preset.displayName} (${loaded.preset.modelId})`);
     }
+    return loaded;
   }
 
-  private loadAdapter(presetId?: string): void {
-    this.adapter?.dispose();
-    this.adapter = null;
-    this.activePreset = null;
-    this.strategy = null;
+  private clearOthers(): void {
+    for (const loaded of this.others.values()) loaded?.adapter.dispose();
+    this.others.clear();
+  }
 
-    const id = presetId ?? this.config.api.preset;
-    const preset = getPreset(id);
+  private loadPreset(presetId: string, breaker: CircuitBreaker): LoadedPreset | null {
+    const preset = getPreset(presetId);
     if (!preset) {
-      this.logger.error(`API: preset "${id}" not found`);
-      return;
+      this.logger.error(`API: preset "${presetId}" not found`);
+      return null;
     }
 
-    this.activePreset = preset;
-    this.strategy = getPromptStrategy(preset.promptStrategy);
+    let strategy = getPromptStrategy(preset.promptStrategy);
+    let adapter: ApiAdapter;
     try {
-      this.adapter = createAdapter(preset);
+      adapter = createAdapter(preset);
     } catch (err) {
       this.logger.error(`API: failed to create adapter for "${preset.displayName}": ${err}`);
-      return;
+      return null;
     }
-    this.breaker.reset();
-
-    this.logger.info(`API: loaded ${preset.displayName} (${preset.modelId})`);
+    if (strategy.id === 'native-fim' && !adapter.completeFim) {
+      this.logger.error(
+        `API: ${preset.provider} has no fill-in-the-middle endpoint, using instruction-extraction for "${preset.displayName}"`,
+      );
+      strategy = getPromptStrategy('instruction-extraction');
+    }
+    return { preset, adapter, strategy, breaker };
   }
 }
@@ -1,7 +1,11 @@
-import { Preset } from './types';
-import { CustomPreset } from '../../types';
+import { ApiAdapterResult, Preset } from './types';
+import { CustomPreset, PresetPricing } from '../../types';
 import { resolveApiKey } from '../../utils/api-key-store';
 
+/** Local models cost nothing per token. */
+const FREE: PresetPricing = { input: 0, output: 0 };
+
+/** Prices as listed by each provider, in USD per million tokens. */
 const BUILT_IN_PRESETS: Preset[] = [
   {
     id: 'anthropic-haiku',
@@ -13,6 +17,7 @@ const BUILT_IN_PRESETS: Preset[] = [
     maxTokens: 200,
     temperature: 0.2,
     promptStrategy: 'prefill-extraction',
+    pricing: { input: 1, output: 5, cacheRead: 0.1 },
     features: { promptCaching: true, prefill: true },
   },
   {
@@ -25,6 +30,7 @@ const BUILT_IN_PRESETS: Preset[] = [
     maxTokens: 200,
     temperature: 0.2,
     promptStrategy: 'prefill-extraction',
+    pricing: { input: 3, output: 15, cacheRead: 0.3 },
     features: { promptCaching: true, prefill: true },
   },
   {
@@ -37,6 +43,7 @@ const BUILT_IN_PRESETS: Preset[] = [
     maxTokens: 200,
     temperature: 0.2,
     promptStrategy: 'instruction-extraction',
+    pricing: { input: 0.1, output: 0.4, cacheRead: 0.025 },
   },
   {
     id: 'openai-gpt-4o-mini',
@@ -48,6 +55,7 @@ const BUILT_IN_PRESETS: Preset[] = [
     maxTokens: 200,
     temperature: 0.2,
     promptStrategy: 'instruction-extraction',
+    pricing: { input: 0.15, output: 0.6, cacheRead: 0.075 },
   },
   {
     id: 'google-gemini-flash',
@@ -60,6 +68,7 @@ const BUILT_IN_PRESETS: Preset[] = [
     maxTokens: 200,
     temperature: 0.2,
     promptStrategy: 'instruction-extraction',
+    pricing: { input: 0.3, output: 2.5, cacheRead: 0.075 },
   },
   {
     id: 'xai-grok',
@@ -72,6 +81,7 @@ const BUILT_IN_PRESETS: Preset[] = [
     maxTokens: 200,
     temperature: 0.3,
     promptStrategy: 'instruction-extraction',
+    pricing: { input: 0.2, output: 0.5, cacheRead: 0.05 },
   },
   {
     id: 'xai-grok-code',
@@ -84,6 +94,7 @@ const BUILT_IN_PRESETS: Preset[] = [
     maxTokens: 200,
     temperature: 0.2,
     promptStrategy: 'instruction-extraction',
+    pricing: { input: 0.2, output: 1.5, cacheRead: 0.02 },
   },
   {
     id: 'xai-grok-4',
@@ -96,6 +107,7 @@ const BUILT_IN_PRESETS: Preset[] = [
     maxTokens: 200,
     temperature: 0.3,
     promptStrategy: 'instruction-extraction',
+    pricing: { input: 3, output: 15, cacheRead: 0.75 },
   },
   {
     id: 'openrouter-haiku',
@@ -108,6 +120,7 @@ const BUILT_IN_PRESETS: Preset[] = [
     maxTokens: 200,
     temperature: 0.2,
     promptStrategy: 'prefill-extraction',
+    pricing: { input: 1, output: 5, cacheRead: 0.1 },
     features: { prefill: true },
     extraBody: { reasoning: { enabled: false } },
   },
@@ -122,6 +135,7 @@ const BUILT_IN_PRESETS: Preset[] = [
     maxTokens: 200,
     temperature: 0.2,
     promptStrategy: 'instruction-extraction',
+    pricing: { input: 0.1, output: 0.4, cacheRead: 0.025 },
     extraBody: { reasoning: { enabled: false } },
   },
   {
@@ -134,6 +148,31 @@ const BUILT_IN_PRESETS: Preset[] = [
     maxTokens: 200,
     temperature: 0.2,
     promptStrategy: 'instruction-extraction',
+    pricing: FREE,
+  },
+  {
+    id: 'ollama-qwen-coder-fim',
+    displayName: 'Ollama (Qwen Coder 7B, FIM)',
+    description: 'Local, free, native fill-in-the-middle',
+    provider: 'ollama',
+    modelId: 'qwen2.5-coder:7b',
+    baseUrl: 'http://localhost:11434',
+    maxTokens: 200,
+    temperature: 0.2,
+    promptStrategy: 'native-fim',
+    pricing: FREE,
+  },
+  {
+    id: 'llamacpp-fim',
+    displayName: 'llama.cpp (FIM)',
+    description: 'Local llama-server, native fill-in-the-middle',
+    provider: 'llamacpp',
+    modelId: 'default',
+    baseUrl: 'http://localhost:8080',
+    maxTokens: 200,
+    temperature: 0.2,
+    promptStrategy: 'native-fim',
+    pricing: FREE,
   },
   {
     id: 'ollama-qwen3-4b',
@@ -145,6 +184,7 @@ const BUILT_IN_PRESETS: Preset[] = [
     maxTokens: 200,
     temperature: 0.2,
     promptStrategy: 'instruction-extraction',
+    pricing: FREE,
   },
   {
     id: 'ollama-qwen3-8b',
@@ -156,6 +196,7 @@ const BUILT_IN_PRESETS: Preset[] = [
     maxTokens: 200,
     temperature: 0.2,
     promptStrategy: 'instruction-extraction',
+    pricing: FREE,
   },
   {
     id: 'ollama-qwen35-9b',
@@ -167,6 +208,7 @@ const BUILT_IN_PRESETS: Preset[] = [
     maxTokens: 200,
     temperature: 0.2,
     promptStrategy: 'instruction-extraction',
+    pricing: FREE,
   },
 ];
 
@@ -206,7 +248,8 @@ export function registerCustomPresets(customs: CustomPreset[]): string[] {
       const isAnthropicModel =
         c.provider === 'anthropic' ||
         (c.provider === 'openrouter' && c.modelId.startsWith('anthropic/'));
-      const promptStrategy = isAnthropicModel ? 'prefill-extraction' : 'instruction-extraction';
+      const promptStrategy =
+        c.promptStrategy ?? (isAnthropicModel ? 'prefill-extraction' : 'instruction-extraction');
 
       const preset: Preset = {
         id,
@@ -228,6 +271,8 @@ export function registerCustomPresets(customs: CustomPreset[]): string[] {
         preset.baseUrl = 'https://openrouter.ai/api/v1';
       } else if (provider === 'ollama') {
         preset.baseUrl = 'http://localhost:11434';
+      } else if (provider === 'llamacpp') {
+        preset.baseUrl = 'http://localhost:8080';
       }
       if (c.apiKeyEnvVar) {
         preset.apiKeyEnvVar = c.apiKeyEnvVar;
@@ -252,6 +297,11 @@ export function registerCustomPresets(customs: CustomPreset[]): string[] {
 
       if (c.extraBody) preset.extraBody = c.extraBody;
       if (c.extraHeaders) preset.extraHeaders = c.extraHeaders;
+      if (c.pricing) {
+        preset.pricing = c.pricing;
+      } else if (provider === 'ollama' || provider === 'llamacpp') {
+        preset.pricing = FREE;
+      }
 
       return preset;
     })
@@ -277,6 +327,22 @@ export function getPreset(id: string): Preset | undefined {
   return BUILT_IN_PRESETS.find((p) => p.id === id) ?? customPresets.find((p) => p.id === id);
 }
 
+/**
+ * Estimated cost of a request in USD from the preset's prices, or undefined
+ * when the preset has none. `inputTokens` excludes cache reads in every adapter.
+ */
+export function estimateCostUsd(
+  preset: Preset,
+  usage: ApiAdapterResult['usage'],
+): number | undefined {
+  const pricing = preset.pricing;
+  if (!pricing) return undefined;
+  const cacheRead = (usage.cacheReadTokens ?? 0) * (pricing.cacheRead ?? pricing.input);
+  return (
+    (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output + cacheRead) / 1e6
+  );
+}
+
 /** The default preset ID. */
 export const DEFAULT_PRESET_ID = 'xai-grok';
 
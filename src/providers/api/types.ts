@@ -1,10 +1,11 @@
 import { PromptStrategyId } from '../prompt-strategy';
+import { PresetPricing } from '../../types';
 
 export interface Preset {
   id: string;
   displayName: string;
   description?: string;
-  provider: 'anthropic' | 'openai' | 'xai' | 'google' | 'openrouter' | 'ollama';
+  provider: 'anthropic' | 'openai' | 'xai' | 'google' | 'openrouter' | 'ollama' | 'llamacpp';
   modelId: string;
   baseUrl?: string;
   apiKeyEnvVar?: string;
@@ -26,6 +27,9 @@ export interface Preset {
 
   /** Extra HTTP headers merged into API requests. */
   extraHeaders?: Record<string, string>;
+
+  /** Token prices for the usage ledger's cost estimates. Unset when unknown. */
+  pricing?: PresetPricing;
 }
 
 export interface ApiAdapterResult {
@@ -33,22 +37,60 @@ export interface ApiAdapterResult {
   usage: { inputTokens: number; outputTokens: number; cacheReadTokens?: number };
   model: string;
   durationMs: number;
+  /** Every returned choice when the request asked for several (`n`); `text` is the first. */
+  texts?: string[];
   /** True when the request was cancelled by an AbortSignal (not a real failure). */
   aborted?: boolean;
 }
 
+export interface ApiAdapterOptions {
+  signal: AbortSignal;
+  maxTokens: number;
+  temperature: number;
+  stopSequences?: string[];
+  /** Number of choices to generate. Only honored by adapters with `supportsChoices`. */
+  n?: number;
+}
+
 export interface ApiAdapter {
   readonly providerId: string;
+  /**
+   * Whether complete()/completeFim() can return several choices from one
+   * request (`options.n`). Otherwise callers send parallel requests.
+   */
+  readonly supportsChoices?: boolean;
   complete(
     systemPrompt: string,
     messages: Array<{ role: 'user' | 'assistant'; content: string }>,
-    options: {
-      signal: AbortSignal;
-      maxTokens: number;
-      temperature: number;
-      stopSequences?: string[];
-    },
+    options: ApiAdapterOptions,
+  ): Promise<ApiAdapterResult>;
+  /**
+   * Streaming variant of complete(). Yields raw text deltas as they arrive and
+   * returns the same ApiAdapterResult (with the full text) when the stream ends.
+   * Optional — callers fall back to complete() when an adapter does not stream.
+   */
+  stream?(
+    systemPrompt: string,
+    messages: Array<{ role: 'user' | 'assistant'; content: string }>,
+    options: ApiAdapterOptions,
+  ): AsyncGenerator<string, ApiAdapterResult>;
+  /**
+   * Native fill-in-the-middle completion: sends the raw prefix and suffix to
+   * the endpoint's FIM API instead of a chat prompt. The result text is the
+   * completion itself — no tags or preamble. Only adapters whose endpoint
+   * supports FIM implement this (used by the `native-fim` prompt strategy).
+   */
+  completeFim?(
+    prefix: string,
+    suffix: string,
+    options: ApiAdapterOptions,
   ): Promise<ApiAdapterResult>;
+  /** Streaming variant of completeFim(), with the same contract as stream(). */
+  streamFim?(
+    prefix: string,
+    suffix: string,
+    options: ApiAdapterOptions,
+  ): AsyncGenerator<string, ApiAdapterResult>;
   isConfigured(): boolean;
   dispose(): void;
 }
@@ -1,10 +1,35 @@
-import { CompletionContext, CompletionProvider, ExtensionConfig } from '../types';
+import {
+  CompletionContext,
+  CompletionProvider,
+  CompletionSource,
+  ExtensionConfig,
+  PartialCompletionCallback,
+  RoutingRule,
+} from '../types';
 import { PoolClient } from '../pool-server/client';
 import { SendPromptOptions, SendPromptResult, COMMAND_SYSTEM_PROMPT } from './command-pool';
 import { ApiCompletionProvider } from './api/api-provider';
 import { ApiCommandProvider } from './api/api-command-provider';
 import { getPreset } from './api/presets';
 import { shortenModelName } from '../utils/model-name';
+import { dedupeCompletions } from '../utils/post-process';
+import { UsageLedger } from '../utils/usage-ledger';
+import { RoutingSubject, findRoutingRule } from '../utils/routing-rules';
+import { BudgetGuard } from '../utils/budget';
+
+/** A backend a completion can go to: the Claude Code CLI with a model, or an API preset. */
+type Target = { backend: 'claude-code'; model: string } | { backend: 'api'; preset: string };
+
+/** Failures in a row after which a backend is skipped by the fallback chain. */
+const SKIP_AFTER_FAILURES = 2;
+
+/** How long a skipped backend is left alone before completions try it again. */
+const FAILBACK_MS = 60_000;
+
+/** Whether a fallback chain entry names the Claude Code CLI (`claude-code[:<model>]`). */
+export function isClaudeCodeTarget(entry: string): boolean {
+  return entry === 'claude-code' || entry.startsWith('claude-code:');
+}
 
 /**
  * Routes completion and command requests to the active backend.
@@ -17,6 +42,17 @@ export class BackendRouter implements CompletionProvider {
   private apiCompletion: ApiCompletionProvider | null;
   private apiCommand: ApiCommandProvider | null;
   private config: ExtensionConfig;
+  private ledger: UsageLedger | null = null;
+  private budget: BudgetGuard | null = null;
+  /** The backend and model that served each request's completions. */
+  private sources = new WeakMap<CompletionContext, CompletionSource>();
+  /** Recent failures per backend (by target key), for skipping and failing back. */
+  private health = new Map<string, { failures: number; skipUntil: number }>();
+  /** The fallback that served the last completion, or null while the primary does. */
+  private activeFallback: string | null = null;
+
+  /** Called with a fallback's label when completions move to it, and null when they return. */
+  onFallbackChange: ((label: string | null) => void) | null = null;
 
   constructor(
     poolClient: PoolClient,
@@ -30,43 +66,98 @@ export class BackendRouter implements CompletionProvider {
     this.config = config;
   }
 
+  /** Ledger for race outcomes (the backends record their own requests). */
+  setLedger(ledger: UsageLedger): void {
+    this.ledger = ledger;
+  }
+
+  /** Budgets to check before each request; backends over theirs are skipped. */
+  setBudget(budget: BudgetGuard): void {
+    this.budget = budget;
+  }
+
   // --- CompletionProvider interface ---
 
   isAvailable(): boolean {
+    const race = this.raceTargets();
+    if (race) return race.some((target) => this.isTargetAvailable(target));
+    if (this.config.fallback.chain.length > 0) {
+      // Any backend in the chain will do — for either mode's primary
+      const targets = [...this.targets({ mode: 'prose' }), ...this.targets({ mode: 'code' })];
+      return targets.some((target) => this.isTargetAvailable(target));
+    }
     if (this.config.backend === 'api') {
+      const shared = this.sharedApiPreset('');
+      if (shared) return this.poolClient.isApiPresetAvailable(shared);
       return this.apiCompletion?.isAvailable() ?? false;
     }
     return this.poolClient.isAvailable();
   }
 
-  async getCompletion(context: CompletionContext, signal: AbortSignal): Promise<string | null> {
-    const effective = this.resolveEffectiveBackend(context.mode);
-
-    if (effective.backend === 'api') {
-      if (!this.apiCompletion) return null;
-      if (effective.model && effective.model !== this.config.api.preset) {
-        return this.apiCompletion.getCompletionWithPreset(effective.model, context, signal);
-      }
-      return this.apiCompletion.getCompletion(context, signal);
+  async getCompletion(
+    context: CompletionContext,
+    signal: AbortSignal,
+    onPartial?: PartialCompletionCallback,
+  ): Promise<string | null> {
+    const race = this.raceTargets(context);
+    if (race) {
+      return this.race(
+        race,
+        context,
+        signal,
+        (target, raceSignal, partial) =>
+          this.completeOn(target, context, raceSignal, partial, false),
+        (text) => !text,
+        null,
+        onPartial,
+      );
     }
+    return this.withFallback(
+      context,
+      signal,
+      (target, strict) => this.completeOn(target, context, signal, onPartial, strict),
+      (text) => !text,
+    );
+  }
 
-    // CLI path — use a shallow copy to avoid mutating shared config across an await boundary
-    if (effective.model && effective.model !== this.config.claudeCode.model) {
-      const overrideConfig = {
-        ...this.config,
-        claudeCode: { ...this.config.claudeCode, model: effective.model },
-      };
-      this.poolClient.updateConfig?.(overrideConfig);
-      const result = await this.poolClient.getCompletion(context, signal);
-      this.poolClient.updateConfig?.(this.config);
-      return result;
+  async getCandidates(
+    context: CompletionContext,
+    signal: AbortSignal,
+    count: number,
+    onPartial?: PartialCompletionCallback,
+  ): Promise<string[]> {
+    const race = this.raceTargets(context);
+    if (race) {
+      return this.race(
+        race,
+        context,
+        signal,
+        (target, raceSignal, partial) =>
+          this.candidatesOn(target, context, raceSignal, count, partial, false),
+        (candidates) => candidates.length === 0,
+        [],
+        onPartial,
+      );
     }
+    return this.withFallback(
+      context,
+      signal,
+      (target, strict) => this.candidatesOn(target, context, signal, count, onPartial, strict),
+      (candidates) => candidates.length === 0,
+    );
+  }
 
-    return this.poolClient.getCompletion(context, signal);
+  getSource(context: CompletionContext): CompletionSource | undefined {
+    return this.sources.get(context);
   }
 
   updateConfig(config: ExtensionConfig): void {
+    const chainChanged = config.fallback.chain.join('\n') !== this.config.fallback.chain.join('\n');
     this.config = config;
+    if (chainChanged) {
+      this.health.clear();
+      this.setActiveFallback(null);
+    }
     this.poolClient.updateConfig?.(config);
     this.apiCompletion?.updateConfig(config);
     this.apiCommand?.updateConfig(config);
@@ -80,6 +171,25 @@ export class BackendRouter implements CompletionProvider {
   // --- Command interface for commit-message and suggest-edit ---
 
   async sendCommand(message: string, options?: SendPromptOptions): Promise<SendPromptResult> {
+    // Commands are always asked for explicitly
+    const target: Target =
+      this.config.backend === 'api'
+        ? { backend: 'api', preset: this.config.api.preset }
+        : { backend: 'claude-code', model: this.config.claudeCode.model };
+    if (this.isPaused(target, true)) {
+      throw new Error(this.budget?.getState(target.backend).reason ?? 'Budget reached');
+    }
+
+    const shared = this.config.backend === 'api' ? this.sharedApiPreset('') : null;
+    if (shared) {
+      const text = await this.poolClient.sendApiCommand(
+        shared,
+        COMMAND_SYSTEM_PROMPT,
+        message,
+        options?.onCancel,
+      );
+      return { text, meta: null };
+    }
     if (this.config.backend === 'api' && this.apiCommand) {
       const text = await this.apiCommand.sendPrompt(
         COMMAND_SYSTEM_PROMPT,
@@ -93,6 +203,8 @@ export class BackendRouter implements CompletionProvider {
 
   isCommandAvailable(): boolean {
     if (this.config.backend === 'api') {
+      const shared = this.sharedApiPreset('');
+      if (shared) return this.poolClient.isApiPresetAvailable(shared);
       return this.apiCommand?.isAvailable() ?? false;
     }
     return this.poolClient.isCommandPoolAvailable();
@@ -110,14 +222,26 @@ export class BackendRouter implements CompletionProvider {
     backend: 'claude-code' | 'api';
     label: string;
   } {
-    const effective = this.resolveEffectiveBackend(mode);
-    if (effective.backend === 'api') {
-      const presetId = effective.model || this.config.api.preset;
-      const preset = getPreset(presetId);
-      return { backend: 'api', label: preset?.displayName ?? presetId };
-    }
-    const model = effective.model || this.config.claudeCode.model;
-    return { backend: 'claude-code', label: shortenModelName(model) };
+    const effective = this.resolveEffectiveBackend({ mode });
+    return { backend: effective.backend, label: this.modelLabel(effective) };
+  }
+
+  /**
+   * Display model info for completions in a file when a routing rule or the
+   * code override picks their backend, or null when the global one serves them.
+   */
+  getRoute(subject: RoutingSubject): {
+    backend: 'claude-code' | 'api';
+    label: string;
+    source: 'rule' | 'code override';
+  } | null {
+    const effective = this.resolveEffectiveBackend(subject);
+    if (!effective.source) return null;
+    return {
+      backend: effective.backend,
+      label: this.modelLabel(effective),
+      source: effective.source,
+    };
   }
 
   /** Get the active backend name. */
@@ -143,23 +267,405 @@ export class BackendRouter implements CompletionProvider {
     return this.apiCompletion.testConnection();
   }
 
-  /** Resolve the effective backend + model for a given completion mode. */
-  private resolveEffectiveBackend(mode: 'prose' | 'code'): {
+  /**
+   * Run `attempt` against the primary backend for `context`, then down the
+   * fallback chain while it fails in one of the ways `fallback.on` lists.
+   * `strict` asks the attempt to throw on errors it would otherwise swallow —
+   * set while there is a backend left to fall back to. The last backend is
+   * always tried, and its result (or error) is returned as is.
+   */
+  private async withFallback<T>(
+    context: CompletionContext,
+    signal: AbortSignal,
+    attempt: (target: Target, strict: boolean) => Promise<T>,
+    isEmpty: (result: T) => boolean,
+  ): Promise<T> {
+    const run = async (target: Target, strict: boolean) => {
+      const result = await attempt(target, strict);
+      if (!isEmpty(result)) this.noteSource(target, context);
+      return result;
+    };
+    const targets = this.targets(context);
+    if (targets.length === 1) return run(targets[0], false);
+
+    const on = this.config.fallback.on;
+    for (let i = 0; ; i++) {
+      const target = targets[i];
+      const last = i === targets.length - 1;
+      const key = targetKey(target);
+      if (!last && this.isSkipped(key)) continue;
+      if (!last && this.isPaused(target, context.explicit === true)) continue;
+      if (!last && on.includes('unavailable') && !this.isTargetAvailable(target)) continue;
+
+      let result: T;
+      try {
+        result = await run(target, !last && on.includes('error'));
+      } catch (err) {
+        if (last || signal.aborted || !on.includes('error')) throw err;
+        this.recordFailure(key);
+        continue;
+      }
+      if (signal.aborted) return result;
+
+      if (isEmpty(result)) {
+        // An API preset answers empty, rather than failing, once its breaker is open
+        const unavailable = on.includes('unavailable') && !this.isTargetAvailable(target);
+        if (last || !(unavailable || on.includes('empty'))) return result;
+        this.recordFailure(key);
+        continue;
+      }
+      this.health.delete(key);
+      this.setActiveFallback(i === 0 ? null : target);
+      return result;
+    }
+  }
+
+  /**
+   * Send the completion to both backends — the second only after
+   * `race.staggerMs`, or as soon as the first fails — and resolve with the
+   * first usable result, aborting the other request. Only the backend that
+   * streams first reports partials. Resolves `empty` when neither produces
+   * anything, and rejects only when both throw.
+   */
+  private race<T>(
+    targets: [Target, Target],
+    context: CompletionContext,
+    signal: AbortSignal,
+    attempt: (
+      target: Target,
+      signal: AbortSignal,
+      onPartial?: PartialCompletionCallback,
+    ) => Promise<T>,
+    isEmpty: (result: T) => boolean,
+    empty: T,
+    onPartial?: PartialCompletionCallback,
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const startedAt = Date.now();
+      const controllers = targets.map(() => new AbortController());
+      let staggerTimer: ReturnType<typeof setTimeout> | undefined;
+      // Aborted before the head start ran out — the second backend never goes
+      const abortAll = () => {
+        clearTimeout(staggerTimer);
+        controllers.forEach((c) => c.abort());
+      };
+      signal.addEventListener('abort', abortAll, { once: true });
+
+      let settled = false;
+      let launched = 0;
+      let finished = 0;
+      let streaming: number | null = null;
+      const errors: unknown[] = [];
+
+      const settle = (settleWith: () => void) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(staggerTimer);
+        signal.removeEventListener('abort', abortAll);
+        settleWith();
+      };
+
+      const launch = () => {
+        const i = launched++;
+        const forward = onPartial
+          ? (partial: string) => {
+              streaming ??= i;
+              if (streaming === i && !settled) onPartial(partial);
+            }
+          : undefined;
+        attempt(targets[i], controllers[i].signal, forward).then(
+          (result) => done(i, result),
+          (err) => {
+            errors.push(err);
+            done(i, null);
+          },
+        );
+      };
+
+      const done = (i: number, result: T | null) => {
+        finished++;
+        if (settled) return;
+        if (result !== null && !isEmpty(result) && !signal.aborted) {
+          settle(() => {
+            controllers.forEach((c, j) => j !== i && c.abort());
+            this.noteSource(targets[i], context);
+            this.recordRaceWin(targets[i], context, result, Date.now() - startedAt);
+            resolve(result);
+          });
+        } else if (launched < targets.length && !signal.aborted) {
+          // The first backend failed before its head start ran out
+          clearTimeout(staggerTimer);
+          launch();
+        } else if (finished === launched) {
+          settle(() => (errors.length === launched ? reject(errors[0]) : resolve(empty)));
+        }
+      };
+
+      launch();
+      staggerTimer = setTimeout(() => {
+        if (launched < targets.length && !settled && !signal.aborted) launch();
+      }, this.config.race.staggerMs);
+    });
+  }
+
+  /**
+   * The two backends to race, or null unless race mode is on with two
+   * distinct backends. Files a routing rule matches are never raced: the
+   * rule's backends are the only ones they may go to.
+   */
+  private raceTargets(subject?: RoutingSubject): [Target, Target] | null {
+    const { enabled, backends } = this.config.race;
+    if (!enabled || backends.length < 2) return null;
+    if (subject && findRoutingRule(this.config.routing.rules, subject)) return null;
+    const first = this.parseTarget(backends[0]);
+    const second = this.parseTarget(backends[1]);
+    return targetKey(first) === targetKey(second) ? null : [first, second];
+  }
+
+  private noteSource(target: Target, context: CompletionContext): void {
+    this.sources.set(
+      context,
+      target.backend === 'api'
+        ? { backend: 'api', model: getPreset(target.preset)?.modelId ?? target.preset }
+        : {
+            backend: 'claude-code',
+            model: this.poolClient.getServedModel(context) ?? target.model,
+          },
+    );
+  }
+
+  private recordRaceWin(
+    target: Target,
+    context: CompletionContext,
+    result: unknown,
+    durationMs: number,
+  ): void {
+    const text = Array.isArray(result) ? result[0] : result;
+    this.ledger?.record({
+      source: 'completion',
+      model:
+        target.backend === 'api'
+          ? (getPreset(target.preset)?.modelId ?? target.preset)
+          : target.model,
+      backend: target.backend,
+      durationMs,
+      inputChars: context.prefix.length + context.suffix.length,
+      outputChars: typeof text === 'string' ? text.length : 0,
+      mode: context.mode,
+      languageId: context.languageId,
+      raceWinner: targetLabel(target),
+    });
+  }
+
+  /**
+   * Whether `target`'s budget is used up for this request. Presets priced as
+   * free (local models) never spend the dollar budget, so they keep running.
+   */
+  private isPaused(target: Target, explicit: boolean): boolean {
+    if (!this.budget) return false;
+    if (target.backend === 'api') {
+      const pricing = getPreset(target.preset)?.pricing;
+      if (pricing && pricing.input === 0 && pricing.output === 0) return false;
+    }
+    return !this.budget.allows(target.backend, explicit);
+  }
+
+  /**
+   * The backend for `subject` followed by the fallback chain, without
+   * repeats. A matching routing rule brings its own chain (none by default).
+   */
+  private targets(subject: RoutingSubject): Target[] {
+    const effective = this.resolveEffectiveBackend(subject);
+    const primary: Target =
+      effective.backend === 'api'
+        ? { backend: 'api', preset: effective.model || this.config.api.preset }
+        : { backend: 'claude-code', model: effective.model || this.config.claudeCode.model };
+
+    const targets = [primary];
+    const chain = effective.rule ? (effective.rule.fallback ?? []) : this.config.fallback.chain;
+    for (const entry of chain) {
+      const target = this.parseTarget(entry);
+      if (!targets.some((t) => targetKey(t) === targetKey(target))) targets.push(target);
+    }
+    return targets;
+  }
+
+  private parseTarget(entry: string): Target {
+    if (isClaudeCodeTarget(entry)) {
+      const model = entry.slice('claude-code:'.length) || this.config.claudeCode.model;
+      return { backend: 'claude-code', model };
+    }
+    return { backend: 'api', preset: entry };
+  }
+
+  private isTargetAvailable(target: Target): boolean {
+    if (target.backend === 'claude-code') return this.poolClient.isAvailable();
+    if (!getPreset(target.preset)) return false;
+    const shared = this.sharedApiPreset(target.preset);
+    if (shared) return this.poolClient.isApiPresetAvailable(shared);
+    return this.apiCompletion?.isAvailable(target.preset) ?? false;
+  }
+
+  private isSkipped(key: string): boolean {
+    const health = this.health.get(key);
+    return health !== undefined && Date.now() < health.skipUntil;
+  }
+
+  /** Count a failure; enough in a row and the backend is skipped for `FAILBACK_MS`. */
+  private recordFailure(key: string): void {
+    const health = this.health.get(key) ?? { failures: 0, skipUntil: 0 };
+    health.failures++;
+    if (health.failures >= SKIP_AFTER_FAILURES) {
+      // Tried again once this passes; another failure skips it again
+      health.failures = 0;
+      health.skipUntil = Date.now() + FAILBACK_MS;
+    }
+    this.health.set(key, health);
+  }
+
+  private setActiveFallback(target: Target | null): void {
+    const label = target ? targetLabel(target) : null;
+    if (label === this.activeFallback) return;
+    this.activeFallback = label;
+    this.onFallbackChange?.(label);
+  }
+
+  /** A single completion from one backend. */
+  private async completeOn(
+    target: Target,
+    context: CompletionContext,
+    signal: AbortSignal,
+    onPartial: PartialCompletionCallback | undefined,
+    strict: boolean,
+  ): Promise<string | null> {
+    if (this.isPaused(target, context.explicit === true)) return null;
+    if (target.backend === 'api') {
+      const shared = this.sharedApiPreset(target.preset);
+      if (shared) {
+        const [first] = await this.poolClient.getApiCandidates(
+          shared,
+          context,
+          signal,
+          1,
+          onPartial,
+        );
+        return first ?? null;
+      }
+      if (!this.apiCompletion) return null;
+      if (target.preset !== this.config.api.preset) {
+        return this.apiCompletion.getCompletionWithPreset(
+          target.preset,
+          context,
+          signal,
+          onPartial,
+        );
+      }
+      return this.apiCompletion.getCompletion(context, signal, onPartial);
+    }
+
+    // CLI path — another model gets its own pool on the server
+    const model = target.model !== this.config.claudeCode.model ? target.model : undefined;
+    if (strict) {
+      return this.poolClient.getCompletionOrThrow(context, signal, onPartial, model);
+    }
+    if (model) {
+      return this.poolClient.getCompletionWithModel(model, context, signal, onPartial);
+    }
+    return this.poolClient.getCompletion(context, signal, onPartial);
+  }
+
+  /** Up to `count` distinct completions from one backend. */
+  private async candidatesOn(
+    target: Target,
+    context: CompletionContext,
+    signal: AbortSignal,
+    count: number,
+    onPartial: PartialCompletionCallback | undefined,
+    strict: boolean,
+  ): Promise<string[]> {
+    if (this.isPaused(target, context.explicit === true)) return [];
+    if (target.backend === 'api') {
+      const shared = this.sharedApiPreset(target.preset);
+      if (shared) {
+        return this.poolClient.getApiCandidates(shared, context, signal, count, onPartial);
+      }
+      if (!this.apiCompletion) return [];
+      if (target.preset !== this.config.api.preset) {
+        return this.apiCompletion.getCandidatesWithPreset(
+          target.preset,
+          context,
+          signal,
+          count,
+          onPartial,
+        );
+      }
+      return this.apiCompletion.getCandidates(context, signal, count, onPartial);
+    }
+
+    // CLI sessions have no `n` or temperature control — send parallel requests,
+    // which spread across the slot pool (or queue when it is smaller than count)
+    const results = await Promise.all(
+      Array.from({ length: count }, (_, i) =>
+        this.completeOn(target, context, signal, i === 0 ? onPartial : undefined, strict),
+      ),
+    );
+    return dedupeCompletions(results);
+  }
+
+  /**
+   * The preset to request from the pool server when `api.sharedServer` is on
+   * and the server can host it, or null to use this window's own providers.
+   */
+  private sharedApiPreset(model: string): string | null {
+    if (!this.config.api.sharedServer || !this.poolClient.canHostApi()) return null;
+    return model || this.config.api.preset;
+  }
+
+  /**
+   * Resolve the effective backend + model for a completion: the first
+   * matching routing rule, then the code override, then the global backend.
+   */
+  private resolveEffectiveBackend(subject: RoutingSubject): {
     backend: 'claude-code' | 'api';
     model: string;
+    source?: 'rule' | 'code override';
+    rule?: RoutingRule;
   } {
-    if (mode === 'code' && this.config.codeOverride.backend) {
+    const rule = findRoutingRule(this.config.routing.rules, subject);
+    if (rule) return { backend: rule.backend, model: rule.model ?? '', source: 'rule', rule };
+    if (subject.mode === 'code' && this.config.codeOverride.backend) {
       return {
         backend: this.config.codeOverride.backend as 'claude-code' | 'api',
         model: this.config.codeOverride.model,
+        source: 'code override',
       };
     }
     return { backend: this.config.backend, model: '' };
   }
 
+  private modelLabel(effective: { backend: 'claude-code' | 'api'; model: string }): string {
+    if (effective.backend === 'api') {
+      const presetId = effective.model || this.config.api.preset;
+      return getPreset(presetId)?.displayName ?? presetId;
+    }
+    return shortenModelName(effective.model || this.config.claudeCode.model);
+  }
+
   dispose(): void {
+    this.onFallbackChange = null;
+    this.ledger = null;
+    this.budget = null;
     this.poolClient.dispose();
     this.apiCompletion?.dispose();
     this.apiCommand?.dispose();
   }
 }
+
+function targetKey(target: Target): string {
+  return target.backend === 'api' ? target.preset : `claude-code:${target.model}`;
+}
+
+function targetLabel(target: Target): string {
+  if (target.backend === 'claude-code') return `${shortenModelName(target.model)} (CC)`;
+  return `${getPreset(target.preset)?.displayName ?? target.preset} (API)`;
+}
@@ -1,11 +1,27 @@
-import { CompletionContext, CompletionProvider, ExtensionConfig } from '../types';
+import {
+  CompletionContext,
+  CompletionProvider,
+  ExtensionConfig,
+  PartialCompletionCallback,
+} from '../types';
 import { Logger } from '../utils/logger';
-import { postProcessCompletion } from '../utils/post-process';
-import { SlotPool } from './slot-pool';
-import { SYSTEM_PROMPT, buildFillMessage, extractCompletion } from './prompt-strategy';
+import { postProcessCompletion, postProcessPartialCompletion } from '../utils/post-process';
+import { SlotPool, estimateTokens } from './slot-pool';
+import {
+  SYSTEM_PROMPT,
+  buildFillMessage,
+  extractCompletion,
+  tagExtraction,
+} from './prompt-strategy';
 
-/** Maximum completions per slot before recycling. */
-const MAX_COMPLETION_REUSES = 8;
+/** Conversation history a completion session may carry before recycling — keeps turns fast. */
+const COMPLETION_CONTEXT_BUDGET = 60_000;
+
+/** Maximum completions per slot before recycling, whatever their size. */
+const MAX_COMPLETION_REUSES = 40;
+
+/** A completion still waiting for a slot after this long is out of date — drop it. */
+const MAX_QUEUE_WAIT_MS = 10_000;
 
 /** Warmup prompt constants — exported for test assertions. */
 export const WARMUP_PREFIX = 'Two plus two equals ';
@@ -38,20 +54,35 @@ export class ClaudeCodeProvider extends SlotPool implements CompletionProvider {
     this.logger.info(`Claude Code: pool ready (${this.poolSize} slots)`);
   }
 
-  async getCompletion(context: CompletionContext, _signal: AbortSignal): Promise<string | null> {
+  async getCompletion(
+    context: CompletionContext,
+    signal: AbortSignal,
+    onPartial?: PartialCompletionCallback,
+  ): Promise<string | null> {
     if (!this.queryFn) {
       return null;
     }
 
+    const message = buildFillMessage(context.prefix, context.suffix, context.languageId, context);
+
     // Acquire an available slot (marks it busy before returning)
-    const slotIndex = await this.acquireSlot();
+    // Explicit requests (Alt+Enter) jump ahead of automatic ones queued by any window
+    const slotIndex = await this.acquireSlot(
+      signal,
+      context.explicit ? 'high' : 'normal',
+      estimateTokens(message),
+    );
     if (slotIndex === null) {
       return null;
     }
 
     const slot = this.slots[slotIndex];
 
-    const message = buildFillMessage(context.prefix, context.suffix, context.languageId);
+    // Superseded while waiting for the slot — hand it straight back
+    if (signal.aborted) {
+      this.releaseSlot(slotIndex);
+      return null;
+    }
 
     this.logger.traceInline('slot', String(slotIndex));
     this.logger.traceBlock('→ sent', message);
@@ -61,14 +92,33 @@ export class ClaudeCodeProvider extends SlotPool implements CompletionProvider {
       return null;
     }
 
+    // Report the stable extracted text as the turn streams
+    if (onPartial) {
+      let lastPartial = '';
+      slot.onPartial = (text) => {
+        const extracted = tagExtraction.extractPartial(text);
+        const partial = extracted ? postProcessPartialCompletion(extracted, context.prefix) : null;
+        if (partial && partial !== lastPartial) {
+          lastPartial = partial;
+          onPartial(partial);
+        }
+      };
+    }
+
     // Push the completion request into the slot's channel
     slot.channel.push(message);
 
-    // Await the result unconditionally — the consumer owns the slot lifecycle
+    // Await the result, or interrupt the turn if the request is superseded —
+    // the consumer still owns the slot lifecycle
     const startTime = Date.now();
-    const raw = await slot.resultPromise;
+    const raw = await this.awaitResult(slotIndex, signal);
     const wallDuration = Date.now() - startTime;
 
+    if (raw === undefined) {
+      this.logger.traceInline('cancelled', `slot ${slotIndex}`);
+      return null;
+    }
+
     // Record completion in ledger
     const meta = slot.lastResultMeta;
     slot.lastResultMeta = null;
@@ -87,6 +137,9 @@ export class ClaudeCodeProvider extends SlotPool implements CompletionProvider {
       costUsd: meta?.costUsd,
       inputChars: context.prefix.length + context.suffix.length,
       outputChars: raw?.length ?? 0,
+      mode: context.mode,
+      languageId: context.languageId,
+      caller: context.caller,
       slotIndex,
       sessionId: meta?.sessionId,
     });
@@ -127,10 +180,18 @@ export class ClaudeCodeProvider extends SlotPool implements CompletionProvider {
     return MAX_COMPLETION_REUSES;
   }
 
+  protected getContextBudget(): number {
+    return COMPLETION_CONTEXT_BUDGET;
+  }
+
   protected getPoolLabel(): string {
     return 'Claude Code';
   }
 
+  protected getMaxQueueWaitMs(): number {
+    return MAX_QUEUE_WAIT_MS;
+  }
+
   protected buildWarmupMessage(): string {
     return buildFillMessage(WARMUP_PREFIX, WARMUP_SUFFIX);
   }
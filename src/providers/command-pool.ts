@@ -1,12 +1,18 @@
 import { Logger } from '../utils/logger';
-import { SlotPool, ResultMetadata } from './slot-pool';
+import { SlotPool, ResultMetadata, estimateTokens } from './slot-pool';
 
 export const COMMAND_SYSTEM_PROMPT = `Follow the instructions in each message precisely. Output only what is requested — no commentary, preamble, or meta-text.`;
 
 const WARMUP_MESSAGE = 'Reply with exactly the word: READY';
 
-/** Maximum requests per slot before recycling. */
-const MAX_COMMAND_REUSES = 4;
+/**
+ * Conversation history a command session may carry before recycling. Leaves
+ * room under the model's context window for a large diff and its response.
+ */
+const COMMAND_CONTEXT_BUDGET = 120_000;
+
+/** Maximum requests per slot before recycling, whatever their size. */
+const MAX_COMMAND_REUSES = 20;
 
 /** Error text returned by Claude Code CLI when accumulated conversation exceeds context limit. */
 const PROMPT_TOO_LONG = 'Prompt is too long';
@@ -14,6 +20,8 @@ const PROMPT_TOO_LONG = 'Prompt is too long';
 export interface SendPromptOptions {
   timeoutMs?: number;
   onCancel?: AbortSignal;
+  /** Receives the response text so far while it streams (Claude Code backend only). */
+  onPartial?: (text: string) => void;
 }
 
 export interface SendPromptResult {
@@ -24,8 +32,8 @@ export interface SendPromptResult {
 export class CommandPool extends SlotPool {
   private model: string;
 
-  constructor(model: string, logger: Logger) {
-    super(logger, 1); // 1-slot pool
+  constructor(model: string, logger: Logger, poolSize: number = 1) {
+    super(logger, poolSize);
     this.model = model;
   }
 
@@ -62,8 +70,10 @@ export class CommandPool extends SlotPool {
    * Send a prompt to the command pool and wait for the response.
    * Returns null text if the pool is unavailable, timed out, or cancelled.
    *
-   * If the CLI returns "Prompt is too long" (conversation history exceeded
-   * context limit), the pool is recycled and the request is retried once.
+   * Slots are recycled ahead of a message that would overflow their context
+   * budget, so a large prompt starts on a fresh session. The token estimate is
+   * rough — if the CLI still returns "Prompt is too long", the pool is recycled
+   * and the request is retried once.
    */
   async sendPrompt(message: string, options?: SendPromptOptions): Promise<SendPromptResult> {
     const result = await this._doSendPrompt(message, options);
@@ -86,11 +96,16 @@ export class CommandPool extends SlotPool {
       return { text: null, meta: null };
     }
 
-    // Acquire an available slot (marks it busy before returning)
-    const slotIndex = await this.acquireSlot();
+    // Acquire an available slot (marks it busy before returning). A request
+    // cancelled while queued gives up its place rather than spend a slot later.
+    const slotIndex = await this.acquireSlot(options?.onCancel, 'normal', estimateTokens(message));
     if (slotIndex === null) {
       return { text: null, meta: null };
     }
+    if (options?.onCancel?.aborted) {
+      this.releaseSlot(slotIndex);
+      return { text: null, meta: null };
+    }
 
     const slot = this.slots[slotIndex];
 
@@ -101,6 +116,10 @@ export class CommandPool extends SlotPool {
 
     this.logger.traceBlock('→ command sent', message);
 
+    if (options?.onPartial) {
+      slot.onPartial = options.onPartial;
+    }
+
     // Push the command into the slot's channel
     slot.channel.push(message);
 
@@ -170,6 +189,10 @@ export class CommandPool extends SlotPool {
       clearTimeout(timeoutId);
     }
     cancelCleanup?.();
+    // Timed out or cancelled mid-stream — stop reporting partial text
+    if (slot.onPartial === options?.onPartial) {
+      slot.onPartial = null;
+    }
 
     // Get metadata
     const meta = slot.lastResultMeta;
@@ -194,6 +217,10 @@ export class CommandPool extends SlotPool {
     return MAX_COMMAND_REUSES;
   }
 
+  protected getContextBudget(): number {
+    return COMMAND_CONTEXT_BUDGET;
+  }
+
   protected getPoolLabel(): string {
     return 'CommandPool';
   }
@@ -1,3 +1,5 @@
+import { RelatedSnippet, SupplementalContext, SymbolSignature } from '../types';
+
 /**
  * Shared prompt strategy for all completion backends.
  *
@@ -19,6 +21,8 @@ Core rules:
 - NEVER repeat text that appears immediately before or after the marker
 - NEVER include {{FILL_HERE}} in your response
 - Focus on what belongs at the cursor — ignore errors or incomplete text elsewhere in the document
+- <related_files> and <retrieved_context> blocks, when present, hold excerpts from the author's other files. Use them to get names, signatures, terminology, and conventions right — but only ever fill the marker in the <document>
+- A <symbols> block, when present, lists declarations of functions and members used near the marker, as reported by the editor. Match their parameter names, order, and types exactly
 - No commentary, no code fences, no explanation — just the COMPLETION tags
 - NEVER output empty COMPLETION tags. Always generate at least a few words. If the text reads correctly without a fill, output a minimal connecting word or phrase.
 
@@ -82,11 +86,41 @@ export function buildFillMessage(
   prefix: string,
   suffix: string,
   languageId: string = 'plaintext',
+  supplemental?: SupplementalContext,
 ): string {
   const doc = suffix.trim()
     ? `<document language="${languageId}">\n${prefix}{{FILL_HERE}}${suffix}\n</document>`
     : `<document language="${languageId}">\n${prefix}{{FILL_HERE}}\n</document>`;
-  return `${doc}\n\nFill the {{FILL_HERE}} marker.`;
+  const blocks = [
+    buildSnippetBlock('retrieved_context', supplemental?.retrievedChunks),
+    buildSnippetBlock('related_files', supplemental?.relatedFiles),
+    buildSymbolBlock(supplemental?.symbols),
+  ].filter(Boolean);
+  const preamble = blocks.map((b) => `${b}\n\n`).join('');
+  return `${preamble}${doc}\n\nFill the {{FILL_HERE}} marker.`;
+}
+
+/**
+ * Format snippets from other files as a `<tag>` block of `<file>` entries,
+ * placed ahead of the document. Returns '' when there are none.
+ */
+export function buildSnippetBlock(tag: string, snippets: RelatedSnippet[] | undefined): string {
+  if (!snippets?.length) return '';
+  const files = snippets.map((f) => `<file path="${f.filePath}">\n${f.content}\n</file>`);
+  return `<${tag}>\n${files.join('\n')}\n</${tag}>`;
+}
+
+/**
+ * Format resolved symbol declarations as a `<symbols>` block. Placed last so
+ * the signatures sit right above the document. Returns '' when there are none.
+ */
+export function buildSymbolBlock(symbols: SymbolSignature[] | undefined): string {
+  if (!symbols?.length) return '';
+  const entries = symbols.map((s) => {
+    const location = s.filePath ? ` path="${s.filePath}${s.line ? `:${s.line}` : ''}"` : '';
+    return `<symbol name="${s.name}"${location}>\n${s.signature}\n</symbol>`;
+  });
+  return `<symbols>\n${entries.join('\n')}\n</symbols>`;
 }
 
 /**
@@ -102,6 +136,34 @@ export function extractCompletion(raw: string): string {
   return raw.slice(open + '<COMPLETION>'.length, close);
 }
 
+/**
+ * Return the portion of in-progress tag content that can no longer change.
+ * Stops at the first </COMPLETION> if present; otherwise holds back any
+ * trailing characters that could be the start of a closing tag.
+ */
+function stableTagContent(content: string): string {
+  const close = content.indexOf('</COMPLETION>');
+  if (close !== -1) {
+    return content.slice(0, close);
+  }
+  const lt = content.lastIndexOf('<');
+  if (lt !== -1 && '</COMPLETION>'.startsWith(content.slice(lt))) {
+    return content.slice(0, lt);
+  }
+  return content;
+}
+
+/**
+ * Partial extraction for strategies that expect an opening <COMPLETION> tag.
+ * Returns null until the tag has arrived — untagged responses are only
+ * handled once complete, by extractCompletion().
+ */
+function extractPartialAfterOpenTag(raw: string): string | null {
+  const open = raw.indexOf('<COMPLETION>');
+  if (open === -1) return null;
+  return stableTagContent(raw.slice(open + '<COMPLETION>'.length)) || null;
+}
+
 // ─── Prompt strategy interface ───────────────────────────────────
 
 /** Message ready to send to an API or CLI backend. */
@@ -120,9 +182,19 @@ export interface PromptMessages {
 export interface PromptStrategy {
   readonly id: string;
   /** Build the full message set from document context. */
-  buildMessages(prefix: string, suffix: string, languageId: string): PromptMessages;
+  buildMessages(
+    prefix: string,
+    suffix: string,
+    languageId: string,
+    supplemental?: SupplementalContext,
+  ): PromptMessages;
   /** Extract the completion text from the model's raw response. */
   extractCompletion(raw: string): string | null;
+  /**
+   * Extract the stable part of the completion from a response that is still
+   * streaming. Returns null when nothing can be shown yet.
+   */
+  extractPartial(raw: string): string | null;
 }
 
 // ─── Strategy implementations ────────────────────────────────────
@@ -133,13 +205,14 @@ export interface PromptStrategy {
  */
 export const tagExtraction: PromptStrategy = {
   id: 'tag-extraction',
-  buildMessages(prefix, suffix, languageId) {
+  buildMessages(prefix, suffix, languageId, supplemental) {
     return {
       system: SYSTEM_PROMPT,
-      user: buildFillMessage(prefix, suffix, languageId),
+      user: buildFillMessage(prefix, suffix, languageId, supplemental),
     };
   },
   extractCompletion,
+  extractPartial: extractPartialAfterOpenTag,
 };
 
 /**
@@ -150,7 +223,7 @@ export const tagExtraction: PromptStrategy = {
  */
 export const prefillExtraction: PromptStrategy = {
   id: 'prefill-extraction',
-  buildMessages(prefix, suffix, languageId) {
+  buildMessages(prefix, suffix, languageId, supplemental) {
     // Take the last ~40 chars of the prefix as the prefill anchor.
     // trimEnd() is required — the Anthropic API rejects assistant messages
     // with trailing whitespace. The model still sees the full prefix
@@ -158,7 +231,7 @@ export const prefillExtraction: PromptStrategy = {
     const anchor = prefix.slice(-40).trimEnd();
     return {
       system: SYSTEM_PROMPT,
-      user: buildFillMessage(prefix, suffix, languageId),
+      user: buildFillMessage(prefix, suffix, languageId, supplemental),
       assistantPrefill: `<COMPLETION>${anchor}`,
     };
   },
@@ -200,6 +273,12 @@ export const prefillExtraction: PromptStrategy = {
     }
     return raw; // fallback: no closing tag, use raw text
   },
+  extractPartial(raw: string): string | null {
+    // The prefill already opened the tag, so the stream starts inside it.
+    // An immediate close (thinking leak) yields nothing here — the final
+    // extractCompletion() handles the retry block once the stream ends.
+    return stableTagContent(raw) || null;
+  },
 };
 
 /** Common preamble patterns that non-Anthropic models produce. */
@@ -218,10 +297,10 @@ const PREAMBLE_PATTERNS = [
  */
 export const instructionExtraction: PromptStrategy = {
   id: 'instruction-extraction',
-  buildMessages(prefix, suffix, languageId) {
+  buildMessages(prefix, suffix, languageId, supplemental) {
     return {
       system: SYSTEM_PROMPT,
-      user: buildFillMessage(prefix, suffix, languageId),
+      user: buildFillMessage(prefix, suffix, languageId, supplemental),
     };
   },
   extractCompletion(raw: string): string | null {
@@ -246,16 +325,44 @@ export const instructionExtraction: PromptStrategy = {
 
     return text.trim() || null;
   },
+  extractPartial: extractPartialAfterOpenTag,
+};
+
+/**
+ * Native fill-in-the-middle — for code models with a FIM endpoint
+ * (Qwen-Coder, Codestral, StarCoder). The API provider sends the raw
+ * prefix and suffix through the adapter's completeFim() instead of a chat
+ * prompt, so the response is the completion itself.
+ *
+ * buildMessages() is only used when the adapter has no FIM support, in
+ * which case the provider falls back to instruction extraction.
+ */
+export const nativeFim: PromptStrategy = {
+  id: 'native-fim',
+  buildMessages(prefix, suffix, languageId, supplemental) {
+    return instructionExtraction.buildMessages(prefix, suffix, languageId, supplemental);
+  },
+  extractCompletion(raw: string): string | null {
+    return raw.trim() ? raw : null;
+  },
+  extractPartial(raw: string): string | null {
+    return raw || null;
+  },
 };
 
 // ─── Strategy registry ───────────────────────────────────────────
 
-export type PromptStrategyId = 'tag-extraction' | 'prefill-extraction' | 'instruction-extraction';
+export type PromptStrategyId =
+  | 'tag-extraction'
+  | 'prefill-extraction'
+  | 'instruction-extraction'
+  | 'native-fim';
 
 const STRATEGIES: Record<PromptStrategyId, PromptStrategy> = {
   'tag-extraction': tagExtraction,
   'prefill-extraction': prefillExtraction,
   'instruction-extraction': instructionExtraction,
+  'native-fim': nativeFim,
 };
 
 export function getPromptStrategy(id: PromptStrategyId): PromptStrategy {
@@ -1,7 +1,8 @@
-import { exec, spawn } from 'child_process';
+import { ChildProcess, exec, spawn } from 'child_process';
 import { Logger } from '../utils/logger';
 import { createMessageChannel, MessageChannel } from '../utils/message-channel';
 import { UsageLedger } from '../utils/usage-ledger';
+import { recordSlotProcess, forgetSlotProcess } from '../pool-server/process-registry';
 
 /**
  * Subprocess Lifecycle Notes:
@@ -12,22 +13,50 @@ import { UsageLedger } from '../utils/usage-ledger';
  * 3. channel.close() signals the subprocess to exit gracefully
  * 4. The SDK handles subprocess termination internally
  *
- * Cleanup relies on channel.close() working correctly. The extension does NOT track
- * subprocess PIDs and cannot force-kill orphaned processes. If VS Code crashes or
- * is force-killed, subprocesses may remain until they timeout or are manually cleaned:
- *   pkill -f "claude.*dangerously-skip-permissions"
+ * Cleanup relies on channel.close() working correctly. If VS Code crashes or is
+ * force-killed, subprocesses may outlive it — so each spawned subprocess's PID is
+ * recorded in the process registry (see pool-server/process-registry.ts), and the
+ * next pool server to start terminates those whose owner is gone.
  */
 export type SlotState = 'initializing' | 'available' | 'busy' | 'dead';
 
+/**
+ * Whether the pool's sessions are running (`awake`), closed after sitting idle
+ * (`sleeping`), or starting back up (`warming`).
+ */
+export type SleepState = 'awake' | 'sleeping' | 'warming';
+
+/** Queue priority for a slot request — `high` requests are served before any `normal` ones. */
+export type SlotPriority = 'high' | 'normal';
+
+interface SlotWaiter {
+  priority: SlotPriority;
+  /** Estimated size of the request's message, in tokens. */
+  messageTokens: number;
+  /** When the request joined the queue (ms since epoch). */
+  enqueuedAt: number;
+  resolve: (index: number | null) => void;
+}
+
 export interface SlotStats {
   state: SlotState;
   requestCount: number;
   maxRequests: number;
+  /** Tokens of conversation the session carries into its next turn. */
+  contextTokens: number;
+  /** The slot recycles once its context would grow past this. */
+  contextBudget: number;
+  /** PID of the slot's subprocess, while it runs. */
+  pid: number | null;
+  /** When the subprocess was spawned (ms since epoch). */
+  startedAt: number | null;
 }
 
 export interface PoolStats {
   label: string;
+  model: string;
   available: boolean;
+  sleepState: SleepState;
   slots: SlotStats[];
   /** Timestamp when pool was activated (ms since epoch). */
   activatedAt: number | null;
@@ -61,15 +90,29 @@ export interface ResultMetadata {
   model: string;
 }
 
+/** The control surface of a streaming SDK query that the pool uses. */
+export interface SlotQuery {
+  /** Stop the turn in flight; the stream then yields its (error) result. */
+  interrupt?: () => Promise<void>;
+}
+
 export interface Slot {
   state: SlotState;
   channel: MessageChannel | null;
+  /** The running SDK query, used to interrupt abandoned turns. */
+  query: SlotQuery | null;
   /** Resolves with the next result from the stream consumer. */
   resultPromise: Promise<string | null> | null;
   /** Call to deliver a result from the background consumer. */
   deliverResult: ((value: string | null) => void) | null;
+  /** Receives the assistant text of the current turn so far, while it streams. */
+  onPartial: ((text: string) => void) | null;
+  /** Assistant text streamed so far in the current turn. */
+  partialText: string;
   /** Number of completions delivered by this slot (excludes warmup). */
   resultCount: number;
+  /** Tokens of conversation history the session carries, as of its last result. */
+  contextTokens: number;
   /** Monotonically increasing generation — incremented on killAllSlots to invalidate stale consumers. */
   generation: number;
   /** Timestamp of the last recycleSlot call (for circuit breaker). */
@@ -82,6 +125,10 @@ export interface Slot {
   lastAssistantModel: string | null;
   /** Buffered stderr output from the CLI subprocess for diagnostics. */
   stderrChunks: string[];
+  /** PID of the running subprocess, once spawned. */
+  pid: number | null;
+  /** When the subprocess was spawned (ms since epoch). */
+  spawnedAt: number | null;
 }
 
 /** Circuit breaker: max rapid recycles before marking a slot dead. */
@@ -96,6 +143,39 @@ const MAX_THINKING_TOKENS = 0;
 const WARMUP_TIMEOUT_MS = 30_000;
 /** Max stderr chunks to buffer per slot (prevent unbounded memory if CLI is unexpectedly chatty). */
 const MAX_STDERR_CHUNKS = 100;
+/** Max requests queued for a slot; beyond this the oldest lowest-priority one is dropped. */
+const MAX_QUEUE_LENGTH = 8;
+/** How long an interrupted turn may take to yield its result before the slot is recycled. */
+const INTERRUPT_TIMEOUT_MS = 2_000;
+/** Rough characters per token, for sizing a message before it is sent. */
+export const CHARS_PER_TOKEN = 4;
+
+/** Estimated token count of a message, for checking it against a slot's context budget. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function createSlot(): Slot {
+  return {
+    state: 'dead',
+    channel: null,
+    query: null,
+    resultPromise: null,
+    deliverResult: null,
+    onPartial: null,
+    partialText: '',
+    resultCount: 0,
+    contextTokens: 0,
+    generation: 0,
+    lastRecycleTime: 0,
+    rapidRecycleCount: 0,
+    lastResultMeta: null,
+    lastAssistantModel: null,
+    pid: null,
+    spawnedAt: null,
+    stderrChunks: [],
+  };
+}
 
 export abstract class SlotPool {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -104,10 +184,10 @@ export abstract class SlotPool {
   protected slots: Slot[];
   protected nextSlot = 0;
   protected logger: Logger;
-  protected readonly poolSize: number;
+  protected poolSize: number;
   protected ledger: UsageLedger | null = null;
-  /** Single-waiter queue: only one request can wait for a slot at a time. */
-  protected pendingWaiter: ((index: number | null) => void) | null = null;
+  /** Requests waiting for a slot, in the order they will be served. */
+  protected waitQueue: SlotWaiter[] = [];
   /** Deduplicates overlapping recycleAll calls. */
   private _recyclePromise: Promise<void> | null = null;
   protected _warmupResolvers: (((ok: boolean) => void) | null)[];
@@ -125,25 +205,22 @@ export abstract class SlotPool {
   private _totalCacheCreationTokens = 0;
   private _totalCostUsd = 0;
 
+  // --- Idle shutdown ---
+  private idleTimeoutMs = 0;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private _sleepState: SleepState = 'awake';
+  private _wakePromise: Promise<void> | null = null;
+
   /** Called when the pool is fully degraded (all warmup retries exhausted). */
   onPoolDegraded: ((reason: string) => void) | null = null;
 
+  /** Called when the pool goes to sleep, starts warming back up, or is awake again. */
+  onSleepStateChange: ((state: SleepState) => void) | null = null;
+
   constructor(logger: Logger, poolSize: number) {
     this.logger = logger;
     this.poolSize = poolSize;
-    this.slots = Array.from({ length: poolSize }, () => ({
-      state: 'dead' as SlotState,
-      channel: null,
-      resultPromise: null,
-      deliverResult: null,
-      resultCount: 0,
-      generation: 0,
-      lastRecycleTime: 0,
-      rapidRecycleCount: 0,
-      lastResultMeta: null,
-      lastAssistantModel: null,
-      stderrChunks: [],
-    }));
+    this.slots = Array.from({ length: poolSize }, () => createSlot());
     this._warmupResolvers = Array.from({ length: poolSize }, () => null);
   }
 
@@ -151,11 +228,22 @@ export abstract class SlotPool {
 
   protected abstract getSystemPrompt(): string;
   protected abstract getModel(): string;
+  /** Backstop on turns per session; slots normally recycle on their context budget first. */
   protected abstract getMaxReuses(): number;
+  /** Tokens of conversation a session may carry before the slot is recycled. */
+  protected abstract getContextBudget(): number;
   protected abstract getPoolLabel(): string;
   protected abstract buildWarmupMessage(): string;
   protected abstract validateWarmupResponse(raw: string): boolean;
 
+  /**
+   * How long a request may wait for a slot before it is considered stale and
+   * dropped (resolved null). Null means queued requests never go stale.
+   */
+  protected getMaxQueueWaitMs(): number | null {
+    return null;
+  }
+
   // --- Public API ---
 
   setLedger(ledger: UsageLedger): void {
@@ -170,11 +258,17 @@ export abstract class SlotPool {
   getStats(): PoolStats {
     return {
       label: this.getPoolLabel(),
+      model: this.getModel(),
       available: this.sdkAvailable === true,
+      sleepState: this._sleepState,
       slots: this.slots.map((slot) => ({
         state: slot.state,
         requestCount: slot.resultCount,
         maxRequests: this.getMaxReuses(),
+        contextTokens: slot.contextTokens,
+        contextBudget: this.getContextBudget(),
+        pid: slot.pid,
+        startedAt: slot.spawnedAt,
       })),
       activatedAt: this._activatedAt,
       uptimeMs: this._activatedAt ? Date.now() - this._activatedAt : null,
@@ -196,6 +290,7 @@ export abstract class SlotPool {
       this._activatedAt = Date.now();
     }
     await Promise.all(Array.from({ length: this.poolSize }, (_, i) => this.initSlot(i)));
+    this.resetIdleTimer();
   }
 
   /** Close all slots and reinitialize them. Used when the model changes.
@@ -205,6 +300,10 @@ export abstract class SlotPool {
       this.logger.debug(`${this.getPoolLabel()}: recycleAll skipped (SDK not available)`);
       return;
     }
+    // Nothing to recycle — sessions start fresh on wake
+    if (this._sleepState === 'sleeping') {
+      return;
+    }
 
     // Deduplicate overlapping recycleAll calls
     if (this._recyclePromise) {
@@ -219,6 +318,28 @@ export abstract class SlotPool {
     }
   }
 
+  /**
+   * Change the number of slots. Running sessions are closed and the pool is
+   * reinitialized at the new size (queued requests are dropped). When the
+   * pool is not running, the size just applies to the next activation.
+   */
+  async resize(poolSize: number): Promise<void> {
+    if (poolSize === this.poolSize) {
+      return;
+    }
+    this.logger.info(`${this.getPoolLabel()}: resizing pool ${this.poolSize} → ${poolSize} slots`);
+    this.killAllSlots();
+    this.poolSize = poolSize;
+    this.slots = Array.from({ length: poolSize }, () => createSlot());
+    this._warmupResolvers = Array.from({ length: poolSize }, () => null);
+    this.nextSlot = 0;
+
+    if (this.sdkAvailable && this._sleepState !== 'sleeping') {
+      await this.initAllSlots();
+      this.logger.info(`${this.getPoolLabel()}: pool resized`);
+    }
+  }
+
   /**
    * Restart the pool from scratch. Resets warmup failure tracking and
    * re-initializes all slots. Use after the pool has been degraded.
@@ -226,6 +347,7 @@ export abstract class SlotPool {
    */
   async restart(): Promise<void> {
     this.killAllSlots();
+    this.setSleepState('awake');
     this._warmupFailureCount = 0;
     this._warmupFailureHandled = false;
     this.sdkAvailable = null;
@@ -243,12 +365,75 @@ export abstract class SlotPool {
   }
 
   dispose(): void {
+    this.clearIdleTimer();
     this.killAllSlots();
     this.sdkAvailable = false;
     this.queryFn = null;
     this.logger.info(`${this.getPoolLabel()} provider: disposed`);
   }
 
+  get sleepState(): SleepState {
+    return this._sleepState;
+  }
+
+  /** Close the sessions after `ms` without a request (0 keeps them running). */
+  setIdleTimeout(ms: number): void {
+    this.idleTimeoutMs = ms;
+    this.resetIdleTimer();
+  }
+
+  /** Close all sessions until the next wake() — or the next request, which wakes the pool. */
+  sleep(): void {
+    if (this._sleepState !== 'awake' || !this.sdkAvailable) return;
+    // Still in use (or starting) — look again after another idle period
+    if (
+      this.waitQueue.length > 0 ||
+      this.slots.some((s) => s.state === 'busy' || s.state === 'initializing')
+    ) {
+      this.resetIdleTimer();
+      return;
+    }
+    this.clearIdleTimer();
+    this.logger.info(`${this.getPoolLabel()}: idle, closing sessions until next use`);
+    this.killAllSlots();
+    this.setSleepState('sleeping');
+  }
+
+  /** Warm a sleeping pool back up. Resolves once its slots are ready (at once if awake). */
+  async wake(): Promise<void> {
+    if (this._sleepState === 'awake') return;
+    if (this._wakePromise) return this._wakePromise;
+
+    this.logger.info(`${this.getPoolLabel()}: waking up`);
+    this.setSleepState('warming');
+    this._wakePromise = this.initAllSlots().finally(() => {
+      this._wakePromise = null;
+      this.setSleepState('awake');
+    });
+    return this._wakePromise;
+  }
+
+  private setSleepState(state: SleepState): void {
+    if (state === this._sleepState) return;
+    this._sleepState = state;
+    this.onSleepStateChange?.(state);
+  }
+
+  /** Restart the idle countdown — called whenever the pool is used or (re)initialized. */
+  private resetIdleTimer(): void {
+    this.clearIdleTimer();
+    if (this.idleTimeoutMs > 0 && this.sdkAvailable) {
+      this.idleTimer = setTimeout(() => this.sleep(), this.idleTimeoutMs);
+    }
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
   // --- Protected pool infrastructure ---
 
   protected async loadSdk(): Promise<void> {
@@ -285,6 +470,7 @@ export abstract class SlotPool {
     try {
       slot.state = 'initializing';
       slot.resultCount = 0;
+      slot.contextTokens = 0;
 
       const channel = createMessageChannel();
       slot.channel = channel;
@@ -312,6 +498,8 @@ export abstract class SlotPool {
           settingSources: [],
           maxThinkingTokens: MAX_THINKING_TOKENS,
           maxTurns: MAX_TURNS,
+          // Stream text deltas so callers can show partial results
+          includePartialMessages: true,
           persistSession: false,
           pathToClaudeCodeExecutable: sdkCliPath,
           // Use VS Code's bundled Node.js (via Electron) instead of system PATH node.
@@ -337,10 +525,12 @@ export abstract class SlotPool {
                 slot.stderrChunks.push(data.toString());
               }
             });
+            this.trackProcess(slot, index, child);
             return child;
           },
         },
       });
+      slot.query = stream;
 
       // Set up promise that callers will await
       this.resetResultPromise(slot);
@@ -358,9 +548,10 @@ export abstract class SlotPool {
         return;
       }
 
-      // Guard: handleWarmupFailure from a sibling slot may have killed this slot.
-      // Re-read from this.slots[] to bypass TypeScript's narrowing of the local.
-      if (this.slots[index].state === 'dead') {
+      // Guard: handleWarmupFailure from a sibling slot may have killed this slot
+      // (or resize() replaced it). Re-read from this.slots[] to bypass
+      // TypeScript's narrowing of the local.
+      if (this.slots[index] !== slot || this.slots[index].state === 'dead') {
         return;
       }
 
@@ -387,55 +578,283 @@ export abstract class SlotPool {
     }
   }
 
+  /** Record the slot's subprocess so it can be listed, and reaped if we die without closing it. */
+  private trackProcess(slot: Slot, index: number, child: ChildProcess): void {
+    const pid = child.pid;
+    if (pid === undefined) return;
+
+    slot.pid = pid;
+    slot.spawnedAt = Date.now();
+    recordSlotProcess({
+      pid,
+      ownerPid: process.pid,
+      pool: this.getPoolLabel(),
+      model: this.getModel(),
+      slot: index,
+      generation: slot.generation,
+      startedAt: slot.spawnedAt,
+    });
+    child.once('exit', () => {
+      forgetSlotProcess(pid);
+      if (slot.pid === pid) {
+        slot.pid = null;
+        slot.spawnedAt = null;
+      }
+    });
+  }
+
   /**
    * Acquire an available slot. Returns the slot index (already marked busy)
-   * or null if cancelled by a newer waiter.
+   * or null if the request was dropped from the queue or cancelled.
    *
    * Fast path: find any available slot, mark busy, return.
-   * Slow path: register as single waiter. A new arrival cancels the previous
-   * waiter (resolve(null)), so only the most recent request waits.
+   * Slow path: join the wait queue — `high` priority ahead of every `normal`
+   * request, first come first served within a priority. Requests that wait
+   * longer than getMaxQueueWaitMs(), or are pushed out of a full queue, are
+   * dropped. Aborting `signal` leaves the queue (or returns null straight away
+   * if already aborted).
+   *
+   * `messageTokens` is the estimated size of the message to be sent. A used
+   * slot it would push past the context budget is recycled rather than handed
+   * out, and the request waits for a fresh session instead.
    */
-  protected async acquireSlot(): Promise<number | null> {
-    // Fast path: find an available slot
+  protected async acquireSlot(
+    signal?: AbortSignal,
+    priority: SlotPriority = 'normal',
+    messageTokens = 0,
+  ): Promise<number | null> {
+    if (signal?.aborted) {
+      return null;
+    }
+
+    // A request for a sleeping pool wakes it and waits in the queue for a warm slot
+    if (this._sleepState === 'sleeping') {
+      this.wake().catch((err) => {
+        this.logger.error(`${this.getPoolLabel()}: wake failed: ${err}`);
+      });
+    }
+
+    // Fast path: find an available slot with room for the message
+    let outgrown: number | null = null;
     for (let i = 0; i < this.slots.length; i++) {
       const idx = (this.nextSlot + i) % this.slots.length;
-      if (this.slots[idx].state === 'available') {
-        this.slots[idx].state = 'busy';
-        this.nextSlot = (idx + 1) % this.slots.length;
-        return idx;
+      if (this.slots[idx].state !== 'available') continue;
+      if (!this.hasRoomFor(idx, messageTokens)) {
+        outgrown ??= idx;
+        continue;
       }
+      this.slots[idx].state = 'busy';
+      this.nextSlot = (idx + 1) % this.slots.length;
+      return idx;
+    }
+    // No slot has room — start a fresh session for this request to wait for
+    if (outgrown !== null) {
+      this.recycleOutgrownSlot(outgrown, messageTokens);
     }
 
-    // Slow path: cancel existing waiter and register self
-    if (this.pendingWaiter) {
-      this.pendingWaiter(null);
+    // Slow path: make room in the queue, then join it
+    this.dropStaleWaiters();
+    if (this.waitQueue.length >= MAX_QUEUE_LENGTH) {
+      this.dropWaiter(this.lowestPriorityWaiter(), 'queue full');
     }
 
     this.logger.trace(
-      `waiting for slot (${this.slots.map((s, i) => `slot${i}=${s.state}`).join(', ')})`,
+      `waiting for slot (${priority}, ${this.waitQueue.length} queued, ${this.slots.map((s, i) => `slot${i}=${s.state}`).join(', ')})`,
     );
 
     return new Promise<number | null>((resolve) => {
-      this.pendingWaiter = resolve;
+      const onAbort = () => {
+        const i = this.waitQueue.indexOf(waiter);
+        if (i !== -1) {
+          this.waitQueue.splice(i, 1);
+          resolve(null);
+        }
+      };
+      const waiter: SlotWaiter = {
+        priority,
+        messageTokens,
+        enqueuedAt: Date.now(),
+        resolve: (index) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(index);
+        },
+      };
+
+      // Behind every waiter of the same or higher priority
+      let at = this.waitQueue.length;
+      if (priority === 'high') {
+        at = this.waitQueue.findIndex((w) => w.priority !== 'high');
+        if (at === -1) at = this.waitQueue.length;
+      }
+      this.waitQueue.splice(at, 0, waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
     });
   }
 
   /**
-   * Notify the pending waiter that a slot is available. Called by consumeStream
-   * after delivering a result (slot reuse) and by initSlot after warmup (fresh slot).
-   * The slot is marked busy before notifying the waiter.
+   * Hand back a slot acquired with acquireSlot() that was never used (the
+   * request was cancelled before anything was pushed to it).
+   */
+  protected releaseSlot(slotIndex: number): void {
+    const slot = this.slots[slotIndex];
+    if (slot.state !== 'busy') {
+      return;
+    }
+    slot.state = 'available';
+    this.notifyWaiter(slotIndex);
+  }
+
+  /**
+   * Await the result of the turn just pushed to a slot. If `signal` aborts
+   * first, stops waiting, interrupts the turn so the slot frees up, and
+   * resolves undefined.
+   */
+  protected async awaitResult(
+    slotIndex: number,
+    signal: AbortSignal,
+  ): Promise<string | null | undefined> {
+    const resultPromise = this.slots[slotIndex].resultPromise;
+    if (!resultPromise) {
+      return null;
+    }
+
+    let onAbort: (() => void) | null = null;
+    const aborted = new Promise<undefined>((resolve) => {
+      onAbort = () => resolve(undefined);
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+
+    try {
+      const raw = await Promise.race([resultPromise, aborted]);
+      if (raw === undefined) {
+        this.interruptSlot(slotIndex, resultPromise);
+      }
+      return raw;
+    } finally {
+      signal.removeEventListener('abort', onAbort!);
+    }
+  }
+
+  /**
+   * Abandon the turn in flight on a slot. Interrupting makes the stream yield
+   * an error result for the turn, which the consumer delivers to nobody and
+   * then marks the slot available as usual. Recycles the slot instead if the
+   * query can't be interrupted or the result doesn't arrive in time.
+   */
+  protected interruptSlot(slotIndex: number, resultPromise: Promise<string | null>): void {
+    const slot = this.slots[slotIndex];
+    slot.onPartial = null;
+    const generation = slot.generation;
+    const stillStuck = () => slot.generation === generation && slot.resultPromise === resultPromise;
+
+    const recycle = () => {
+      if (!stillStuck() || slot.state === 'dead') {
+        return;
+      }
+      this.logger.debug(
+        `${this.getPoolLabel()}: slot ${slotIndex} did not stop after cancel, recycling`,
+      );
+      // Invalidate the current consumer — recycleSlot replaces the session
+      slot.generation++;
+      this.recycleSlot(slotIndex);
+    };
+
+    // The result may have landed after the abort won the race — nothing to stop
+    if (!stillStuck()) {
+      return;
+    }
+    if (!slot.query?.interrupt) {
+      recycle();
+      return;
+    }
+
+    this.logger.trace(`slot ${slotIndex}: interrupting cancelled request`);
+    const timer = setTimeout(recycle, INTERRUPT_TIMEOUT_MS);
+    resultPromise.then(() => clearTimeout(timer));
+    slot.query.interrupt().catch((err) => {
+      this.logger.debug(
+        `${this.getPoolLabel()}: interrupt failed on slot ${slotIndex}: ${err instanceof Error ? err.message : err}`,
+      );
+      clearTimeout(timer);
+      recycle();
+    });
+  }
+
+  /**
+   * Hand a slot that just became available to the next queued request, if
+   * any. Called by consumeStream after delivering a result (slot reuse) and
+   * by initSlot after warmup (fresh slot). The slot is marked busy before
+   * notifying the waiter.
    */
   protected notifyWaiter(slotIndex: number): boolean {
-    if (!this.pendingWaiter) {
+    this.dropStaleWaiters();
+    const waiter = this.waitQueue[0];
+    if (!waiter) {
       return false;
     }
-    const waiter = this.pendingWaiter;
-    this.pendingWaiter = null;
+    if (!this.hasRoomFor(slotIndex, waiter.messageTokens)) {
+      this.recycleOutgrownSlot(slotIndex, waiter.messageTokens);
+      return false;
+    }
+    this.waitQueue.shift();
     this.slots[slotIndex].state = 'busy';
-    waiter(slotIndex);
+    waiter.resolve(slotIndex);
     return true;
   }
 
+  /**
+   * Whether a slot's session can take a message of `messageTokens` without
+   * going over the context budget. A fresh session always can.
+   */
+  private hasRoomFor(slotIndex: number, messageTokens: number): boolean {
+    const slot = this.slots[slotIndex];
+    return slot.resultCount === 0 || slot.contextTokens + messageTokens <= this.getContextBudget();
+  }
+
+  /** Replace an idle slot whose session is too full for the next message. */
+  private recycleOutgrownSlot(slotIndex: number, messageTokens: number): void {
+    const slot = this.slots[slotIndex];
+    this.logger.debug(
+      `${this.getPoolLabel()}: slot ${slotIndex} context ${slot.contextTokens} + ~${messageTokens} tokens exceeds budget ${this.getContextBudget()}, recycling`,
+    );
+    // Invalidate the current consumer — recycleSlot replaces the session
+    slot.generation++;
+    this.recycleSlot(slotIndex);
+  }
+
+  /** Drop queued requests that have waited longer than getMaxQueueWaitMs(). */
+  private dropStaleWaiters(): void {
+    const maxWaitMs = this.getMaxQueueWaitMs();
+    if (maxWaitMs === null) {
+      return;
+    }
+    const now = Date.now();
+    for (const waiter of this.waitQueue.filter((w) => now - w.enqueuedAt > maxWaitMs)) {
+      this.dropWaiter(waiter, 'stale');
+    }
+  }
+
+  /** The waiter a full queue gives up first: the oldest of the lowest priority. */
+  private lowestPriorityWaiter(): SlotWaiter {
+    return this.waitQueue.find((w) => w.priority === 'normal') ?? this.waitQueue[0];
+  }
+
+  private dropWaiter(waiter: SlotWaiter, reason: string): void {
+    const i = this.waitQueue.indexOf(waiter);
+    if (i === -1) {
+      return;
+    }
+    this.waitQueue.splice(i, 1);
+    this.logger.trace(
+      `${this.getPoolLabel()}: dropped queued ${waiter.priority} request (${reason})`,
+    );
+    waiter.resolve(null);
+  }
+
   /** Extract SDK metadata from a result message. */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   protected extractMetadata(message: any, assistantModel?: string): ResultMetadata {
@@ -496,12 +915,15 @@ export abstract class SlotPool {
 
   /**
    * Background consumer loop. Eats the warmup result, then loops delivering
-   * real completion results. After getMaxReuses() completions or on stream error,
-   * recycles the slot (finally block).
+   * real completion results. Once the session's context reaches
+   * getContextBudget() (or after getMaxReuses() completions), or on stream
+   * error, recycles the slot (finally block).
    */
   protected async consumeStream(stream: AsyncIterable<unknown>, slotIndex: number): Promise<void> {
     const slot = this.slots[slotIndex];
     const myGeneration = slot.generation;
+    // Stale once the slot is recycled (generation bump) or replaced by resize()
+    const isStale = () => this.slots[slotIndex] !== slot || slot.generation !== myGeneration;
     this.logger.debug(`${this.getPoolLabel()}: slot ${slotIndex} stream consumer started`);
     // Keep reference to iterator for cleanup on early return
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -512,11 +934,21 @@ export abstract class SlotPool {
       let iterResult: IteratorResult<any>;
       while (!(iterResult = await iterator.next()).done) {
         const message = iterResult.value;
+        if (message.type === 'stream_event') {
+          const event = message.event;
+          if (event?.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+            slot.partialText += event.delta.text;
+            slot.onPartial?.(slot.partialText);
+          }
+          continue;
+        }
         if (message.type === 'assistant') {
           slot.lastAssistantModel = message.message?.model ?? null;
         }
         if (message.type === 'result') {
           resultCount++;
+          slot.partialText = '';
+          slot.onPartial = null;
           const text: string | null =
             message.subtype === 'success' ? (message.result ?? null) : null;
 
@@ -524,6 +956,9 @@ export abstract class SlotPool {
           const assistantModel = slot.lastAssistantModel ?? undefined;
           slot.lastAssistantModel = null;
           const meta = this.extractMetadata(message, assistantModel);
+          // Everything this turn read and wrote is history for the next one
+          slot.contextTokens =
+            meta.inputTokens + meta.cacheReadTokens + meta.cacheCreationTokens + meta.outputTokens;
 
           if (resultCount === 1) {
             // Warmup result — validate, then signal initSlot
@@ -568,7 +1003,7 @@ export abstract class SlotPool {
           }
 
           // Stale consumer guard — slot was recycled while we were iterating
-          if (this.slots[slotIndex].generation !== myGeneration) {
+          if (isStale()) {
             return; // skip deliverResult and finally-block recycleSlot
           }
 
@@ -582,6 +1017,7 @@ export abstract class SlotPool {
           // Update pool-level statistics
           this._totalRequests++;
           this._lastRequestAt = Date.now();
+          this.resetIdleTimer();
           if (meta) {
             this._totalInputTokens += meta.inputTokens;
             this._totalOutputTokens += meta.outputTokens;
@@ -594,6 +1030,12 @@ export abstract class SlotPool {
           if (slot.state === 'dead') {
             break;
           }
+          if (slot.contextTokens >= this.getContextBudget()) {
+            this.logger.debug(
+              `slot ${slotIndex} context reached ${slot.contextTokens} tokens (budget ${this.getContextBudget()}), recycling`,
+            );
+            break;
+          }
           if (slot.resultCount >= this.getMaxReuses()) {
             this.logger.debug(
               `slot ${slotIndex} reached max reuses (${this.getMaxReuses()}), recycling`,
@@ -612,7 +1054,7 @@ export abstract class SlotPool {
     } catch (err) {
       // Stale consumer guard — don't touch the new slot's state.
       // The finally block handles iterator cleanup, so just return here.
-      if (this.slots[slotIndex].generation !== myGeneration) {
+      if (isStale()) {
         return;
       }
       this.logger.error(
@@ -626,7 +1068,7 @@ export abstract class SlotPool {
     } finally {
       // Stale consumer guard — if the slot generation changed, a recycleAll
       // (or similar) already replaced this slot. Don't touch the new one.
-      if (this.slots[slotIndex].generation !== myGeneration) {
+      if (isStale()) {
         // Clean up the iterator before returning to release resources
         await iterator.return?.();
         return;
@@ -640,9 +1082,10 @@ export abstract class SlotPool {
    * deliverResult and warmup promises, closes channels, marks all slots dead.
    */
   protected killAllSlots(): void {
-    if (this.pendingWaiter) {
-      this.pendingWaiter(null);
-      this.pendingWaiter = null;
+    const waiters = this.waitQueue;
+    this.waitQueue = [];
+    for (const waiter of waiters) {
+      waiter.resolve(null);
     }
     for (let i = 0; i < this.slots.length; i++) {
       const slot = this.slots[i];
@@ -657,9 +1100,13 @@ export abstract class SlotPool {
         );
       }
       slot.channel = null;
+      slot.query = null;
       slot.resultPromise = null;
       slot.deliverResult = null;
+      slot.onPartial = null;
+      slot.partialText = '';
       slot.resultCount = 0;
+      slot.contextTokens = 0;
       slot.lastResultMeta = null;
       slot.lastAssistantModel = null;
       slot.stderrChunks = [];
@@ -716,6 +1163,7 @@ export abstract class SlotPool {
         );
       }
       slot.channel = null;
+      slot.query = null;
       slot.resultPromise = null;
       slot.deliverResult = null;
 
@@ -743,15 +1191,19 @@ export abstract class SlotPool {
       );
     }
     slot.channel = null;
+    slot.query = null;
     slot.resultPromise = null;
     slot.deliverResult = null;
+    slot.onPartial = null;
+    slot.partialText = '';
     slot.resultCount = 0;
+    slot.contextTokens = 0;
 
     // Spawn fresh session in background. setTimeout breaks the microtask chain
     // so consumeStream → recycleSlot → initSlot → consumeStream doesn't recurse
     // synchronously through promise resolution.
     setTimeout(() => {
-      if (this.slots[index].state === 'dead') {
+      if (this.slots[index] !== slot || slot.state === 'dead') {
         return;
       }
       this.initSlot(index).catch((err) => {
@@ -108,13 +108,16 @@ async function doSuggestEdit(
       title: 'Bespoke AI: Suggesting edits...',
       cancellable: true,
     },
-    async (_progress, token) => {
+    async (progress, token) => {
       const controller = new AbortController();
       token.onCancellationRequested(() => controller.abort());
 
       return router.sendCommand(fullMessage, {
         timeoutMs: TIMEOUT_MS,
         onCancel: controller.signal,
+        onPartial: (partial) => {
+          progress.report({ message: `${partial.split('\n').length} lines received` });
+        },
       });
     },
   );
@@ -31,6 +31,17 @@ try {
   sdkAvailable = false;
 }
 
+/**
+ * Slots normally recycle on their context budget, which short completions take
+ * many turns to reach — pin the reuse backstop low so 10 requests cross it.
+ */
+const MAX_REUSES = 8;
+class ShortLivedSlotProvider extends ClaudeCodeProvider {
+  protected getMaxReuses(): number {
+    return MAX_REUSES;
+  }
+}
+
 function makeEnduranceConfig() {
   const config = makeConfig();
   config.claudeCode.model = getTestModel();
@@ -177,7 +188,6 @@ describe.skipIf(!sdkAvailable)('Slot Endurance', () => {
   }, 180_000); // 3 min
 
   it('recycle boundary: 10 completions crossing MAX_REUSES', async () => {
-    const MAX_REUSES = 8; // matches ClaudeCodeProvider.getMaxReuses()
     const TOTAL = MAX_REUSES + 2; // 10
     const logger = makeLogger();
     const recycleLogs: string[] = [];
@@ -189,7 +199,7 @@ describe.skipIf(!sdkAvailable)('Slot Endurance', () => {
       }
     };
 
-    const provider = new ClaudeCodeProvider(makeEnduranceConfig(), logger);
+    const provider = new ShortLivedSlotProvider(makeEnduranceConfig(), logger);
     try {
       await provider.activate(CWD);
       const results = await runSequentialCompletions(provider, TOTAL);
@@ -16,6 +16,8 @@ const DEFAULT_CONFIG: ExtensionConfig = {
   triggerPreset: 'relaxed',
   triggerMode: 'auto',
   debounceMs: 2000,
+  streaming: true,
+  candidates: 1,
   prose: {
     contextChars: 2500,
     suffixChars: 2000,
@@ -24,13 +26,38 @@ const DEFAULT_CONFIG: ExtensionConfig = {
   code: {
     contextChars: 2500,
     suffixChars: 2000,
+    relatedFilesChars: 2000,
+    symbolContext: true,
   },
-  claudeCode: { model: DEFAULT_MODEL, models: ['haiku', 'sonnet', 'opus'] },
+  workspaceIndex: { enabled: true, maxChars: 1500 },
+  claudeCode: {
+    model: DEFAULT_MODEL,
+    models: ['haiku', 'sonnet', 'opus'],
+    completionSlots: 1,
+    commandSlots: 1,
+    idleShutdownMinutes: 0,
+  },
+  httpEndpoint: { enabled: false, port: 8741 },
   api: {
     preset: 'xai-grok',
     customPresets: [],
+    sharedServer: false,
+    maxRequestsPerMinute: 0,
   },
   codeOverride: { backend: '', model: '' },
+  routing: { rules: [] },
+  fallback: { chain: [], on: ['unavailable', 'error'] },
+  race: { enabled: false, backends: [], staggerMs: 150 },
+  budget: {
+    dailyUsd: 0,
+    monthlyUsd: 0,
+    dailyTokens: 0,
+    monthlyTokens: 0,
+    dailyRequests: 0,
+    monthlyRequests: 0,
+    warnAtPercent: 80,
+    allowExplicit: true,
+  },
   contextMenu: { permissionMode: 'default' },
   logLevel: 'info',
 };
@@ -42,6 +69,10 @@ export function makeConfig(overrides: Partial<ExtensionConfig> = {}): ExtensionC
     claudeCode: { ...DEFAULT_CONFIG.claudeCode, ...overrides.claudeCode },
     api: { ...DEFAULT_CONFIG.api, ...overrides.api },
     codeOverride: { ...DEFAULT_CONFIG.codeOverride, ...overrides.codeOverride },
+    routing: { ...DEFAULT_CONFIG.routing, ...overrides.routing },
+    fallback: { ...DEFAULT_CONFIG.fallback, ...overrides.fallback },
+    race: { ...DEFAULT_CONFIG.race, ...overrides.race },
+    budget: { ...DEFAULT_CONFIG.budget, ...overrides.budget },
     prose: { ...DEFAULT_CONFIG.prose, ...overrides.prose },
     code: { ...DEFAULT_CONFIG.code, ...overrides.code },
     contextMenu: { ...DEFAULT_CONFIG.contextMenu, ...overrides.contextMenu },
@@ -438,7 +469,7 @@ export async function createTestProvider(logger?: Logger): Promise<TestProviderI
 
     const { ClaudeCodeProvider } = await import('../providers/claude-code');
     const config = makeConfig({
-      claudeCode: { model: getTestModel(), models: ['haiku', 'sonnet', 'opus'] },
+      claudeCode: { ...DEFAULT_CONFIG.claudeCode, model: getTestModel() },
     });
     const provider = new ClaudeCodeProvider(config, log);
     const { ledger, filePath: ledgerPath } = makeLedger();
@@ -462,7 +493,7 @@ export async function createTestProvider(logger?: Logger): Promise<TestProviderI
     const { ledger, filePath: ledgerPath } = makeLedger();
     const config = makeConfig({
       backend: 'api',
-      api: { preset, customPresets: [] },
+      api: { ...DEFAULT_CONFIG.api, preset },
     });
     const provider = new ApiCompletionProvider(config, log, ledger);
 
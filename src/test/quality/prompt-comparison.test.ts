@@ -191,6 +191,10 @@ class VariantProvider extends SlotPool {
     return 8;
   }
 
+  protected getContextBudget(): number {
+    return 60_000;
+  }
+
   protected getPoolLabel(): string {
     return `Variant[${this.variant.id}]`;
   }
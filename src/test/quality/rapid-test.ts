@@ -38,11 +38,34 @@ function makeConfig(overrides: Partial<ExtensionConfig> = {}): ExtensionConfig {
     triggerPreset: 'relaxed',
     triggerMode: 'auto',
     debounceMs: 2000,
+    streaming: true,
+    candidates: 1,
     prose: { contextChars: 2500, suffixChars: 2000, fileTypes: [] },
-    code: { contextChars: 2500, suffixChars: 2000 },
-    claudeCode: { model: DEFAULT_MODEL, models: ['haiku', 'sonnet', 'opus'] },
-    api: { preset: 'xai-grok', customPresets: [] },
+    code: { contextChars: 2500, suffixChars: 2000, relatedFilesChars: 0, symbolContext: false },
+    workspaceIndex: { enabled: false, maxChars: 0 },
+    claudeCode: {
+      model: DEFAULT_MODEL,
+      models: ['haiku', 'sonnet', 'opus'],
+      completionSlots: 1,
+      commandSlots: 1,
+      idleShutdownMinutes: 0,
+    },
+    httpEndpoint: { enabled: false, port: 8741 },
+    api: { preset: 'xai-grok', customPresets: [], sharedServer: false, maxRequestsPerMinute: 0 },
     codeOverride: { backend: '', model: '' },
+    routing: { rules: [] },
+    fallback: { chain: [], on: ['unavailable', 'error'] },
+    race: { enabled: false, backends: [], staggerMs: 150 },
+    budget: {
+      dailyUsd: 0,
+      monthlyUsd: 0,
+      dailyTokens: 0,
+      monthlyTokens: 0,
+      dailyRequests: 0,
+      monthlyRequests: 0,
+      warnAtPercent: 80,
+      allowExplicit: true,
+    },
     contextMenu: { permissionMode: 'default' },
     logLevel: 'info',
   };
@@ -52,6 +75,10 @@ function makeConfig(overrides: Partial<ExtensionConfig> = {}): ExtensionConfig {
     claudeCode: { ...defaults.claudeCode, ...overrides.claudeCode },
     api: { ...defaults.api, ...overrides.api },
     codeOverride: { ...defaults.codeOverride, ...overrides.codeOverride },
+    routing: { ...defaults.routing, ...overrides.routing },
+    fallback: { ...defaults.fallback, ...overrides.fallback },
+    race: { ...defaults.race, ...overrides.race },
+    budget: { ...defaults.budget, ...overrides.budget },
     prose: { ...defaults.prose, ...overrides.prose },
     code: { ...defaults.code, ...overrides.code },
     contextMenu: { ...defaults.contextMenu, ...overrides.contextMenu },
@@ -207,7 +234,7 @@ async function main() {
   const logger = makeLogger();
   const config = makeConfig({
     backend: 'api',
-    api: { preset: presetId, customPresets: [] },
+    api: { preset: presetId, customPresets: [], sharedServer: false, maxRequestsPerMinute: 0 },
   });
   const provider = new ApiCompletionProvider(config, logger);
 
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const handlers = vi.hoisted(() => ({
+  command: null as ((id: number, index: number) => void) | null,
+  change: null as ((e: unknown) => void) | null,
+}));
+
+vi.mock('vscode', () => ({
+  commands: {
+    registerCommand: (_id: string, cb: (id: number, index: number) => void) => {
+      handlers.command = cb;
+      return { dispose: () => {} };
+    },
+  },
+  workspace: {
+    onDidChangeTextDocument: (cb: (e: unknown) => void) => {
+      handlers.change = cb;
+      return { dispose: () => {} };
+    },
+  },
+}));
+
+import { AcceptanceTracker } from '../../utils/acceptance-tracker';
+import { makeLogger } from '../helpers';
+
+const meta = {
+  model: 'haiku',
+  backend: 'claude-code' as const,
+  mode: 'code' as const,
+  languageId: 'typescript',
+};
+
+/** Single-line document: a position's offset is its character. */
+function makeDoc(uri = 'file:///a.ts') {
+  return {
+    uri: { toString: () => uri },
+    offsetAt: (pos: { character: number }) => pos.character,
+  };
+}
+
+function edit(rangeOffset: number, rangeLength: number, text: string, uri = 'file:///a.ts') {
+  handlers.change?.({
+    document: { uri: { toString: () => uri } },
+    contentChanges: [{ rangeOffset, rangeLength, text }],
+  });
+}
+
+describe('AcceptanceTracker', () => {
+  let ledger: { record: ReturnType<typeof vi.fn> };
+  let tracker: AcceptanceTracker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    ledger = { record: vi.fn() };
+    tracker = new AcceptanceTracker(ledger as any, makeLogger());
+  });
+
+  afterEach(() => {
+    tracker.dispose();
+    vi.useRealTimers();
+  });
+
+  function show(text: string | string[], character = 10, uri?: string) {
+    const texts = Array.isArray(text) ? text : [text];
+    return tracker.track(makeDoc(uri) as any, { line: 0, character } as any, texts, meta)[0];
+  }
+
+  function outcome() {
+    expect(ledger.record).toHaveBeenCalledTimes(1);
+    return ledger.record.mock.calls[0][0];
+  }
+
+  it('records a full accept from the item command', () => {
+    const command = show('foo(bar)');
+    edit(10, 0, 'foo(bar)');
+    handlers.command?.(...(command.arguments as [number, number]));
+    vi.advanceTimersByTime(30_000);
+
+    expect(outcome()).toMatchObject({
+      source: 'completion',
+      model: 'haiku',
+      mode: 'code',
+      languageId: 'typescript',
+      accepted: true,
+      acceptedChars: 8,
+      outputChars: 8,
+    });
+  });
+
+  it('records a partial accept from matching insertions', () => {
+    show('const total = sum(xs);');
+    edit(10, 0, 'const ');
+    edit(16, 0, 'total ');
+    vi.advanceTimersByTime(30_000);
+
+    expect(outcome()).toMatchObject({ accepted: true, acceptedChars: 12 });
+  });
+
+  it('records an ignored completion when the user types something else', () => {
+    show('foo(bar)');
+    edit(10, 0, 'x');
+
+    expect(outcome()).toMatchObject({ accepted: false, acceptedChars: 0 });
+  });
+
+  it('records an ignored completion when it times out', () => {
+    show('foo(bar)');
+    vi.advanceTimersByTime(29_999);
+    expect(ledger.record).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+
+    expect(outcome()).toMatchObject({ accepted: false });
+  });
+
+  it('subtracts accepted text deleted afterwards', () => {
+    const command = show('foo(bar)');
+    edit(10, 0, 'foo(bar)');
+    handlers.command?.(...(command.arguments as [number, number]));
+    edit(13, 5, '');
+    vi.advanceTimersByTime(30_000);
+
+    expect(outcome()).toMatchObject({ accepted: true, acceptedChars: 3 });
+  });
+
+  it('shifts the accepted range for edits before it', () => {
+    const command = show('foo(bar)');
+    edit(10, 0, 'foo(bar)');
+    handlers.command?.(...(command.arguments as [number, number]));
+    edit(0, 0, '// note\n');
+    edit(18, 8, '');
+    vi.advanceTimersByTime(30_000);
+
+    expect(outcome()).toMatchObject({ accepted: false, acceptedChars: 0 });
+  });
+
+  it('keeps one outcome when the same suggestion is shown further along', () => {
+    show('hello world');
+    edit(10, 0, 'hello ');
+    show('world', 16);
+    vi.advanceTimersByTime(30_000);
+
+    expect(outcome()).toMatchObject({ acceptedChars: 6, outputChars: 11 });
+  });
+
+  it('keeps one outcome when a streamed first line grows to the full text', () => {
+    show('line one');
+    show('line one\nline two');
+    vi.advanceTimersByTime(30_000);
+
+    expect(outcome()).toMatchObject({ accepted: false, outputChars: 17 });
+  });
+
+  it('records the backend known once a streamed first line grows to the full text', () => {
+    show('line one');
+    tracker.track(makeDoc() as any, { line: 0, character: 10 } as any, ['line one\nline two'], {
+      ...meta,
+      model: 'grok-code-fast-1',
+      backend: 'api',
+    });
+    vi.advanceTimersByTime(30_000);
+
+    expect(outcome()).toMatchObject({ model: 'grok-code-fast-1', backend: 'api' });
+  });
+
+  it('settles the previous completion when a different one is shown', () => {
+    show('foo');
+    show('bar', 20);
+
+    expect(outcome()).toMatchObject({ accepted: false, outputChars: 3 });
+  });
+
+  it('records a full accept of an alternative candidate', () => {
+    const commands = tracker.track(
+      makeDoc() as any,
+      { line: 0, character: 10 } as any,
+      ['formal', 'casual tone'],
+      meta,
+    );
+    edit(10, 0, 'casual tone');
+    handlers.command?.(...(commands[1].arguments as [number, number]));
+    vi.advanceTimersByTime(30_000);
+
+    expect(outcome()).toMatchObject({ accepted: true, acceptedChars: 11, outputChars: 11 });
+  });
+
+  it('matches partial accepts against any candidate', () => {
+    show(['foo(a)', 'bar(b)']);
+    edit(10, 0, 'bar');
+    vi.advanceTimersByTime(30_000);
+
+    expect(outcome()).toMatchObject({ accepted: true, acceptedChars: 3, outputChars: 6 });
+  });
+
+  it('ignores edits to other documents', () => {
+    show('foo');
+    edit(10, 0, 'zzz', 'file:///other.ts');
+    expect(ledger.record).not.toHaveBeenCalled();
+  });
+});
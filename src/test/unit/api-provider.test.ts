@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ApiCompletionProvider } from '../../providers/api/api-provider';
+import { ApiAdapterResult, Preset } from '../../providers/api/types';
+import { makeConfig, makeLogger, makeProseContext } from '../helpers';
+
+const { adapters } = vi.hoisted(() => ({ adapters: [] as Array<Record<string, any>> }));
+
+// Each adapter answers with its own model id, a tick later
+vi.mock('../../providers/api/adapters', async () => {
+  const { vi } = await import('vitest');
+  return {
+    createAdapter: (preset: Preset) => {
+      const adapter = {
+        providerId: preset.provider,
+        preset,
+        fail: false,
+        isConfigured: () => true,
+        dispose: vi.fn(),
+        complete: vi.fn(async (): Promise<ApiAdapterResult> => {
+          await new Promise((resolve) => setTimeout(resolve, 0));
+          if (adapter.fail) throw new Error(`${preset.id} failed`);
+          return {
+            text: `from ${preset.modelId}`,
+            usage: { inputTokens: 10, outputTokens: 5 },
+            model: preset.modelId,
+            durationMs: 1,
+          };
+        }),
+      };
+      adapters.push(adapter);
+      return adapter;
+    },
+  };
+});
+
+describe('ApiCompletionProvider', () => {
+  beforeEach(() => {
+    adapters.length = 0;
+  });
+
+  function makeProvider() {
+    const config = makeConfig({ api: { ...makeConfig().api, preset: 'anthropic-haiku' } });
+    return new ApiCompletionProvider(config, makeLogger());
+  }
+
+  function adapterFor(presetId: string) {
+    return adapters.filter((a) => a.preset.id === presetId);
+  }
+
+  it('keeps the configured preset for requests overlapping another preset', async () => {
+    const provider = makeProvider();
+    const signal = new AbortController().signal;
+    const other = provider.getCompletionWithPreset('ollama-default', makeProseContext(), signal);
+    const own = provider.getCompletion(makeProseContext(), signal);
+
+    expect(await other).toBe('from qwen2.5-coder:7b');
+    expect(await own).toBe('from claude-haiku-4-5-20251001');
+    expect(provider.getActivePreset()?.id).toBe('anthropic-haiku');
+  });
+
+  it('loads each other preset once and reuses it across overlapping requests', async () => {
+    const provider = makeProvider();
+    const signal = new AbortController().signal;
+    await Promise.all([
+      provider.getCompletionWithPreset('ollama-default', makeProseContext(), signal),
+      provider.getCompletionWithPreset('xai-grok', makeProseContext(), signal),
+      provider.getCompletionWithPreset('ollama-default', makeProseContext(), signal),
+    ]);
+
+    expect(adapterFor('ollama-default')).toHaveLength(1);
+    expect(adapterFor('xai-grok')).toHaveLength(1);
+    expect(adapterFor('anthropic-haiku')).toHaveLength(1);
+    expect(adapters.every((a) => a.dispose.mock.calls.length === 0)).toBe(true);
+
+    await provider.recycleAll();
+    expect(adapterFor('ollama-default')[0].dispose).toHaveBeenCalled();
+    expect(adapterFor('xai-grok')[0].dispose).toHaveBeenCalled();
+  });
+
+  it('gives other presets their own circuit breaker', async () => {
+    const provider = makeProvider();
+    const signal = new AbortController().signal;
+    adapterFor('anthropic-haiku')[0].fail = true;
+    for (let i = 0; i < 5; i++) {
+      await expect(provider.getCompletion(makeProseContext(), signal)).rejects.toThrow();
+    }
+    expect(provider.isAvailable()).toBe(false);
+
+    expect(
+      await provider.getCompletionWithPreset('ollama-default', makeProseContext(), signal),
+    ).toBe('from qwen2.5-coder:7b');
+    expect(provider.isAvailable()).toBe(false);
+    expect(provider.isAvailable('ollama-default')).toBe(true);
+
+    adapterFor('ollama-default')[0].fail = true;
+    for (let i = 0; i < 5; i++) {
+      await expect(
+        provider.getCompletionWithPreset('ollama-default', makeProseContext(), signal),
+      ).rejects.toThrow();
+    }
+    expect(provider.isAvailable('ollama-default')).toBe(false);
+  });
+});
@@ -1,17 +1,25 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { BackendRouter } from '../../providers/backend-router';
-import { makeConfig, makeProseContext } from '../helpers';
+import { ExtensionConfig, FallbackTrigger } from '../../types';
+import { makeConfig, makeCodeContext, makeProseContext } from '../helpers';
 
 // Create mock objects
 function makeMockPoolClient() {
   return {
     isAvailable: vi.fn().mockReturnValue(true),
     getCompletion: vi.fn().mockResolvedValue('cli completion'),
+    getCompletionWithModel: vi.fn().mockResolvedValue('cli override completion'),
+    getCompletionOrThrow: vi.fn().mockResolvedValue('cli completion'),
     updateConfig: vi.fn(),
     recycleAll: vi.fn().mockResolvedValue(undefined),
     sendCommand: vi.fn().mockResolvedValue({ text: 'cli command result', meta: null }),
     isCommandPoolAvailable: vi.fn().mockReturnValue(true),
     getCurrentModel: vi.fn().mockReturnValue('haiku'),
+    getServedModel: vi.fn().mockReturnValue('claude-haiku-4-5-20251001'),
+    canHostApi: vi.fn().mockReturnValue(true),
+    isApiPresetAvailable: vi.fn().mockReturnValue(true),
+    getApiCandidates: vi.fn().mockResolvedValue(['shared one', 'shared two']),
+    sendApiCommand: vi.fn().mockResolvedValue('shared command result'),
     dispose: vi.fn(),
   };
 }
@@ -20,6 +28,9 @@ function makeMockApiCompletion() {
   return {
     isAvailable: vi.fn().mockReturnValue(true),
     getCompletion: vi.fn().mockResolvedValue('api completion'),
+    getCandidates: vi.fn().mockResolvedValue(['api one', 'api two']),
+    getCompletionWithPreset: vi.fn().mockResolvedValue('fallback preset completion'),
+    getCandidatesWithPreset: vi.fn().mockResolvedValue(['fallback one', 'fallback two']),
     updateConfig: vi.fn(),
     recycleAll: vi.fn().mockResolvedValue(undefined),
     dispose: vi.fn(),
@@ -64,6 +75,53 @@ describe('BackendRouter', () => {
       expect(mockApiCompletion.getCompletion).not.toHaveBeenCalled();
     });
 
+    it('sends parallel requests for candidates and dedupes them', async () => {
+      mockPoolClient.getCompletion
+        .mockResolvedValueOnce('first')
+        .mockResolvedValueOnce('first')
+        .mockResolvedValueOnce('second');
+      const router = new BackendRouter(
+        mockPoolClient as any,
+        mockApiCompletion as any,
+        mockApiCommand as any,
+        makeConfig({ backend: 'claude-code' }),
+      );
+
+      const result = await router.getCandidates(
+        makeProseContext(),
+        new AbortController().signal,
+        3,
+      );
+      expect(result).toEqual(['first', 'second']);
+      expect(mockPoolClient.getCompletion).toHaveBeenCalledTimes(3);
+    });
+
+    it('sends code completions to the override model without touching the window config', async () => {
+      const config = makeConfig({
+        backend: 'claude-code',
+        codeOverride: { backend: 'claude-code', model: 'opus' },
+      });
+      const router = new BackendRouter(
+        mockPoolClient as any,
+        mockApiCompletion as any,
+        mockApiCommand as any,
+        config,
+      );
+
+      const ctx = makeCodeContext();
+      const signal = new AbortController().signal;
+      const result = await router.getCompletion(ctx, signal);
+      expect(result).toBe('cli override completion');
+      expect(mockPoolClient.getCompletionWithModel).toHaveBeenCalledWith(
+        'opus',
+        ctx,
+        signal,
+        undefined,
+      );
+      expect(mockPoolClient.getCompletion).not.toHaveBeenCalled();
+      expect(mockPoolClient.updateConfig).not.toHaveBeenCalled();
+    });
+
     it('delegates isAvailable to poolClient', () => {
       const config = makeConfig({ backend: 'claude-code' });
       const router = new BackendRouter(
@@ -133,6 +191,22 @@ describe('BackendRouter', () => {
       expect(mockPoolClient.getCompletion).not.toHaveBeenCalled();
     });
 
+    it('delegates getCandidates to apiCompletion', async () => {
+      const router = new BackendRouter(
+        mockPoolClient as any,
+        mockApiCompletion as any,
+        mockApiCommand as any,
+        makeConfig({ backend: 'api' }),
+      );
+
+      const ctx = makeProseContext();
+      const signal = new AbortController().signal;
+      const result = await router.getCandidates(ctx, signal, 2);
+      expect(result).toEqual(['api one', 'api two']);
+      expect(mockApiCompletion.getCandidates).toHaveBeenCalledWith(ctx, signal, 2, undefined);
+      expect(mockPoolClient.getCompletion).not.toHaveBeenCalled();
+    });
+
     it('delegates isAvailable to apiCompletion', () => {
       const config = makeConfig({ backend: 'api' });
       const router = new BackendRouter(
@@ -185,6 +259,249 @@ describe('BackendRouter', () => {
     });
   });
 
+  describe('with a shared API server', () => {
+    const sharedConfig = () => {
+      const config = makeConfig({ backend: 'api' });
+      config.api.sharedServer = true;
+      return config;
+    };
+
+    it('sends candidates through the pool server under the active preset', async () => {
+      const config = sharedConfig();
+      const router = new BackendRouter(
+        mockPoolClient as any,
+        mockApiCompletion as any,
+        mockApiCommand as any,
+        config,
+      );
+
+      const ctx = makeProseContext();
+      const signal = new AbortController().signal;
+      const result = await router.getCandidates(ctx, signal, 2);
+      expect(result).toEqual(['shared one', 'shared two']);
+      expect(mockPoolClient.getApiCandidates).toHaveBeenCalledWith(
+        config.api.preset,
+        ctx,
+        signal,
+        2,
+        undefined,
+      );
+      expect(mockApiCompletion.getCandidates).not.toHaveBeenCalled();
+    });
+
+    it('sends commands through the pool server', async () => {
+      const router = new BackendRouter(
+        mockPoolClient as any,
+        mockApiCompletion as any,
+        mockApiCommand as any,
+        sharedConfig(),
+      );
+
+      const result = await router.sendCommand('test message');
+      expect(result.text).toBe('shared command result');
+      expect(mockApiCommand.sendPrompt).not.toHaveBeenCalled();
+    });
+
+    it("reports unavailable while the preset's shared breaker is open", () => {
+      mockPoolClient.isApiPresetAvailable.mockReturnValue(false);
+      const router = new BackendRouter(
+        mockPoolClient as any,
+        mockApiCompletion as any,
+        mockApiCommand as any,
+        sharedConfig(),
+      );
+
+      expect(router.isAvailable()).toBe(false);
+      expect(router.isCommandAvailable()).toBe(false);
+    });
+
+    it("falls back to the window's own providers when the server can't host API presets", async () => {
+      mockPoolClient.canHostApi.mockReturnValue(false);
+      const router = new BackendRouter(
+        mockPoolClient as any,
+        mockApiCompletion as any,
+        mockApiCommand as any,
+        sharedConfig(),
+      );
+
+      const result = await router.getCompletion(makeProseContext(), new AbortController().signal);
+      expect(result).toBe('api completion');
+      expect(mockPoolClient.getApiCandidates).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with a fallback chain', () => {
+    const fallbackConfig = (chain: string[], on?: FallbackTrigger[]) =>
+      makeConfig({
+        backend: 'claude-code',
+        fallback: { chain, on: on ?? ['unavailable', 'error'] },
+      });
+
+    function makeRouter(config: ExtensionConfig) {
+      return new BackendRouter(
+        mockPoolClient as any,
+        mockApiCompletion as any,
+        mockApiCommand as any,
+        config,
+      );
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('asks the primary for errors it would otherwise swallow, and uses it while it works', async () => {
+      const router = makeRouter(fallbackConfig(['anthropic-haiku']));
+      const onFallbackChange = vi.fn();
+      router.onFallbackChange = onFallbackChange;
+
+      const result = await router.getCompletion(makeProseContext(), new AbortController().signal);
+      expect(result).toBe('cli completion');
+      expect(mockPoolClient.getCompletionOrThrow).toHaveBeenCalled();
+      expect(mockApiCompletion.getCompletionWithPreset).not.toHaveBeenCalled();
+      expect(onFallbackChange).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the next backend when the primary fails', async () => {
+      mockPoolClient.getCompletionOrThrow.mockRejectedValue(new Error('pool degraded'));
+      const router = makeRouter(fallbackConfig(['anthropic-haiku']));
+      const onFallbackChange = vi.fn();
+      router.onFallbackChange = onFallbackChange;
+
+      const ctx = makeProseContext();
+      const signal = new AbortController().signal;
+      const result = await router.getCompletion(ctx, signal);
+      expect(result).toBe('fallback preset completion');
+      expect(mockApiCompletion.getCompletionWithPreset).toHaveBeenCalledWith(
+        'anthropic-haiku',
+        ctx,
+        signal,
+        undefined,
+      );
+      expect(onFallbackChange).toHaveBeenCalledWith('Haiku 4.5 (API)');
+      expect(router.getSource(ctx)).toEqual({
+        backend: 'api',
+        model: 'claude-haiku-4-5-20251001',
+      });
+    });
+
+    it('reports the model the pool server served as the source', async () => {
+      const router = makeRouter(fallbackConfig(['anthropic-haiku']));
+      const ctx = makeProseContext();
+      await router.getCompletion(ctx, new AbortController().signal);
+      expect(mockPoolClient.getServedModel).toHaveBeenCalledWith(ctx);
+      expect(router.getSource(ctx)).toEqual({
+        backend: 'claude-code',
+        model: 'claude-haiku-4-5-20251001',
+      });
+      expect(router.getSource(makeProseContext())).toBeUndefined();
+    });
+
+    it('skips an unavailable primary without sending to it', async () => {
+      mockPoolClient.isAvailable.mockReturnValue(false);
+      const router = makeRouter(fallbackConfig(['anthropic-haiku']));
+
+      await router.getCompletion(makeProseContext(), new AbortController().signal);
+      expect(mockPoolClient.getCompletionOrThrow).not.toHaveBeenCalled();
+      expect(mockApiCompletion.getCompletionWithPreset).toHaveBeenCalled();
+      expect(router.isAvailable()).toBe(true);
+    });
+
+    it('skips a fallback preset whose own breaker is open or that has no key', async () => {
+      mockPoolClient.isAvailable.mockReturnValue(false);
+      mockApiCompletion.isAvailable.mockImplementation((preset) => preset !== 'anthropic-haiku');
+      const router = makeRouter(fallbackConfig(['anthropic-haiku', 'ollama-default']));
+
+      await router.getCompletion(makeProseContext(), new AbortController().signal);
+      expect(mockApiCompletion.isAvailable).toHaveBeenCalledWith('anthropic-haiku');
+      expect(mockApiCompletion.getCompletionWithPreset).toHaveBeenCalledTimes(1);
+      expect(mockApiCompletion.getCompletionWithPreset.mock.calls[0][0]).toBe('ollama-default');
+    });
+
+    it('falls back when a preset comes back empty because its breaker opened', async () => {
+      mockApiCompletion.getCompletion.mockResolvedValue(null);
+      mockApiCompletion.isAvailable.mockReturnValueOnce(true).mockReturnValue(false);
+      const config = fallbackConfig(['claude-code']);
+      config.backend = 'api';
+      const router = makeRouter(config);
+
+      expect(await router.getCompletion(makeProseContext(), new AbortController().signal)).toBe(
+        'cli completion',
+      );
+      expect(mockApiCompletion.getCompletion).toHaveBeenCalledTimes(1);
+    });
+
+    it('only falls back on the failures fallback.on lists', async () => {
+      mockPoolClient.getCompletionOrThrow.mockResolvedValue(null);
+      mockPoolClient.getCompletion.mockResolvedValue(null);
+      const router = makeRouter(fallbackConfig(['anthropic-haiku']));
+      expect(await router.getCompletion(makeProseContext(), new AbortController().signal)).toBe(
+        null,
+      );
+      expect(mockApiCompletion.getCompletionWithPreset).not.toHaveBeenCalled();
+
+      router.updateConfig(fallbackConfig(['anthropic-haiku'], ['empty']));
+      expect(await router.getCompletion(makeProseContext(), new AbortController().signal)).toBe(
+        'fallback preset completion',
+      );
+    });
+
+    it('skips a failing primary for a while, then fails back once it recovers', async () => {
+      vi.useFakeTimers();
+      mockPoolClient.getCompletionOrThrow.mockRejectedValue(new Error('pool degraded'));
+      const router = makeRouter(fallbackConfig(['anthropic-haiku']));
+      const onFallbackChange = vi.fn();
+      router.onFallbackChange = onFallbackChange;
+      const complete = () => router.getCompletion(makeProseContext(), new AbortController().signal);
+
+      await complete();
+      await complete();
+      expect(mockPoolClient.getCompletionOrThrow).toHaveBeenCalledTimes(2);
+
+      // Skipped after two failures in a row
+      await complete();
+      expect(mockPoolClient.getCompletionOrThrow).toHaveBeenCalledTimes(2);
+
+      mockPoolClient.getCompletionOrThrow.mockResolvedValue('cli completion');
+      vi.advanceTimersByTime(60_000);
+      expect(await complete()).toBe('cli completion');
+      expect(onFallbackChange).toHaveBeenLastCalledWith(null);
+    });
+
+    it('rethrows the error of the last backend in the chain', async () => {
+      mockPoolClient.getCompletionOrThrow.mockRejectedValue(new Error('pool degraded'));
+      mockApiCompletion.getCompletionWithPreset.mockRejectedValue(new Error('HTTP 529'));
+      const router = makeRouter(fallbackConfig(['anthropic-haiku']));
+
+      await expect(
+        router.getCompletion(makeProseContext(), new AbortController().signal),
+      ).rejects.toThrow('HTTP 529');
+    });
+
+    it('falls back from an API preset to Claude Code with a named model', async () => {
+      mockApiCompletion.getCandidates.mockRejectedValue(new Error('HTTP 500'));
+      const config = fallbackConfig(['claude-code:opus']);
+      config.backend = 'api';
+      const router = makeRouter(config);
+
+      const result = await router.getCandidates(
+        makeProseContext(),
+        new AbortController().signal,
+        1,
+      );
+      expect(result).toEqual(['cli override completion']);
+      // The last backend in the chain: errors are logged, not thrown
+      expect(mockPoolClient.getCompletionOrThrow).not.toHaveBeenCalled();
+      expect(mockPoolClient.getCompletion).not.toHaveBeenCalled();
+      expect(mockPoolClient.getCompletionWithModel).toHaveBeenCalledWith(
+        'opus',
+        expect.anything(),
+        expect.anything(),
+        undefined,
+      );
+    });
+  });
+
   describe('config updates', () => {
     it('propagates updateConfig to all providers', () => {
       const config = makeConfig({ backend: 'claude-code' });
@@ -243,6 +560,366 @@ describe('BackendRouter', () => {
     });
   });
 
+  describe('with routing rules', () => {
+    function makeRouter(config: ExtensionConfig) {
+      return new BackendRouter(
+        mockPoolClient as any,
+        mockApiCompletion as any,
+        mockApiCommand as any,
+        config,
+      );
+    }
+
+    const config = makeConfig({
+      backend: 'claude-code',
+      codeOverride: { backend: 'claude-code', model: 'opus' },
+      routing: {
+        rules: [
+          { glob: '/home/me/work/confidential/**', backend: 'api', model: 'ollama-default' },
+          { glob: '*.ts', backend: 'api', model: 'xai-grok-code' },
+          { languageId: 'markdown', backend: 'claude-code', model: 'sonnet' },
+        ],
+      },
+    });
+
+    it('sends completions to the first matching rule', async () => {
+      const router = makeRouter(config);
+      const signal = new AbortController().signal;
+
+      const confidential = makeCodeContext({ filePath: '/home/me/work/confidential/app.ts' });
+      await router.getCompletion(confidential, signal);
+      expect(mockApiCompletion.getCompletionWithPreset).toHaveBeenLastCalledWith(
+        'ollama-default',
+        confidential,
+        signal,
+        undefined,
+      );
+
+      const ts = makeCodeContext({ filePath: '/home/me/src/app.ts' });
+      await router.getCompletion(ts, signal);
+      expect(mockApiCompletion.getCompletionWithPreset).toHaveBeenLastCalledWith(
+        'xai-grok-code',
+        ts,
+        signal,
+        undefined,
+      );
+    });
+
+    it('falls through to the code override, then the global backend', async () => {
+      const router = makeRouter(config);
+      const signal = new AbortController().signal;
+
+      await router.getCompletion(makeCodeContext({ filePath: '/home/me/main.py' }), signal);
+      expect(mockPoolClient.getCompletionWithModel).toHaveBeenCalledWith(
+        'opus',
+        expect.anything(),
+        signal,
+        undefined,
+      );
+
+      await router.getCompletion(makeProseContext({ languageId: 'plaintext' }), signal);
+      expect(mockPoolClient.getCompletion).toHaveBeenCalled();
+    });
+
+    it('reports which rule or override picks the backend', () => {
+      const router = makeRouter(config);
+      expect(router.getRoute({ mode: 'prose', languageId: 'markdown' })).toEqual({
+        backend: 'claude-code',
+        label: 'sonnet',
+        source: 'rule',
+      });
+      expect(router.getRoute({ mode: 'code', languageId: 'python' })).toMatchObject({
+        source: 'code override',
+      });
+      expect(router.getRoute({ mode: 'prose', languageId: 'plaintext' })).toBeNull();
+    });
+
+    it('keeps files a rule matches out of race mode', async () => {
+      const router = makeRouter({
+        ...config,
+        race: { enabled: true, backends: ['claude-code', 'anthropic-haiku'], staggerMs: 0 },
+      });
+      const signal = new AbortController().signal;
+
+      const confidential = makeCodeContext({ filePath: '/home/me/work/confidential/app.ts' });
+      await router.getCompletion(confidential, signal);
+      await router.getCandidates(confidential, signal, 2);
+      expect(mockApiCompletion.getCompletionWithPreset).toHaveBeenCalledTimes(1);
+      expect(mockApiCompletion.getCompletionWithPreset).toHaveBeenCalledWith(
+        'ollama-default',
+        confidential,
+        signal,
+        undefined,
+      );
+      expect(mockApiCompletion.getCandidatesWithPreset).toHaveBeenCalledWith(
+        'ollama-default',
+        confidential,
+        signal,
+        2,
+        undefined,
+      );
+      expect(mockPoolClient.getCompletion).not.toHaveBeenCalled();
+    });
+
+    it('falls back only to the backends a matching rule lists', async () => {
+      mockApiCompletion.getCompletionWithPreset.mockImplementation(async (preset: string) => {
+        if (preset === 'ollama-default') throw new Error('ollama is down');
+        return `from ${preset}`;
+      });
+      const rules = config.routing.rules;
+      const router = makeRouter({
+        ...config,
+        routing: { rules: [{ ...rules[0], fallback: ['llamacpp-fim'] }, ...rules.slice(1)] },
+        fallback: { chain: ['anthropic-haiku'], on: ['unavailable', 'error'] },
+      });
+      const signal = new AbortController().signal;
+
+      const confidential = makeCodeContext({ filePath: '/home/me/work/confidential/app.ts' });
+      expect(await router.getCompletion(confidential, signal)).toBe('from llamacpp-fim');
+
+      // Without a list of its own, the rule allows no fallback at all
+      await expect(
+        makeRouter({
+          ...config,
+          fallback: { chain: ['anthropic-haiku'], on: ['unavailable', 'error'] },
+        }).getCompletion(confidential, signal),
+      ).rejects.toThrow('ollama is down');
+      expect(mockApiCompletion.getCompletionWithPreset).not.toHaveBeenCalledWith(
+        'anthropic-haiku',
+        expect.anything(),
+        expect.anything(),
+        undefined,
+      );
+    });
+  });
+
+  describe('in race mode', () => {
+    const raceConfig = (backends = ['claude-code', 'anthropic-haiku']) =>
+      makeConfig({ backend: 'claude-code', race: { enabled: true, backends, staggerMs: 150 } });
+
+    function makeRouter(config: ExtensionConfig) {
+      const router = new BackendRouter(
+        mockPoolClient as any,
+        mockApiCompletion as any,
+        mockApiCommand as any,
+        config,
+      );
+      const ledger = { record: vi.fn() };
+      router.setLedger(ledger as any);
+      return { router, ledger };
+    }
+
+    /** A CLI completion that never answers, resolving null once aborted. */
+    function hangUntilAborted(_ctx: unknown, signal: AbortSignal): Promise<string | null> {
+      return new Promise((resolve) => signal.addEventListener('abort', () => resolve(null)));
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('keeps the first backend when it answers within its head start', async () => {
+      vi.useFakeTimers();
+      const { router, ledger } = makeRouter(raceConfig());
+
+      const result = await router.getCompletion(makeProseContext(), new AbortController().signal);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(result).toBe('cli completion');
+      expect(mockApiCompletion.getCompletionWithPreset).not.toHaveBeenCalled();
+      expect(ledger.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          backend: 'claude-code',
+          raceWinner: expect.stringContaining('(CC)'),
+        }),
+      );
+    });
+
+    it('sends the second backend after the stagger and aborts the loser', async () => {
+      vi.useFakeTimers();
+      mockPoolClient.getCompletion.mockImplementation(hangUntilAborted);
+      const { router, ledger } = makeRouter(raceConfig());
+
+      const ctx = makeProseContext();
+      const completion = router.getCompletion(ctx, new AbortController().signal);
+      await vi.advanceTimersByTimeAsync(100);
+      expect(mockApiCompletion.getCompletionWithPreset).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(await completion).toBe('fallback preset completion');
+      const cliSignal: AbortSignal = mockPoolClient.getCompletion.mock.calls[0][1];
+      expect(cliSignal.aborted).toBe(true);
+      expect(ledger.record).toHaveBeenCalledTimes(1);
+      expect(ledger.record.mock.calls[0][0]).toMatchObject({
+        backend: 'api',
+        model: 'claude-haiku-4-5-20251001',
+        raceWinner: 'Haiku 4.5 (API)',
+      });
+      expect(router.getSource(ctx)).toEqual({
+        backend: 'api',
+        model: 'claude-haiku-4-5-20251001',
+      });
+    });
+
+    it('does not send the second backend once the request is aborted', async () => {
+      vi.useFakeTimers();
+      mockPoolClient.getCompletion.mockImplementation(hangUntilAborted);
+      const { router } = makeRouter(raceConfig());
+      const controller = new AbortController();
+
+      const completion = router.getCompletion(makeProseContext(), controller.signal);
+      await vi.advanceTimersByTimeAsync(100);
+      controller.abort();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(await completion).toBeNull();
+      expect(mockApiCompletion.getCompletionWithPreset).not.toHaveBeenCalled();
+    });
+
+    it('sends the second backend at once when the first comes back empty', async () => {
+      vi.useFakeTimers();
+      mockPoolClient.getCompletion.mockResolvedValue(null);
+      const { router } = makeRouter(raceConfig());
+
+      const result = await router.getCompletion(makeProseContext(), new AbortController().signal);
+      expect(result).toBe('fallback preset completion');
+    });
+
+    it('returns nothing when neither backend answers, and rethrows when both fail', async () => {
+      mockPoolClient.getCompletion.mockResolvedValue(null);
+      mockApiCompletion.getCompletionWithPreset.mockResolvedValue(null);
+      const { router, ledger } = makeRouter(raceConfig());
+      const signal = new AbortController().signal;
+
+      expect(await router.getCompletion(makeProseContext(), signal)).toBeNull();
+      expect(ledger.record).not.toHaveBeenCalled();
+
+      mockPoolClient.getCompletion.mockRejectedValue(new Error('pool degraded'));
+      mockApiCompletion.getCompletionWithPreset.mockRejectedValue(new Error('rate limited'));
+      await expect(router.getCompletion(makeProseContext(), signal)).rejects.toThrow(
+        'pool degraded',
+      );
+    });
+
+    it('streams partials from only the backend that streamed first', async () => {
+      vi.useFakeTimers();
+      mockPoolClient.getCompletion.mockImplementation(
+        (_ctx: unknown, signal: AbortSignal, onPartial?: (text: string) => void) => {
+          onPartial?.('from the cli');
+          return hangUntilAborted(_ctx, signal);
+        },
+      );
+      mockApiCompletion.getCompletionWithPreset.mockImplementation(
+        async (
+          _preset: string,
+          _ctx: unknown,
+          _signal: AbortSignal,
+          onPartial?: (t: string) => void,
+        ) => {
+          onPartial?.('from the api');
+          return 'fallback preset completion';
+        },
+      );
+      const { router } = makeRouter(raceConfig());
+      const onPartial = vi.fn();
+
+      const completion = router.getCompletion(
+        makeProseContext(),
+        new AbortController().signal,
+        onPartial,
+      );
+      await vi.advanceTimersByTimeAsync(150);
+
+      expect(await completion).toBe('fallback preset completion');
+      expect(onPartial.mock.calls).toEqual([['from the cli']]);
+    });
+
+    it('races candidates too', async () => {
+      mockPoolClient.getCompletion.mockImplementation(hangUntilAborted);
+      const { router } = makeRouter(raceConfig());
+
+      const candidates = await router.getCandidates(
+        makeProseContext(),
+        new AbortController().signal,
+        2,
+      );
+      expect(candidates).toEqual(['fallback one', 'fallback two']);
+    });
+
+    it('is not used without two distinct backends', async () => {
+      const { router } = makeRouter(raceConfig(['claude-code']));
+      expect(await router.getCompletion(makeProseContext(), new AbortController().signal)).toBe(
+        'cli completion',
+      );
+      expect(mockApiCompletion.getCompletionWithPreset).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with budgets', () => {
+    /** A budget guard with `paused` over its limit. */
+    function makeRouter(config: ExtensionConfig, paused: 'claude-code' | 'api') {
+      const router = new BackendRouter(
+        mockPoolClient as any,
+        mockApiCompletion as any,
+        mockApiCommand as any,
+        config,
+      );
+      const budget = {
+        allows: vi.fn((backend: string, explicit: boolean) => backend !== paused || explicit),
+        getState: vi.fn(() => ({
+          level: 'exceeded',
+          reason: 'Claude Code daily tokens budget reached',
+        })),
+      };
+      router.setBudget(budget as any);
+      return { router, budget };
+    }
+
+    it('skips a backend over budget for the next in the fallback chain', async () => {
+      const config = makeConfig({
+        backend: 'claude-code',
+        fallback: { chain: ['anthropic-haiku'], on: ['unavailable', 'error'] },
+      });
+      const { router } = makeRouter(config, 'claude-code');
+
+      const result = await router.getCompletion(makeProseContext(), new AbortController().signal);
+      expect(result).toBe('fallback preset completion');
+      expect(mockPoolClient.getCompletionOrThrow).not.toHaveBeenCalled();
+    });
+
+    it('pauses automatic completions but lets explicit ones through', async () => {
+      const { router, budget } = makeRouter(makeConfig({ backend: 'claude-code' }), 'claude-code');
+      const signal = new AbortController().signal;
+
+      expect(await router.getCompletion(makeProseContext(), signal)).toBeNull();
+      expect(mockPoolClient.getCompletion).not.toHaveBeenCalled();
+
+      expect(await router.getCompletion(makeProseContext({ explicit: true }), signal)).toBe(
+        'cli completion',
+      );
+      expect(budget.allows).toHaveBeenLastCalledWith('claude-code', true);
+    });
+
+    it('keeps free local presets running past the spending budget', async () => {
+      const api = { ...makeConfig().api, preset: 'ollama-default' };
+      const config = makeConfig({ backend: 'api', api });
+      const { router } = makeRouter(config, 'api');
+
+      const result = await router.getCompletion(makeProseContext(), new AbortController().signal);
+      expect(result).toBe('api completion');
+    });
+
+    it('refuses commands with the reason when they are not allowed', async () => {
+      const { router, budget } = makeRouter(makeConfig({ backend: 'claude-code' }), 'claude-code');
+      budget.allows.mockReturnValue(false);
+
+      await expect(router.sendCommand('message')).rejects.toThrow(
+        'Claude Code daily tokens budget reached',
+      );
+      expect(mockPoolClient.sendCommand).not.toHaveBeenCalled();
+    });
+  });
+
   describe('null API providers', () => {
     it('returns null for API completions when no provider', async () => {
       const config = makeConfig({ backend: 'api' });
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { Bm25Index, CHUNK_LINES, chunkText, tokenizeForIndex } from '../../utils/bm25';
+
+describe('tokenizeForIndex', () => {
+  it('lowercases identifier tokens and drops single characters', () => {
+    expect(tokenizeForIndex('const x = parseConfig(RAW_input);')).toEqual([
+      'const',
+      'parseconfig',
+      'raw_input',
+    ]);
+  });
+});
+
+describe('chunkText', () => {
+  it('splits into fixed-size line chunks', () => {
+    const text = Array.from({ length: CHUNK_LINES * 2 + 1 }, (_, i) => `line ${i}`).join('\n');
+    const chunks = chunkText(text);
+    expect(chunks).toHaveLength(3);
+    expect(chunks[0].split('\n')).toHaveLength(CHUNK_LINES);
+    expect(chunks[2]).toBe(`line ${CHUNK_LINES * 2}`);
+  });
+
+  it('drops blank chunks', () => {
+    expect(chunkText('\n'.repeat(CHUNK_LINES * 2) + 'tail')).toEqual(['tail']);
+  });
+});
+
+describe('Bm25Index', () => {
+  function makeIndex() {
+    const index = new Bm25Index();
+    index.setFile('docs/glossary.md', ['A widget is the unit of deployment.']);
+    index.setFile('src/http.ts', ['export function fetchJson(url) {}']);
+    index.setFile('src/widgets.ts', ['export function deployWidget(widget) { return widget; }']);
+    return index;
+  }
+
+  it('ranks chunks by relevance to the query', () => {
+    const hits = makeIndex().search('deployWidget(widget', 3);
+    expect(hits.map((h) => h.filePath)).toEqual(['src/widgets.ts', 'docs/glossary.md']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('limits results to k', () => {
+    expect(makeIndex().search('widget', 1)).toHaveLength(1);
+  });
+
+  it('excludes the given file', () => {
+    const hits = makeIndex().search('widget', 5, 'src/widgets.ts');
+    expect(hits.map((h) => h.filePath)).toEqual(['docs/glossary.md']);
+  });
+
+  it('re-indexing a file replaces its chunks', () => {
+    const index = makeIndex();
+    index.setFile('src/widgets.ts', ['export const nothingRelevant = 1;']);
+    expect(index.search('deployWidget', 5)).toEqual([]);
+    expect(index.getFileChunks('src/widgets.ts')).toEqual(['export const nothingRelevant = 1;']);
+  });
+
+  it('removeFile drops the file from results and counts', () => {
+    const index = makeIndex();
+    index.removeFile('src/widgets.ts');
+    expect(index.hasFile('src/widgets.ts')).toBe(false);
+    expect(index.fileCount).toBe(2);
+    expect(index.search('deployWidget', 5)).toEqual([]);
+  });
+
+  it('returns nothing for an empty index', () => {
+    expect(new Bm25Index().search('anything', 5)).toEqual([]);
+  });
+});
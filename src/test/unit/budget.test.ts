@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BudgetGuard } from '../../utils/budget';
+import { UsageLedger } from '../../utils/usage-ledger';
+import { ExtensionConfig } from '../../types';
+import { makeConfig, makeLedger, makeLogger } from '../helpers';
+
+describe('BudgetGuard', () => {
+  let ledger: UsageLedger;
+  let filePath: string;
+
+  const base = { source: 'completion' as const, durationMs: 10, inputChars: 5, outputChars: 5 };
+
+  beforeEach(() => {
+    ({ ledger, filePath } = makeLedger());
+  });
+
+  afterEach(() => {
+    ledger.dispose();
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+  });
+
+  function makeGuard(budget: Partial<ExtensionConfig['budget']>) {
+    const config = makeConfig({ budget: { ...makeConfig().budget, ...budget } });
+    const onNotice = vi.fn();
+    const guard = new BudgetGuard(ledger, config, makeLogger(), onNotice);
+    return { guard, onNotice };
+  }
+
+  it('stays ok with no limits set', () => {
+    ledger.record({ ...base, model: 'grok', backend: 'api', costUsd: 100 });
+    const { guard, onNotice } = makeGuard({});
+
+    expect(guard.getState('api')).toEqual({ level: 'ok' });
+    expect(guard.allows('api', false)).toBe(true);
+    expect(onNotice).not.toHaveBeenCalled();
+  });
+
+  it('warns once past the soft threshold', () => {
+    ledger.record({ ...base, model: 'grok', backend: 'api', costUsd: 4.25 });
+    const { guard, onNotice } = makeGuard({ dailyUsd: 5 });
+
+    expect(guard.getState('api')).toEqual({
+      level: 'warning',
+      reason: 'API daily spending budget 85% used ($4.25 of $5.00)',
+    });
+    expect(guard.allows('api', false)).toBe(true);
+
+    guard.refresh();
+    expect(onNotice).toHaveBeenCalledTimes(1);
+    expect(onNotice).toHaveBeenCalledWith(expect.stringContaining('85% used'), 'warning');
+  });
+
+  it('pauses automatic requests at the limit and lets explicit ones through', () => {
+    for (let i = 0; i < 3; i++) ledger.record({ ...base, model: 'haiku', outputTokens: 10 });
+    const { guard, onNotice } = makeGuard({ dailyRequests: 3 });
+
+    expect(guard.allows('claude-code', false)).toBe(false);
+    expect(guard.allows('claude-code', true)).toBe(true);
+    expect(guard.allows('api', false)).toBe(true);
+    expect(guard.getState('claude-code').reason).toBe(
+      'Claude Code daily requests budget reached (3 of 3)',
+    );
+    expect(onNotice).toHaveBeenCalledWith(
+      expect.stringContaining('automatic completions paused'),
+      'exceeded',
+    );
+  });
+
+  it('pauses explicit requests too unless allowExplicit', () => {
+    ledger.record({ ...base, model: 'haiku', inputTokens: 900, outputTokens: 200 });
+    const { guard, onNotice } = makeGuard({ monthlyTokens: 1000, allowExplicit: false });
+
+    expect(guard.allows('claude-code', true)).toBe(false);
+    expect(onNotice).toHaveBeenCalledWith(expect.stringContaining('requests paused'), 'exceeded');
+  });
+
+  it('reports the worst limit and picks up usage recorded since the last read', () => {
+    ledger.record({ ...base, model: 'haiku', outputTokens: 80 });
+    const { guard } = makeGuard({ dailyTokens: 100, monthlyRequests: 2 });
+    expect(guard.getState('claude-code').level).toBe('warning');
+
+    ledger.record({ ...base, model: 'haiku', outputTokens: 5 });
+    guard.refresh();
+    expect(guard.getState('claude-code')).toEqual({
+      level: 'exceeded',
+      reason: 'Claude Code monthly requests budget reached (2 of 2)',
+    });
+  });
+
+  it('re-reads the ledger after a config change', () => {
+    ledger.record({ ...base, model: 'grok', backend: 'api', costUsd: 2 });
+    const { guard } = makeGuard({});
+    expect(guard.getState('api').level).toBe('ok');
+
+    guard.updateConfig(makeConfig({ budget: { ...makeConfig().budget, monthlyUsd: 2 } }));
+    expect(guard.getState('api').level).toBe('exceeded');
+  });
+});
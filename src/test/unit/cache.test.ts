@@ -28,6 +28,13 @@ describe('LRUCache', () => {
       expect(cache.get('k1')).toBe('second');
     });
 
+    it('stores several candidates, primary first', () => {
+      const cache = new LRUCache();
+      cache.set('k1', ['first', 'second']);
+      expect(cache.get('k1')).toBe('first');
+      expect(cache.getAll('k1')).toEqual(['first', 'second']);
+    });
+
     it('clears all entries', () => {
       const cache = new LRUCache();
       cache.set('a', '1');
@@ -127,4 +134,80 @@ describe('LRUCache', () => {
       expect(key).toBe('prose||');
     });
   });
+
+  describe('getTypeahead', () => {
+    function cacheWith(prefix: string, value: string, suffix = '') {
+      const cache = new LRUCache();
+      cache.set(LRUCache.makeKey('prose', prefix, suffix), value, {
+        mode: 'prose',
+        prefix,
+        suffix,
+      });
+      return cache;
+    }
+
+    it('returns the rest of a completion the user typed into', () => {
+      const cache = cacheWith('The quick', ' brown fox jumps');
+      expect(cache.getTypeahead('prose', 'The quick brown', '')).toBe(' fox jumps');
+      expect(cache.getTypeahead('prose', 'The quick b', '')).toBe('rown fox jumps');
+    });
+
+    it('matches any candidate of an entry', () => {
+      const cache = new LRUCache();
+      cache.set(LRUCache.makeKey('prose', 'The quick', ''), [' brown fox', ' red fox'], {
+        mode: 'prose',
+        prefix: 'The quick',
+        suffix: '',
+      });
+      expect(cache.getTypeahead('prose', 'The quick red', '')).toBe(' fox');
+    });
+
+    it('returns nothing once the whole completion has been typed', () => {
+      const cache = cacheWith('The quick', ' brown');
+      expect(cache.getTypeahead('prose', 'The quick brown', '')).toBeNull();
+    });
+
+    it('returns nothing when the typed text diverges from the completion', () => {
+      const cache = cacheWith('The quick', ' brown fox');
+      expect(cache.getTypeahead('prose', 'The quick red', '')).toBeNull();
+    });
+
+    it('prepends characters removed by backspacing on the same line', () => {
+      const cache = cacheWith('The quick', ' brown fox');
+      expect(cache.getTypeahead('prose', 'The qui', '')).toBe('ck brown fox');
+    });
+
+    it('does not reuse a completion after backspacing across a line break', () => {
+      const cache = cacheWith('Title\nThe', ' end');
+      expect(cache.getTypeahead('prose', 'Title', '')).toBeNull();
+    });
+
+    it('requires the same mode and suffix', () => {
+      const cache = cacheWith('The quick', ' brown fox', '\nNext paragraph');
+      expect(cache.getTypeahead('code', 'The quick brown', '\nNext paragraph')).toBeNull();
+      expect(cache.getTypeahead('prose', 'The quick brown', '\nOther')).toBeNull();
+      expect(cache.getTypeahead('prose', 'The quick brown', '\nNext paragraph')).toBe(' fox');
+    });
+
+    it('matches when the prefix window slides as the document grows', () => {
+      const old = 'a'.repeat(2500);
+      const cache = cacheWith(old, 'bcdef');
+      const slid = (old + 'bc').slice(-2500);
+      expect(cache.getTypeahead('prose', slid, '')).toBe('def');
+    });
+
+    it('ignores entries stored without context', () => {
+      const cache = new LRUCache();
+      cache.set(LRUCache.makeKey('prose', 'The quick', ''), ' brown fox');
+      expect(cache.getTypeahead('prose', 'The quick brown', '')).toBeNull();
+    });
+
+    it('ignores expired entries', () => {
+      const cache = new LRUCache(50, 1000);
+      cache.set('k', ' brown fox', { mode: 'prose', prefix: 'The quick', suffix: '' });
+      vi.advanceTimersByTime(1001);
+      expect(cache.getTypeahead('prose', 'The quick brown', '')).toBeNull();
+      expect(cache.size).toBe(0);
+    });
+  });
 });
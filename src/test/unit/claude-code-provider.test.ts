@@ -33,6 +33,61 @@ function createFakeStream(completionTexts: string | string[], warmupResponse?: s
   return makeFakeStream(completionTexts, warmupResponse ?? makeWarmupResponse(), activeFakeStreams);
 }
 
+/**
+ * A stream whose results are pushed by the test, so a turn can be left in
+ * flight. `interrupt()` yields an error result for the turn, like the SDK.
+ */
+function makeControlledStream(withInterrupt = true) {
+  const queue: unknown[] = [];
+  let wake: (() => void) | null = null;
+  let done = false;
+  const push = (message: unknown) => {
+    queue.push(message);
+    wake?.();
+    wake = null;
+  };
+  const interrupt = vi.fn(async () => {
+    push({ type: 'result', subtype: 'error_during_execution' });
+  });
+  const stream = {
+    [Symbol.asyncIterator]() {
+      return {
+        async next(): Promise<IteratorResult<unknown>> {
+          while (queue.length === 0 && !done) {
+            await new Promise<void>((r) => {
+              wake = r;
+            });
+          }
+          if (queue.length === 0) {
+            return { value: undefined, done: true };
+          }
+          return { value: queue.shift(), done: false };
+        },
+        async return(): Promise<IteratorResult<unknown>> {
+          done = true;
+          wake?.();
+          return { value: undefined, done: true };
+        },
+      };
+    },
+    ...(withInterrupt && { interrupt }),
+  };
+  push({ type: 'result', subtype: 'success', result: makeWarmupResponse() });
+  return {
+    stream,
+    interrupt,
+    result: (text: string, usage?: Record<string, number>) =>
+      push({ type: 'result', subtype: 'success', result: text, usage }),
+    delta: (text: string) =>
+      push({
+        type: 'stream_event',
+        event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } },
+      }),
+  };
+}
+
+const tick = () => new Promise((r) => setTimeout(r, 0));
+
 describe('ClaudeCodeProvider', () => {
   let activeProvider: ClaudeCodeProvider | null = null;
 
@@ -364,7 +419,268 @@ describe('ClaudeCodeProvider', () => {
     });
   });
 
-  describe('single-waiter queue', () => {
+  describe('cancellation', () => {
+    it('interrupts an abandoned turn and frees the slot for the next request', async () => {
+      const controlled = makeControlledStream();
+      mockQueryFn.mockImplementation(() => controlled.stream);
+
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger());
+      activeProvider = provider;
+      await provider.activate('/test/workspace');
+
+      const ac = new AbortController();
+      const p1 = provider.getCompletion(makeProseContext(), ac.signal);
+      await tick();
+      ac.abort();
+
+      expect(await p1).toBeNull();
+      expect(controlled.interrupt).toHaveBeenCalledTimes(1);
+
+      // The interrupted turn's result returns the slot; the next request is served by it
+      const p2 = provider.getCompletion(makeProseContext(), new AbortController().signal);
+      await tick();
+      controlled.result('<COMPLETION> went home.</COMPLETION>');
+      expect(await p2).toContain('went home.');
+      expect(mockQueryFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('recycles the slot when the query cannot be interrupted', async () => {
+      const streams = [makeControlledStream(false), makeControlledStream(false)];
+      let callCount = 0;
+      mockQueryFn.mockImplementation(() => streams[callCount++].stream);
+
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger());
+      activeProvider = provider;
+      await provider.activate('/test/workspace');
+
+      const ac = new AbortController();
+      const p1 = provider.getCompletion(makeProseContext(), ac.signal);
+      await tick();
+      ac.abort();
+      expect(await p1).toBeNull();
+
+      // A fresh session replaces the stuck one
+      const p2 = provider.getCompletion(makeProseContext(), new AbortController().signal);
+      await tick();
+      await tick();
+      expect(callCount).toBe(2);
+      streams[1].result('<COMPLETION> came back.</COMPLETION>');
+      expect(await p2).toContain('came back.');
+
+      // The abandoned session's late result goes nowhere
+      streams[0].result('<COMPLETION> ran away.</COMPLETION>');
+      await tick();
+      const p3 = provider.getCompletion(makeProseContext(), new AbortController().signal);
+      await tick();
+      streams[1].result('<COMPLETION> stayed.</COMPLETION>');
+      expect(await p3).toContain('stayed.');
+    });
+
+    it('gives up waiting for a busy slot when aborted', async () => {
+      const controlled = makeControlledStream();
+      mockQueryFn.mockImplementation(() => controlled.stream);
+
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger());
+      activeProvider = provider;
+      await provider.activate('/test/workspace');
+
+      const p1 = provider.getCompletion(makeProseContext(), new AbortController().signal);
+      await tick();
+
+      const ac = new AbortController();
+      const p2 = provider.getCompletion(makeCodeContext(), ac.signal);
+      ac.abort();
+      expect(await p2).toBeNull();
+
+      controlled.result('<COMPLETION> went home.</COMPLETION>');
+      expect(await p1).toContain('went home.');
+      expect(controlled.interrupt).not.toHaveBeenCalled();
+    });
+
+    it('returns null without taking a slot when already aborted', async () => {
+      const controlled = makeControlledStream();
+      mockQueryFn.mockImplementation(() => controlled.stream);
+
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger());
+      activeProvider = provider;
+      await provider.activate('/test/workspace');
+
+      const ac = new AbortController();
+      ac.abort();
+      expect(await provider.getCompletion(makeProseContext(), ac.signal)).toBeNull();
+      expect(provider.getStats().slots[0].state).toBe('available');
+    });
+  });
+
+  describe('streaming', () => {
+    it('reports the stable completion text while the turn streams', async () => {
+      const controlled = makeControlledStream();
+      mockQueryFn.mockImplementation(() => controlled.stream);
+
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger());
+      activeProvider = provider;
+      await provider.activate('/test/workspace');
+
+      const partials: string[] = [];
+      const p = provider.getCompletion(makeProseContext(), new AbortController().signal, (text) =>
+        partials.push(text),
+      );
+      await tick();
+      for (const text of ['<COMPLETION> went', ' home', '.</COMP', 'LETION>']) {
+        controlled.delta(text);
+        await tick();
+      }
+      controlled.result('<COMPLETION> went home.</COMPLETION>');
+
+      expect(await p).toContain('went home.');
+      expect(partials.length).toBeGreaterThan(0);
+      expect(partials.every((t) => !t.includes('<'))).toBe(true);
+      expect(new Set(partials).size).toBe(partials.length);
+      expect(partials[partials.length - 1]).toContain('went home');
+    });
+
+    it('stops reporting partials once its request has finished', async () => {
+      const controlled = makeControlledStream();
+      mockQueryFn.mockImplementation(() => controlled.stream);
+
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger());
+      activeProvider = provider;
+      await provider.activate('/test/workspace');
+
+      const partials: string[] = [];
+      const p1 = provider.getCompletion(makeProseContext(), new AbortController().signal, (text) =>
+        partials.push(text),
+      );
+      await tick();
+      controlled.result('<COMPLETION> went home.</COMPLETION>');
+      await p1;
+
+      // The next turn has no listener — its deltas reach nobody
+      const p2 = provider.getCompletion(makeProseContext(), new AbortController().signal);
+      await tick();
+      controlled.delta('<COMPLETION> came');
+      await tick();
+      controlled.result('<COMPLETION> came back.</COMPLETION>');
+      expect(await p2).toContain('came back.');
+      expect(partials).toEqual([]);
+    });
+  });
+
+  describe('slot wait queue', () => {
+    /** One controlled stream per query, in spawn order. */
+    function setupStreams() {
+      const streams: ReturnType<typeof makeControlledStream>[] = [];
+      mockQueryFn.mockImplementation(() => {
+        const controlled = makeControlledStream();
+        streams.push(controlled);
+        return controlled.stream;
+      });
+      return streams;
+    }
+
+    it('serves concurrent requests from separate slots', async () => {
+      const streams = setupStreams();
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger(), 2);
+      activeProvider = provider;
+      await provider.activate('/test/workspace');
+      expect(streams).toHaveLength(2);
+
+      const p1 = provider.getCompletion(makeProseContext(), new AbortController().signal);
+      const p2 = provider.getCompletion(makeProseContext(), new AbortController().signal);
+      await tick();
+      expect(provider.getStats().slots.map((s) => s.state)).toEqual(['busy', 'busy']);
+
+      streams[1].result('<COMPLETION> second.</COMPLETION>');
+      streams[0].result('<COMPLETION> first.</COMPLETION>');
+      expect(await p1).toContain('first.');
+      expect(await p2).toContain('second.');
+    });
+
+    it('queues waiting requests in order instead of cancelling earlier ones', async () => {
+      const streams = setupStreams();
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger());
+      activeProvider = provider;
+      await provider.activate('/test/workspace');
+
+      const p1 = provider.getCompletion(makeProseContext(), new AbortController().signal);
+      await tick();
+      const p2 = provider.getCompletion(makeProseContext(), new AbortController().signal);
+      const p3 = provider.getCompletion(makeProseContext(), new AbortController().signal);
+
+      for (const text of ['one', 'two', 'three']) {
+        streams[0].result(`<COMPLETION> ${text}</COMPLETION>`);
+        await tick();
+      }
+      expect(await p1).toContain('one');
+      expect(await p2).toContain('two');
+      expect(await p3).toContain('three');
+    });
+
+    it('serves explicit requests ahead of queued automatic ones', async () => {
+      const streams = setupStreams();
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger());
+      activeProvider = provider;
+      await provider.activate('/test/workspace');
+
+      const p1 = provider.getCompletion(makeProseContext(), new AbortController().signal);
+      await tick();
+      const automatic = provider.getCompletion(makeProseContext(), new AbortController().signal);
+      const explicit = provider.getCompletion(
+        makeProseContext({ explicit: true }),
+        new AbortController().signal,
+      );
+
+      for (const text of ['one', 'two', 'three']) {
+        streams[0].result(`<COMPLETION> ${text}</COMPLETION>`);
+        await tick();
+      }
+      expect(await p1).toContain('one');
+      expect(await explicit).toContain('two');
+      expect(await automatic).toContain('three');
+    });
+
+    it('drops requests that have waited too long', async () => {
+      const streams = setupStreams();
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger());
+      activeProvider = provider;
+      await provider.activate('/test/workspace');
+
+      const p1 = provider.getCompletion(makeProseContext(), new AbortController().signal);
+      await tick();
+      const now = Date.now();
+      const stale = provider.getCompletion(makeProseContext(), new AbortController().signal);
+
+      vi.spyOn(Date, 'now').mockReturnValue(now + 60_000);
+      streams[0].result('<COMPLETION> one</COMPLETION>');
+      expect(await p1).toContain('one');
+      expect(await stale).toBeNull();
+      expect(provider.getStats().slots[0].state).toBe('available');
+      vi.restoreAllMocks();
+    });
+
+    it('resize reinitializes the pool with the new slot count', async () => {
+      const streams = setupStreams();
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger());
+      activeProvider = provider;
+      await provider.activate('/test/workspace');
+
+      await provider.resize(3);
+      expect(streams).toHaveLength(4);
+      expect(provider.getStats().slots.map((s) => s.state)).toEqual([
+        'available',
+        'available',
+        'available',
+      ]);
+
+      await provider.resize(1);
+      expect(streams).toHaveLength(5);
+      expect(provider.getStats().slots).toHaveLength(1);
+      const p = provider.getCompletion(makeProseContext(), new AbortController().signal);
+      await tick();
+      streams[4].result('<COMPLETION> resized.</COMPLETION>');
+      expect(await p).toContain('resized.');
+    });
+
     it('dispose cancels pending waiter', async () => {
       // Waiter cancellation on dispose is tested here.
       // Full concurrent waiter behavior is validated by API integration tests.
@@ -397,6 +713,154 @@ describe('ClaudeCodeProvider', () => {
       expect(result2).toBeNull();
     });
   });
+
+  describe('context budget', () => {
+    function setupStreams() {
+      const streams: ReturnType<typeof makeControlledStream>[] = [];
+      mockQueryFn.mockImplementation(() => {
+        const controlled = makeControlledStream();
+        streams.push(controlled);
+        return controlled.stream;
+      });
+      return streams;
+    }
+
+    async function complete(
+      provider: ClaudeCodeProvider,
+      stream: ReturnType<typeof makeControlledStream>,
+      usage: Record<string, number>,
+      prefix = 'The quick brown fox',
+    ) {
+      const p = provider.getCompletion(makeProseContext({ prefix }), new AbortController().signal);
+      await tick();
+      stream.result('<COMPLETION> done.</COMPLETION>', usage);
+      return p;
+    }
+
+    it('keeps reusing a session well under its budget', async () => {
+      const streams = setupStreams();
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger());
+      activeProvider = provider;
+      await provider.activate('/test/workspace');
+
+      for (let i = 0; i < 12; i++) {
+        await complete(provider, streams[0], { input_tokens: 50, cache_read_input_tokens: 2_000 });
+      }
+      expect(streams).toHaveLength(1);
+      expect(provider.getStats().slots[0]).toMatchObject({
+        requestCount: 12,
+        contextTokens: 2_050,
+        contextBudget: 60_000,
+      });
+    });
+
+    it('recycles a slot once its context reaches the budget', async () => {
+      const streams = setupStreams();
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger());
+      activeProvider = provider;
+      await provider.activate('/test/workspace');
+
+      await complete(provider, streams[0], {
+        input_tokens: 100,
+        cache_read_input_tokens: 59_000,
+        output_tokens: 900,
+      });
+      await tick();
+      expect(streams).toHaveLength(2);
+    });
+
+    it('starts a fresh session before a message that would overflow the budget', async () => {
+      const streams = setupStreams();
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger());
+      activeProvider = provider;
+      await provider.activate('/test/workspace');
+      await complete(provider, streams[0], { input_tokens: 50, cache_read_input_tokens: 50_000 });
+
+      // ~12.5K tokens — fits a fresh session, not the 50K one
+      const p = provider.getCompletion(
+        makeProseContext({ prefix: 'word '.repeat(10_000) }),
+        new AbortController().signal,
+      );
+      while (streams.length < 2 || provider.getStats().slots[0].state !== 'busy') await tick();
+      streams[1].result('<COMPLETION> fresh.</COMPLETION>');
+      expect(await p).toContain('fresh.');
+    });
+  });
+
+  describe('idle sleep', () => {
+    function setupStreams() {
+      const streams: ReturnType<typeof makeControlledStream>[] = [];
+      mockQueryFn.mockImplementation(() => {
+        const controlled = makeControlledStream();
+        streams.push(controlled);
+        return controlled.stream;
+      });
+      return streams;
+    }
+
+    it('closes its sessions after the idle timeout', async () => {
+      setupStreams();
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger());
+      activeProvider = provider;
+      const states: string[] = [];
+      provider.onSleepStateChange = (state) => states.push(state);
+      await provider.activate('/test/workspace');
+
+      provider.setIdleTimeout(10);
+      await new Promise((r) => setTimeout(r, 30));
+      expect(provider.sleepState).toBe('sleeping');
+      expect(provider.getStats().sleepState).toBe('sleeping');
+      expect(provider.getStats().slots[0].state).toBe('dead');
+      expect(states).toEqual(['sleeping']);
+    });
+
+    it('wakes on the next request and serves it from a fresh session', async () => {
+      const streams = setupStreams();
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger());
+      activeProvider = provider;
+      const states: string[] = [];
+      provider.onSleepStateChange = (state) => states.push(state);
+      await provider.activate('/test/workspace');
+
+      provider.sleep();
+      const p = provider.getCompletion(makeProseContext(), new AbortController().signal);
+      expect(provider.sleepState).toBe('warming');
+      while (provider.getStats().slots[0].state !== 'busy') await tick();
+
+      expect(streams).toHaveLength(2);
+      streams[1].result('<COMPLETION> awake.</COMPLETION>');
+      expect(await p).toContain('awake.');
+      expect(states).toEqual(['sleeping', 'warming', 'awake']);
+    });
+
+    it('stays awake while a request is in flight', async () => {
+      const streams = setupStreams();
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger());
+      activeProvider = provider;
+      await provider.activate('/test/workspace');
+
+      const p = provider.getCompletion(makeProseContext(), new AbortController().signal);
+      await tick();
+      provider.sleep();
+      expect(provider.sleepState).toBe('awake');
+
+      streams[0].result('<COMPLETION> finished.</COMPLETION>');
+      expect(await p).toContain('finished.');
+    });
+
+    it('wake() warms a sleeping pool without a request', async () => {
+      const streams = setupStreams();
+      const provider = new ClaudeCodeProvider(makeConfig(), makeLogger());
+      activeProvider = provider;
+      await provider.activate('/test/workspace');
+
+      provider.sleep();
+      await provider.wake();
+      expect(provider.sleepState).toBe('awake');
+      expect(streams).toHaveLength(2);
+      expect(provider.getStats().slots[0].state).toBe('available');
+    });
+  });
 });
 
 describe('extractCompletion', () => {
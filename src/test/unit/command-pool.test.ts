@@ -133,6 +133,30 @@ describe('CommandPool', () => {
       expect(text).toBeNull();
     });
 
+    it('gives up a queued place when cancelled before a slot frees up', async () => {
+      const fakeStream = createFakeStream(['response1', 'response2']);
+
+      mockQueryFn.mockImplementation(({ prompt }: { prompt: AsyncIterable<unknown> }) => {
+        consumeIterable(prompt, fakeStream);
+        return fakeStream.stream;
+      });
+
+      const pool = new CommandPool('haiku', makeLogger());
+      activePool = pool;
+      await pool.activate();
+
+      const controller = new AbortController();
+      const first = pool.sendPrompt('First message');
+      const queued = pool.sendPrompt('Queued message', { onCancel: controller.signal });
+      controller.abort();
+
+      expect((await queued).text).toBeNull();
+      expect((await first).text).toBe('response1');
+      // The cancelled request never reached the slot
+      expect((await pool.sendPrompt('Next message')).text).toBe('response2');
+      expect(mockQueryFn).toHaveBeenCalledTimes(1);
+    });
+
     it('sequential requests reuse the warm slot', async () => {
       const fakeStream = createFakeStream(['response1', 'response2']);
 
@@ -40,11 +40,17 @@ vi.mock('vscode', () => {
       showErrorMessage: vi.fn(),
       setStatusBarMessage: vi.fn(),
     },
+    commands: {
+      executeCommand: vi.fn(),
+    },
+    workspace: {
+      getWorkspaceFolder: vi.fn(),
+    },
   };
 });
 
 // Import after mock is set up
-import { CompletionProvider } from '../../completion-provider';
+import { CompletionProvider, stableFirstLine } from '../../completion-provider';
 import * as vscode from 'vscode';
 
 // Create a mock document
@@ -230,6 +236,65 @@ describe('CompletionProvider', () => {
       expect(result).not.toBeNull();
       provider.dispose();
     });
+
+    it('marks only explicit requests for priority in the slot queue', async () => {
+      const mockProvider = createMockProvider();
+      const config = makeConfig({ triggerMode: 'auto' });
+      const provider = new CompletionProvider(config, mockProvider, makeLogger());
+      const document = createMockDocument('Hello world');
+
+      const explicit = provider.provideInlineCompletionItems(
+        document as any,
+        { line: 0, character: 6 } as any,
+        createMockInlineContext(TriggerKind.Invoke),
+        createMockToken() as any,
+      );
+      await vi.advanceTimersByTimeAsync(0);
+      await explicit;
+
+      const automatic = provider.provideInlineCompletionItems(
+        document as any,
+        { line: 0, character: 7 } as any,
+        createMockInlineContext(TriggerKind.Automatic),
+        createMockToken() as any,
+      );
+      await vi.advanceTimersByTimeAsync(2000);
+      await automatic;
+
+      const calls = vi.mocked(mockProvider.getCompletion).mock.calls;
+      expect(calls[0][0].explicit).toBe(true);
+      expect(calls[1][0].explicit).toBeUndefined();
+      provider.dispose();
+    });
+  });
+
+  describe('routing rules', () => {
+    it('sizes the context by the matching rule and passes the workspace folder on', async () => {
+      vi.mocked(vscode.workspace.getWorkspaceFolder).mockReturnValue({
+        uri: { fsPath: '/test' },
+      } as any);
+      const mockProvider = createMockProvider();
+      const config = makeConfig({
+        routing: { rules: [{ languageId: 'markdown', backend: 'api', contextChars: 600 }] },
+      });
+      const provider = new CompletionProvider(config, mockProvider, makeLogger());
+      const content = 'word '.repeat(400);
+
+      const result = provider.provideInlineCompletionItems(
+        createMockDocument(content) as any,
+        { line: 0, character: content.length } as any,
+        createMockInlineContext(TriggerKind.Invoke),
+        createMockToken() as any,
+      );
+      await vi.advanceTimersByTimeAsync(0);
+      await result;
+
+      const [context] = vi.mocked(mockProvider.getCompletion).mock.calls[0];
+      expect(context.prefix.length).toBeLessThanOrEqual(600);
+      expect(context.prefix.length).toBeGreaterThan(500);
+      expect(context.workspaceFolder).toBe('/test');
+      provider.dispose();
+    });
   });
 
   describe('punctuation suppression', () => {
@@ -358,6 +423,120 @@ describe('CompletionProvider', () => {
       provider.dispose();
     });
 
+    it('serves the rest of a cached completion as the user types into it', async () => {
+      const mockProvider = createMockProvider('brave new world');
+      const provider = new CompletionProvider(makeConfig(), mockProvider, makeLogger());
+      const context = createMockInlineContext(TriggerKind.Invoke);
+
+      const resultPromise1 = provider.provideInlineCompletionItems(
+        createMockDocument('Hello ') as any,
+        { line: 0, character: 6 } as any,
+        context,
+        createMockToken() as any,
+      );
+      await vi.advanceTimersByTimeAsync(0);
+      await resultPromise1;
+
+      const result2 = await provider.provideInlineCompletionItems(
+        createMockDocument('Hello brave ') as any,
+        { line: 0, character: 12 } as any,
+        context,
+        createMockToken() as any,
+      );
+
+      expect(mockProvider.getCompletion).toHaveBeenCalledTimes(1);
+      expect((result2 as any)[0].insertText).toBe('new world');
+      provider.dispose();
+    });
+
+    it('returns every candidate as an item and caches them together', async () => {
+      const mockProvider = {
+        ...createMockProvider(),
+        getCandidates: vi.fn().mockResolvedValue(['formal reply', 'casual reply']),
+      };
+      const provider = new CompletionProvider(
+        makeConfig({ candidates: 2 }),
+        mockProvider,
+        makeLogger(),
+      );
+      const document = createMockDocument('Dear team, ');
+      const position = { line: 0, character: 11 };
+      const context = createMockInlineContext(TriggerKind.Invoke);
+
+      const resultPromise = provider.provideInlineCompletionItems(
+        document as any,
+        position as any,
+        context,
+        createMockToken() as any,
+      );
+      await vi.advanceTimersByTimeAsync(0);
+      const result = await resultPromise;
+
+      expect(mockProvider.getCandidates).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        2,
+        expect.any(Function),
+      );
+      expect(mockProvider.getCompletion).not.toHaveBeenCalled();
+      expect((result as any[]).map((i) => i.insertText)).toEqual(['formal reply', 'casual reply']);
+
+      const cachedResult = await provider.provideInlineCompletionItems(
+        document as any,
+        position as any,
+        context,
+        createMockToken() as any,
+      );
+      expect(mockProvider.getCandidates).toHaveBeenCalledTimes(1);
+      expect((cachedResult as any[]).map((i) => i.insertText)).toEqual([
+        'formal reply',
+        'casual reply',
+      ]);
+      provider.dispose();
+    });
+
+    it('tracks completions against the backend and model that served them, cached or not', async () => {
+      const mockProvider = {
+        ...createMockProvider('routed result'),
+        getSource: vi.fn().mockReturnValue({ backend: 'api', model: 'grok-code-fast-1' }),
+      };
+      const acceptance = { track: vi.fn().mockReturnValue([]) };
+      const provider = new CompletionProvider(
+        makeConfig({ backend: 'claude-code' }),
+        mockProvider,
+        makeLogger(),
+        undefined,
+        undefined,
+        acceptance as any,
+      );
+      const document = createMockDocument('Hello world');
+      const position = { line: 0, character: 6 };
+      const context = createMockInlineContext(TriggerKind.Invoke);
+
+      const resultPromise = provider.provideInlineCompletionItems(
+        document as any,
+        position as any,
+        context,
+        createMockToken() as any,
+      );
+      await vi.advanceTimersByTimeAsync(0);
+      await resultPromise;
+      const served = { backend: 'api', model: 'grok-code-fast-1' };
+      expect(acceptance.track.mock.calls[0][3]).toMatchObject(served);
+
+      // Served from the cache after another backend took over
+      mockProvider.getSource.mockReturnValue({ backend: 'claude-code', model: 'claude-sonnet-4' });
+      await provider.provideInlineCompletionItems(
+        document as any,
+        position as any,
+        context,
+        createMockToken() as any,
+      );
+      expect(mockProvider.getCompletion).toHaveBeenCalledTimes(1);
+      expect(acceptance.track.mock.calls[1][3]).toMatchObject(served);
+      provider.dispose();
+    });
+
     it('clears cache via clearCache()', async () => {
       const mockProvider = createMockProvider('cached result');
       const provider = new CompletionProvider(makeConfig(), mockProvider, makeLogger());
@@ -619,6 +798,254 @@ describe('CompletionProvider', () => {
     });
   });
 
+  describe('streaming', () => {
+    function createStreamingProvider(partials: string[], full: string) {
+      let finish: () => void = () => {};
+      const mockProvider = createMockProvider();
+      (mockProvider.getCompletion as any).mockImplementation(
+        (_ctx: unknown, _signal: AbortSignal, onPartial?: (partial: string) => void) =>
+          new Promise<string>((resolve) => {
+            for (const partial of partials) onPartial?.(partial);
+            finish = () => resolve(full);
+          }),
+      );
+      return { mockProvider, finish: () => finish() };
+    }
+
+    it('returns the first line before the full completion arrives', async () => {
+      const { mockProvider, finish } = createStreamingProvider(
+        ['the quick', 'the quick brown\nfox'],
+        'the quick brown\nfox jumps',
+      );
+      const provider = new CompletionProvider(makeConfig(), mockProvider, makeLogger());
+      const onEnd = vi.fn();
+      provider.setRequestCallbacks(vi.fn(), onEnd);
+
+      const document = createMockDocument('Hello world');
+      const position = { line: 0, character: 6 };
+      const resultPromise = provider.provideInlineCompletionItems(
+        document as any,
+        position as any,
+        createMockInlineContext(TriggerKind.Invoke),
+        createMockToken() as any,
+      );
+      await vi.advanceTimersByTimeAsync(0);
+      const result = (await resultPromise) as any[];
+
+      expect(result[0].insertText).toBe('the quick brown');
+      expect(onEnd).not.toHaveBeenCalled();
+
+      finish();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(onEnd).toHaveBeenCalledTimes(1);
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        'editor.action.inlineSuggest.trigger',
+      );
+
+      // The re-triggered request is served the full completion from cache
+      const second = (await provider.provideInlineCompletionItems(
+        document as any,
+        position as any,
+        createMockInlineContext(TriggerKind.Automatic),
+        createMockToken() as any,
+      )) as any[];
+      expect(second[0].insertText).toBe('the quick brown\nfox jumps');
+      expect(mockProvider.getCompletion).toHaveBeenCalledTimes(1);
+      provider.dispose();
+    });
+
+    it('does not re-trigger when the request was cancelled', async () => {
+      const { mockProvider, finish } = createStreamingProvider(
+        ['line one\n'],
+        'line one\nline two',
+      );
+      const provider = new CompletionProvider(makeConfig(), mockProvider, makeLogger());
+      const document = createMockDocument('Hello world');
+      const token = createMockToken();
+
+      const resultPromise = provider.provideInlineCompletionItems(
+        document as any,
+        { line: 0, character: 6 } as any,
+        createMockInlineContext(TriggerKind.Invoke),
+        token as any,
+      );
+      await vi.advanceTimersByTimeAsync(0);
+      await resultPromise;
+
+      token.cancel();
+      finish();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(vscode.commands.executeCommand).not.toHaveBeenCalled();
+      provider.dispose();
+    });
+
+    it('waits for the full completion when streaming is disabled', async () => {
+      const { mockProvider, finish } = createStreamingProvider(
+        ['line one\n'],
+        'line one\nline two',
+      );
+      const provider = new CompletionProvider(
+        makeConfig({ streaming: false }),
+        mockProvider,
+        makeLogger(),
+      );
+
+      const resultPromise = provider.provideInlineCompletionItems(
+        createMockDocument('Hello world') as any,
+        { line: 0, character: 6 } as any,
+        createMockInlineContext(TriggerKind.Invoke),
+        createMockToken() as any,
+      );
+      await vi.advanceTimersByTimeAsync(0);
+      finish();
+      const result = (await resultPromise) as any[];
+
+      expect(result[0].insertText).toBe('line one\nline two');
+      expect((mockProvider.getCompletion as any).mock.calls[0][2]).toBeUndefined();
+      provider.dispose();
+    });
+  });
+
+  describe('stableFirstLine', () => {
+    it('returns null until a non-blank line is terminated', () => {
+      expect(stableFirstLine('')).toBeNull();
+      expect(stableFirstLine('partial line')).toBeNull();
+      expect(stableFirstLine('\n')).toBeNull();
+      expect(stableFirstLine('\n  ')).toBeNull();
+    });
+
+    it('returns the first complete line, keeping leading blank lines', () => {
+      expect(stableFirstLine('first\nsecond')).toBe('first');
+      expect(stableFirstLine('\n  indented\nnext')).toBe('\n  indented');
+    });
+  });
+
+  describe('related files', () => {
+    const snippet = { filePath: 'src/user.ts', content: 'export function loadUser() {}' };
+
+    async function complete(languageId: string, relatedFilesChars = 2000) {
+      const mockProvider = createMockProvider();
+      const relatedFiles = { collect: vi.fn().mockReturnValue([snippet]) };
+      const provider = new CompletionProvider(
+        makeConfig({
+          code: { contextChars: 2500, suffixChars: 2000, relatedFilesChars, symbolContext: false },
+        }),
+        mockProvider,
+        makeLogger(),
+        undefined,
+        relatedFiles as any,
+      );
+
+      const resultPromise = provider.provideInlineCompletionItems(
+        createMockDocument('const user = load', languageId) as any,
+        { line: 0, character: 17 } as any,
+        createMockInlineContext(TriggerKind.Invoke),
+        createMockToken() as any,
+      );
+      await vi.advanceTimersByTimeAsync(0);
+      await resultPromise;
+      provider.dispose();
+
+      const context = (mockProvider.getCompletion as any).mock.calls[0][0];
+      return { relatedFiles, context };
+    }
+
+    it('adds related snippets to code completions', async () => {
+      const { relatedFiles, context } = await complete('typescript');
+
+      expect(relatedFiles.collect).toHaveBeenCalledWith(
+        expect.anything(),
+        'const user = load',
+        '',
+        2000,
+      );
+      expect(context.relatedFiles).toEqual([snippet]);
+    });
+
+    it('does not gather related files for prose', async () => {
+      const { relatedFiles, context } = await complete('markdown');
+
+      expect(relatedFiles.collect).not.toHaveBeenCalled();
+      expect(context.relatedFiles).toBeUndefined();
+    });
+  });
+
+  describe('symbol context', () => {
+    it('attaches signatures from the language server to code completions', async () => {
+      vi.mocked(vscode.commands.executeCommand).mockImplementation((async (command: string) =>
+        command === 'vscode.executeSignatureHelpProvider'
+          ? { signatures: [{ label: 'loadUser(id: string): User' }], activeSignature: 0 }
+          : undefined) as any);
+      const mockProvider = createMockProvider();
+      const provider = new CompletionProvider(makeConfig(), mockProvider, makeLogger());
+
+      const resultPromise = provider.provideInlineCompletionItems(
+        createMockDocument('const user = loadUser(', 'typescript') as any,
+        { line: 0, character: 22 } as any,
+        createMockInlineContext(TriggerKind.Invoke),
+        createMockToken() as any,
+      );
+      await vi.advanceTimersByTimeAsync(0);
+      await resultPromise;
+      provider.dispose();
+      vi.mocked(vscode.commands.executeCommand).mockReset();
+
+      const context = (mockProvider.getCompletion as any).mock.calls[0][0];
+      expect(context.symbols).toEqual([
+        { name: 'loadUser', signature: 'loadUser(id: string): User' },
+      ]);
+    });
+  });
+
+  describe('workspace index', () => {
+    it('adds retrieved chunks when the index is enabled', async () => {
+      const mockProvider = createMockProvider();
+      const chunk = { filePath: 'docs/terms.md', content: 'Widget: the deployable unit' };
+      const index = { search: vi.fn().mockReturnValue([chunk]) };
+      const provider = new CompletionProvider(makeConfig(), mockProvider, makeLogger());
+      provider.setWorkspaceIndex(index as any);
+
+      const resultPromise = provider.provideInlineCompletionItems(
+        createMockDocument('Each widget') as any,
+        { line: 0, character: 11 } as any,
+        createMockInlineContext(TriggerKind.Invoke),
+        createMockToken() as any,
+      );
+      await vi.advanceTimersByTimeAsync(0);
+      await resultPromise;
+
+      expect(index.search).toHaveBeenCalledWith('Each widget', '', 'test.md', 1500);
+      const context = (mockProvider.getCompletion as any).mock.calls[0][0];
+      expect(context.retrievedChunks).toEqual([chunk]);
+      provider.dispose();
+    });
+
+    it('skips retrieval when disabled', async () => {
+      const mockProvider = createMockProvider();
+      const index = { search: vi.fn().mockReturnValue([]) };
+      const provider = new CompletionProvider(
+        makeConfig({ workspaceIndex: { enabled: false, maxChars: 1500 } }),
+        mockProvider,
+        makeLogger(),
+      );
+      provider.setWorkspaceIndex(index as any);
+
+      const resultPromise = provider.provideInlineCompletionItems(
+        createMockDocument('Each widget') as any,
+        { line: 0, character: 11 } as any,
+        createMockInlineContext(TriggerKind.Invoke),
+        createMockToken() as any,
+      );
+      await vi.advanceTimersByTimeAsync(0);
+      await resultPromise;
+
+      expect(index.search).not.toHaveBeenCalled();
+      provider.dispose();
+    });
+  });
+
   describe('updateConfig', () => {
     it('propagates config to underlying provider', () => {
       const mockProvider = createMockProvider();
@@ -0,0 +1,293 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest';
+import {
+  HTTP_TOKEN_PATH,
+  HttpEndpoint,
+  callerName,
+  flattenChatMessages,
+  readOrCreateToken,
+} from '../../pool-server/http-endpoint';
+import { BudgetGuard } from '../../utils/budget';
+import { LedgerEntry, UsageLedger } from '../../utils/usage-ledger';
+import { makeConfig, makeLedger, makeLogger } from '../helpers';
+
+// Keep the token out of the real ~/.bespokeai
+vi.mock('../../pool-server/ipc-path', async () => {
+  const fs = await import('fs');
+  const os = await import('os');
+  const path = await import('path');
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bespokeai-http-'));
+  return {
+    STATE_DIR: dir,
+    ensureStateDir: () => fs.mkdirSync(dir, { recursive: true }),
+  };
+});
+
+function makePools() {
+  return {
+    getCompletion: vi.fn(
+      async (
+        _context: unknown,
+        _signal: AbortSignal,
+        onPartial?: (partial: string) => void,
+      ): Promise<string | null> => {
+        onPartial?.('return a');
+        return 'return a + b;';
+      },
+    ),
+    sendCommand: vi.fn(async (_message: string, options?: { onPartial?: (t: string) => void }) => {
+      options?.onPartial?.('Hello');
+      return {
+        text: 'Hello there',
+        meta: {
+          model: 'claude-haiku-4-5',
+          durationMs: 120,
+          durationApiMs: 100,
+          costUsd: 0,
+          inputTokens: 10,
+          outputTokens: 3,
+          cacheReadTokens: 5,
+          cacheCreationTokens: 0,
+          sessionId: 's1',
+        },
+      };
+    }),
+    getModel: () => 'haiku',
+    getModels: () => ['haiku', 'sonnet'],
+  };
+}
+
+describe('flattenChatMessages', () => {
+  it('sends a lone user message as-is, after any system prompt', () => {
+    expect(
+      flattenChatMessages([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hi' },
+      ]),
+    ).toBe('Be brief.\n\nHi');
+  });
+
+  it('labels the turns of a longer conversation and joins text parts', () => {
+    expect(
+      flattenChatMessages([
+        { role: 'user', content: [{ type: 'text', text: 'One' }] },
+        { role: 'assistant', content: 'Two' },
+        { role: 'user', content: 'Three' },
+      ]),
+    ).toBe('User: One\n\nAssistant: Two\n\nUser: Three');
+  });
+});
+
+describe('callerName', () => {
+  it('prefers the user field, then the User-Agent product', () => {
+    expect(callerName({ user: 'aider' }, 'curl/8.0')).toBe('aider');
+    expect(callerName({}, 'curl/8.0')).toBe('curl');
+    expect(callerName({}, undefined)).toBe('http');
+  });
+});
+
+describe('HttpEndpoint', () => {
+  let pools: ReturnType<typeof makePools>;
+  let endpoint: HttpEndpoint;
+  let ledger: UsageLedger;
+  let ledgerPath: string;
+  let baseUrl: string;
+  let token: string;
+
+  beforeEach(async () => {
+    pools = makePools();
+    ({ ledger, filePath: ledgerPath } = makeLedger());
+    await listen(new HttpEndpoint(pools, makeLogger(), ledger));
+    token = readOrCreateToken();
+  });
+
+  async function listen(next: HttpEndpoint) {
+    await endpoint?.stop();
+    endpoint = next;
+    await endpoint.start(0);
+    const port = (endpoint as any).server.address().port;
+    baseUrl = `http://127.0.0.1:${port}/v1`;
+  }
+
+  afterEach(async () => {
+    await endpoint.stop();
+    fs.rmSync(path.dirname(ledgerPath), { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(path.dirname(HTTP_TOKEN_PATH), { recursive: true, force: true });
+  });
+
+  function post(route: string, body: object, headers: Record<string, string> = {}) {
+    return fetch(`${baseUrl}${route}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+  }
+
+  function readLedger(): LedgerEntry[] {
+    return fs
+      .readFileSync(ledgerPath, 'utf-8')
+      .split('\n')
+      .filter((l) => l.trim())
+      .map((l) => JSON.parse(l));
+  }
+
+  it('rejects requests without the bearer token', async () => {
+    const res = await fetch(`${baseUrl}/models`, { headers: { Authorization: 'Bearer nope' } });
+    expect(res.status).toBe(401);
+    expect(pools.sendCommand).not.toHaveBeenCalled();
+  });
+
+  it('lists the configured models', async () => {
+    const res = await fetch(`${baseUrl}/models`, { headers: { Authorization: `Bearer ${token}` } });
+    const body = await res.json();
+    expect(body.data.map((m: { id: string }) => m.id)).toEqual(['haiku', 'sonnet']);
+  });
+
+  it('answers chat completions from the command pool and records the caller', async () => {
+    const res = await post('/chat/completions', {
+      model: 'sonnet',
+      messages: [{ role: 'user', content: 'Hi' }],
+      user: 'my-script',
+    });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.choices[0].message).toEqual({ role: 'assistant', content: 'Hello there' });
+    expect(body.usage).toEqual({ prompt_tokens: 15, completion_tokens: 3, total_tokens: 18 });
+    expect(pools.sendCommand).toHaveBeenCalledWith('Hi', expect.anything(), 'sonnet');
+
+    const [entry] = readLedger();
+    expect(entry).toMatchObject({ source: 'chat', caller: 'my-script', outputTokens: 3 });
+  });
+
+  it('falls back to the primary model for models it does not serve', async () => {
+    await post('/chat/completions', {
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+    expect(pools.sendCommand).toHaveBeenCalledWith('Hi', expect.anything(), 'haiku');
+  });
+
+  it('streams chat deltas as server-sent events', async () => {
+    const res = await post('/chat/completions', {
+      messages: [{ role: 'user', content: 'Hi' }],
+      stream: true,
+    });
+    const events = (await res.text())
+      .split('\n\n')
+      .filter(Boolean)
+      .map((e) => e.replace(/^data: /, ''));
+
+    expect(events.at(-1)).toBe('[DONE]');
+    const chunks = events.slice(0, -1).map((e) => JSON.parse(e).choices[0]);
+    expect(chunks.map((c) => c.delta.content ?? '').join('')).toBe('Hello there');
+    expect(chunks[0].delta.role).toBe('assistant');
+    expect(chunks.at(-1).finish_reason).toBe('stop');
+  });
+
+  it('runs fill-in-the-middle completions with the caller on the context', async () => {
+    const res = await post(
+      '/completions',
+      { prompt: 'function add(a, b) {\n  ', suffix: '\n}' },
+      { 'User-Agent': 'nvim-cmp/1.0' },
+    );
+    const body = await res.json();
+
+    expect(body.choices[0].text).toBe('return a + b;');
+    const [context] = pools.getCompletion.mock.calls[0];
+    expect(context).toMatchObject({ suffix: '\n}', mode: 'code', caller: 'nvim-cmp' });
+  });
+
+  it('cuts output to max_tokens and reports the length finish', async () => {
+    const chat = await post('/chat/completions', {
+      messages: [{ role: 'user', content: 'Hi' }],
+      max_tokens: 1,
+    });
+    expect((await chat.json()).choices[0]).toMatchObject({
+      message: { content: 'Hell' },
+      finish_reason: 'length',
+    });
+
+    const res = await post('/completions', { prompt: 'a', max_tokens: 2, stream: true });
+    const chunks = (await res.text())
+      .split('\n\n')
+      .filter((e) => e && e !== 'data: [DONE]')
+      .map((e) => JSON.parse(e.replace(/^data: /, '')).choices[0]);
+    expect(chunks.map((c) => c.text).join('')).toBe('return a');
+    expect(chunks.at(-1).finish_reason).toBe('length');
+
+    const roomy = await post('/completions', { prompt: 'a', max_tokens: 64 });
+    expect((await roomy.json()).choices[0]).toMatchObject({
+      text: 'return a + b;',
+      finish_reason: 'stop',
+    });
+  });
+
+  it('rejects malformed requests', async () => {
+    expect((await post('/chat/completions', { messages: [] })).status).toBe(400);
+    expect((await post('/completions', {})).status).toBe(400);
+    expect((await post('/embeddings', {})).status).toBe(404);
+  });
+
+  it('rejects wrongly typed fields before they reach the pools', async () => {
+    const messages = [{ role: 'user', content: 'Hi' }];
+    const rejected = [
+      post('/chat/completions', [messages]),
+      post('/chat/completions', { messages: [{ role: 'user', content: 42 }] }),
+      post('/chat/completions', { messages: [{ content: 'Hi' }] }),
+      post('/chat/completions', { messages: [{ role: 'user', content: [{ text: 'Hi' }] }] }),
+      post('/chat/completions', { messages, model: ['sonnet'] }),
+      post('/chat/completions', { messages, stream: 'yes' }),
+      post('/completions', { prompt: 'a', max_tokens: -1 }),
+      post('/completions', { prompt: ['a', 'b'] }),
+      post('/completions', { prompt: 'a', suffix: 42 }),
+      post('/completions', { prompt: 'a', mode: 'markdown' }),
+      post('/completions', { prompt: 'a', language: ['ts'] }),
+    ];
+    for (const res of await Promise.all(rejected)) {
+      expect(res.status).toBe(400);
+      expect((await res.json()).error.type).toBe('invalid_request_error');
+    }
+    expect(pools.sendCommand).not.toHaveBeenCalled();
+    expect(pools.getCompletion).not.toHaveBeenCalled();
+
+    const ok = await post('/chat/completions', { messages, model: null, max_tokens: 64 });
+    expect(ok.status).toBe(200);
+  });
+
+  it('refuses requests past the Claude Code budget with the limit reached', async () => {
+    ledger.record({
+      source: 'completion',
+      backend: 'claude-code',
+      model: 'haiku',
+      durationMs: 10,
+      inputChars: 5,
+      outputChars: 5,
+    });
+    const budget = (allowExplicit: boolean) =>
+      new BudgetGuard(
+        ledger,
+        makeConfig({ budget: { ...makeConfig().budget, dailyRequests: 1, allowExplicit } }),
+        makeLogger(),
+      );
+    const messages = [{ role: 'user', content: 'Hi' }];
+
+    await listen(new HttpEndpoint(pools, makeLogger(), ledger, budget(true)));
+    const paused = await post('/completions', { prompt: 'a' });
+    expect(paused.status).toBe(429);
+    expect((await paused.json()).error).toEqual({
+      message: 'Claude Code daily requests budget reached (1 of 1)',
+      type: 'insufficient_quota',
+    });
+    expect(pools.getCompletion).not.toHaveBeenCalled();
+    expect((await post('/chat/completions', { messages })).status).toBe(200);
+
+    await listen(new HttpEndpoint(pools, makeLogger(), ledger, budget(false)));
+    expect((await post('/chat/completions', { messages })).status).toBe(429);
+    expect(pools.sendCommand).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LlamaCppAdapter } from '../../providers/api/adapters/llamacpp';
+import { Preset } from '../../providers/api/types';
+
+vi.mock('../../utils/api-key-store', () => ({
+  resolveApiKey: vi.fn((envVar: string) => (envVar === 'LLAMA_KEY' ? 'secret' : undefined)),
+}));
+
+function makePreset(overrides: Partial<Preset> = {}): Preset {
+  return {
+    id: 'llamacpp-test',
+    displayName: 'Test llama.cpp',
+    provider: 'llamacpp',
+    modelId: 'default',
+    baseUrl: 'http://localhost:8080',
+    maxTokens: 200,
+    temperature: 0.2,
+    promptStrategy: 'native-fim',
+    ...overrides,
+  };
+}
+
+function mockFetchOk(body: unknown) {
+  return vi.fn().mockResolvedValue({
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(body),
+  });
+}
+
+const defaultOptions = {
+  signal: AbortSignal.timeout(5000),
+  maxTokens: 200,
+  temperature: 0.2,
+};
+
+describe('LlamaCppAdapter', () => {
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('is always configured', () => {
+    expect(new LlamaCppAdapter(makePreset()).isConfigured()).toBe(true);
+  });
+
+  describe('completeFim', () => {
+    it('posts input_prefix and input_suffix to /infill', async () => {
+      const fetchMock = mockFetchOk({
+        content: 'a + b',
+        tokens_evaluated: 30,
+        tokens_predicted: 4,
+      });
+      globalThis.fetch = fetchMock;
+
+      const adapter = new LlamaCppAdapter(makePreset({ baseUrl: 'http://localhost:8080/v1/' }));
+      const result = await adapter.completeFim('return ', ';', {
+        ...defaultOptions,
+        stopSequences: ['\n\n'],
+      });
+
+      expect(fetchMock).toHaveBeenCalledWith('http://localhost:8080/infill', expect.anything());
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.input_prefix).toBe('return ');
+      expect(body.input_suffix).toBe(';');
+      expect(body.n_predict).toBe(200);
+      expect(body.stop).toEqual(['\n\n']);
+      expect(result).toMatchObject({
+        text: 'a + b',
+        usage: { inputTokens: 30, outputTokens: 4 },
+        model: 'default',
+      });
+    });
+
+    it('sends a bearer token when an API key is configured', async () => {
+      const fetchMock = mockFetchOk({ content: 'x' });
+      globalThis.fetch = fetchMock;
+
+      const adapter = new LlamaCppAdapter(makePreset({ apiKeyEnvVar: 'LLAMA_KEY' }));
+      await adapter.completeFim('a', 'b', defaultOptions);
+
+      expect(fetchMock.mock.calls[0][1].headers['Authorization']).toBe('Bearer secret');
+    });
+
+    it('returns null text when the server is not running', async () => {
+      globalThis.fetch = vi.fn().mockRejectedValue(new Error('fetch failed'));
+
+      const result = await new LlamaCppAdapter(makePreset()).completeFim('a', 'b', defaultOptions);
+
+      expect(result.text).toBeNull();
+      expect(result.aborted).toBeUndefined();
+    });
+
+    it('returns aborted on AbortError', async () => {
+      const err = new Error('aborted');
+      err.name = 'AbortError';
+      globalThis.fetch = vi.fn().mockRejectedValue(err);
+
+      const result = await new LlamaCppAdapter(makePreset()).completeFim('a', 'b', defaultOptions);
+
+      expect(result.aborted).toBe(true);
+    });
+
+    it('throws on HTTP errors', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 501,
+        statusText: 'Not Implemented',
+      });
+
+      await expect(
+        new LlamaCppAdapter(makePreset()).completeFim('a', 'b', defaultOptions),
+      ).rejects.toThrow('llama.cpp API error: 501 Not Implemented');
+    });
+  });
+
+  describe('complete', () => {
+    it('uses the OpenAI-compatible chat endpoint', async () => {
+      const fetchMock = mockFetchOk({
+        model: 'qwen',
+        choices: [{ message: { content: 'Hello' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 2 },
+      });
+      globalThis.fetch = fetchMock;
+
+      const result = await new LlamaCppAdapter(makePreset()).complete(
+        'sys',
+        [{ role: 'user', content: 'hi' }],
+        defaultOptions,
+      );
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:8080/v1/chat/completions',
+        expect.anything(),
+      );
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.messages[0]).toEqual({ role: 'system', content: 'sys' });
+      expect(result).toMatchObject({
+        text: 'Hello',
+        usage: { inputTokens: 12, outputTokens: 2 },
+        model: 'qwen',
+      });
+    });
+  });
+});
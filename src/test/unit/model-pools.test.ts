@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ModelPools, POOL_IDLE_MS } from '../../pool-server/model-pools';
+import { makeLogger } from '../helpers';
+
+function makeFakePool(model: string) {
+  return {
+    model,
+    activate: vi.fn().mockResolvedValue(undefined),
+    dispose: vi.fn(),
+  };
+}
+
+type FakePool = ReturnType<typeof makeFakePool>;
+
+describe('ModelPools', () => {
+  let pools: ModelPools<FakePool> | null = null;
+
+  function setup(primary = 'haiku') {
+    const created: FakePool[] = [];
+    pools = new ModelPools<FakePool>(
+      'Test pools',
+      primary,
+      (model) => {
+        const pool = makeFakePool(model);
+        created.push(pool);
+        return pool;
+      },
+      makeLogger(),
+    );
+    return { pools, created };
+  }
+
+  afterEach(() => {
+    pools?.dispose();
+    pools = null;
+    vi.restoreAllMocks();
+  });
+
+  it('creates and warms the primary pool on activate', async () => {
+    const { pools, created } = setup();
+    await pools.activate();
+    expect(created.map((p) => p.model)).toEqual(['haiku']);
+    expect(created[0].activate).toHaveBeenCalledTimes(1);
+  });
+
+  it('creates a pool per model on first use and reuses it', async () => {
+    const { pools, created } = setup();
+    await pools.activate();
+
+    const first = await pools.use('sonnet', async (p) => p.model);
+    const second = await pools.use('sonnet', async (p) => p.model);
+    expect([first, second]).toEqual(['sonnet', 'sonnet']);
+    expect(created.map((p) => p.model)).toEqual(['haiku', 'sonnet']);
+    // The primary pool is untouched
+    expect(created[0].dispose).not.toHaveBeenCalled();
+  });
+
+  it('tears down idle non-primary pools but keeps the primary', async () => {
+    const { pools, created } = setup();
+    await pools.activate();
+    await pools.use('sonnet', async () => null);
+
+    pools.sweep(Date.now() + POOL_IDLE_MS + 1);
+    expect(pools.peek('sonnet')).toBeUndefined();
+    expect(created[1].dispose).toHaveBeenCalledTimes(1);
+    expect(pools.peek('haiku')).toBe(created[0]);
+  });
+
+  it('never tears down a pool with a request in flight', async () => {
+    const { pools } = setup();
+    await pools.activate();
+
+    let finish!: () => void;
+    const running = pools.use(
+      'sonnet',
+      () =>
+        new Promise<void>((resolve) => {
+          finish = resolve;
+        }),
+    );
+    // Let the pool finish warming so the request is running
+    await new Promise((r) => setTimeout(r, 0));
+
+    pools.sweep(Date.now() + POOL_IDLE_MS + 1);
+    expect(pools.peek('sonnet')).toBeDefined();
+
+    finish();
+    await running;
+  });
+
+  it('leaves the old primary to idle teardown after the primary changes', async () => {
+    const { pools, created } = setup();
+    await pools.activate();
+
+    pools.setPrimary('sonnet');
+    expect(pools.primary).toBe('sonnet');
+    expect(created.map((p) => p.model)).toEqual(['haiku', 'sonnet']);
+
+    pools.sweep(Date.now() + POOL_IDLE_MS + 1);
+    expect(pools.peek('haiku')).toBeUndefined();
+    expect(pools.peek('sonnet')).toBe(created[1]);
+  });
+
+  it('disposes every pool on dispose', async () => {
+    const { pools, created } = setup();
+    await pools.activate();
+    await pools.use('sonnet', async () => null);
+
+    pools.dispose();
+    expect(created.every((p) => p.dispose.mock.calls.length === 1)).toBe(true);
+    expect(pools.all()).toEqual([]);
+  });
+});
@@ -36,6 +36,31 @@ function mockFetchOk(body: unknown) {
   });
 }
 
+function mockFetchStream(lines: unknown[]) {
+  const encoder = new TextEncoder();
+  const text = lines.map((line) => JSON.stringify(line) + '\n').join('');
+  // Split mid-line so the reader has to buffer partial NDJSON records
+  const mid = Math.floor(text.length / 2);
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(text.slice(0, mid)));
+      controller.enqueue(encoder.encode(text.slice(mid)));
+      controller.close();
+    },
+  });
+  return vi.fn().mockResolvedValue({ ok: true, status: 200, body });
+}
+
+async function collectStream(gen: AsyncGenerator<string, unknown>) {
+  const chunks: string[] = [];
+  let next = await gen.next();
+  while (!next.done) {
+    chunks.push(next.value);
+    next = await gen.next();
+  }
+  return { chunks, result: next.value };
+}
+
 const defaultOptions = {
   signal: AbortSignal.timeout(5000),
   maxTokens: 200,
@@ -428,6 +453,81 @@ describe('OllamaAdapter', () => {
     });
   });
 
+  describe('completeFim', () => {
+    it('posts prefix and suffix to /api/generate', async () => {
+      const fetchMock = mockFetchOk(makeOllamaResponse({ message: undefined, response: 'a + b' }));
+      globalThis.fetch = fetchMock;
+
+      const adapter = new OllamaAdapter(makePreset({ baseUrl: 'http://localhost:11434/v1' }));
+      const result = await adapter.completeFim('return ', ';\n}', defaultOptions);
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:11434/api/generate',
+        expect.anything(),
+      );
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.prompt).toBe('return ');
+      expect(body.suffix).toBe(';\n}');
+      expect(body.stream).toBe(false);
+      expect(body.messages).toBeUndefined();
+      expect(body.options.num_predict).toBe(200);
+      expect(result.text).toBe('a + b');
+      expect(result.usage).toEqual({ inputTokens: 42, outputTokens: 10 });
+    });
+
+    it('streams response deltas', async () => {
+      globalThis.fetch = mockFetchStream([
+        { model: 'qwen3.5:9b', response: 'a +', done: false },
+        { model: 'qwen3.5:9b', response: ' b', done: false },
+        makeOllamaResponse({ message: undefined, response: '' }),
+      ]);
+
+      const adapter = new OllamaAdapter(makePreset());
+      const { chunks, result } = await collectStream(
+        adapter.streamFim('return ', ';', defaultOptions),
+      );
+
+      expect(chunks).toEqual(['a +', ' b']);
+      expect(result).toMatchObject({ text: 'a + b' });
+    });
+  });
+
+  describe('stream', () => {
+    it('yields content deltas and returns usage from the final record', async () => {
+      const fetchMock = mockFetchStream([
+        { model: 'qwen3.5:9b', message: { role: 'assistant', content: 'Hello' }, done: false },
+        { model: 'qwen3.5:9b', message: { role: 'assistant', content: ' world' }, done: false },
+        makeOllamaResponse({ message: { role: 'assistant', content: '' } }),
+      ]);
+      globalThis.fetch = fetchMock;
+
+      const adapter = new OllamaAdapter(makePreset());
+      const { chunks, result } = await collectStream(
+        adapter.stream('sys', [{ role: 'user', content: 'hi' }], defaultOptions),
+      );
+
+      expect(chunks).toEqual(['Hello', ' world']);
+      expect(result).toMatchObject({
+        text: 'Hello world',
+        usage: { inputTokens: 42, outputTokens: 10 },
+        model: 'qwen3.5:9b',
+      });
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+    });
+
+    it('returns null text on rate limit', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue({ ok: false, status: 429 });
+
+      const adapter = new OllamaAdapter(makePreset());
+      const { chunks, result } = await collectStream(
+        adapter.stream('sys', [{ role: 'user', content: 'hi' }], defaultOptions),
+      );
+
+      expect(chunks).toEqual([]);
+      expect(result).toMatchObject({ text: null });
+    });
+  });
+
   describe('providerId', () => {
     it('is ollama', () => {
       const adapter = new OllamaAdapter(makePreset());
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PoolClient } from '../../pool-server/client';
+import { PartialCompletionCallback } from '../../types';
+import { makeConfig, makeLedger, makeLogger, makeProseContext } from '../helpers';
+
+function makeClient(): PoolClient {
+  return new PoolClient({
+    config: makeConfig(),
+    logger: makeLogger(),
+    ledger: makeLedger().ledger,
+    clientId: 'test-window',
+  });
+}
+
+async function collect<T>(iterator: AsyncGenerator<string, T>) {
+  const partials: string[] = [];
+  let next = await iterator.next();
+  while (!next.done) {
+    partials.push(next.value);
+    next = await iterator.next();
+  }
+  return { partials, result: next.value };
+}
+
+describe('PoolClient streaming iterators', () => {
+  it('yields each completion partial, then returns the final completion', async () => {
+    const client = makeClient();
+    vi.spyOn(client, 'getCompletion').mockImplementation(
+      async (_context, _signal, onPartial?: PartialCompletionCallback) => {
+        onPartial?.('return');
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        onPartial?.('return a');
+        return 'return a + b;';
+      },
+    );
+
+    const { partials, result } = await collect(
+      client.streamCompletion(makeProseContext(), new AbortController().signal),
+    );
+    expect(partials).toEqual(['return', 'return a']);
+    expect(result).toBe('return a + b;');
+  });
+
+  it('yields each command partial, then returns the final result', async () => {
+    const client = makeClient();
+    vi.spyOn(client, 'sendCommand').mockImplementation(async (_message, options) => {
+      options?.onPartial?.('feat:');
+      options?.onPartial?.('feat: add');
+      return { text: 'feat: add streaming', meta: null };
+    });
+
+    const { partials, result } = await collect(client.streamCommand('write a commit message'));
+    expect(partials).toEqual(['feat:', 'feat: add']);
+    expect(result.text).toBe('feat: add streaming');
+  });
+
+  it('rethrows a failure once the partials are consumed', async () => {
+    const client = makeClient();
+    vi.spyOn(client, 'getCompletion').mockImplementation(
+      async (_context, _signal, onPartial?: PartialCompletionCallback) => {
+        onPartial?.('return');
+        throw new Error('pool degraded');
+      },
+    );
+
+    await expect(
+      collect(client.streamCompletion(makeProseContext(), new AbortController().signal)),
+    ).rejects.toThrow('pool degraded');
+  });
+
+  it('leaves no unhandled rejection when the consumer stops early', async () => {
+    const client = makeClient();
+    const unhandled = vi.fn();
+    process.on('unhandledRejection', unhandled);
+    let fail!: (err: Error) => void;
+    vi.spyOn(client, 'getCompletion').mockImplementation(
+      (_context, _signal, onPartial?: PartialCompletionCallback) => {
+        onPartial?.('return');
+        return new Promise((_resolve, reject) => {
+          fail = reject;
+        });
+      },
+    );
+
+    for await (const partial of client.streamCompletion(
+      makeProseContext(),
+      new AbortController().signal,
+    )) {
+      expect(partial).toBe('return');
+      break;
+    }
+    fail(new Error('pool degraded'));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    process.off('unhandledRejection', unhandled);
+    expect(unhandled).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { daemonConfig, readDaemonConfig } from '../../pool-server/daemon';
+import { main } from '../../pool-server/cli';
+
+// No server is running: the CLI must not reach a real one on this machine
+vi.mock('../../pool-server/ipc-path', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../pool-server/ipc-path')>()),
+  ipcEndpointMayExist: () => false,
+}));
+
+describe('daemonConfig', () => {
+  it('uses the defaults when no settings are given', () => {
+    const config = daemonConfig({});
+    expect(config.backend).toBe('claude-code');
+    expect(config.claudeCode.completionSlots).toBe(1);
+    expect(config.claudeCode.idleShutdownMinutes).toBe(30);
+    expect(config.httpEndpoint).toEqual({ enabled: false, port: 8741 });
+  });
+
+  it('reads settings by their VS Code keys and clamps them', () => {
+    const config = daemonConfig({
+      'claudeCode.model': 'haiku',
+      'claudeCode.completionSlots': 9,
+      'claudeCode.idleShutdownMinutes': 0,
+      'httpEndpoint.enabled': true,
+      'api.maxRequestsPerMinute': 30,
+    });
+    expect(config.claudeCode.model).toBe('haiku');
+    expect(config.claudeCode.completionSlots).toBe(4);
+    expect(config.claudeCode.idleShutdownMinutes).toBe(0);
+    expect(config.httpEndpoint.enabled).toBe(true);
+    expect(config.api.maxRequestsPerMinute).toBe(30);
+  });
+
+  it('ignores settings of the wrong type', () => {
+    const config = daemonConfig({ 'claudeCode.model': 3, 'claudeCode.commandSlots': '2' });
+    expect(config.claudeCode.model).toBe(daemonConfig({}).claudeCode.model);
+    expect(config.claudeCode.commandSlots).toBe(1);
+  });
+});
+
+describe('readDaemonConfig', () => {
+  const dirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of dirs) fs.rmSync(dir, { recursive: true, force: true });
+    dirs.length = 0;
+  });
+
+  function writeConfig(content: string): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bespoke-daemon-'));
+    dirs.push(dir);
+    const file = path.join(dir, 'daemon.json');
+    fs.writeFileSync(file, content);
+    return file;
+  }
+
+  it('treats a missing file as all defaults', () => {
+    expect(readDaemonConfig(path.join(os.tmpdir(), 'no-such-daemon.json'))).toEqual(
+      daemonConfig({}),
+    );
+  });
+
+  it('reads a settings file', () => {
+    const file = writeConfig(JSON.stringify({ 'claudeCode.model': 'opus' }));
+    expect(readDaemonConfig(file).claudeCode.model).toBe('opus');
+  });
+
+  it('rejects a file that is not a settings object', () => {
+    expect(() => readDaemonConfig(writeConfig('["haiku"]'))).toThrow('expected a JSON object');
+  });
+});
+
+describe('bespoke-pool CLI', () => {
+  it('exits 3 when no server is running', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await main(['status'])).toBe(3);
+    expect(error).toHaveBeenCalledWith('bespoke-pool: no pool server is running');
+    error.mockRestore();
+  });
+
+  it('prints usage for unknown commands', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    expect(await main(['frobnicate'])).toBe(1);
+    expect(await main([])).toBe(0);
+    expect(log.mock.calls[0][0]).toContain('Usage: bespoke-pool');
+    log.mockRestore();
+  });
+
+  it('rejects unknown pool names before connecting', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await main(['recycle', 'everything'])).toBe(1);
+    expect(error).toHaveBeenCalledWith('bespoke-pool: unknown pool: everything');
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import { describe, it, expect, vi, afterEach, afterAll } from 'vitest';
+import { PoolServer, acquireLock, readLockfile } from '../../pool-server/server';
+import { PoolClient } from '../../pool-server/client';
+import { STATE_DIR } from '../../pool-server/ipc-path';
+import { makeCodeContext, makeConfig, makeLedger, makeLogger } from '../helpers';
+
+const { created, warmup } = vi.hoisted(() => ({
+  created: [] as Array<Record<string, any>>,
+  warmup: { stalled: false },
+}));
+
+// Socket and lock in a temporary directory, away from any real server
+vi.mock('../../pool-server/ipc-path', async () => {
+  const fs = await import('fs');
+  const os = await import('os');
+  const path = await import('path');
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bespoke-handoff-'));
+  const socketPath = path.join(dir, 'pool.sock');
+  return {
+    STATE_DIR: dir,
+    LOCK_PATH: path.join(dir, 'pool.lock'),
+    getIpcPath: () => socketPath,
+    ipcEndpointMayExist: () => fs.existsSync(socketPath),
+    cleanupStaleEndpoint: () => fs.rmSync(socketPath, { force: true }),
+    ensureStateDir: () => fs.mkdirSync(dir, { recursive: true }),
+  };
+});
+
+vi.mock('../../pool-server/process-registry', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../pool-server/process-registry')>()),
+  reapOrphanedProcesses: () => [],
+}));
+
+// The first completion pool created (the original server's) never answers;
+// later ones (the successor's) answer at once
+vi.mock('../../providers/claude-code', async () => {
+  const { vi } = await import('vitest');
+  class FakeProvider {
+    index = created.length;
+    lastUsedModel = 'haiku';
+    activate = vi.fn(
+      (): Promise<void> =>
+        this.index > 0 && warmup.stalled ? new Promise(() => {}) : Promise.resolve(),
+    );
+    dispose = vi.fn();
+    setLedger() {}
+    setIdleTimeout() {}
+    isAvailable() {
+      return true;
+    }
+    getCompletion = vi.fn(
+      (_context: unknown, signal: AbortSignal): Promise<string | null> =>
+        this.index === 0
+          ? new Promise((resolve) => signal.addEventListener('abort', () => resolve(null)))
+          : Promise.resolve('from the new server'),
+    );
+    constructor() {
+      created.push(this);
+    }
+  }
+  return { ClaudeCodeProvider: FakeProvider };
+});
+
+vi.mock('../../providers/command-pool', async () => {
+  const { vi } = await import('vitest');
+  class FakeCommandPool {
+    activate = vi.fn(async () => {});
+    dispose = vi.fn();
+    setLedger() {}
+    setIdleTimeout() {}
+  }
+  return { CommandPool: FakeCommandPool };
+});
+
+describe('server handoff', () => {
+  const disposables: Array<{ dispose(): void }> = [];
+
+  afterEach(() => {
+    for (const d of disposables.reverse()) d.dispose();
+    disposables.length = 0;
+    created.length = 0;
+    warmup.stalled = false;
+  });
+
+  afterAll(() => {
+    fs.rmSync(STATE_DIR, { recursive: true, force: true });
+  });
+
+  function makeClient(clientId: string): PoolClient {
+    const client = new PoolClient({
+      config: makeConfig(),
+      logger: makeLogger(),
+      ledger: makeLedger().ledger,
+      clientId,
+    });
+    disposables.push(client);
+    return client;
+  }
+
+  async function startServer(): Promise<PoolServer> {
+    const server = new PoolServer({
+      config: makeConfig(),
+      logger: makeLogger(),
+      ledger: makeLedger().ledger,
+      serverId: 'original',
+    });
+    disposables.push(server);
+    expect(acquireLock(process.pid)).toBe(true);
+    await server.start();
+    return server;
+  }
+
+  it('hands the server to the oldest client and resends unanswered requests to it', async () => {
+    const server = await startServer();
+    const successor = makeClient('window-a');
+    await successor.activate();
+    const other = makeClient('window-b');
+    await other.activate();
+    expect(successor.getRole()).toBe('client');
+
+    const completion = other.getCompletion(makeCodeContext(), new AbortController().signal);
+    await vi.waitFor(() => expect(created[0].getCompletion).toHaveBeenCalled());
+
+    await server.handOff();
+    // The successor warmed its pool before the original server shut down
+    expect(created[1].activate).toHaveBeenCalled();
+    expect(created[0].dispose).toHaveBeenCalled();
+
+    expect(await completion).toBe('from the new server');
+    expect(successor.getRole()).toBe('server');
+    expect(other.getRole()).toBe('client');
+    expect(readLockfile()?.pid).toBe(process.pid);
+  });
+
+  it('shuts down at once when no client can take over', async () => {
+    const server = await startServer();
+    await server.handOff();
+
+    expect(created[0].dispose).toHaveBeenCalled();
+    expect(readLockfile()).toBeNull();
+  });
+
+  it('closes after the given timeout when the successor is slow to warm up', async () => {
+    const server = await startServer();
+    await makeClient('window-a').activate();
+    warmup.stalled = true;
+
+    const start = Date.now();
+    await server.handOff(50);
+
+    expect(Date.now() - start).toBeLessThan(1_000);
+    expect(created[0].dispose).toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,8 @@
-import { postProcessCompletion } from '../../utils/post-process';
+import {
+  dedupeCompletions,
+  postProcessCompletion,
+  postProcessPartialCompletion,
+} from '../../utils/post-process';
 
 describe('postProcessCompletion', () => {
   it('passes through text unchanged', () => {
@@ -274,3 +278,37 @@ describe('mode-gated suffix overlap', () => {
     expect(result).toBe('some code');
   });
 });
+
+describe('postProcessPartialCompletion', () => {
+  it('passes through text without a prefix', () => {
+    expect(postProcessPartialCompletion('Hello wor')).toBe('Hello wor');
+  });
+
+  it('returns null for blank text', () => {
+    expect(postProcessPartialCompletion('  \n')).toBeNull();
+  });
+
+  it('holds back text that may still be an echo of the line fragment', () => {
+    expect(postProcessPartialCompletion('The quick', 'Intro\nThe quick brown')).toBeNull();
+  });
+
+  it('trims the echoed line fragment once it is complete', () => {
+    expect(postProcessPartialCompletion('The quick brown fox', 'Intro\nThe quick brown')).toBe(
+      ' fox',
+    );
+  });
+
+  it('strips leaked tags', () => {
+    expect(postProcessPartialCompletion('<COMPLETION>hello')).toBe('hello');
+  });
+});
+
+describe('dedupeCompletions', () => {
+  it('drops empty and duplicate candidates, keeping the first occurrence', () => {
+    expect(dedupeCompletions(['a b', null, 'c', 'a b', ''])).toEqual(['a b', 'c']);
+  });
+
+  it('treats candidates differing only in trailing whitespace as duplicates', () => {
+    expect(dedupeCompletions(['done.', 'done.\n', 'other'])).toEqual(['done.', 'other']);
+  });
+});
@@ -13,6 +13,7 @@ import {
   DEFAULT_PRESET_ID,
   isPresetAvailable,
   findFirstAvailablePreset,
+  estimateCostUsd,
 } from '../../providers/api/presets';
 
 const mockResolveApiKey = vi.mocked(resolveApiKey);
@@ -44,7 +45,12 @@ describe('Presets', () => {
     });
 
     it('all presets have valid promptStrategy values', () => {
-      const validStrategies = ['tag-extraction', 'prefill-extraction', 'instruction-extraction'];
+      const validStrategies = [
+        'tag-extraction',
+        'prefill-extraction',
+        'instruction-extraction',
+        'native-fim',
+      ];
       for (const preset of getAllPresets()) {
         expect(validStrategies).toContain(preset.promptStrategy);
       }
@@ -153,6 +159,25 @@ describe('Presets', () => {
       expect(preset?.features).toBeUndefined();
     });
 
+    it('honors an explicit promptStrategy override', () => {
+      registerCustomPresets([
+        {
+          name: 'Coder FIM',
+          provider: 'ollama',
+          modelId: 'qwen2.5-coder:7b',
+          promptStrategy: 'native-fim',
+        },
+      ]);
+      expect(getPreset('custom-coder-fim')?.promptStrategy).toBe('native-fim');
+    });
+
+    it('auto-populates baseUrl for llama.cpp custom presets', () => {
+      registerCustomPresets([{ name: 'Local', provider: 'llamacpp', modelId: 'default' }]);
+      const preset = getPreset('custom-local');
+      expect(preset?.baseUrl).toBe('http://localhost:8080');
+      expect(preset?.apiKeyEnvVar).toBeUndefined();
+    });
+
     it('direct Anthropic custom preset gets caching + prefill', () => {
       registerCustomPresets([
         { name: 'My Haiku', provider: 'anthropic', modelId: 'claude-haiku-4-5-20251001' },
@@ -244,6 +269,53 @@ describe('Presets', () => {
       expect(preset?.extraBody).toBeUndefined();
       expect(preset?.extraHeaders).toBeUndefined();
     });
+
+    it('takes pricing from the preset, and prices local providers as free', () => {
+      registerCustomPresets([
+        {
+          name: 'Priced',
+          provider: 'openai-compat',
+          modelId: 'm',
+          pricing: { input: 0.5, output: 1 },
+        },
+        { name: 'Local', provider: 'ollama', modelId: 'llama3' },
+        { name: 'Unpriced', provider: 'openai-compat', modelId: 'm' },
+      ]);
+      expect(getPreset('custom-priced')?.pricing).toEqual({ input: 0.5, output: 1 });
+      expect(getPreset('custom-local')?.pricing).toEqual({ input: 0, output: 0 });
+      expect(getPreset('custom-unpriced')?.pricing).toBeUndefined();
+    });
+  });
+
+  describe('estimateCostUsd', () => {
+    it('prices every built-in preset', () => {
+      for (const preset of getAllPresets().filter((p) => getBuiltInPresetIds().includes(p.id))) {
+        expect(preset.pricing, preset.id).toBeDefined();
+      }
+    });
+
+    it('charges input, output and cache reads at their own rates', () => {
+      const preset = getPreset('anthropic-haiku')!;
+      const cost = estimateCostUsd(preset, {
+        inputTokens: 1_000_000,
+        outputTokens: 100_000,
+        cacheReadTokens: 2_000_000,
+      });
+      // $1 in + $0.50 out + $0.20 cache reads
+      expect(cost).toBeCloseTo(1.7);
+    });
+
+    it('charges cache reads at the input rate when no cache price is set', () => {
+      const preset = { ...getPreset('anthropic-haiku')!, pricing: { input: 2, output: 4 } };
+      expect(
+        estimateCostUsd(preset, { inputTokens: 0, outputTokens: 0, cacheReadTokens: 500_000 }),
+      ).toBeCloseTo(1);
+    });
+
+    it('returns undefined without pricing', () => {
+      const preset = { ...getPreset('anthropic-haiku')!, pricing: undefined };
+      expect(estimateCostUsd(preset, { inputTokens: 10, outputTokens: 10 })).toBeUndefined();
+    });
   });
 
   describe('isPresetAvailable', () => {
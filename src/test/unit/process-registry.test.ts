@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn, ChildProcess } from 'child_process';
+import { describe, it, expect, vi, afterEach, afterAll } from 'vitest';
+import {
+  PROCESSES_DIR,
+  SlotProcessRecord,
+  forgetSlotProcess,
+  isProcessAlive,
+  readProcessRecords,
+  reapOrphanedProcesses,
+  recordSlotProcess,
+} from '../../pool-server/process-registry';
+
+// Keep the registry out of the real ~/.bespokeai
+vi.mock('../../pool-server/ipc-path', async () => {
+  const fs = await import('fs');
+  const os = await import('os');
+  const path = await import('path');
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bespokeai-registry-'));
+  return {
+    STATE_DIR: dir,
+    ensureStateDir: () => fs.mkdirSync(dir, { recursive: true }),
+  };
+});
+
+function makeRecord(overrides: Partial<SlotProcessRecord> = {}): SlotProcessRecord {
+  return {
+    pid: 1_000_001,
+    ownerPid: process.pid,
+    pool: 'Claude Code',
+    model: 'haiku',
+    slot: 0,
+    generation: 0,
+    startedAt: Date.now(),
+    ...overrides,
+  };
+}
+
+/** A PID that belonged to a process which has exited. */
+async function deadPid(): Promise<number> {
+  const child = spawn(process.execPath, ['-e', '']);
+  await new Promise((r) => child.once('exit', r));
+  return child.pid!;
+}
+
+/** A long-running process whose command line contains `marker`. */
+function sleeper(marker: string): ChildProcess {
+  return spawn(process.execPath, ['-e', 'setTimeout(() => {}, 30000)', marker], {
+    stdio: 'ignore',
+  });
+}
+
+describe('process registry', () => {
+  const children: ChildProcess[] = [];
+
+  afterEach(() => {
+    for (const child of children) {
+      if (child.exitCode === null) child.kill();
+    }
+    children.length = 0;
+    fs.rmSync(PROCESSES_DIR, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(path.dirname(PROCESSES_DIR), { recursive: true, force: true });
+  });
+
+  it('records and forgets slot processes', () => {
+    recordSlotProcess(makeRecord({ pid: 11 }));
+    recordSlotProcess(makeRecord({ pid: 12, slot: 1 }));
+    expect(readProcessRecords().map((r) => r.pid)).toEqual([11, 12]);
+
+    forgetSlotProcess(11);
+    expect(readProcessRecords().map((r) => r.pid)).toEqual([12]);
+  });
+
+  it('returns no records when the file is missing or corrupt', () => {
+    expect(readProcessRecords()).toEqual([]);
+    fs.mkdirSync(PROCESSES_DIR, { recursive: true });
+    fs.writeFileSync(path.join(PROCESSES_DIR, `${process.pid}.json`), '{not json');
+    expect(readProcessRecords()).toEqual([]);
+  });
+
+  it('keeps each owner’s records in its own file', async () => {
+    const otherOwner = await deadPid();
+    recordSlotProcess(makeRecord({ pid: 31 }));
+    recordSlotProcess(makeRecord({ pid: 32, ownerPid: otherOwner }));
+    forgetSlotProcess(32);
+
+    expect(readProcessRecords().map((r) => r.pid)).toEqual(expect.arrayContaining([31, 32]));
+    expect(fs.readdirSync(PROCESSES_DIR).sort()).toEqual(
+      [`${otherOwner}.json`, `${process.pid}.json`].sort(),
+    );
+  });
+
+  it('keeps records whose owner is still running', () => {
+    recordSlotProcess(makeRecord({ pid: 21 }));
+    expect(reapOrphanedProcesses()).toEqual([]);
+    expect(readProcessRecords().map((r) => r.pid)).toEqual([21]);
+  });
+
+  it('terminates slot processes whose owner has died', async () => {
+    const orphan = sleeper('claude-agent-sdk');
+    children.push(orphan);
+    recordSlotProcess(makeRecord({ pid: orphan.pid!, ownerPid: await deadPid() }));
+
+    const exited = new Promise((r) => orphan.once('exit', r));
+    expect(reapOrphanedProcesses()).toEqual([orphan.pid]);
+    await exited;
+    expect(isProcessAlive(orphan.pid!)).toBe(false);
+    expect(readProcessRecords()).toEqual([]);
+  });
+
+  it('leaves a reused PID alone when it is not a slot process', async () => {
+    const unrelated = sleeper('something-else');
+    children.push(unrelated);
+    recordSlotProcess(makeRecord({ pid: unrelated.pid!, ownerPid: await deadPid() }));
+
+    expect(reapOrphanedProcesses()).toEqual([]);
+    expect(isProcessAlive(unrelated.pid!)).toBe(true);
+    expect(readProcessRecords()).toEqual([]);
+  });
+});
@@ -6,6 +6,7 @@ import {
   tagExtraction,
   prefillExtraction,
   instructionExtraction,
+  nativeFim,
   getPromptStrategy,
 } from '../../providers/prompt-strategy';
 
@@ -41,6 +42,56 @@ describe('Shared prompt components', () => {
       const msg = buildFillMessage('a', 'b');
       expect(msg).toContain('language="plaintext"');
     });
+
+    it('puts related files in a separate block before the document', () => {
+      const msg = buildFillMessage('const total = ', ';', 'typescript', {
+        relatedFiles: [
+          { filePath: 'src/math.ts', content: 'export function sum(xs: number[]) {}' },
+        ],
+      });
+      expect(msg).toMatch(
+        /^<related_files>\n<file path="src\/math.ts">\nexport function sum\(xs: number\[\]\) \{\}\n<\/file>\n<\/related_files>\n\n<document/,
+      );
+      expect(msg).toContain('const total = {{FILL_HERE}};');
+    });
+
+    it('omits the related files block when there are none', () => {
+      expect(buildFillMessage('a', 'b', 'plaintext', { relatedFiles: [] })).not.toContain(
+        '<related_files>',
+      );
+    });
+
+    it('puts retrieved context ahead of related files', () => {
+      const msg = buildFillMessage('a', 'b', 'markdown', {
+        relatedFiles: [{ filePath: 'open.md', content: 'open tab' }],
+        retrievedChunks: [{ filePath: 'docs/glossary.md', content: 'Widget: a thing' }],
+      });
+      expect(msg).toMatch(
+        /^<retrieved_context>\n<file path="docs\/glossary.md">\nWidget: a thing\n<\/file>\n<\/retrieved_context>\n\n<related_files>/,
+      );
+    });
+
+    it('puts symbol signatures directly above the document', () => {
+      const msg = buildFillMessage('fetchUser(', ')', 'typescript', {
+        relatedFiles: [{ filePath: 'src/api.ts', content: 'open tab' }],
+        symbols: [
+          {
+            name: 'fetchUser',
+            signature: 'function fetchUser(id: string, force?: boolean): Promise<User>',
+            filePath: 'src/api.ts',
+            line: 12,
+          },
+          { name: 'trim', signature: '(method) String.trim(): string' },
+        ],
+      });
+      expect(msg).toContain(
+        '</related_files>\n\n<symbols>\n<symbol name="fetchUser" path="src/api.ts:12">\nfunction fetchUser(id: string, force?: boolean): Promise<User>\n</symbol>\n<symbol name="trim">\n(method) String.trim(): string\n</symbol>\n</symbols>\n\n<document',
+      );
+    });
+
+    it('omits the symbols block when there are none', () => {
+      expect(buildFillMessage('a', 'b', 'typescript', { symbols: [] })).not.toContain('<symbols>');
+    });
   });
 
   describe('extractCompletion', () => {
@@ -160,4 +211,53 @@ describe('getPromptStrategy', () => {
   it('returns instruction-extraction strategy', () => {
     expect(getPromptStrategy('instruction-extraction')).toBe(instructionExtraction);
   });
+
+  it('returns native-fim strategy', () => {
+    expect(getPromptStrategy('native-fim')).toBe(nativeFim);
+  });
+});
+
+describe('NativeFim strategy', () => {
+  it('has the correct id', () => {
+    expect(nativeFim.id).toBe('native-fim');
+  });
+
+  it('returns the raw response unchanged', () => {
+    expect(nativeFim.extractCompletion('  return a + b;\n}')).toBe('  return a + b;\n}');
+  });
+
+  it('does not strip tags or preamble', () => {
+    expect(nativeFim.extractCompletion('Sure, <COMPLETION>')).toBe('Sure, <COMPLETION>');
+  });
+
+  it('returns null for whitespace-only responses', () => {
+    expect(nativeFim.extractCompletion('  \n')).toBeNull();
+    expect(nativeFim.extractPartial('')).toBeNull();
+  });
+});
+
+describe('extractPartial', () => {
+  it('returns null until the opening tag arrives', () => {
+    expect(tagExtraction.extractPartial('<COMP')).toBeNull();
+    expect(instructionExtraction.extractPartial('Sure! <COMPLETION')).toBeNull();
+  });
+
+  it('returns the content streamed after the opening tag', () => {
+    expect(tagExtraction.extractPartial('<COMPLETION>the result so')).toBe('the result so');
+    expect(instructionExtraction.extractPartial('<COMPLETION>the result')).toBe('the result');
+  });
+
+  it('stops at the closing tag', () => {
+    expect(tagExtraction.extractPartial('<COMPLETION>done</COMPLETION> trailing')).toBe('done');
+  });
+
+  it('holds back a partially streamed closing tag', () => {
+    expect(tagExtraction.extractPartial('<COMPLETION>done</COMPL')).toBe('done');
+    expect(prefillExtraction.extractPartial('done</')).toBe('done');
+  });
+
+  it('prefill strategy treats everything before the closing tag as content', () => {
+    expect(prefillExtraction.extractPartial('the result so')).toBe('the result so');
+    expect(prefillExtraction.extractPartial('')).toBeNull();
+  });
 });
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PROTOCOL_VERSION,
+  checkCompatibility,
+  parseMessage,
+  serializeMessage,
+} from '../../pool-server/protocol';
+
+describe('checkCompatibility', () => {
+  it('accepts a server on the same version', () => {
+    expect(checkCompatibility({ protocolVersion: PROTOCOL_VERSION, minProtocolVersion: 1 })).toBe(
+      'compatible',
+    );
+  });
+
+  it('treats a server that sends no version as outdated', () => {
+    expect(checkCompatibility({})).toBe('server-outdated');
+  });
+
+  it('flags an older server as outdated', () => {
+    expect(checkCompatibility({ protocolVersion: PROTOCOL_VERSION - 1 })).toBe('server-outdated');
+  });
+
+  it('accepts a newer server that still serves this version', () => {
+    expect(
+      checkCompatibility({
+        protocolVersion: PROTOCOL_VERSION + 1,
+        minProtocolVersion: PROTOCOL_VERSION,
+      }),
+    ).toBe('compatible');
+  });
+
+  it('flags this client as outdated when a newer server no longer serves it', () => {
+    expect(
+      checkCompatibility({
+        protocolVersion: PROTOCOL_VERSION + 1,
+        minProtocolVersion: PROTOCOL_VERSION + 1,
+      }),
+    ).toBe('client-outdated');
+  });
+});
+
+describe('serializeMessage / parseMessage', () => {
+  it('round-trips an error response with its code', () => {
+    const line = serializeMessage({
+      type: 'error',
+      id: 'abc',
+      success: false,
+      error: 'Unknown request type: frobnicate',
+      code: 'unknown-request',
+    });
+    expect(line.endsWith('\n')).toBe(true);
+    expect(parseMessage(line)).toEqual({
+      type: 'error',
+      id: 'abc',
+      success: false,
+      error: 'Unknown request type: frobnicate',
+      code: 'unknown-request',
+    });
+  });
+
+  it('returns null for malformed lines', () => {
+    expect(parseMessage('{not json')).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { RateLimiter } from '../../utils/rate-limiter';
+
+describe('RateLimiter', () => {
+  it('allows everything when the limit is 0', () => {
+    const limiter = new RateLimiter(0);
+    for (let i = 0; i < 1000; i++) {
+      expect(limiter.tryAcquire(1, 0)).toBe(true);
+    }
+  });
+
+  it('refuses requests over the limit within a minute', () => {
+    const limiter = new RateLimiter(3);
+    expect(limiter.tryAcquire(1, 0)).toBe(true);
+    expect(limiter.tryAcquire(1, 1_000)).toBe(true);
+    expect(limiter.tryAcquire(1, 2_000)).toBe(true);
+    expect(limiter.tryAcquire(1, 3_000)).toBe(false);
+  });
+
+  it('frees room as old requests leave the window', () => {
+    const limiter = new RateLimiter(2);
+    limiter.tryAcquire(1, 0);
+    limiter.tryAcquire(1, 30_000);
+    expect(limiter.tryAcquire(1, 59_999)).toBe(false);
+    expect(limiter.tryAcquire(1, 60_000)).toBe(true);
+    expect(limiter.tryAcquire(1, 60_001)).toBe(false);
+  });
+
+  it('claims nothing when a batch does not fit', () => {
+    const limiter = new RateLimiter(3);
+    limiter.tryAcquire(1, 0);
+    expect(limiter.tryAcquire(3, 0)).toBe(false);
+    expect(limiter.tryAcquire(2, 0)).toBe(true);
+  });
+
+  it('applies a new limit immediately', () => {
+    const limiter = new RateLimiter(1);
+    limiter.tryAcquire(1, 0);
+    expect(limiter.tryAcquire(1, 0)).toBe(false);
+    limiter.setLimit(2);
+    expect(limiter.tryAcquire(1, 0)).toBe(true);
+  });
+});
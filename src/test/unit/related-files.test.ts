@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('vscode', () => ({}));
+
+import { selectRelatedSnippets, tokenize } from '../../utils/related-files';
+
+/** Build a file of `n` filler lines with optional content spliced in at `at`. */
+function makeFile(n: number, insert: string[] = [], at = 0): string {
+  const lines = Array.from({ length: n }, (_, i) => `// filler line ${i}`);
+  lines.splice(at, insert.length, ...insert);
+  return lines.join('\n');
+}
+
+describe('tokenize', () => {
+  it('extracts identifier-like tokens of three or more characters', () => {
+    expect([...tokenize('const x = fetchUser(id, $scope);')]).toEqual([
+      'const',
+      'fetchUser',
+      '$scope',
+    ]);
+  });
+});
+
+describe('selectRelatedSnippets', () => {
+  const query = 'const user = await fetchUserProfile(userId);\nrenderUserProfile(';
+
+  it('ranks the most similar window first', () => {
+    const snippets = selectRelatedSnippets(
+      query,
+      [
+        { filePath: 'a.ts', text: 'export function unrelatedThing() {}' },
+        {
+          filePath: 'b.ts',
+          text: 'export async function fetchUserProfile(userId: string) {}\nexport function renderUserProfile(user) {}',
+        },
+      ],
+      2000,
+    );
+    expect(snippets[0].filePath).toBe('b.ts');
+    expect(snippets[0].content).toContain('fetchUserProfile');
+  });
+
+  it('skips candidates with no shared tokens', () => {
+    const snippets = selectRelatedSnippets(
+      query,
+      [{ filePath: 'a.ts', text: 'nothing in common here' }],
+      2000,
+    );
+    expect(snippets).toEqual([]);
+  });
+
+  it('respects the character budget', () => {
+    const text = makeFile(100, ['fetchUserProfile renderUserProfile userId'], 50);
+    const snippets = selectRelatedSnippets(
+      query,
+      [
+        { filePath: 'a.ts', text },
+        { filePath: 'b.ts', text },
+      ],
+      500,
+    );
+    const total = snippets.reduce((n, s) => n + s.content.length, 0);
+    expect(total).toBeLessThanOrEqual(500);
+    expect(snippets.length).toBeGreaterThan(0);
+  });
+
+  it('never returns overlapping windows from the same file', () => {
+    const text = makeFile(60, ['fetchUserProfile userId'], 15);
+    const snippets = selectRelatedSnippets(query, [{ filePath: 'a.ts', text }], 100_000);
+    const occurrences = snippets.filter((s) => s.content.includes('fetchUserProfile'));
+    expect(occurrences).toHaveLength(1);
+  });
+
+  it('returns nothing when the budget is zero', () => {
+    expect(
+      selectRelatedSnippets(query, [{ filePath: 'a.ts', text: 'fetchUserProfile' }], 0),
+    ).toEqual([]);
+  });
+});
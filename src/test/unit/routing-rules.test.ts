@@ -0,0 +1,80 @@
+import * as os from 'os';
+import { describe, it, expect } from 'vitest';
+import { findRoutingRule, globToRegExp, matchesGlob } from '../../utils/routing-rules';
+import { RoutingRule } from '../../types';
+
+describe('globToRegExp', () => {
+  it('keeps single stars within a directory and lets double stars span them', () => {
+    expect(globToRegExp('src/*.ts').test('src/app.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/lib/app.ts')).toBe(false);
+    expect(globToRegExp('src/**/*.ts').test('src/app.ts')).toBe(true);
+    expect(globToRegExp('src/**/*.ts').test('src/lib/deep/app.ts')).toBe(true);
+    expect(globToRegExp('src/**').test('src/lib/app.ts')).toBe(true);
+  });
+
+  it('supports ? and brace alternatives, and escapes the rest', () => {
+    expect(globToRegExp('*.{md,mdx}').test('notes.mdx')).toBe(true);
+    expect(globToRegExp('*.{md,mdx}').test('notes.txt')).toBe(false);
+    expect(globToRegExp('v?.txt').test('v1.txt')).toBe(true);
+    expect(globToRegExp('a+b.ts').test('a+b.ts')).toBe(true);
+    expect(globToRegExp('*.ts').test('appxts')).toBe(false);
+  });
+});
+
+describe('matchesGlob', () => {
+  it('matches globs without a slash against the file name', () => {
+    expect(matchesGlob('*.ts', '/home/me/project/src/app.ts')).toBe(true);
+    expect(matchesGlob('*.ts', '/home/me/project/src/app.tsx')).toBe(false);
+  });
+
+  it('matches absolute and home-relative globs against the full path', () => {
+    const home = os.homedir();
+    expect(matchesGlob('~/work/confidential/**', `${home}/work/confidential/a/b.py`)).toBe(true);
+    expect(matchesGlob('~/work/confidential/**', `${home}/work/public/b.py`)).toBe(false);
+    expect(matchesGlob('/srv/**/*.go', '/srv/api/main.go')).toBe(true);
+  });
+
+  it('matches other globs against the path within the workspace folder', () => {
+    expect(matchesGlob('src/**', '/home/me/project/src/app.ts', '/home/me/project')).toBe(true);
+    expect(matchesGlob('src/**', '/home/me/project/test/app.ts', '/home/me/project')).toBe(false);
+    expect(matchesGlob('src/**', '/home/me/project/src/app.ts')).toBe(false);
+  });
+
+  it('handles Windows separators', () => {
+    expect(matchesGlob('src/**', 'C:\\code\\app\\src\\main.ts', 'C:\\code\\app')).toBe(true);
+  });
+});
+
+describe('findRoutingRule', () => {
+  const rules: RoutingRule[] = [
+    { workspace: 'secret-project', backend: 'api', model: 'ollama-default' },
+    { glob: '*.ts', mode: 'code', backend: 'api', model: 'xai-grok-code' },
+    { languageId: 'markdown', backend: 'claude-code', model: 'sonnet' },
+  ];
+
+  it('returns the first rule whose conditions all match', () => {
+    const rule = findRoutingRule(rules, {
+      mode: 'code',
+      languageId: 'typescript',
+      filePath: '/home/me/secret-project/app.ts',
+      workspaceFolder: '/home/me/secret-project',
+    });
+    expect(rule?.model).toBe('ollama-default');
+
+    expect(
+      findRoutingRule(rules, { mode: 'code', languageId: 'typescript', filePath: '/x/app.ts' })
+        ?.model,
+    ).toBe('xai-grok-code');
+    expect(findRoutingRule(rules, { mode: 'prose', languageId: 'markdown' })?.model).toBe('sonnet');
+  });
+
+  it('does not match conditions on fields the subject lacks', () => {
+    expect(findRoutingRule(rules, { mode: 'code' })).toBeUndefined();
+    expect(
+      findRoutingRule([{ workspace: '~/work/app', backend: 'api' }], {
+        mode: 'code',
+        workspaceFolder: `${os.homedir()}/work/app`,
+      }),
+    ).toBeDefined();
+  });
+});
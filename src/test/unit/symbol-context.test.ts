@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('vscode', () => ({}));
+
+import { findCandidateIdentifiers, signatureFromHover } from '../../utils/symbol-context';
+
+describe('findCandidateIdentifiers', () => {
+  it('finds call targets and member accesses, most recent first', () => {
+    const prefix = 'const user = fetchUser(id);\nconst name = user.profile.';
+    const names = findCandidateIdentifiers(prefix).map((r) => r.name);
+    expect(names).toEqual(['profile', 'fetchUser']);
+  });
+
+  it('reports the offset of each identifier within the prefix', () => {
+    const prefix = 'const x = api.load(';
+    expect(findCandidateIdentifiers(prefix)).toEqual([
+      { name: 'load', offset: prefix.indexOf('load') },
+    ]);
+  });
+
+  it('skips the word still being typed at the cursor', () => {
+    expect(findCandidateIdentifiers('user.prof').map((r) => r.name)).toEqual([]);
+  });
+
+  it('ignores control-flow keywords', () => {
+    const names = findCandidateIdentifiers('if (ready) {\n  while (check(x)) {\n').map(
+      (r) => r.name,
+    );
+    expect(names).toEqual(['check']);
+  });
+
+  it('only looks at the last few lines', () => {
+    const prefix = ['oldCall();', '', '', '', '', '', 'recentCall();', ''].join('\n');
+    expect(findCandidateIdentifiers(prefix).map((r) => r.name)).toEqual(['recentCall']);
+  });
+
+  it('deduplicates by name and caps the count', () => {
+    const prefix = 'a(); b(); c(); d(); e(); f(); a();\n';
+    const names = findCandidateIdentifiers(prefix).map((r) => r.name);
+    expect(names).toEqual(['a', 'f', 'e', 'd', 'c']);
+  });
+});
+
+describe('signatureFromHover', () => {
+  it('takes the first fenced code block', () => {
+    const hover = '```typescript\nfunction sum(a: number, b: number): number\n```\nAdds numbers.';
+    expect(signatureFromHover([hover])).toBe('function sum(a: number, b: number): number');
+  });
+
+  it('falls back to the first line of plain text', () => {
+    expect(signatureFromHover(['', 'def greet(name)\nSay hello.'])).toBe('def greet(name)');
+  });
+
+  it('returns null for empty hovers', () => {
+    expect(signatureFromHover([])).toBeNull();
+    expect(signatureFromHover(['  '])).toBeNull();
+  });
+
+  it('clips very long signatures', () => {
+    const long = `\`\`\`ts\nfunction f(${'x: number, '.repeat(100)})\n\`\`\``;
+    const result = signatureFromHover([long])!;
+    expect(result.length).toBeLessThanOrEqual(401);
+    expect(result.endsWith('…')).toBe(true);
+  });
+});
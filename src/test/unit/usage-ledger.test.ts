@@ -149,6 +149,101 @@ describe('UsageLedger', () => {
       expect(summary.byProject['proj-b'].requests).toBe(1);
     });
 
+    it('groups HTTP endpoint requests by caller', () => {
+      const base = { model: 'haiku', durationMs: 10, inputChars: 5, outputChars: 5 };
+      ledger.record({ ...base, source: 'chat', caller: 'aider' });
+      ledger.record({ ...base, source: 'completion', caller: 'aider' });
+      ledger.record({ ...base, source: 'chat', caller: 'curl' });
+      ledger.record({ ...base, source: 'completion' });
+
+      const summary = ledger.getSummary();
+      expect(summary.byCaller['aider'].requests).toBe(2);
+      expect(summary.byCaller['curl'].requests).toBe(1);
+      expect(Object.keys(summary.byCaller)).toHaveLength(2);
+    });
+
+    it('totals estimated spend per period and per model', () => {
+      const base = { source: 'completion' as const, durationMs: 10, inputChars: 5, outputChars: 5 };
+      ledger.record({ ...base, model: 'grok-code-fast-1', backend: 'api', costUsd: 0.002 });
+      ledger.record({ ...base, model: 'grok-code-fast-1', backend: 'api', costUsd: 0.003 });
+      ledger.record({ ...base, model: 'qwen2.5-coder:7b', backend: 'api', costUsd: 0 });
+      ledger.record({ ...base, model: 'gpt-4o-mini' });
+
+      const summary = ledger.getSummary();
+      expect(summary.today.costUsd).toBeCloseTo(0.005);
+      expect(summary.thisMonth.costUsd).toBeCloseTo(0.005);
+      expect(summary.byModel['grok-code-fast-1'].costUsd).toBeCloseTo(0.005);
+      expect(summary.spendByModel.today['grok-code-fast-1']).toBeCloseTo(0.005);
+      expect(summary.spendByModel.today['qwen2.5-coder:7b']).toBe(0);
+      expect(summary.spendByModel.thisWeek).not.toHaveProperty('gpt-4o-mini');
+    });
+
+    it('counts race winners without counting the race as another request', () => {
+      const base = { source: 'completion' as const, durationMs: 10, inputChars: 5, outputChars: 5 };
+      ledger.record({ ...base, model: 'haiku', backend: 'claude-code' });
+      ledger.record({ ...base, model: 'qwen2.5-coder', backend: 'api' });
+      ledger.record({ ...base, model: 'qwen2.5-coder', backend: 'api', raceWinner: 'Qwen (API)' });
+      ledger.record({ ...base, model: 'haiku', backend: 'claude-code', raceWinner: 'haiku (CC)' });
+      ledger.record({ ...base, model: 'haiku', backend: 'claude-code', raceWinner: 'haiku (CC)' });
+
+      const summary = ledger.getSummary();
+      expect(summary.raceWins).toEqual({ 'haiku (CC)': 2, 'Qwen (API)': 1 });
+      expect(summary.today.requests).toBe(2);
+      expect(summary.byModel['haiku'].requests).toBe(1);
+    });
+
+    it('reports acceptance from outcome entries without counting them as requests', () => {
+      const base = { source: 'completion' as const, durationMs: 0, inputChars: 0 };
+      ledger.record({
+        ...base,
+        model: 'haiku',
+        outputChars: 100,
+        mode: 'code',
+        languageId: 'typescript',
+      });
+      ledger.record({
+        ...base,
+        model: 'haiku',
+        outputChars: 10,
+        mode: 'code',
+        languageId: 'typescript',
+        accepted: true,
+        acceptedChars: 10,
+      });
+      ledger.record({
+        ...base,
+        model: 'haiku',
+        outputChars: 20,
+        mode: 'prose',
+        languageId: 'markdown',
+        accepted: false,
+        acceptedChars: 0,
+      });
+      ledger.record({
+        ...base,
+        model: 'sonnet',
+        outputChars: 30,
+        mode: 'prose',
+        languageId: 'markdown',
+        accepted: true,
+        acceptedChars: 12,
+      });
+
+      const summary = ledger.getSummary();
+
+      expect(summary.today.requests).toBe(1);
+      expect(summary.today.shown).toBe(3);
+      expect(summary.today.accepted).toBe(2);
+      expect(summary.today.acceptedChars).toBe(22);
+      expect(summary.today.acceptanceRate).toBe(67);
+      expect(summary.byModel['haiku'].acceptanceRate).toBe(50);
+      expect(summary.byModel['sonnet'].acceptanceRate).toBe(100);
+      expect(summary.bySource['completion'].shown).toBe(3);
+      expect(summary.byMode['code']).toMatchObject({ requests: 1, shown: 1, acceptanceRate: 100 });
+      expect(summary.byMode['prose'].acceptanceRate).toBe(50);
+      expect(summary.byLanguage['markdown'].shown).toBe(2);
+    });
+
     it('handles empty/missing file', () => {
       const summary = ledger.getSummary();
       expect(summary.today.requests).toBe(0);
@@ -177,6 +272,40 @@ describe('UsageLedger', () => {
     });
   });
 
+  describe('getBackendUsage()', () => {
+    const base = { source: 'completion' as const, durationMs: 10, inputChars: 5, outputChars: 5 };
+
+    it('totals requests, tokens and spend per backend', () => {
+      ledger.record({ ...base, model: 'haiku', inputTokens: 100, outputTokens: 20 });
+      ledger.record({ ...base, source: 'warmup', model: 'haiku', inputTokens: 50 });
+      ledger.record({ ...base, model: 'haiku', backend: 'claude-code', accepted: true });
+      ledger.record({ ...base, model: 'grok', backend: 'api', outputTokens: 8, costUsd: 0.25 });
+      ledger.record({ ...base, model: 'grok', backend: 'api', raceWinner: 'Grok (API)' });
+
+      const usage = ledger.getBackendUsage();
+      expect(usage.today['claude-code']).toEqual({ requests: 1, tokens: 170, costUsd: 0 });
+      expect(usage.today.api).toEqual({ requests: 1, tokens: 8, costUsd: 0.25 });
+      expect(usage.thisMonth).toEqual(usage.today);
+    });
+
+    it('includes entries rotated into this month’s archives', () => {
+      const archived = { ...base, ts: Date.now(), model: 'grok', backend: 'api', costUsd: 1.5 };
+      const today = new Date().toISOString().slice(0, 10);
+      fs.writeFileSync(
+        path.join(tmpDir, `usage-ledger-${today}.jsonl`),
+        JSON.stringify(archived) + '\n',
+      );
+      // Too old to count, whatever file it is in
+      const lastYear = { ...archived, ts: Date.now() - 400 * 24 * 60 * 60 * 1000 };
+      fs.writeFileSync(filePath, JSON.stringify(lastYear) + '\n');
+      ledger.record({ ...base, model: 'grok', backend: 'api', costUsd: 0.5 });
+
+      const usage = ledger.getBackendUsage();
+      expect(usage.today.api.requests).toBe(2);
+      expect(usage.thisMonth.api.costUsd).toBeCloseTo(2);
+    });
+  });
+
   describe('checkRotation()', () => {
     it('renames file when exceeding threshold and starts fresh', () => {
       // Write enough data to exceed 1MB
@@ -125,6 +125,16 @@ describe('UsageTracker', () => {
       expect(snap.cacheMisses).toBe(1);
     });
 
+    it('counts typeahead hits as cache hits', () => {
+      const tracker = new UsageTracker();
+      tracker.recordCacheHit();
+      tracker.recordCacheHit(true);
+
+      const snap = tracker.getSnapshot();
+      expect(snap.cacheHits).toBe(2);
+      expect(snap.typeaheadHits).toBe(1);
+    });
+
     it('computes cache hit rate', () => {
       const tracker = new UsageTracker();
       tracker.recordCacheHit();
@@ -1,3 +1,5 @@
+import { PromptStrategyId } from './providers/prompt-strategy';
+
 export type CompletionMode = 'prose' | 'code';
 
 /** Default model used throughout the extension and tests.
@@ -50,6 +52,23 @@ export function resolvePreset(input: PresetResolutionInput): {
   return { triggerPreset, triggerMode: presetDefaults.triggerMode, debounceMs };
 }
 
+/** An excerpt from another file, included as cross-file context. */
+export interface RelatedSnippet {
+  filePath: string;
+  content: string;
+}
+
+/** Declaration of a symbol used near the cursor, resolved through the language server. */
+export interface SymbolSignature {
+  name: string;
+  /** Declaration text as the language server reports it (e.g. from hover). */
+  signature: string;
+  /** Workspace-relative path of the definition, when known. */
+  filePath?: string;
+  /** 1-based line of the definition. */
+  line?: number;
+}
+
 export interface CompletionContext {
   prefix: string;
   suffix: string;
@@ -57,10 +76,58 @@ export interface CompletionContext {
   fileName: string;
   filePath: string;
   mode: CompletionMode;
+  /** Snippets from other open or recently edited files, most relevant first. */
+  relatedFiles?: RelatedSnippet[];
+  /** Chunks retrieved from the workspace index, most relevant first. */
+  retrievedChunks?: RelatedSnippet[];
+  /** Signatures of symbols referenced in the last few lines of the prefix. */
+  symbols?: SymbolSignature[];
+  /** Requested explicitly (Alt+Enter) — served ahead of automatic requests when the pool is busy. */
+  explicit?: boolean;
+  /** Tool that sent the request through the local HTTP endpoint; recorded in the usage ledger. */
+  caller?: string;
+  /** Workspace folder containing the file, for routing rules. */
+  workspaceFolder?: string;
+}
+
+/** Context beyond the current document that prompt builders render as extra blocks. */
+export type SupplementalContext = Pick<
+  CompletionContext,
+  'relatedFiles' | 'retrievedChunks' | 'symbols'
+>;
+
+/** Receives the stable, post-processed text of a completion while it is still streaming. */
+export type PartialCompletionCallback = (partial: string) => void;
+
+/** The backend and model that produced a completion, as the usage ledger records them. */
+export interface CompletionSource {
+  backend: 'claude-code' | 'api';
+  /** Model ID as the backend reports it (e.g. `claude-haiku-4-5-20251001`). */
+  model: string;
 }
 
 export interface CompletionProvider {
-  getCompletion(context: CompletionContext, signal: AbortSignal): Promise<string | null>;
+  /** onPartial is optional — providers that cannot stream simply never call it. */
+  getCompletion(
+    context: CompletionContext,
+    signal: AbortSignal,
+    onPartial?: PartialCompletionCallback,
+  ): Promise<string | null>;
+  /**
+   * Up to `count` distinct, post-processed completions, primary first.
+   * Optional — the orchestrator falls back to getCompletion() for one.
+   */
+  getCandidates?(
+    context: CompletionContext,
+    signal: AbortSignal,
+    count: number,
+    onPartial?: PartialCompletionCallback,
+  ): Promise<string[]>;
+  /**
+   * The backend and model behind the completions last returned for
+   * `context`. Optional — callers assume the configured backend.
+   */
+  getSource?(context: CompletionContext): CompletionSource | undefined;
   isAvailable(): boolean;
   updateConfig?(config: ExtensionConfig): void;
   recycleAll?(): Promise<void>;
@@ -68,16 +135,64 @@ export interface CompletionProvider {
 
 export type PermissionMode = 'default' | 'acceptEdits' | 'bypassPermissions';
 
+/**
+ * A `routing.rules` entry: the backend for completions in matching files.
+ * Conditions left unset match anything; the first matching rule wins.
+ */
+export interface RoutingRule {
+  /** Language ID of the document (e.g. `markdown`). */
+  languageId?: string;
+  /** Glob on the file: `*.ts` matches the name, `src/**` the workspace-relative path, `~/work/**` the full path. */
+  glob?: string;
+  /** Workspace folder, by name or path. */
+  workspace?: string;
+  mode?: CompletionMode;
+  backend: 'claude-code' | 'api';
+  /** Claude Code model or API preset ID. Empty for the backend's configured one. */
+  model?: string;
+  /** Characters before the cursor to send, instead of the mode's `contextChars`. */
+  contextChars?: number;
+  /** Characters after the cursor to send, instead of the mode's `suffixChars`. */
+  suffixChars?: number;
+  /**
+   * Backends to fall back to for matching files, in the form of
+   * `fallback.chain`. A matching rule replaces the global fallback chain and
+   * race mode, so files it routes never go to a backend it doesn't list.
+   */
+  fallback?: string[];
+}
+
+/**
+ * Failures that move a completion on to the next backend in the fallback chain:
+ * - `unavailable`: the backend can't take requests (circuit breaker open, pool
+ *   not running, preset unknown) — skipped without sending;
+ * - `error`: the request failed;
+ * - `empty`: the request returned no completion.
+ */
+export type FallbackTrigger = 'unavailable' | 'error' | 'empty';
+
+/** API prices in USD per million tokens, for cost estimates. */
+export interface PresetPricing {
+  input: number;
+  output: number;
+  /** Cached input tokens read back; the input price when unset. */
+  cacheRead?: number;
+}
+
 export interface CustomPreset {
   name: string;
-  provider: 'anthropic' | 'openai-compat' | 'google' | 'openrouter' | 'ollama';
+  provider: 'anthropic' | 'openai-compat' | 'google' | 'openrouter' | 'ollama' | 'llamacpp';
   modelId: string;
   baseUrl?: string;
   apiKeyEnvVar?: string;
   maxTokens?: number;
   temperature?: number;
+  /** Override the prompt strategy picked from the provider (e.g. `native-fim` for code models). */
+  promptStrategy?: PromptStrategyId;
   extraBody?: Record<string, unknown>;
   extraHeaders?: Record<string, string>;
+  /** Prices for cost estimates. Local providers (Ollama, llama.cpp) default to free. */
+  pricing?: PresetPricing;
 }
 
 export interface ExtensionConfig {
@@ -87,6 +202,10 @@ export interface ExtensionConfig {
   triggerPreset: TriggerPreset;
   triggerMode: 'auto' | 'manual';
   debounceMs: number;
+  /** Stream completions where the backend supports it and show the first line early. */
+  streaming: boolean;
+  /** Completions to generate per request, cycled with VS Code's next/previous suggestion commands. */
+  candidates: number;
   prose: {
     contextChars: number;
     suffixChars: number;
@@ -95,19 +214,80 @@ export interface ExtensionConfig {
   code: {
     contextChars: number;
     suffixChars: number;
+    /** Budget for snippets from other open/recently edited files (0 disables). */
+    relatedFilesChars: number;
+    /** Resolve nearby symbols via the language server and include their signatures. */
+    symbolContext: boolean;
+  };
+  workspaceIndex: {
+    enabled: boolean;
+    /** Budget for chunks retrieved from the workspace index. */
+    maxChars: number;
   };
   claudeCode: {
     model: string;
     models: string[];
+    /** Concurrent CLI sessions serving completions (shared by all windows). */
+    completionSlots: number;
+    /** Concurrent CLI sessions serving commit messages and other commands. */
+    commandSlots: number;
+    /** Minutes without a request before the pools close their sessions (0 = never). */
+    idleShutdownMinutes: number;
   };
   api: {
     preset: string;
     customPresets: CustomPreset[];
+    /** Send API requests through the shared pool server instead of calling the provider from each window. */
+    sharedServer: boolean;
+    /** Cap on API requests per minute, per preset (0 = no limit). */
+    maxRequestsPerMinute: number;
+  };
+  httpEndpoint: {
+    /** Serve the Claude Code pools to other local tools over an OpenAI-compatible HTTP API. */
+    enabled: boolean;
+    /** Port on 127.0.0.1 the endpoint listens on. */
+    port: number;
   };
   codeOverride: {
     backend: '' | 'claude-code' | 'api';
     model: string;
   };
+  routing: {
+    /** Checked in order before `codeOverride`; the first match picks the backend. */
+    rules: RoutingRule[];
+  };
+  fallback: {
+    /** Backends to try in order when the primary fails: API preset IDs, `claude-code` or `claude-code:<model>`. */
+    chain: string[];
+    /** Which failures move on to the next backend. */
+    on: FallbackTrigger[];
+  };
+  race: {
+    /** Send each completion to two backends at once and keep the first good answer. */
+    enabled: boolean;
+    /** The two backends to race, in the fallback chain's syntax. The first gets a head start. */
+    backends: string[];
+    /** Milliseconds the first backend runs alone before the second is sent. */
+    staggerMs: number;
+  };
+  budget: {
+    /** USD per day on priced API presets (0 = no limit). */
+    dailyUsd: number;
+    /** USD per month on priced API presets (0 = no limit). */
+    monthlyUsd: number;
+    /** Claude Code input + output tokens per day (0 = no limit). */
+    dailyTokens: number;
+    /** Claude Code input + output tokens per month (0 = no limit). */
+    monthlyTokens: number;
+    /** Claude Code requests per day (0 = no limit). */
+    dailyRequests: number;
+    /** Claude Code requests per month (0 = no limit). */
+    monthlyRequests: number;
+    /** Percentage of a limit at which to warn, once per limit and period. */
+    warnAtPercent: number;
+    /** Keep serving explicit requests (Alt+Enter, commit messages, edits) past a limit. */
+    allowExplicit: boolean;
+  };
   contextMenu: {
     permissionMode: PermissionMode;
   };
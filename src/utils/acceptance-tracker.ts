@@ -0,0 +1,204 @@
+import * as vscode from 'vscode';
+import { CompletionMode } from '../types';
+import { Logger } from './logger';
+import { UsageLedger } from './usage-ledger';
+
+/** Internal command attached to each inline completion item; VS Code runs it on full accept. */
+export const ACCEPT_COMMAND = 'bespoke-ai.completionAccepted';
+
+/**
+ * How long an outcome stays open after the completion was shown or last
+ * accepted into. Deleting accepted text inside this window is subtracted.
+ */
+const SETTLE_MS = 30_000;
+
+export interface ShownCompletionMeta {
+  model: string;
+  backend: 'claude-code' | 'api';
+  mode: CompletionMode;
+  languageId: string;
+}
+
+interface PendingCompletion {
+  id: number;
+  uri: string;
+  /** Document offset where the completion starts. */
+  offset: number;
+  /** Every candidate shown for this position, primary first. */
+  candidates: string[];
+  /** Text accepted so far, while it still matches a candidate. */
+  typed: string;
+  /** Characters of the completion currently in the document. */
+  acceptedChars: number;
+  /** Whether the next insertion at the end of the accepted text can still extend it. */
+  open: boolean;
+  meta: ShownCompletionMeta;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Records what happened to each completion shown in the editor — accepted,
+ * partially accepted, or ignored — as a `completion` ledger entry with
+ * `accepted`/`acceptedChars` set.
+ *
+ * VS Code only reports full accepts (through the item's command), so partial
+ * accepts are inferred from edits: text inserted where the completion starts
+ * that matches it (word-by-word accept, or typing it out) counts as accepted.
+ * Accepted text deleted shortly afterwards is taken back off. Only one
+ * completion (with its alternative candidates) is tracked at a time — showing
+ * a different one settles the last.
+ */
+export class AcceptanceTracker implements vscode.Disposable {
+  private pending: PendingCompletion | null = null;
+  private nextId = 1;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private ledger: UsageLedger | undefined,
+    private logger: Logger,
+  ) {
+    this.disposables.push(
+      vscode.commands.registerCommand(ACCEPT_COMMAND, (id: number, index = 0) =>
+        this.onAccepted(id, index),
+      ),
+      vscode.workspace.onDidChangeTextDocument((e) => this.onDidChange(e)),
+    );
+  }
+
+  /**
+   * Start tracking the candidates about to be shown at `position`. Returns
+   * the command to attach to each candidate's item, in the same order.
+   */
+  track(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    texts: string[],
+    meta: ShownCompletionMeta,
+  ): vscode.Command[] {
+    const uri = document.uri.toString();
+    const offset = document.offsetAt(position);
+    const p = this.pending;
+
+    // Same suggestion shown again further along (typed into, cache hit) or grown
+    // to its full text after streaming the first line — keep the one outcome,
+    // with the latest meta (a streamed first line is shown before the backend
+    // that served it is known)
+    if (
+      p &&
+      p.open &&
+      p.uri === uri &&
+      offset === p.offset + p.acceptedChars &&
+      texts.some((t) => p.candidates.some((c) => (p.typed + t).startsWith(c)))
+    ) {
+      p.candidates = texts.map((t) => p.typed + t);
+      p.meta = meta;
+      return texts.map((_, i) => this.command(p.id, i));
+    }
+
+    this.settle();
+    const id = this.nextId++;
+    this.pending = {
+      id,
+      uri,
+      offset,
+      candidates: texts,
+      typed: '',
+      acceptedChars: 0,
+      open: true,
+      meta,
+      timer: setTimeout(() => this.settle(), SETTLE_MS),
+    };
+    return texts.map((_, i) => this.command(id, i));
+  }
+
+  dispose(): void {
+    this.settle();
+    for (const d of this.disposables) d.dispose();
+    this.disposables = [];
+  }
+
+  private command(id: number, index: number): vscode.Command {
+    return { command: ACCEPT_COMMAND, title: 'Completion accepted', arguments: [id, index] };
+  }
+
+  private onAccepted(id: number, index: number): void {
+    const p = this.pending;
+    if (!p || p.id !== id || !p.candidates[index]) return;
+    p.typed = p.candidates[index];
+    p.acceptedChars = p.typed.length;
+    p.open = false;
+    this.restartTimer(p);
+  }
+
+  private onDidChange(e: vscode.TextDocumentChangeEvent): void {
+    const p = this.pending;
+    if (!p || e.document.uri.toString() !== p.uri) return;
+
+    for (const change of e.contentChanges) {
+      const start = change.rangeOffset;
+      const end = start + change.rangeLength;
+      const acceptedEnd = p.offset + p.acceptedChars;
+
+      // Insertion right where the accepted text ends, matching what comes next
+      if (p.open && change.rangeLength === 0 && start === acceptedEnd && change.text) {
+        const typed = p.typed + change.text;
+        if (p.candidates.some((c) => c.startsWith(typed))) {
+          p.typed = typed;
+          p.acceptedChars = typed.length;
+          p.open = p.candidates.some((c) => c.length > typed.length && c.startsWith(typed));
+          this.restartTimer(p);
+          continue;
+        }
+      }
+
+      // Anything else before a single character was taken: the user moved on
+      if (p.acceptedChars === 0) {
+        this.settle();
+        return;
+      }
+      p.open = false;
+
+      if (end <= p.offset) {
+        // Edit before the accepted text shifts it
+        p.offset += change.text.length - change.rangeLength;
+      } else if (start < acceptedEnd) {
+        // Edit overlapping the accepted text removes that part of it
+        const removed = Math.min(end, acceptedEnd) - Math.max(start, p.offset);
+        p.acceptedChars = Math.max(0, p.acceptedChars - removed);
+        p.offset = Math.min(p.offset, start);
+      }
+    }
+  }
+
+  private restartTimer(p: PendingCompletion): void {
+    clearTimeout(p.timer);
+    p.timer = setTimeout(() => this.settle(), SETTLE_MS);
+  }
+
+  /** Record the outcome of the tracked completion, if any, and stop tracking it. */
+  private settle(): void {
+    const p = this.pending;
+    if (!p) return;
+    this.pending = null;
+    clearTimeout(p.timer);
+
+    const accepted = p.acceptedChars > 0;
+    // Report against the candidate that was taken, or the primary if none was
+    const shown = p.candidates.find((c) => p.typed && c.startsWith(p.typed)) ?? p.candidates[0];
+    this.logger.debug(
+      `Completion ${accepted ? 'accepted' : 'ignored'} (${p.acceptedChars}/${shown.length} chars)`,
+    );
+    this.ledger?.record({
+      source: 'completion',
+      model: p.meta.model,
+      backend: p.meta.backend,
+      mode: p.meta.mode,
+      languageId: p.meta.languageId,
+      durationMs: 0,
+      inputChars: 0,
+      outputChars: shown.length,
+      accepted,
+      acceptedChars: p.acceptedChars,
+    });
+  }
+}
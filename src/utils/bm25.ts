@@ -0,0 +1,140 @@
+/**
+ * In-memory BM25 index over line-based chunks of text files.
+ *
+ * Pure data structure (no vscode or fs dependency) so it can be unit tested
+ * and serialized. WorkspaceIndex owns file discovery, persistence, and
+ * keeping it up to date.
+ */
+
+/** Lines per indexed chunk. Chunks don't overlap — keeps the index small. */
+export const CHUNK_LINES = 15;
+
+/** Standard BM25 parameters. */
+const K1 = 1.2;
+const B = 0.75;
+
+export interface Bm25Hit {
+  filePath: string;
+  content: string;
+  score: number;
+}
+
+interface Chunk {
+  filePath: string;
+  content: string;
+  length: number;
+}
+
+/** Lowercased word/identifier tokens of 2+ characters. */
+export function tokenizeForIndex(text: string): string[] {
+  return (text.match(/[A-Za-z_][A-Za-z0-9_]+/g) ?? []).map((t) => t.toLowerCase());
+}
+
+/** Split text into non-overlapping chunks of CHUNK_LINES lines, dropping blank ones. */
+export function chunkText(text: string): string[] {
+  const lines = text.split('\n');
+  const chunks: string[] = [];
+  for (let i = 0; i < lines.length; i += CHUNK_LINES) {
+    const chunk = lines.slice(i, i + CHUNK_LINES).join('\n');
+    if (chunk.trim()) chunks.push(chunk);
+  }
+  return chunks;
+}
+
+export class Bm25Index {
+  private chunks = new Map<number, Chunk>();
+  /** term → (chunk id → term frequency) */
+  private postings = new Map<string, Map<number, number>>();
+  private chunkIdsByFile = new Map<string, number[]>();
+  private nextId = 0;
+  private totalLength = 0;
+
+  get fileCount(): number {
+    return this.chunkIdsByFile.size;
+  }
+
+  get chunkCount(): number {
+    return this.chunks.size;
+  }
+
+  hasFile(filePath: string): boolean {
+    return this.chunkIdsByFile.has(filePath);
+  }
+
+  /** Index (or re-index) a file from its pre-split chunks. */
+  setFile(filePath: string, chunks: string[]): void {
+    this.removeFile(filePath);
+    const ids: number[] = [];
+    for (const content of chunks) {
+      const id = this.nextId++;
+      const tokens = tokenizeForIndex(content);
+      this.chunks.set(id, { filePath, content, length: tokens.length });
+      this.totalLength += tokens.length;
+      const counts = new Map<string, number>();
+      for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+      for (const [term, tf] of counts) {
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(term, posting);
+        }
+        posting.set(id, tf);
+      }
+      ids.push(id);
+    }
+    this.chunkIdsByFile.set(filePath, ids);
+  }
+
+  removeFile(filePath: string): void {
+    const ids = this.chunkIdsByFile.get(filePath);
+    if (!ids) return;
+    for (const id of ids) {
+      const chunk = this.chunks.get(id);
+      if (!chunk) continue;
+      this.totalLength -= chunk.length;
+      this.chunks.delete(id);
+      for (const token of new Set(tokenizeForIndex(chunk.content))) {
+        const posting = this.postings.get(token);
+        posting?.delete(id);
+        if (posting?.size === 0) this.postings.delete(token);
+      }
+    }
+    this.chunkIdsByFile.delete(filePath);
+  }
+
+  /** Chunks of a file, as stored (for persistence). */
+  getFileChunks(filePath: string): string[] {
+    return (this.chunkIdsByFile.get(filePath) ?? []).map((id) => this.chunks.get(id)!.content);
+  }
+
+  /**
+   * Top-k chunks for the query by BM25 score. Chunks from `excludeFile` are
+   * skipped — callers pass the current document, which is already in the prompt.
+   */
+  search(query: string, k: number, excludeFile?: string): Bm25Hit[] {
+    const n = this.chunks.size;
+    if (n === 0 || k <= 0) return [];
+    const avgLength = this.totalLength / n || 1;
+
+    const scores = new Map<number, number>();
+    for (const term of new Set(tokenizeForIndex(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      const idf = Math.log(1 + (n - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, tf] of posting) {
+        const chunk = this.chunks.get(id)!;
+        if (chunk.filePath === excludeFile) continue;
+        const norm = tf + K1 * (1 - B + (B * chunk.length) / avgLength);
+        scores.set(id, (scores.get(id) ?? 0) + (idf * tf * (K1 + 1)) / norm);
+      }
+    }
+
+    return [...scores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, k)
+      .map(([id, score]) => {
+        const chunk = this.chunks.get(id)!;
+        return { filePath: chunk.filePath, content: chunk.content, score };
+      });
+  }
+}
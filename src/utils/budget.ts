@@ -0,0 +1,132 @@
+import { ExtensionConfig } from '../types';
+import { Logger } from './logger';
+import { BackendUsage, UsageLedger } from './usage-ledger';
+
+type Backend = 'claude-code' | 'api';
+type Period = 'today' | 'thisMonth';
+
+/** How a backend stands against its budgets: the worst limit decides. */
+export interface BudgetState {
+  level: 'ok' | 'warning' | 'exceeded';
+  /** Which limit, and how much of it is used. Unset while `ok`. */
+  reason?: string;
+}
+
+/** How long ledger totals are reused before the next request re-reads them. */
+const REFRESH_MS = 30_000;
+
+const BACKEND_LABELS: Record<Backend, string> = { 'claude-code': 'Claude Code', api: 'API' };
+const PERIOD_LABELS: Record<Period, string> = { today: 'daily', thisMonth: 'monthly' };
+
+/**
+ * Spending and token budgets, checked against the usage ledger before each
+ * request. Dollar limits apply to API presets; token and request limits to
+ * Claude Code. Crossing `warnAtPercent` of a limit notifies once; at the
+ * limit, automatic requests to that backend pause until the period rolls
+ * over (explicit ones too, unless `allowExplicit`).
+ *
+ * The ledger is shared by every window and the pool server, so totals are
+ * re-read from it (at most every REFRESH_MS) rather than counted here.
+ */
+export class BudgetGuard {
+  private config: ExtensionConfig;
+  private states: Record<Backend, BudgetState> = {
+    'claude-code': { level: 'ok' },
+    api: { level: 'ok' },
+  };
+  private checkedAt = 0;
+  /** Limits already notified, by limit, level and period start — each notifies once. */
+  private notified = new Set<string>();
+
+  constructor(
+    private readonly ledger: UsageLedger,
+    config: ExtensionConfig,
+    private readonly logger: Logger,
+    private readonly onNotice?: (message: string, level: 'warning' | 'exceeded') => void,
+  ) {
+    this.config = config;
+  }
+
+  updateConfig(config: ExtensionConfig): void {
+    this.config = config;
+    this.checkedAt = 0;
+  }
+
+  /** Whether a request to `backend` may go ahead. */
+  allows(backend: Backend, explicit: boolean): boolean {
+    if (this.getState(backend).level !== 'exceeded') return true;
+    return explicit && this.config.budget.allowExplicit;
+  }
+
+  getState(backend: Backend): BudgetState {
+    if (Date.now() - this.checkedAt >= REFRESH_MS) this.refresh();
+    return this.states[backend];
+  }
+
+  /** Re-read the ledger totals and notify limits newly crossed. */
+  refresh(): void {
+    this.checkedAt = Date.now();
+    const budget = this.config.budget;
+    const usage = this.ledger.getBackendUsage();
+    const limits: Array<[Backend, Period, keyof BackendUsage, number]> = [
+      ['api', 'today', 'costUsd', budget.dailyUsd],
+      ['api', 'thisMonth', 'costUsd', budget.monthlyUsd],
+      ['claude-code', 'today', 'tokens', budget.dailyTokens],
+      ['claude-code', 'thisMonth', 'tokens', budget.monthlyTokens],
+      ['claude-code', 'today', 'requests', budget.dailyRequests],
+      ['claude-code', 'thisMonth', 'requests', budget.monthlyRequests],
+    ];
+
+    const states: Record<Backend, BudgetState> = {
+      'claude-code': { level: 'ok' },
+      api: { level: 'ok' },
+    };
+    for (const [backend, period, metric, limit] of limits) {
+      if (limit <= 0) continue;
+      const used = usage[period][backend][metric];
+      const level =
+        used >= limit
+          ? 'exceeded'
+          : used >= (limit * budget.warnAtPercent) / 100
+            ? 'warning'
+            : 'ok';
+      if (level === 'ok') continue;
+
+      const amount = `${formatAmount(metric, used)} of ${formatAmount(metric, limit)}`;
+      const name = `${BACKEND_LABELS[backend]} ${PERIOD_LABELS[period]} ${metric === 'costUsd' ? 'spending' : metric} budget`;
+      const reason =
+        level === 'exceeded'
+          ? `${name} reached (${amount})`
+          : `${name} ${Math.floor((used / limit) * 100)}% used (${amount})`;
+      if (level === 'exceeded' || states[backend].level === 'ok') {
+        states[backend] = { level, reason };
+      }
+      this.notify(`${backend}:${period}:${metric}:${level}:${periodKey(period)}`, level, reason);
+    }
+    this.states = states;
+  }
+
+  private notify(key: string, level: 'warning' | 'exceeded', reason: string): void {
+    if (this.notified.has(key)) return;
+    this.notified.add(key);
+    const paused = this.config.budget.allowExplicit
+      ? 'automatic completions paused'
+      : 'requests paused';
+    const message = level === 'exceeded' ? `${reason} — ${paused}` : reason;
+    this.logger.info(`Budget: ${message}`);
+    this.onNotice?.(message, level);
+  }
+}
+
+/** Identifies the current day or month, so a new period notifies afresh. */
+function periodKey(period: Period): string {
+  const now = new Date();
+  const month = `${now.getFullYear()}-${now.getMonth() + 1}`;
+  return period === 'today' ? `${month}-${now.getDate()}` : month;
+}
+
+function formatAmount(metric: keyof BackendUsage, value: number): string {
+  if (metric === 'costUsd') return `$${value.toFixed(2)}`;
+  if (metric === 'tokens') return value.toLocaleString('en-US');
+  return String(value);
+}
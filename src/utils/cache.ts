@@ -1,6 +1,35 @@
+import { CompletionSource } from '../types';
+
+/** Characters of prefix/suffix that identify a cursor position (same as the key). */
+const PREFIX_KEY_CHARS = 500;
+const SUFFIX_KEY_CHARS = 200;
+/** How far back (in characters, same line only) backspacing still reuses a completion. */
+const MAX_BACKSPACE_CHARS = 40;
+
+/** The cursor position a completion was generated for, kept for typeahead lookups. */
+export interface CacheContext {
+  mode: string;
+  prefix: string;
+  suffix: string;
+}
+
 interface CacheEntry {
-  value: string;
+  /** Candidate completions, primary first. */
+  values: string[];
   timestamp: number;
+  context?: CacheContext;
+  /** The backend and model that produced the values. */
+  source?: CompletionSource;
+}
+
+/** True if the text before both cursors is the same, as far as the key would see it. */
+function prefixesMatch(a: string, b: string): boolean {
+  const n = Math.min(PREFIX_KEY_CHARS, a.length, b.length);
+  if (n < Math.min(PREFIX_KEY_CHARS, Math.max(a.length, b.length))) {
+    // One side is cut by the start of the document, the other isn't — only equal if identical
+    return a === b;
+  }
+  return a.slice(-n) === b.slice(-n);
 }
 
 export class LRUCache {
@@ -12,10 +41,25 @@ export class LRUCache {
   ) {}
 
   static makeKey(mode: string, prefix: string, suffix: string): string {
-    return `${mode}|${prefix.slice(-500)}|${suffix.slice(0, 200)}`;
+    return `${mode}|${prefix.slice(-PREFIX_KEY_CHARS)}|${suffix.slice(0, SUFFIX_KEY_CHARS)}`;
   }
 
+  /** The primary cached completion for the key. */
   get(key: string): string | null {
+    return this.getAll(key)?.[0] ?? null;
+  }
+
+  /** All cached candidates for the key, primary first. */
+  getAll(key: string): string[] | null {
+    return this.getEntry(key)?.values ?? null;
+  }
+
+  /** The backend and model that produced the key's candidates, if recorded. */
+  getSource(key: string): CompletionSource | undefined {
+    return this.map.get(key)?.source;
+  }
+
+  private getEntry(key: string): CacheEntry | null {
     const entry = this.map.get(key);
     if (!entry) {
       return null;
@@ -29,10 +73,60 @@ export class LRUCache {
     // Move to end (most recently used)
     this.map.delete(key);
     this.map.set(key, entry);
-    return entry.value;
+    return entry;
+  }
+
+  /**
+   * Find a cached completion the cursor has moved along, and return what is
+   * left of it:
+   * - typed ahead: the new prefix is an old prefix plus the first characters
+   *   of its completion, so the rest of that completion is returned;
+   * - backspaced: the new prefix is an old prefix minus a few characters on
+   *   the same line, so those characters plus the completion are returned.
+   * Any candidate of an entry can match — the user may have cycled to it.
+   * Exact matches are left to `get`. Most recently used entries win.
+   */
+  getTypeahead(mode: string, prefix: string, suffix: string): string | null {
+    return this.findTypeahead(mode, prefix, suffix)?.text ?? null;
   }
 
-  set(key: string, value: string): void {
+  /** getTypeahead(), along with the source of the completion it came from. */
+  findTypeahead(
+    mode: string,
+    prefix: string,
+    suffix: string,
+  ): { text: string; source?: CompletionSource } | null {
+    const suffixKey = suffix.slice(0, SUFFIX_KEY_CHARS);
+    const now = Date.now();
+    for (const [key, entry] of [...this.map.entries()].reverse()) {
+      const ctx = entry.context;
+      if (!ctx || ctx.mode !== mode || ctx.suffix.slice(0, SUFFIX_KEY_CHARS) !== suffixKey) {
+        continue;
+      }
+      if (now - entry.timestamp > this.ttlMs) {
+        this.map.delete(key);
+        continue;
+      }
+
+      for (const value of entry.values) {
+        const remainder = this.remainderAfterTyping(ctx.prefix, value, prefix);
+        if (remainder !== null) {
+          this.map.delete(key);
+          this.map.set(key, entry);
+          return { text: remainder, source: entry.source };
+        }
+      }
+    }
+    return null;
+  }
+
+  /** Cache a completion, or several candidates (primary first). */
+  set(
+    key: string,
+    value: string | string[],
+    context?: CacheContext,
+    source?: CompletionSource,
+  ): void {
     // Delete first to update insertion order
     this.map.delete(key);
 
@@ -44,7 +138,13 @@ export class LRUCache {
       }
     }
 
-    this.map.set(key, { value, timestamp: Date.now() });
+    const values = Array.isArray(value) ? value : [value];
+    this.map.set(key, {
+      values,
+      timestamp: Date.now(),
+      ...(context && { context }),
+      ...(source && { source }),
+    });
   }
 
   clear(): void {
@@ -54,4 +154,25 @@ export class LRUCache {
   get size(): number {
     return this.map.size;
   }
+
+  private remainderAfterTyping(oldPrefix: string, value: string, prefix: string): string | null {
+    // Typed the first n characters of the completion (leave at least one to show)
+    const last = prefix[prefix.length - 1];
+    for (let n = 1; n < value.length; n++) {
+      if (value[n - 1] !== last) continue;
+      if (prefix.endsWith(value.slice(0, n)) && prefixesMatch(prefix.slice(0, -n), oldPrefix)) {
+        return value.slice(n);
+      }
+    }
+
+    // Deleted the last d characters of the old prefix
+    for (let d = 1; d <= MAX_BACKSPACE_CHARS && d <= oldPrefix.length; d++) {
+      const deleted = oldPrefix.slice(-d);
+      if (deleted.includes('\n')) break;
+      if (prefixesMatch(prefix, oldPrefix.slice(0, -d))) {
+        return deleted + value;
+      }
+    }
+    return null;
+  }
 }
@@ -1,5 +1,3 @@
-import * as vscode from 'vscode';
-
 export type LogLevel = 'info' | 'debug' | 'trace';
 
 const LEVEL_RANK: Record<LogLevel, number> = { trace: 0, debug: 1, info: 2 };
@@ -30,12 +28,22 @@ export interface RequestEndDetails {
   cancelled?: boolean;
 }
 
+/**
+ * Where log lines go — a VS Code output channel in the extension, stderr in
+ * the headless pool daemon (which must not load `vscode`).
+ */
+export interface LogChannel {
+  appendLine(value: string): void;
+  show(preserveFocus?: boolean): void;
+  dispose(): void;
+}
+
 export class Logger {
-  private channel: vscode.OutputChannel;
+  private channel: LogChannel;
   private level: LogLevel = 'info';
 
-  constructor(name: string) {
-    this.channel = vscode.window.createOutputChannel(name);
+  constructor(channel: LogChannel) {
+    this.channel = channel;
   }
 
   setLevel(level: LogLevel): void {
@@ -142,3 +142,56 @@ export function postProcessCompletion(
 
   return result.trim() ? result : null;
 }
+
+/**
+ * Post-processing for a completion that is still streaming in.
+ *
+ * Applies the parts of the pipeline that only depend on the head of the
+ * completion: prefix overlap trimming and leaked-tag stripping. Suffix overlap
+ * is skipped because the tail has not arrived yet — the final text still goes
+ * through postProcessCompletion() once the stream ends.
+ *
+ * Returns null while the head could still turn out to be an echo of the
+ * current line fragment, or when there is nothing to show yet.
+ */
+export function postProcessPartialCompletion(text: string, prefix?: string): string | null {
+  let result = text;
+
+  if (prefix) {
+    const lastNewline = prefix.lastIndexOf('\n');
+    const lineFragment = lastNewline >= 0 ? prefix.slice(lastNewline + 1) : prefix;
+    // Too short to tell whether the model is echoing the line fragment
+    // (same 150-char cap as trimPrefixOverlap)
+    if (
+      lineFragment.trim() &&
+      lineFragment.length <= 150 &&
+      result.length < lineFragment.length &&
+      lineFragment.startsWith(result)
+    ) {
+      return null;
+    }
+    result = trimPrefixOverlap(result, prefix);
+  }
+
+  result = stripLeakedTags(result);
+
+  return result.trim() ? result : null;
+}
+
+/**
+ * Drop empty and duplicate candidates (after post-processing), keeping the
+ * first occurrence so the primary candidate stays first. Candidates that
+ * differ only in trailing whitespace count as duplicates.
+ */
+export function dedupeCompletions(candidates: Array<string | null>): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const key = candidate.trimEnd();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(candidate);
+  }
+  return result;
+}
@@ -0,0 +1,29 @@
+/**
+ * Sliding-window request limiter for API providers.
+ *
+ * Allows at most `maxPerMinute` requests in any 60-second window. Requests
+ * over the limit are refused rather than queued — a completion that waits for
+ * the window to clear is stale by the time it could be sent.
+ */
+export class RateLimiter {
+  /** Send times of the requests in the current window, oldest first. */
+  private sentAt: number[] = [];
+
+  /** `maxPerMinute` of 0 disables the limit. */
+  constructor(private maxPerMinute: number) {}
+
+  setLimit(maxPerMinute: number): void {
+    this.maxPerMinute = maxPerMinute;
+  }
+
+  /** Claim `count` requests if they fit in the window. Claims nothing otherwise. */
+  tryAcquire(count = 1, now = Date.now()): boolean {
+    if (this.maxPerMinute <= 0) return true;
+    while (this.sentAt.length > 0 && now - this.sentAt[0] >= 60_000) {
+      this.sentAt.shift();
+    }
+    if (this.sentAt.length + count > this.maxPerMinute) return false;
+    for (let i = 0; i < count; i++) this.sentAt.push(now);
+    return true;
+  }
+}
@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { RelatedSnippet } from '../types';
+
+/** Lines per candidate window when slicing other files into snippets. */
+const WINDOW_LINES = 20;
+/** Windows overlap by half so a relevant block is never split across two. */
+const WINDOW_STEP = 10;
+/** How much text around the cursor is used as the similarity query. */
+const QUERY_PREFIX_CHARS = 1500;
+const QUERY_SUFFIX_CHARS = 500;
+/** Files larger than this are skipped — slicing them on every request is too slow. */
+const MAX_FILE_CHARS = 200_000;
+/** How many recently edited files to remember. */
+const MAX_RECENT_EDITS = 20;
+
+export interface RelatedCandidate {
+  /** Display path (workspace-relative where possible). */
+  filePath: string;
+  text: string;
+}
+
+/** Identifier-like tokens of 3+ characters. Short tokens (i, x, if) carry no signal. */
+export function tokenize(text: string): Set<string> {
+  return new Set(text.match(/[A-Za-z_$][A-Za-z0-9_$]{2,}/g) ?? []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Rank windows from the candidate files by lexical (Jaccard) similarity to
+ * the query and greedily pack the best ones into `maxChars`. Windows from the
+ * same file never overlap. Returns snippets best-first.
+ */
+export function selectRelatedSnippets(
+  query: string,
+  candidates: RelatedCandidate[],
+  maxChars: number,
+): RelatedSnippet[] {
+  const queryTokens = tokenize(query);
+  if (maxChars <= 0 || queryTokens.size === 0) return [];
+
+  const windows: Array<{
+    filePath: string;
+    start: number;
+    end: number;
+    content: string;
+    score: number;
+  }> = [];
+  for (const candidate of candidates) {
+    if (candidate.text.length > MAX_FILE_CHARS) continue;
+    const lines = candidate.text.split('\n');
+    for (let start = 0; start < lines.length; start += WINDOW_STEP) {
+      const end = Math.min(start + WINDOW_LINES, lines.length);
+      const content = lines.slice(start, end).join('\n');
+      const score = jaccard(queryTokens, tokenize(content));
+      if (score > 0) {
+        windows.push({ filePath: candidate.filePath, start, end, content, score });
+      }
+      if (end === lines.length) break;
+    }
+  }
+
+  windows.sort((a, b) => b.score - a.score);
+
+  const picked: typeof windows = [];
+  let used = 0;
+  for (const w of windows) {
+    if (used + w.content.length > maxChars) continue;
+    const overlaps = picked.some(
+      (p) => p.filePath === w.filePath && p.start < w.end && w.start < p.end,
+    );
+    if (overlaps) continue;
+    picked.push(w);
+    used += w.content.length;
+  }
+
+  return picked.map((w) => ({ filePath: w.filePath, content: w.content }));
+}
+
+/**
+ * Gathers cross-file context for a completion: snippets from other open tabs
+ * and recently edited files that look like the code around the cursor.
+ *
+ * Only documents VS Code already has loaded are considered, so collection is
+ * synchronous and never touches the disk.
+ */
+export class RelatedFilesTracker implements vscode.Disposable {
+  /** URIs of recently edited documents, most recent first. */
+  private recentEdits: string[] = [];
+  private subscription: vscode.Disposable;
+
+  constructor() {
+    this.subscription = vscode.workspace.onDidChangeTextDocument((e) => {
+      if (e.contentChanges.length > 0 && e.document.uri.scheme === 'file') {
+        this.noteEdit(e.document.uri.toString());
+      }
+    });
+  }
+
+  /** Collect related snippets for a completion in `document`, within `maxChars`. */
+  collect(
+    document: vscode.TextDocument,
+    prefix: string,
+    suffix: string,
+    maxChars: number,
+  ): RelatedSnippet[] {
+    if (maxChars <= 0) return [];
+
+    const current = document.uri.toString();
+    const openTabs = new Set<string>();
+    for (const group of vscode.window.tabGroups.all) {
+      for (const tab of group.tabs) {
+        if (tab.input instanceof vscode.TabInputText) {
+          openTabs.add(tab.input.uri.toString());
+        }
+      }
+    }
+
+    const candidates: RelatedCandidate[] = [];
+    for (const doc of vscode.workspace.textDocuments) {
+      const key = doc.uri.toString();
+      if (key === current || doc.uri.scheme !== 'file') continue;
+      if (!openTabs.has(key) && !this.recentEdits.includes(key)) continue;
+      candidates.push({ filePath: vscode.workspace.asRelativePath(doc.uri), text: doc.getText() });
+    }
+
+    const query = prefix.slice(-QUERY_PREFIX_CHARS) + suffix.slice(0, QUERY_SUFFIX_CHARS);
+    return selectRelatedSnippets(query, candidates, maxChars);
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+  }
+
+  private noteEdit(uri: string): void {
+    if (this.recentEdits[0] === uri) return;
+    this.recentEdits = [uri, ...this.recentEdits.filter((u) => u !== uri)].slice(
+      0,
+      MAX_RECENT_EDITS,
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import * as os from 'os';
+import * as path from 'path';
+import { CompletionContext, RoutingRule } from '../types';
+
+/** What a routing rule is matched against. Conditions on missing fields don't match. */
+export type RoutingSubject = Pick<CompletionContext, 'mode'> &
+  Partial<Pick<CompletionContext, 'languageId' | 'filePath' | 'workspaceFolder'>>;
+
+/** The first rule whose conditions all hold for `subject`, if any. */
+export function findRoutingRule(
+  rules: RoutingRule[],
+  subject: RoutingSubject,
+): RoutingRule | undefined {
+  return rules.find((rule) => matchesRule(rule, subject));
+}
+
+function matchesRule(rule: RoutingRule, subject: RoutingSubject): boolean {
+  if (rule.mode && rule.mode !== subject.mode) return false;
+  if (rule.languageId && rule.languageId !== subject.languageId) return false;
+  if (rule.workspace && !matchesWorkspace(rule.workspace, subject.workspaceFolder)) return false;
+  if (rule.glob && !matchesGlob(rule.glob, subject.filePath, subject.workspaceFolder)) return false;
+  return true;
+}
+
+/** A workspace folder by name (`my-app`) or path (`~/work/my-app`). */
+function matchesWorkspace(workspace: string, folder: string | undefined): boolean {
+  if (!folder) return false;
+  if (!workspace.includes('/') && !workspace.includes('\\')) {
+    return workspace === path.basename(folder);
+  }
+  return normalize(expandHome(workspace)).replace(/\/$/, '') === normalize(folder);
+}
+
+/**
+ * Match a file against a glob. Like .gitignore: a glob without a slash
+ * matches the file name anywhere (`*.ts`); one starting with `~/` or `/` (or
+ * a drive letter) matches the full path; any other is relative to the
+ * workspace folder (`src/**`).
+ */
+export function matchesGlob(
+  glob: string,
+  filePath: string | undefined,
+  workspaceFolder?: string,
+): boolean {
+  if (!filePath) return false;
+  const file = normalize(filePath);
+  const pattern = normalize(expandHome(glob));
+
+  if (!pattern.includes('/')) return globToRegExp(pattern).test(path.posix.basename(file));
+  if (pattern.startsWith('/') || /^[a-zA-Z]:\//.test(pattern)) {
+    return globToRegExp(pattern).test(file);
+  }
+  if (!workspaceFolder) return false;
+  const root = normalize(workspaceFolder).replace(/\/$/, '') + '/';
+  return file.startsWith(root) && globToRegExp(pattern).test(file.slice(root.length));
+}
+
+/** `**` spans directories, `*` and `?` stay within one, `{a,b}` is either. */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let inBraces = false;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      // `**/` also matches no directory at all
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (c === '*') {
+      source += '[^/]*';
+    } else if (c === '?') {
+      source += '[^/]';
+    } else if (c === '{' && !inBraces) {
+      inBraces = true;
+      source += '(?:';
+    } else if (c === '}' && inBraces) {
+      inBraces = false;
+      source += ')';
+    } else if (c === ',' && inBraces) {
+      source += '|';
+    } else {
+      source += c.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, process.platform === 'win32' ? 'i' : '');
+}
+
+function expandHome(p: string): string {
+  return p === '~' || p.startsWith('~/') ? os.homedir() + p.slice(1) : p;
+}
+
+function normalize(p: string): string {
+  return p.replace(/\\/g, '/');
+}
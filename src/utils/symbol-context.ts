@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import { SymbolSignature } from '../types';
+
+/** Only identifiers in this many trailing prefix lines are resolved. */
+const LOOKBACK_LINES = 5;
+/** Maximum identifiers resolved per request (each costs hover + definition calls). */
+const MAX_SYMBOLS = 5;
+/** Signatures longer than this are cut — huge overload sets add noise, not signal. */
+const MAX_SIGNATURE_CHARS = 400;
+
+/** Words that look like calls (`if (`) but never have a useful declaration. */
+const KEYWORDS = new Set([
+  'if',
+  'for',
+  'while',
+  'switch',
+  'catch',
+  'function',
+  'return',
+  'typeof',
+  'await',
+  'new',
+  'super',
+  'import',
+  'require',
+]);
+
+export interface IdentifierRef {
+  name: string;
+  /** Offset of the identifier's first character within the prefix. */
+  offset: number;
+}
+
+/**
+ * Call targets and member accesses in the last few lines of the prefix,
+ * most recent first, deduplicated by name. A word still being typed at the
+ * cursor is skipped — it has no declaration yet.
+ */
+export function findCandidateIdentifiers(prefix: string): IdentifierRef[] {
+  const lines = prefix.split('\n');
+  const start = prefix.length - lines.slice(-LOOKBACK_LINES).join('\n').length;
+  const window = prefix.slice(start);
+
+  const refs: IdentifierRef[] = [];
+  const re = /\.\s*([A-Za-z_$][\w$]*)|([A-Za-z_$][\w$]*)\s*(?=\()/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(window)) !== null) {
+    const name = match[1] ?? match[2];
+    const offset = start + match.index + match[0].indexOf(name);
+    if (offset + name.length === prefix.length) continue;
+    if (KEYWORDS.has(name)) continue;
+    refs.push({ name, offset });
+  }
+
+  const seen = new Set<string>();
+  const result: IdentifierRef[] = [];
+  for (const ref of refs.reverse()) {
+    if (seen.has(ref.name)) continue;
+    seen.add(ref.name);
+    result.push(ref);
+    if (result.length >= MAX_SYMBOLS) break;
+  }
+  return result;
+}
+
+/**
+ * Pull a declaration out of hover contents. Language servers put the
+ * signature in the first fenced code block; plain-text hovers fall back to
+ * their first line.
+ */
+export function signatureFromHover(contents: string[]): string | null {
+  for (const text of contents) {
+    const fence = text.match(/```[\w-]*\n([\s\S]*?)\n```/);
+    if (fence && fence[1].trim()) return clip(fence[1].trim());
+  }
+  const first = contents
+    .find((t) => t.trim())
+    ?.trim()
+    .split('\n')[0];
+  return first ? clip(first) : null;
+}
+
+function clip(signature: string): string {
+  return signature.length > MAX_SIGNATURE_CHARS
+    ? `${signature.slice(0, MAX_SIGNATURE_CHARS)}…`
+    : signature;
+}
+
+function hoverText(content: vscode.MarkdownString | vscode.MarkedString): string {
+  if (typeof content === 'string') return content;
+  if ('language' in content) return `\`\`\`${content.language}\n${content.value}\n\`\`\``;
+  return content.value;
+}
+
+async function resolveIdentifier(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  name: string,
+): Promise<SymbolSignature | null> {
+  const [hovers, definitions] = await Promise.all([
+    vscode.commands.executeCommand<vscode.Hover[]>(
+      'vscode.executeHoverProvider',
+      document.uri,
+      position,
+    ),
+    vscode.commands.executeCommand<Array<vscode.Location | vscode.LocationLink>>(
+      'vscode.executeDefinitionProvider',
+      document.uri,
+      position,
+    ),
+  ]);
+
+  const signature = signatureFromHover((hovers ?? []).flatMap((h) => h.contents.map(hoverText)));
+  if (!signature) return null;
+
+  const def = definitions?.[0];
+  const uri = def && ('targetUri' in def ? def.targetUri : def.uri);
+  const range = def && ('targetRange' in def ? def.targetRange : def.range);
+  return {
+    name,
+    signature,
+    ...(uri && { filePath: vscode.workspace.asRelativePath(uri) }),
+    ...(range && { line: range.start.line + 1 }),
+  };
+}
+
+/** The signature of the call the cursor is inside, if any (e.g. after `foo(a, `). */
+async function resolveActiveCall(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+): Promise<SymbolSignature | null> {
+  const help = await vscode.commands.executeCommand<vscode.SignatureHelp | undefined>(
+    'vscode.executeSignatureHelpProvider',
+    document.uri,
+    position,
+  );
+  const sig = help?.signatures[help.activeSignature ?? 0];
+  if (!sig) return null;
+  const name = sig.label.match(/([A-Za-z_$][\w$]*)\s*[(<]/)?.[1] ?? sig.label;
+  return { name, signature: clip(sig.label) };
+}
+
+/**
+ * Resolve declarations of the symbols used near the cursor through the
+ * language server (hover, definition and signature-help providers), so the
+ * model sees real parameter lists instead of guessing them.
+ *
+ * Everything is best-effort: providers that are missing, slow (past
+ * `timeoutMs`), or throw simply contribute nothing.
+ */
+export async function collectSymbolContext(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  prefix: string,
+  timeoutMs: number,
+): Promise<SymbolSignature[]> {
+  const prefixStart = document.offsetAt(position) - prefix.length;
+  const lookups: Array<Promise<SymbolSignature | null>> = [
+    resolveActiveCall(document, position),
+    ...findCandidateIdentifiers(prefix).map((ref) =>
+      resolveIdentifier(document, document.positionAt(prefixStart + ref.offset), ref.name),
+    ),
+  ].map((p) => p.catch(() => null));
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), timeoutMs);
+  });
+  const settled = await Promise.all(lookups.map((p) => Promise.race([p, timeout])));
+  clearTimeout(timer);
+
+  const seen = new Set<string>();
+  const symbols: SymbolSignature[] = [];
+  for (const symbol of settled) {
+    if (!symbol || seen.has(symbol.name)) continue;
+    seen.add(symbol.name);
+    symbols.push(symbol);
+  }
+  return symbols;
+}
@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { CompletionMode } from '../types';
 import { Logger } from './logger';
 
 export type LedgerSource =
@@ -7,6 +8,7 @@ export type LedgerSource =
   | 'command'
   | 'commit-message'
   | 'suggest-edit'
+  | 'chat'
   | 'warmup'
   | 'startup';
 
@@ -27,6 +29,22 @@ export interface LedgerEntry {
   outputChars: number;
   slotIndex?: number;
   sessionId?: string;
+  mode?: CompletionMode;
+  languageId?: string;
+  /** Tool that sent the request through the local HTTP endpoint (unset for the editor's own). */
+  caller?: string;
+  /**
+   * Set only on completion outcome entries (recorded once a shown completion
+   * settles, not per request): whether any of it was kept in the document.
+   */
+  accepted?: boolean;
+  /** Characters of the completion kept, net of accepted text deleted afterwards. */
+  acceptedChars?: number;
+  /**
+   * Set only on race outcome entries (one per raced completion, alongside the
+   * contenders' own request entries): the backend whose completion was used.
+   */
+  raceWinner?: string;
 }
 
 export interface PeriodStats {
@@ -35,6 +53,14 @@ export interface PeriodStats {
   inputTokens: number;
   outputTokens: number;
   durationMs: number;
+  /** Estimated spend in USD, from entries that carry a cost. */
+  costUsd: number;
+  /** Completions shown with a recorded outcome. */
+  shown: number;
+  accepted: number;
+  acceptedChars: number;
+  /** Percentage of shown completions that were (at least partially) accepted. */
+  acceptanceRate: number;
 }
 
 export interface LedgerSummary {
@@ -44,8 +70,30 @@ export interface LedgerSummary {
   byModel: Record<string, PeriodStats>;
   bySource: Record<string, PeriodStats>;
   byProject: Record<string, PeriodStats>;
+  byMode: Record<string, PeriodStats>;
+  byLanguage: Record<string, PeriodStats>;
+  byCaller: Record<string, PeriodStats>;
+  /** Raced completions won, per backend. */
+  raceWins: Record<string, number>;
+  /** Estimated spend in USD per model, for each period (models with a recorded cost only). */
+  spendByModel: {
+    today: Record<string, number>;
+    thisWeek: Record<string, number>;
+    thisMonth: Record<string, number>;
+  };
 }
 
+/** Requests, tokens and spend on one backend, for budgets. */
+export interface BackendUsage {
+  /** Requests, not counting pool startups and warmups. */
+  requests: number;
+  /** Input and output tokens, warmups included. */
+  tokens: number;
+  costUsd: number;
+}
+
+export type BackendUsageByBackend = Record<'claude-code' | 'api', BackendUsage>;
+
 /** Maximum active file size before rotation (1MB). */
 const ROTATION_THRESHOLD = 1_048_576;
 
@@ -53,10 +101,58 @@ const ROTATION_THRESHOLD = 1_048_576;
 const ARCHIVE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 1 month
 
 function emptyStats(): PeriodStats {
-  return { requests: 0, startups: 0, inputTokens: 0, outputTokens: 0, durationMs: 0 };
+  return {
+    requests: 0,
+    startups: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    durationMs: 0,
+    costUsd: 0,
+    shown: 0,
+    accepted: 0,
+    acceptedChars: 0,
+    acceptanceRate: 0,
+  };
+}
+
+function emptyBackendUsage(): BackendUsageByBackend {
+  return {
+    'claude-code': { requests: 0, tokens: 0, costUsd: 0 },
+    api: { requests: 0, tokens: 0, costUsd: 0 },
+  };
+}
+
+/** Start of today, of the week (Monday) and of the month, at local midnight. */
+function periodStarts(): { todayMs: number; weekMs: number; monthMs: number } {
+  const todayStart = new Date();
+  todayStart.setHours(0, 0, 0, 0);
+
+  // Week start: most recent Monday at midnight
+  const weekStart = new Date(todayStart);
+  weekStart.setDate(weekStart.getDate() - ((weekStart.getDay() + 6) % 7));
+
+  // Month start: 1st of current month at midnight
+  const monthStart = new Date(todayStart);
+  monthStart.setDate(1);
+
+  return {
+    todayMs: todayStart.getTime(),
+    weekMs: weekStart.getTime(),
+    monthMs: monthStart.getTime(),
+  };
 }
 
 function addToStats(stats: PeriodStats, entry: LedgerEntry): void {
+  if (entry.accepted !== undefined) {
+    // Outcome entry — the request itself was recorded separately
+    stats.shown++;
+    if (entry.accepted) {
+      stats.accepted++;
+    }
+    stats.acceptedChars += entry.acceptedChars ?? 0;
+    stats.acceptanceRate = Math.round((stats.accepted / stats.shown) * 100);
+    return;
+  }
   if (entry.source === 'startup') {
     stats.startups++;
   } else {
@@ -65,6 +161,12 @@ function addToStats(stats: PeriodStats, entry: LedgerEntry): void {
   stats.inputTokens += entry.inputTokens ?? 0;
   stats.outputTokens += entry.outputTokens ?? 0;
   stats.durationMs += entry.durationMs;
+  stats.costUsd += entry.costUsd ?? 0;
+}
+
+function addSpend(spend: Record<string, number>, entry: LedgerEntry): void {
+  if (entry.costUsd === undefined || !entry.model) return;
+  spend[entry.model] = (spend[entry.model] ?? 0) + entry.costUsd;
 }
 
 export class UsageLedger {
@@ -99,54 +201,34 @@ export class UsageLedger {
       byModel: {},
       bySource: {},
       byProject: {},
+      byMode: {},
+      byLanguage: {},
+      byCaller: {},
+      raceWins: {},
+      spendByModel: { today: {}, thisWeek: {}, thisMonth: {} },
     };
 
-    let lines: string[];
-    try {
-      if (!fs.existsSync(this.filePath)) {
-        return summary;
-      }
-      const content = fs.readFileSync(this.filePath, 'utf-8');
-      lines = content.split('\n').filter((l) => l.trim().length > 0);
-    } catch {
-      return summary;
-    }
-
-    const todayStart = new Date();
-    todayStart.setHours(0, 0, 0, 0);
-    const todayMs = todayStart.getTime();
-
-    // Week start: most recent Monday at midnight
-    const weekStart = new Date(todayStart);
-    weekStart.setDate(weekStart.getDate() - ((weekStart.getDay() + 6) % 7));
-    const weekMs = weekStart.getTime();
-
-    // Month start: 1st of current month at midnight
-    const monthStart = new Date(todayStart);
-    monthStart.setDate(1);
-    const monthMs = monthStart.getTime();
-
-    for (const line of lines) {
-      let entry: LedgerEntry;
-      try {
-        entry = JSON.parse(line);
-      } catch {
-        continue; // skip corrupt lines
-      }
+    const { todayMs, weekMs, monthMs } = periodStarts();
 
-      if (!entry.ts || !entry.source) {
+    for (const entry of this.readEntries(this.filePath)) {
+      // Race outcome — the requests themselves were recorded separately
+      if (entry.raceWinner) {
+        summary.raceWins[entry.raceWinner] = (summary.raceWins[entry.raceWinner] ?? 0) + 1;
         continue;
       }
 
       // Period aggregation
       if (entry.ts >= todayMs) {
         addToStats(summary.today, entry);
+        addSpend(summary.spendByModel.today, entry);
       }
       if (entry.ts >= weekMs) {
         addToStats(summary.thisWeek, entry);
+        addSpend(summary.spendByModel.thisWeek, entry);
       }
       if (entry.ts >= monthMs) {
         addToStats(summary.thisMonth, entry);
+        addSpend(summary.spendByModel.thisMonth, entry);
       }
 
       // By-model
@@ -170,11 +252,61 @@ export class UsageLedger {
         }
         addToStats(summary.byProject[entry.project], entry);
       }
+
+      // By-mode
+      if (entry.mode) {
+        if (!summary.byMode[entry.mode]) {
+          summary.byMode[entry.mode] = emptyStats();
+        }
+        addToStats(summary.byMode[entry.mode], entry);
+      }
+
+      // By-language
+      if (entry.languageId) {
+        if (!summary.byLanguage[entry.languageId]) {
+          summary.byLanguage[entry.languageId] = emptyStats();
+        }
+        addToStats(summary.byLanguage[entry.languageId], entry);
+      }
+
+      // By-caller
+      if (entry.caller) {
+        if (!summary.byCaller[entry.caller]) {
+          summary.byCaller[entry.caller] = emptyStats();
+        }
+        addToStats(summary.byCaller[entry.caller], entry);
+      }
     }
 
     return summary;
   }
 
+  /**
+   * Usage per backend today and this month. Unlike getSummary(), this also
+   * reads the archives rotated this month, so a budget can't lose spend to
+   * rotation. Entries without a backend come from Claude Code.
+   */
+  getBackendUsage(): { today: BackendUsageByBackend; thisMonth: BackendUsageByBackend } {
+    const usage = { today: emptyBackendUsage(), thisMonth: emptyBackendUsage() };
+    const { todayMs, monthMs } = periodStarts();
+
+    for (const file of [...this.archivesSince(monthMs), this.filePath]) {
+      for (const entry of this.readEntries(file)) {
+        // Outcome entries repeat requests recorded separately
+        if (entry.ts < monthMs || entry.accepted !== undefined || entry.raceWinner) continue;
+        const backend = entry.backend ?? 'claude-code';
+        const periods = entry.ts >= todayMs ? [usage.today, usage.thisMonth] : [usage.thisMonth];
+        for (const period of periods) {
+          const totals = period[backend];
+          if (entry.source !== 'startup' && entry.source !== 'warmup') totals.requests++;
+          totals.tokens += (entry.inputTokens ?? 0) + (entry.outputTokens ?? 0);
+          totals.costUsd += entry.costUsd ?? 0;
+        }
+      }
+    }
+    return usage;
+  }
+
   dispose(): void {
     // No open handles to clean up
   }
@@ -191,6 +323,54 @@ export class UsageLedger {
     }
   }
 
+  /** Parsed entries of a ledger file, skipping corrupt lines. Empty if it can't be read. */
+  private readEntries(filePath: string): LedgerEntry[] {
+    let lines: string[];
+    try {
+      if (!fs.existsSync(filePath)) {
+        return [];
+      }
+      const content = fs.readFileSync(filePath, 'utf-8');
+      lines = content.split('\n').filter((l) => l.trim().length > 0);
+    } catch {
+      return [];
+    }
+
+    const entries: LedgerEntry[] = [];
+    for (const line of lines) {
+      let entry: LedgerEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue; // skip corrupt lines
+      }
+
+      if (!entry.ts || !entry.source) {
+        continue;
+      }
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  /** Archives rotated since `sinceMs` — older ones hold only older entries. */
+  private archivesSince(sinceMs: number): string[] {
+    try {
+      // Archive names carry the UTC date, up to a day off local midnight
+      const sinceDate = new Date(sinceMs - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      return fs
+        .readdirSync(this.dirPath)
+        .filter((file) => {
+          const match = file.match(/^usage-ledger-(\d{4}-\d{2}-\d{2})\.jsonl$/);
+          return match !== null && match[1] >= sinceDate;
+        })
+        .sort()
+        .map((file) => path.join(this.dirPath, file));
+    } catch {
+      return [];
+    }
+  }
+
   private checkRotation(): void {
     try {
       const stat = fs.statSync(this.filePath);
@@ -9,6 +9,8 @@ export interface UsageSnapshot {
   byModel: Record<string, number>;
   isBurst: boolean;
   cacheHits: number;
+  /** Cache hits served by continuing a completion the user typed into or backspaced over. */
+  typeaheadHits: number;
   cacheMisses: number;
   cacheHitRate: number;
   errors: number;
@@ -22,6 +24,7 @@ export class UsageTracker {
   private readonly rateWindowMs: number;
   private readonly burstThreshold: number;
   private _cacheHits = 0;
+  private _typeaheadHits = 0;
   private _cacheMisses = 0;
   private _errors = 0;
   private _inputChars = 0;
@@ -44,8 +47,11 @@ export class UsageTracker {
     }
   }
 
-  recordCacheHit(): void {
+  recordCacheHit(typeahead = false): void {
     this._cacheHits++;
+    if (typeahead) {
+      this._typeaheadHits++;
+    }
   }
 
   recordCacheMiss(): void {
@@ -89,6 +95,7 @@ export class UsageTracker {
       byModel,
       isBurst: ratePerMinute >= this.burstThreshold,
       cacheHits: this._cacheHits,
+      typeaheadHits: this._typeaheadHits,
       cacheMisses: this._cacheMisses,
       cacheHitRate,
       errors: this._errors,
@@ -101,6 +108,7 @@ export class UsageTracker {
   reset(): void {
     this.entries = [];
     this._cacheHits = 0;
+    this._typeaheadHits = 0;
     this._cacheMisses = 0;
     this._errors = 0;
     this._inputChars = 0;
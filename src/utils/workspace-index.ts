@@ -0,0 +1,269 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { execFile } from 'child_process';
+import { RelatedSnippet } from '../types';
+import { Bm25Index, chunkText } from './bm25';
+import { Logger } from './logger';
+
+/** Cap on indexed files — large monorepos get a partial (first-found) index. */
+const MAX_FILES = 5000;
+/** Files larger than this are skipped (generated code, data dumps, lockfiles). */
+const MAX_FILE_BYTES = 100_000;
+/** Retrieval candidates considered before fitting into the character budget. */
+const TOP_K = 8;
+/** How much text around the cursor is used as the retrieval query. */
+const QUERY_PREFIX_CHARS = 1000;
+const QUERY_SUFFIX_CHARS = 300;
+/** Delay before writing the index after an update, so a burst of saves is one write. */
+const PERSIST_DELAY_MS = 5000;
+const GIT_TIMEOUT_MS = 10_000;
+/** Bump when the persisted format or chunking changes — older files are rebuilt. */
+const INDEX_VERSION = 1;
+
+/** Always skipped, even outside a git repo where .gitignore can't be consulted. */
+const ALWAYS_SKIP = /(^|\/)(node_modules|\.git)\//;
+
+interface PersistedIndex {
+  version: number;
+  root: string;
+  files: Record<string, { mtimeMs: number; chunks: string[] }>;
+}
+
+/**
+ * Local lexical (BM25) index of the workspace, used to retrieve chunks that
+ * resemble the text around the cursor. No embeddings or network calls.
+ *
+ * Files are discovered with findFiles (which applies `files.exclude`) and, in
+ * git repos, filtered through `git ls-files --exclude-standard` so
+ * `.gitignore` is respected. The index is persisted under STATE_DIR and
+ * refreshed incrementally: on startup only files whose mtime changed are
+ * re-read, and saved files are re-indexed as they are written.
+ */
+export class WorkspaceIndex implements vscode.Disposable {
+  private index = new Bm25Index();
+  private mtimes = new Map<string, number>();
+  private readonly root: string;
+  private readonly storePath: string;
+  private readonly logger: Logger;
+  private disposables: vscode.Disposable[] = [];
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private gitAvailable = false;
+  private disposed = false;
+
+  constructor(root: string, stateDir: string, logger: Logger) {
+    this.root = root;
+    this.logger = logger;
+    const key = createHash('sha1').update(root).digest('hex').slice(0, 16);
+    this.storePath = path.join(stateDir, 'workspace-index', `${key}.json`);
+
+    this.disposables.push(
+      vscode.workspace.onDidSaveTextDocument((doc) => {
+        this.onSave(doc.uri).catch((err) => {
+          this.logger.debug(`WorkspaceIndex: re-index failed for ${doc.fileName}: ${err}`);
+        });
+      }),
+      vscode.workspace.onDidDeleteFiles((e) => {
+        for (const uri of e.files) this.removeFile(this.relative(uri.fsPath));
+      }),
+    );
+  }
+
+  /** Load the persisted index, then bring it up to date with the workspace. */
+  async build(): Promise<void> {
+    const start = Date.now();
+    this.load();
+
+    const tracked = await this.gitListFiles();
+    this.gitAvailable = tracked !== null;
+    const uris = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(this.root, '**/*'),
+      undefined,
+      MAX_FILES * 4,
+    );
+
+    const wanted = new Set<string>();
+    for (const uri of uris) {
+      const rel = this.relative(uri.fsPath);
+      if (ALWAYS_SKIP.test(rel)) continue;
+      if (tracked && !tracked.has(rel)) continue;
+      wanted.add(rel);
+      if (wanted.size >= MAX_FILES) break;
+    }
+
+    for (const rel of [...this.mtimes.keys()]) {
+      if (!wanted.has(rel)) this.removeFile(rel);
+    }
+
+    let updated = 0;
+    let processed = 0;
+    for (const rel of wanted) {
+      if (this.disposed) return;
+      if (await this.indexFile(rel)) updated++;
+      // Yield periodically so a large first build doesn't starve the extension host
+      if (++processed % 50 === 0) await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    this.logger.info(
+      `WorkspaceIndex: ${this.index.fileCount} files, ${this.index.chunkCount} chunks (${updated} re-indexed) in ${Date.now() - start}ms`,
+    );
+    if (updated > 0) this.schedulePersist();
+  }
+
+  /**
+   * Retrieve the chunks most relevant to the text around the cursor, fitted
+   * into `maxChars`. Chunks from the current file are excluded.
+   */
+  search(prefix: string, suffix: string, filePath: string, maxChars: number): RelatedSnippet[] {
+    if (maxChars <= 0) return [];
+    const query = prefix.slice(-QUERY_PREFIX_CHARS) + suffix.slice(0, QUERY_SUFFIX_CHARS);
+    const hits = this.index.search(query, TOP_K, this.relative(filePath));
+
+    const snippets: RelatedSnippet[] = [];
+    let used = 0;
+    for (const hit of hits) {
+      if (used + hit.content.length > maxChars) continue;
+      snippets.push({ filePath: hit.filePath, content: hit.content });
+      used += hit.content.length;
+    }
+    return snippets;
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    for (const d of this.disposables) d.dispose();
+    this.disposables = [];
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+      this.persist();
+    }
+  }
+
+  private async onSave(uri: vscode.Uri): Promise<void> {
+    if (uri.scheme !== 'file') return;
+    const rel = this.relative(uri.fsPath);
+    if (rel.startsWith('..') || path.isAbsolute(rel) || ALWAYS_SKIP.test(rel)) return;
+
+    // New files: apply the same filters as the initial build
+    if (!this.mtimes.has(rel)) {
+      if (this.mtimes.size >= MAX_FILES) return;
+      const matches = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(this.root, rel),
+        undefined,
+        1,
+      );
+      if (matches.length === 0) return; // excluded by files.exclude
+      if (this.gitAvailable && (await this.gitIgnored(rel))) return;
+    }
+
+    if (await this.indexFile(rel)) this.schedulePersist();
+  }
+
+  /** Index one file if it changed since it was last indexed. Returns true if re-indexed. */
+  private async indexFile(rel: string): Promise<boolean> {
+    const abs = path.join(this.root, rel);
+    try {
+      const stat = await fs.promises.stat(abs);
+      if (!stat.isFile() || stat.size > MAX_FILE_BYTES) {
+        this.removeFile(rel);
+        return false;
+      }
+      if (this.mtimes.get(rel) === stat.mtimeMs) return false;
+
+      const text = await fs.promises.readFile(abs, 'utf8');
+      if (text.includes('\0')) {
+        // Binary file — remember the mtime so it isn't re-read every build
+        this.index.removeFile(rel);
+        this.mtimes.set(rel, stat.mtimeMs);
+        return false;
+      }
+      this.index.setFile(rel, chunkText(text));
+      this.mtimes.set(rel, stat.mtimeMs);
+      return true;
+    } catch {
+      this.removeFile(rel);
+      return false;
+    }
+  }
+
+  private removeFile(rel: string): void {
+    if (!this.mtimes.has(rel)) return;
+    this.index.removeFile(rel);
+    this.mtimes.delete(rel);
+    this.schedulePersist();
+  }
+
+  private relative(fsPath: string): string {
+    return path.relative(this.root, fsPath).split(path.sep).join('/');
+  }
+
+  /** Files git considers part of the repo (tracked + untracked-not-ignored), or null outside git. */
+  private gitListFiles(): Promise<Set<string> | null> {
+    return new Promise((resolve) => {
+      execFile(
+        'git',
+        ['ls-files', '--cached', '--others', '--exclude-standard', '-z'],
+        { cwd: this.root, timeout: GIT_TIMEOUT_MS, maxBuffer: 64 * 1024 * 1024 },
+        (err, stdout) => {
+          if (err) {
+            resolve(null);
+            return;
+          }
+          resolve(new Set(stdout.split('\0').filter(Boolean)));
+        },
+      );
+    });
+  }
+
+  private gitIgnored(rel: string): Promise<boolean> {
+    return new Promise((resolve) => {
+      execFile(
+        'git',
+        ['check-ignore', '-q', rel],
+        { cwd: this.root, timeout: GIT_TIMEOUT_MS },
+        (err) =>
+          // Exit code 0 means ignored; 1 means not ignored
+          resolve(!err),
+      );
+    });
+  }
+
+  private load(): void {
+    try {
+      const data = JSON.parse(fs.readFileSync(this.storePath, 'utf8')) as PersistedIndex;
+      if (data.version !== INDEX_VERSION || data.root !== this.root) return;
+      for (const [rel, file] of Object.entries(data.files)) {
+        this.index.setFile(rel, file.chunks);
+        this.mtimes.set(rel, file.mtimeMs);
+      }
+    } catch {
+      // Missing or corrupt — start from scratch
+    }
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer || this.disposed) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, PERSIST_DELAY_MS);
+  }
+
+  private persist(): void {
+    const data: PersistedIndex = { version: INDEX_VERSION, root: this.root, files: {} };
+    for (const [rel, mtimeMs] of this.mtimes) {
+      data.files[rel] = { mtimeMs, chunks: this.index.getFileChunks(rel) };
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.storePath), { recursive: true });
+      // Write-then-rename so a crash mid-write never leaves a truncated index
+      const tmp = `${this.storePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(data));
+      fs.renameSync(tmp, this.storePath);
+    } catch (err) {
+      this.logger.error(`WorkspaceIndex: failed to persist: ${err}`);
+    }
+  }
+}